@@ -0,0 +1,30 @@
+// Import the Stack navigator + Redirect from expo-router
+import { Redirect, Stack } from "expo-router";
+
+import { useAuth } from "@/lib/auth-context";
+
+// This component defines the layout for all routes inside the (admin) folder
+// (the admin console: recent items, open reports, user lookups)
+export default function AdminLayout() {
+  const { loading, isAdmin } = useAuth();
+
+  // Wait for the admin claim before deciding
+  if (loading) return null;
+
+  // AuthGate already sends non-admins away; this keeps the screens from ever rendering for them
+  if (!isAdmin) {
+    return <Redirect href="/(private)" />;
+  }
+
+  // Same header-less stack as the private screens
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    />
+  );
+}
+/* This file defines the layout for the admin console screens.
+Only users with the admin custom claim can reach them.
+*/
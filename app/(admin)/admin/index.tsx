@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, Pressable, Platform, ScrollView } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Href, useRouter } from "expo-router";
+import { collection, getCountFromServer, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+type Counts = { items: number | null; reports: number | null };
+
+type Tile = {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  hint: string;
+  href: Href;
+  count?: keyof Counts;
+};
+
+// The console's sections
+const TILES: Tile[] = [
+  { icon: "cube-outline", label: "Recent items", hint: "Edit, re-categorize, hide or remove any listing", href: "/admin/items", count: "items" },
+  { icon: "flag-outline", label: "Open reports", hint: "Hide items, suspend users or dismiss reports", href: "/admin/reports", count: "reports" },
+  { icon: "people-outline", label: "Users", hint: "Look up an account and grant or revoke roles", href: "/admin/users" },
+];
+
+export default function AdminDashboardScreen() {
+  const router = useRouter();
+  const [counts, setCounts] = useState<Counts>({ items: null, reports: null });
+
+  // Counts on the tiles (aggregation queries, no documents are downloaded)
+  useEffect(() => {
+    Promise.all([
+      getCountFromServer(collection(db, "items")),
+      getCountFromServer(query(collection(db, "reports"), where("status", "==", "open"))),
+    ])
+      .then(([items, reports]) => setCounts({ items: items.data().count, reports: reports.data().count }))
+      .catch((e) => console.log("Admin counts error:", e));
+  }, []);
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Admin Console</Text>
+
+        <View style={{ width: 34 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {TILES.map((tile) => (
+          <Pressable key={tile.label} style={styles.tile} onPress={() => router.push(tile.href)}>
+            <Ionicons name={tile.icon} size={26} color="#FFFFFF" />
+
+            <View style={{ flex: 1 }}>
+              <Text style={styles.tileLabel}>{tile.label}</Text>
+              <Text style={styles.tileHint}>{tile.hint}</Text>
+            </View>
+
+            {tile.count && counts[tile.count] !== null ? (
+              <Text style={styles.count}>{counts[tile.count]}</Text>
+            ) : null}
+
+            <Ionicons name="chevron-forward" size={18} color="rgba(255,255,255,0.8)" />
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 28,
+    gap: 12,
+  },
+  tile: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    borderRadius: 18,
+    padding: 16,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  tileLabel: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 15,
+  },
+  tileHint: {
+    marginTop: 4,
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "600",
+    fontSize: 12,
+  },
+  count: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 18,
+  },
+});
+/*
+This file displays the admin console's dashboard (/admin), reached from Profile → Admin Console.
+Each tile opens a section: recent items, open reports and user lookups, with live counts.
+*/
@@ -0,0 +1,335 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Platform,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { doc, onSnapshot } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { adminDeleteItem, adminUpdateItem } from "@/lib/admin-console";
+import { ITEM_CATEGORIES, ItemCategory, validateItemEdit } from "@/lib/roles";
+
+type ItemDoc = {
+  title: string;
+  description: string;
+  category: string;
+  ownerId: string;
+  hidden?: boolean;
+};
+
+export default function AdminItemScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [item, setItem] = useState<ItemDoc | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  // Form fields (filled from the item once it loads)
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("");
+
+  // ✅ LIVE item (an owner edit or a report decision shows up right away)
+  useEffect(() => {
+    if (!id) return;
+
+    let filled = false;
+    const unsub = onSnapshot(
+      doc(db, "items", id),
+      (snap) => {
+        const data = snap.exists() ? (snap.data() as ItemDoc) : null;
+        setItem(data);
+        setLoading(false);
+
+        // The form keeps what the admin typed after the first load
+        if (data && !filled) {
+          filled = true;
+          setTitle(data.title ?? "");
+          setDescription(data.description ?? "");
+          setCategory(data.category ?? "");
+        }
+      },
+      (e) => {
+        console.log("Admin item error:", e);
+        setLoading(false);
+      },
+    );
+
+    return unsub;
+  }, [id]);
+
+  const save = async () => {
+    const invalid = validateItemEdit(title, description, category);
+    if (invalid) {
+      Alert.alert("Missing fields", invalid);
+      return;
+    }
+
+    try {
+      setBusy(true);
+      await adminUpdateItem(id, {
+        title: title.trim(),
+        description: description.trim(),
+        category: category as ItemCategory,
+      });
+      Alert.alert("Saved", "The listing was updated.");
+    } catch (e: any) {
+      console.log("Admin update item error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to update the listing.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleHidden = async () => {
+    try {
+      setBusy(true);
+      await adminUpdateItem(id, { hidden: !item?.hidden });
+    } catch (e: any) {
+      console.log("Admin hide item error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to update the listing.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = () => {
+    Alert.alert("Remove listing", "The item and its photos will be deleted for everyone.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            setBusy(true);
+            await adminDeleteItem(id);
+            router.back();
+          } catch (e: any) {
+            console.log("Admin delete item error:", e);
+            Alert.alert("Error", e?.message ?? "Failed to remove the listing.");
+            setBusy(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Edit listing</Text>
+
+        <View style={{ width: 34 }} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator color="#FFFFFF" style={{ marginTop: 30 }} />
+      ) : !item ? (
+        <Text style={styles.infoText}>This item no longer exists.</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {item.hidden ? <Text style={styles.notice}>Hidden by a moderator</Text> : null}
+
+          {/* What the item looks like to users + who posted it */}
+          <View style={styles.links}>
+            <Pressable onPress={() => router.push({ pathname: "/item/[id]", params: { id } })} hitSlop={6}>
+              <Text style={styles.link}>Open item</Text>
+            </Pressable>
+
+            <Pressable
+              onPress={() => router.push({ pathname: "/user/[uid]", params: { uid: item.ownerId } })}
+              hitSlop={6}
+            >
+              <Text style={styles.link}>Owner</Text>
+            </Pressable>
+          </View>
+
+          <Text style={styles.label}>Title</Text>
+          <TextInput style={styles.input} value={title} onChangeText={setTitle} />
+
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={description}
+            onChangeText={setDescription}
+            multiline
+          />
+
+          <Text style={styles.label}>Category</Text>
+          <View style={styles.chips}>
+            {ITEM_CATEGORIES.map((c) => (
+              <Pressable
+                key={c}
+                onPress={() => setCategory(c)}
+                style={[styles.chip, category === c && styles.chipOn]}
+              >
+                <Text style={[styles.chipText, category === c && styles.chipTextOn]}>{c}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {busy ? (
+            <ActivityIndicator color="#FFFFFF" style={{ marginTop: 24 }} />
+          ) : (
+            <>
+              <Pressable onPress={save} style={styles.saveBtn}>
+                <Text style={styles.saveText}>Save changes</Text>
+              </Pressable>
+
+              <Pressable onPress={toggleHidden} style={styles.outlineBtn}>
+                <Text style={styles.outlineText}>{item.hidden ? "Unhide item" : "Hide item"}</Text>
+              </Pressable>
+
+              <Pressable onPress={remove} style={styles.dangerBtn}>
+                <Text style={styles.outlineText}>Remove listing</Text>
+              </Pressable>
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  infoText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    paddingHorizontal: 16,
+    paddingTop: 18,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 28,
+  },
+  notice: {
+    color: "#FFCDD2",
+    fontWeight: "800",
+    marginBottom: 8,
+  },
+  links: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  link: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    textDecorationLine: "underline",
+  },
+  label: {
+    marginTop: 16,
+    marginBottom: 6,
+    color: "#FFFFFF",
+    fontWeight: "800",
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: "rgba(255,255,255,0.92)",
+    color: "rgba(0,0,0,0.75)",
+  },
+  textArea: {
+    minHeight: 100,
+    textAlignVertical: "top",
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.6)",
+  },
+  chipOn: {
+    backgroundColor: "#FFFFFF",
+  },
+  chipText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+  chipTextOn: {
+    color: "#4F98DC",
+  },
+  saveBtn: {
+    marginTop: 24,
+    height: 46,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#FFFFFF",
+  },
+  saveText: {
+    color: "#4F98DC",
+    fontWeight: "900",
+  },
+  outlineBtn: {
+    marginTop: 12,
+    height: 46,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.6)",
+  },
+  dangerBtn: {
+    marginTop: 12,
+    height: 46,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(229,57,53,0.9)",
+  },
+  outlineText: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+  },
+});
+/*
+This file displays the admin listing editor (/admin/item/[id]).
+An admin edits the title and description, re-categorizes, hides or unhides, or removes any listing
+through the admin console Cloud Functions.
+*/
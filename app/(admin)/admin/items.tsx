@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, Pressable, Platform, FlatList, ActivityIndicator, Image } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { collection, limit, onSnapshot, orderBy, query } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { ItemThumbFields, itemThumbnail } from "@/lib/thumbnails";
+
+// Newest items shown at once
+const RECENT_LIMIT = 50;
+
+type ItemRow = ItemThumbFields & {
+  id: string;
+  title: string;
+  category: string;
+  status?: string;
+  hidden?: boolean;
+};
+
+export default function AdminItemsScreen() {
+  const router = useRouter();
+  const [items, setItems] = useState<ItemRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // ✅ LIVE list of the newest items (hidden ones included, so they can be unhidden)
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "items"), orderBy("createdAt", "desc"), limit(RECENT_LIMIT)),
+      (snap) => {
+        setItems(snap.docs.map((d) => ({ id: d.id, ...(d.data() as Omit<ItemRow, "id">) })));
+        setLoading(false);
+      },
+      (e) => {
+        console.log("Admin items error:", e);
+        setLoading(false);
+      },
+    );
+
+    return unsub;
+  }, []);
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Recent items</Text>
+
+        <View style={{ width: 34 }} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator color="#FFFFFF" style={{ marginTop: 30 }} />
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(i) => i.id}
+          contentContainerStyle={styles.content}
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+          ListEmptyComponent={<Text style={styles.infoText}>No items yet.</Text>}
+          renderItem={({ item }) => {
+            const thumb = itemThumbnail(item, "small");
+
+            return (
+              <Pressable
+                style={styles.card}
+                onPress={() => router.push({ pathname: "/admin/item/[id]", params: { id: item.id } })}
+              >
+                {thumb ? (
+                  <Image source={{ uri: thumb }} style={styles.thumb} />
+                ) : (
+                  <View style={[styles.thumb, styles.thumbEmpty]}>
+                    <Ionicons name="image-outline" size={20} color="rgba(255,255,255,0.8)" />
+                  </View>
+                )}
+
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.title} numberOfLines={1}>
+                    {item.title}
+                  </Text>
+                  <Text style={styles.meta}>
+                    {item.category} · {item.status ?? "available"}
+                  </Text>
+                  {item.hidden ? <Text style={styles.hidden}>Hidden</Text> : null}
+                </View>
+
+                <Ionicons name="create-outline" size={20} color="#FFFFFF" />
+              </Pressable>
+            );
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  infoText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    paddingTop: 18,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 28,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderRadius: 18,
+    padding: 12,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  thumb: {
+    width: 56,
+    height: 56,
+    borderRadius: 12,
+  },
+  thumbEmpty: {
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0,0,0,0.15)",
+  },
+  title: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 15,
+  },
+  meta: {
+    marginTop: 4,
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "600",
+    fontSize: 12,
+  },
+  hidden: {
+    marginTop: 4,
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+});
+/*
+This file displays the newest items of the admin console (/admin/items), hidden ones included.
+Tapping an item opens the admin listing editor.
+*/
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Platform,
+  FlatList,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { collection, limit, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/lib/auth-context";
+import { resolveReport } from "@/lib/moderation";
+import {
+  REPORT_ACTIONS,
+  REPORT_ACTION_LABELS,
+  Report,
+  ReportAction,
+  canApplyAction,
+  reasonLabel,
+  reportTargetLabel,
+} from "@/lib/reports";
+
+// Open reports shown at once (oldest decisions are made first by scrolling down)
+const QUEUE_LIMIT = 50;
+
+// What each action does, asked before it runs
+const CONFIRM_TEXTS: Record<ReportAction, string> = {
+  hide_item: "The item will be hidden from everyone but its owner.",
+  suspend_user: "The account will be disabled and all of its items hidden.",
+  dismiss: "The report will be closed without any action.",
+};
+
+type ReportRow = Report & { id: string };
+
+export default function AdminReportsScreen() {
+  const router = useRouter();
+  const { isAdmin } = useAuth();
+
+  const [reports, setReports] = useState<ReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // ✅ LIVE queue of open reports (resolved ones drop out)
+  useEffect(() => {
+    if (!isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    const unsub = onSnapshot(
+      query(
+        collection(db, "reports"),
+        where("status", "==", "open"),
+        orderBy("createdAt", "desc"),
+        limit(QUEUE_LIMIT),
+      ),
+      (snap) => {
+        setReports(snap.docs.map((d) => ({ id: d.id, ...(d.data() as Report) })));
+        setLoading(false);
+      },
+      (e) => {
+        console.log("Moderation queue error:", e);
+        setLoading(false);
+      },
+    );
+
+    return unsub;
+  }, [isAdmin]);
+
+  const resolve = (report: ReportRow, action: ReportAction) => {
+    Alert.alert(REPORT_ACTION_LABELS[action], CONFIRM_TEXTS[action], [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: REPORT_ACTION_LABELS[action],
+        style: action === "dismiss" ? "default" : "destructive",
+        onPress: async () => {
+          try {
+            setBusyId(report.id);
+            await resolveReport(report.id, action);
+          } catch (e: any) {
+            console.log("Resolve report error:", e);
+            Alert.alert("Error", e?.message ?? "Failed to resolve the report.");
+          } finally {
+            setBusyId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Open reports</Text>
+
+        <View style={{ width: 34 }} />
+      </View>
+
+      {!isAdmin ? (
+        <Text style={styles.infoText}>Only moderators can see this page.</Text>
+      ) : loading ? (
+        <ActivityIndicator color="#FFFFFF" style={{ marginTop: 30 }} />
+      ) : (
+        <FlatList
+          data={reports}
+          keyExtractor={(r) => r.id}
+          contentContainerStyle={styles.content}
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+          ListEmptyComponent={<Text style={styles.infoText}>No open reports.</Text>}
+          renderItem={({ item: report }) => (
+            <View style={styles.card}>
+              <View style={styles.topRow}>
+                <Text style={styles.target}>{reportTargetLabel(report.targetType)}</Text>
+                <Text style={styles.reason}>{reasonLabel(report.reason)}</Text>
+              </View>
+
+              {report.details ? <Text style={styles.details}>{report.details}</Text> : null}
+
+              {/* What the report is about */}
+              <View style={styles.links}>
+                {report.itemId ? (
+                  <Pressable
+                    onPress={() => router.push({ pathname: "/item/[id]", params: { id: report.itemId ?? "" } })}
+                    hitSlop={6}
+                  >
+                    <Text style={styles.link}>Open item</Text>
+                  </Pressable>
+                ) : null}
+
+                <Pressable
+                  onPress={() => router.push({ pathname: "/user/[uid]", params: { uid: report.targetUserId } })}
+                  hitSlop={6}
+                >
+                  <Text style={styles.link}>Reported user</Text>
+                </Pressable>
+              </View>
+
+              {busyId === report.id ? (
+                <ActivityIndicator color="#FFFFFF" style={{ marginTop: 12 }} />
+              ) : (
+                <View style={styles.actions}>
+                  {REPORT_ACTIONS.filter((action) => canApplyAction(action, report)).map((action) => (
+                    <Pressable
+                      key={action}
+                      onPress={() => resolve(report, action)}
+                      style={[styles.actionBtn, action !== "dismiss" && styles.dangerBtn]}
+                    >
+                      <Text style={styles.actionText}>{REPORT_ACTION_LABELS[action]}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  infoText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    paddingHorizontal: 16,
+    paddingTop: 18,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 28,
+  },
+  card: {
+    borderRadius: 18,
+    padding: 16,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  topRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  target: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 15,
+  },
+  reason: {
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+  details: {
+    marginTop: 8,
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  links: {
+    marginTop: 10,
+    flexDirection: "row",
+    gap: 16,
+  },
+  link: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    textDecorationLine: "underline",
+  },
+  actions: {
+    marginTop: 14,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  actionBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: "rgba(0,0,0,0.22)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.25)",
+  },
+  dangerBtn: {
+    backgroundColor: "rgba(229,57,53,0.9)",
+    borderWidth: 0,
+  },
+  actionText: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 12,
+  },
+});
+/*
+This file displays the moderation queue (/admin/reports) of the admin console, visible only to admins (custom claim).
+Each open report shows what was reported and why; the moderator hides the item,
+suspends the reported user or dismisses the report through the resolveReport Cloud Function.
+*/
@@ -0,0 +1,269 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Platform,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { auth } from "@/lib/firebase";
+import { lookupUser, setUserRole } from "@/lib/admin-console";
+import { ROLES, ROLE_LABELS, Role, UserLookup } from "@/lib/roles";
+
+export default function AdminUsersScreen() {
+  const router = useRouter();
+
+  const [search, setSearch] = useState("");
+  const [found, setFound] = useState<UserLookup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const find = async () => {
+    if (!search.trim()) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      setFound(await lookupUser(search));
+    } catch (e: any) {
+      console.log("Lookup user error:", e);
+      setFound(null);
+      setError(e?.message ?? "Failed to look up the user.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeRole = (user: UserLookup, role: Role, granted: boolean) => {
+    const verb = granted ? "Grant" : "Revoke";
+
+    Alert.alert(`${verb} ${ROLE_LABELS[role]}`, `${verb} the ${ROLE_LABELS[role]} role for ${user.name}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: verb,
+        style: granted ? "default" : "destructive",
+        onPress: async () => {
+          try {
+            setBusy(true);
+            const res = await setUserRole(user.uid, role, granted);
+            setFound({ ...user, roles: res.roles });
+
+            // The caller's own claims only change with a fresh ID token
+            if (user.uid === auth.currentUser?.uid) await auth.currentUser.getIdToken(true);
+          } catch (e: any) {
+            console.log("Set user role error:", e);
+            Alert.alert("Error", e?.message ?? "Failed to change the role.");
+          } finally {
+            setBusy(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Users</Text>
+
+        <View style={{ width: 34 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Search by email, phone number or uid */}
+        <View style={styles.searchRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="Email, phone (+962...) or user id"
+            placeholderTextColor="rgba(0,0,0,0.4)"
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={search}
+            onChangeText={setSearch}
+            onSubmitEditing={find}
+            returnKeyType="search"
+          />
+
+          <Pressable onPress={find} style={styles.searchBtn} disabled={busy}>
+            <Ionicons name="search" size={20} color="#4F98DC" />
+          </Pressable>
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        {busy ? <ActivityIndicator color="#FFFFFF" style={{ marginTop: 24 }} /> : null}
+
+        {found && !busy ? (
+          <View style={styles.card}>
+            <Text style={styles.name}>{found.name}</Text>
+            <Text style={styles.detail}>{found.email ?? found.phoneNumber ?? "No email or phone"}</Text>
+            <Text style={styles.detail} selectable>
+              {found.uid}
+            </Text>
+
+            {found.createdAt ? <Text style={styles.detail}>Joined: {found.createdAt}</Text> : null}
+            {found.lastSignInAt ? <Text style={styles.detail}>Last sign-in: {found.lastSignInAt}</Text> : null}
+            {found.suspended || found.disabled ? <Text style={styles.suspended}>Suspended</Text> : null}
+
+            <Pressable
+              onPress={() => router.push({ pathname: "/user/[uid]", params: { uid: found.uid } })}
+              hitSlop={6}
+            >
+              <Text style={styles.link}>Public profile</Text>
+            </Pressable>
+
+            {/* One row per role: held roles can be revoked, the others granted */}
+            {ROLES.map((role) => {
+              const held = found.roles.includes(role);
+
+              return (
+                <View key={role} style={styles.roleRow}>
+                  <Text style={styles.roleText}>
+                    {ROLE_LABELS[role]}: {held ? "yes" : "no"}
+                  </Text>
+
+                  <Pressable
+                    onPress={() => changeRole(found, role, !held)}
+                    style={[styles.roleBtn, held && styles.dangerBtn]}
+                  >
+                    <Text style={styles.roleBtnText}>{held ? "Revoke" : "Grant"}</Text>
+                  </Pressable>
+                </View>
+              );
+            })}
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 28,
+  },
+  searchRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    height: 46,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    backgroundColor: "rgba(255,255,255,0.92)",
+    color: "rgba(0,0,0,0.75)",
+  },
+  searchBtn: {
+    width: 46,
+    height: 46,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#FFFFFF",
+  },
+  errorText: {
+    marginTop: 12,
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+  card: {
+    marginTop: 16,
+    borderRadius: 18,
+    padding: 16,
+    gap: 4,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  name: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 16,
+  },
+  detail: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "600",
+    fontSize: 12,
+  },
+  suspended: {
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+  link: {
+    marginTop: 6,
+    color: "#FFFFFF",
+    fontWeight: "900",
+    textDecorationLine: "underline",
+  },
+  roleRow: {
+    marginTop: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  roleText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+  },
+  roleBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: "rgba(0,0,0,0.22)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.25)",
+  },
+  dangerBtn: {
+    backgroundColor: "rgba(229,57,53,0.9)",
+    borderWidth: 0,
+  },
+  roleBtnText: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 12,
+  },
+});
+/*
+This file displays the user lookup of the admin console (/admin/users).
+An admin finds an account by email, phone number or uid and grants or revokes roles
+(custom claims) through the setUserRole Cloud Function.
+*/
@@ -0,0 +1,242 @@
+// Import Ionicons icon component (used for mail, back and send icons)
+import { Ionicons } from "@expo/vector-icons";
+
+// Import router hooks: navigation + the email passed from the sign-in screen
+import { useLocalSearchParams, useRouter } from "expo-router";
+
+// Import React + useState hook to manage component state (email/loading/error/sent)
+import React, { useState } from "react";
+
+// Import React Native UI components used in the screen
+import {
+  Keyboard, // used to dismiss the keyboard programmatically
+  KeyboardAvoidingView, // moves UI up when keyboard opens (especially iOS)
+  Platform, // to detect iOS/Android and apply platform-specific behavior
+  Pressable, // button-like component with press handling
+  StyleSheet, // for styling
+  Text, // to show text
+  TextInput, // input field
+  TouchableWithoutFeedback, // wrapper to detect taps (used to dismiss keyboard)
+  View, // layout container
+} from "react-native";
+
+// Sends the Firebase password reset email
+import { sendPasswordReset } from "@/lib/account";
+
+// Email check + readable Firebase Auth errors
+import { authErrorMessage, isEmailLike } from "@/lib/auth-errors";
+
+// Export the screen component as default (expo-router uses file name as route)
+export default function ForgotPasswordScreen() {
+  // Router used to go back to sign-in
+  const router = useRouter();
+
+  // Email typed on the sign-in screen (if any) fills the field
+  const params = useLocalSearchParams<{ email?: string }>();
+
+  // State: the email the reset link goes to
+  const [email, setEmail] = useState(params.email ?? "");
+
+  // State: true while Firebase is sending the email
+  const [loading, setLoading] = useState(false);
+
+  // State: error message shown under the input (or null)
+  const [error, setError] = useState<string | null>(null);
+
+  // State: address the link was sent to (shows the confirmation)
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  // Function called when user presses the send button
+  const onSend = async () => {
+    setError(null);
+
+    const cleanEmail = email.trim();
+
+    // Validation: a plausible email address is needed
+    if (!isEmailLike(cleanEmail)) {
+      setError("Please enter your email address.");
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      // Firebase emails a link to choose a new password
+      await sendPasswordReset(cleanEmail);
+
+      setSentTo(cleanEmail);
+    } catch (e: any) {
+      console.log("Password reset error:", e);
+      setError(authErrorMessage(e, "Could not send the email. Please try again."));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // UI rendering
+  return (
+    // When user taps anywhere outside the input, dismiss keyboard
+    <TouchableWithoutFeedback onPress={Keyboard.dismiss} accessible={false}>
+      <KeyboardAvoidingView
+        style={styles.screen}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.container}>
+          {/* Back to sign-in */}
+          <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+            <Ionicons name="chevron-back" size={24} color={stylesVars.text} />
+          </Pressable>
+
+          {/* Page title */}
+          <Text style={styles.title}>Reset Password</Text>
+
+          {sentTo ? (
+            // Confirmation once the email was sent
+            <Text style={styles.info}>
+              If an account exists for {sentTo}, we sent it a link to choose a new password.
+              Check your inbox, then sign in with the new password.
+            </Text>
+          ) : (
+            <>
+              <Text style={styles.info}>
+                Enter the email of your account and we will send you a link to choose a new password.
+              </Text>
+
+              {/* Card that contains the input */}
+              <View style={styles.card}>
+                <View style={styles.inputRow}>
+                  <Ionicons name="mail-outline" size={18} color={stylesVars.icon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Email Address"
+                    placeholderTextColor={stylesVars.placeholder}
+                    autoCapitalize="none"
+                    keyboardType="email-address"
+                    value={email}
+                    onChangeText={setEmail}
+                  />
+                </View>
+              </View>
+
+              {/* If there is an error, show it; otherwise render nothing */}
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+              {/* Send button */}
+              <Pressable
+                onPress={onSend}
+                disabled={loading}
+                style={[styles.primaryBtn, loading && { opacity: 0.6 }]}
+              >
+                <Ionicons name="send" size={20} color={stylesVars.btnIcon} />
+              </Pressable>
+            </>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </TouchableWithoutFeedback>
+  );
+}
+
+// Central place for colors used in this screen (same as sign-in)
+const stylesVars = {
+  bg: "#4F98DC", // background blue
+  text: "#FFFFFF", // white text
+  card: "#FFFFFF", // white card background
+  placeholder: "#4F98DC", // placeholder blue
+  icon: "#4F98DC", // icon blue
+  btn: "#FFFFFF", // white button background
+  btnIcon: "#4F98DC", // button icon color
+  shadow: "#4F98DC", // shadow color (blue)
+};
+
+// Stylesheet for the screen
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: stylesVars.bg,
+  },
+
+  container: {
+    flex: 1,
+    paddingHorizontal: 22,
+    paddingTop: 80,
+    alignItems: "center",
+  },
+
+  // Back arrow in the top-left corner
+  backBtn: {
+    position: "absolute",
+    top: 54,
+    left: 16,
+  },
+
+  title: {
+    color: stylesVars.text,
+    fontSize: 34,
+    fontWeight: "800",
+    marginBottom: 14,
+  },
+
+  // Explanation / confirmation text
+  info: {
+    color: stylesVars.text,
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 22,
+    textAlign: "center",
+    marginBottom: 22,
+  },
+
+  card: {
+    width: "100%",
+    borderRadius: 18,
+    padding: 14,
+    backgroundColor: stylesVars.card,
+    shadowColor: stylesVars.shadow,
+    shadowOpacity: 1,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 8 },
+    elevation: 6,
+  },
+
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.04)",
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    height: 52,
+  },
+
+  input: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 15,
+    color: "rgba(0,0,0,0.75)",
+  },
+
+  errorText: {
+    marginTop: 10,
+    color: "#E53935",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+
+  primaryBtn: {
+    marginTop: 16,
+    width: 180,
+    height: 54,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: stylesVars.btn,
+    shadowColor: stylesVars.shadow,
+    shadowOpacity: 1,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 5,
+  },
+});
+/* This file implements the Reset Password screen of the onboarding flow.
+The user enters their email and Firebase Authentication sends a link to choose a new password.
+*/
@@ -26,6 +26,14 @@ import { signInWithEmailAndPassword } from "firebase/auth";
 // Import the initialized Firebase auth instance from your firebase.ts
 import { auth } from "@/lib/firebase";
 
+// Keeps the notification email (private settings) in step with a changed sign-in email
+import { syncNotificationEmail } from "@/lib/account";
+
+// Other sign-in providers: Google (button) and phone (own screen)
+import GoogleButton from "@/components/google-button";
+import { signInWithGoogle } from "@/lib/sign-in";
+import { authErrorMessage } from "@/lib/auth-errors";
+
 // Export the screen component as default (expo-router uses file name as route)
 export default function SignInScreen() {
   // Create a router instance so we can navigate to other routes
@@ -65,7 +73,10 @@ export default function SignInScreen() {
 
       // Firebase Authentication:
       // checks email/password, and if correct it signs the user in
-      await signInWithEmailAndPassword(auth, cleanEmail, password);
+      const cred = await signInWithEmailAndPassword(auth, cleanEmail, password);
+
+      // The email may have changed since the last sign-in (Settings → Change email)
+      syncNotificationEmail(cred.user).catch((e) => console.log("Email sync error:", e));
 
       // If sign-in succeeded:
       // router.replace removes onboarding screen from back history
@@ -86,6 +97,20 @@ export default function SignInScreen() {
     }
   };
 
+  // Called with the id token once the user picked their Google account
+  const onGoogle = async (idToken: string) => {
+    setError(null);
+
+    try {
+      // A first Google sign-in creates the account (and its profile, see functions/users.js)
+      await signInWithGoogle(idToken);
+      router.replace("/(private)");
+    } catch (e: any) {
+      console.log("Google sign-in error:", e);
+      setError(authErrorMessage(e, "Google sign-in failed. Please try again."));
+    }
+  };
+
   // UI rendering
   return (
     // When user taps anywhere outside inputs, dismiss keyboard
@@ -149,6 +174,15 @@ export default function SignInScreen() {
             </View>
           </View>
 
+          {/* Link to the password reset screen (keeps the typed email) */}
+          <Pressable
+            onPress={() => router.push({ pathname: "/forgot-password", params: { email: email.trim() } })}
+            hitSlop={8}
+            style={styles.forgotBtn}
+          >
+            <Text style={styles.forgotText}>Forgot password?</Text>
+          </Pressable>
+
           {/* If there is an error, show it; otherwise render nothing */}
           {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
@@ -165,6 +199,20 @@ export default function SignInScreen() {
             <Ionicons name="arrow-forward" size={22} color={stylesVars.btnIcon} />
           </Pressable>
 
+          {/* Other sign-in providers */}
+          <Text style={styles.orText}>or</Text>
+
+          <View style={styles.providers}>
+            {/* Hidden until Google client ids are set in app.json */}
+            <GoogleButton label="Continue with Google" onIdToken={onGoogle} />
+
+            {/* Phone number + SMS code */}
+            <Pressable onPress={() => router.push("/phone")} style={styles.providerBtn}>
+              <Ionicons name="call-outline" size={18} color={stylesVars.btnIcon} />
+              <Text style={styles.providerText}>Continue with phone</Text>
+            </Pressable>
+          </View>
+
           {/* Footer row for sign-up navigation */}
           <View style={styles.footerRow}>
             <Text style={styles.footerText}>Don't have an account?</Text>
@@ -248,6 +296,20 @@ const styles = StyleSheet.create({
     color: "rgba(0,0,0,0.75)", // dark text color
   },
 
+  // "Forgot password?" link under the card
+  forgotBtn: {
+    alignSelf: "flex-end", // right aligned
+    marginTop: 12, // spacing above
+  },
+
+  // "Forgot password?" text
+  forgotText: {
+    color: stylesVars.text, // white
+    fontSize: 13, // small
+    fontWeight: "700", // semi-bold
+    textDecorationLine: "underline", // underline to look like link
+  },
+
   // Error text styling
   errorText: {
     marginTop: 10, // spacing above
@@ -272,6 +334,37 @@ const styles = StyleSheet.create({
     elevation: 5, // Android shadow
   },
 
+  // "or" between the email form and the other providers
+  orText: {
+    marginTop: 18, // spacing above
+    color: stylesVars.text, // white
+    fontWeight: "700", // semi-bold
+  },
+
+  // Column of provider buttons
+  providers: {
+    marginTop: 12, // spacing under "or"
+    width: 240, // same width for every provider
+    gap: 10, // spacing between buttons
+  },
+
+  // Phone provider button (same look as the Google button)
+  providerBtn: {
+    height: 48, // button height
+    borderRadius: 999, // fully rounded
+    flexDirection: "row", // icon + label
+    alignItems: "center", // vertically centered
+    justifyContent: "center", // horizontally centered
+    gap: 10, // spacing between icon and label
+    backgroundColor: stylesVars.btn, // white background
+  },
+
+  // Provider button label
+  providerText: {
+    color: stylesVars.btnIcon, // blue
+    fontWeight: "900", // bold
+  },
+
   // Footer row at bottom
   footerRow: {
     position: "absolute", // absolute positioning
@@ -296,7 +389,9 @@ const styles = StyleSheet.create({
   },
 });
 /* This file implements the Sign-In screen for the app.
-It allows users to enter their email and password to sign in using Firebase Authentication.
-The screen includes input validation, error handling, and navigation to the sign-up screen.
+It allows users to enter their email and password to sign in using Firebase Authentication,
+or to continue with Google or a phone number.
+The screen includes input validation, error handling, and navigation to the sign-up
+and password reset screens.
 It also manages loading state to prevent multiple sign-in attempts.
 */
\ No newline at end of file
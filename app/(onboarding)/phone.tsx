@@ -0,0 +1,98 @@
+// Import Ionicons icon component (used for the back arrow)
+import { Ionicons } from "@expo/vector-icons";
+
+// Import router hook from expo-router to navigate between screens/routes
+import { useRouter } from "expo-router";
+
+// Import React
+import React from "react";
+
+// Import React Native UI components used in the screen
+import {
+  Keyboard, // used to dismiss the keyboard programmatically
+  KeyboardAvoidingView, // moves UI up when keyboard opens (especially iOS)
+  Platform, // to detect iOS/Android and apply platform-specific behavior
+  Pressable, // button-like component with press handling
+  StyleSheet, // for styling
+  Text, // to show text
+  TouchableWithoutFeedback, // wrapper to detect taps (used to dismiss keyboard)
+  View, // layout container
+} from "react-native";
+
+// Phone number → SMS code form
+import PhoneSignIn from "@/components/phone-sign-in";
+
+// Export the screen component as default (expo-router uses file name as route)
+export default function PhoneScreen() {
+  // Router used to go back, or into the app once signed in
+  const router = useRouter();
+
+  return (
+    // When user taps anywhere outside the inputs, dismiss keyboard
+    <TouchableWithoutFeedback onPress={Keyboard.dismiss} accessible={false}>
+      <KeyboardAvoidingView
+        style={styles.screen}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.container}>
+          {/* Back to sign-in */}
+          <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+            <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+          </Pressable>
+
+          {/* Page title */}
+          <Text style={styles.title}>Phone Sign In</Text>
+
+          <Text style={styles.info}>
+            We will text you a code. A new account is created the first time you sign in with a number.
+          </Text>
+
+          {/* The profile is created by the server for new numbers (functions/users.js) */}
+          <PhoneSignIn mode="signIn" onDone={() => router.replace("/(private)")} />
+        </View>
+      </KeyboardAvoidingView>
+    </TouchableWithoutFeedback>
+  );
+}
+
+// Stylesheet for the screen (same layout as sign-in)
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+  },
+
+  container: {
+    flex: 1,
+    paddingHorizontal: 22,
+    paddingTop: 80,
+    alignItems: "center",
+  },
+
+  // Back arrow in the top-left corner
+  backBtn: {
+    position: "absolute",
+    top: 54,
+    left: 16,
+  },
+
+  title: {
+    color: "#FFFFFF",
+    fontSize: 34,
+    fontWeight: "800",
+    marginBottom: 14,
+  },
+
+  info: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+    lineHeight: 22,
+    textAlign: "center",
+    marginBottom: 22,
+  },
+});
+/* This file implements the Phone Sign In screen of the onboarding flow.
+The user enters a mobile number, receives an SMS code from Firebase Authentication and
+is signed in; new numbers get an account and a profile like any other sign-up.
+*/
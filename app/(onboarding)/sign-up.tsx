@@ -9,6 +9,7 @@ import React, { useState } from "react";
 
 // Import React Native UI components used in the sign-up screen
 import {
+  Alert, // popup telling the user to verify their email
   Keyboard, // used to dismiss the keyboard programmatically
   KeyboardAvoidingView, // shifts UI up when keyboard opens (especially iOS)
   Platform, // lets us detect iOS/Android and apply platform-specific behavior
@@ -20,8 +21,9 @@ import {
   View, // layout container
 } from "react-native";
 
-// Import Firebase Auth function to create an account using email/password
-import { createUserWithEmailAndPassword } from "firebase/auth";
+// Import Firebase Auth functions to create an account using email/password
+// and to email the link that verifies the address
+import { createUserWithEmailAndPassword, sendEmailVerification } from "firebase/auth";
 
 // Import Firestore helpers:
 // doc = reference a document path
@@ -32,6 +34,12 @@ import { doc, serverTimestamp, setDoc } from "firebase/firestore";
 // Import initialized Firebase instances (auth and Firestore db)
 import { auth, db } from "@/lib/firebase";
 
+// Saves the sign-in email to users/{uid}/private/settings
+import { syncNotificationEmail } from "@/lib/account";
+
+// Longest profile name (also checked by the Firestore rules)
+import { MAX_NAME_LENGTH } from "@/lib/profile";
+
 // Export screen component as default (expo-router maps file to route)
 export default function SignUpScreen() {
   // Router used for navigation after successful sign up
@@ -67,6 +75,12 @@ export default function SignUpScreen() {
       return; // stop execution if invalid
     }
 
+    // Same limit as the profile edit form (lib/profile.ts)
+    if (cleanName.length > MAX_NAME_LENGTH) {
+      setError(`Name should be at most ${MAX_NAME_LENGTH} characters.`);
+      return;
+    }
+
     // Validate email and password
     if (!cleanEmail || !password.trim()) {
       setError("Please enter email and password.");
@@ -87,11 +101,24 @@ export default function SignUpScreen() {
 
       // setDoc writes a document at users/{uid}
       // This stores profile info we need inside the app (like name)
-      await setDoc(doc(db, "users", uid), {
-        name: cleanName, // store the user's name
-        email: cleanEmail, // store the user's email (optional because auth already has it)
-        createdAt: serverTimestamp(), // server timestamp for consistent creation time
-      });
+      // merge: the server may already have created it for the new account (functions/users.js);
+      // the typed name replaces the one it guessed
+      await setDoc(
+        doc(db, "users", uid),
+        {
+          name: cleanName, // store the user's name
+          createdAt: serverTimestamp(), // server timestamp for consistent creation time
+        },
+        { merge: true },
+      );
+
+      // The email notifications go to is kept in the private settings (users/{uid} is public)
+      await syncNotificationEmail(cred.user);
+
+      // 3) Email the verification link (needed before posting items)
+      // A failure here is not fatal: Add Item offers to send it again
+      sendEmailVerification(cred.user).catch((e) => console.log("Verification email error:", e));
+      Alert.alert("Verify your email", `We sent a link to ${cleanEmail}. Open it before posting your first item.`);
 
       // After successful sign up, move user to private area
       // replace = prevents going back to sign up via back button
@@ -375,7 +402,8 @@ const styles = StyleSheet.create({
   },
 });
 /* This file implements the Sign-Up screen for the app.
-It allows users to create an account using their name, email, and password via Firebase Authentication.
+It allows users to create an account using their name, email, and password via Firebase Authentication,
+and emails them the link that verifies their address.
 The screen includes input validation, error handling, and navigation to the private area upon successful sign-up.
 It also manages loading state to prevent multiple sign-up attempts.
 */
\ No newline at end of file
@@ -2,29 +2,65 @@
 // Stack is used to define a stack-based navigation (screens pushed on top of each other)
 import { Stack } from "expo-router";
 
+// React hook used to run the cleanup once
+import { useEffect } from "react";
+
+import { auth } from "@/lib/firebase";
+
+// Deletes photos of item forms that were left without saving (app closed while a form was open)
+import { cleanupAbandonedUploads } from "@/lib/upload-tracker";
+
+// Connection state + offline outbox for every private screen
+import { OfflineProvider } from "@/lib/offline-context";
+
+// Offline / sync / conflict bar shown over the screens
+import OfflineBanner from "@/components/offline-banner";
+
+// Push token registration + deep links from tapped pushes
+import { usePushNotifications } from "@/hooks/use-push-notifications";
+
 // This component defines the layout for all routes inside the (private) folder
 // Any screen inside app/(private)/ will be rendered inside this layout
 export default function PrivateLayout() {
 
+  // Private screens only render for a signed-in user; no item form is open yet,
+  // so every photo still marked as pending was abandoned
+  useEffect(() => {
+    const uid = auth.currentUser?.uid;
+    if (uid) cleanupAbandonedUploads(uid).catch((e) => console.log("Upload cleanup error:", e));
+  }, []);
+
+  // Pushes for new notifications open the matching screen
+  usePushNotifications();
+
   // We return a Stack navigator
   // This Stack controls navigation between private screens (home, profile, etc.)
   return (
 
-    // Stack component from expo-router
-    // screenOptions applies default options to ALL screens inside this stack
-    <Stack
-      screenOptions={{
-        // headerShown: false
-        // We disable the default header because:
-        // 1) We design our own headers manually
-        // 2) It gives us full UI control
-        headerShown: false,
-      }}
-    />
+    // OfflineProvider gives all private screens the connection state and the outbox
+    <OfflineProvider>
+      {/* Stack component from expo-router
+          screenOptions applies default options to ALL screens inside this stack */}
+      <Stack
+        screenOptions={{
+          // headerShown: false
+          // We disable the default header because:
+          // 1) We design our own headers manually
+          // 2) It gives us full UI control
+          headerShown: false,
+        }}
+      />
+
+      {/* Offline banner floats over whichever screen is open */}
+      <OfflineBanner />
+    </OfflineProvider>
 
   );
 }
 /* This file defines the layout for all private screens in the app.
 It uses a Stack navigator from expo-router to manage navigation between screens like Home and Profile.
 The default header is disabled to allow for custom-designed headers in each screen.
+It also deletes photos left behind by item forms that were never saved,
+and provides the offline state and outbox with a banner over every screen.
+It also registers the device for push notifications and handles push taps.
 */
\ No newline at end of file
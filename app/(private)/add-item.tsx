@@ -1,5 +1,5 @@
 // Import React and hooks
-import React, { useMemo, useState } from "react";
+import React, { useMemo, useRef, useState } from "react";
 
 // Import React Native UI components used in this screen
 import {
@@ -13,7 +13,6 @@ import {
   Platform,             // to check iOS vs Android
   Modal,                // category selection modal
   FlatList,             // list inside modal (categories)
-  Image,                // show selected image preview
   Alert,                // popup alerts
 } from "react-native";
 
@@ -27,16 +26,43 @@ import { Ionicons } from "@expo/vector-icons";
 import * as ImagePicker from "expo-image-picker";
 
 // Firestore functions: add a new document, reference a collection, server timestamp
-import { addDoc, collection, serverTimestamp } from "firebase/firestore";
-
-// Firebase Storage functions: create file reference, upload bytes, get file URL
-import { getDownloadURL, ref, uploadBytes } from "firebase/storage";
+import { addDoc, collection, doc, serverTimestamp } from "firebase/firestore";
 
 // Firebase Cloud Functions: getFunctions instance, httpsCallable to call a function
 import { getFunctions, httpsCallable } from "firebase/functions";
 
 // Import initialized Firebase instances (auth, firestore db, storage)
-import { auth, db, storage } from "@/lib/firebase";
+import { auth, db } from "@/lib/firebase";
+
+// Status every new item starts with (lifecycle rules)
+import { INITIAL_ITEM_STATUS } from "@/lib/rules";
+
+// Governorate picker + optional pinned position
+import LocationField, { LocationValue } from "@/components/location-field";
+
+// Editable photo gallery (add, remove, cover, drag to reorder)
+import PhotoStrip from "@/components/photo-strip";
+
+// Gallery helpers (cover mirrored into imageUrl, photo limit)
+import { imageFields, remainingImageSlots, removedImages } from "@/lib/item-images";
+
+// Storage path of a new photo
+import { newItemImagePath } from "@/lib/item-storage";
+
+// Deletes photos of this form that never get saved (removed or form abandoned)
+import { useUnsavedUploads } from "@/hooks/use-unsaved-uploads";
+
+// Photo uploads with progress, cancel and retry
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import UploadStatus from "@/components/upload-status";
+
+// Offline posting: photos stay on the device and the post waits in the outbox
+import { useOffline } from "@/lib/offline-context";
+import { isLocalPhoto } from "@/lib/outbox";
+import { keepOutboxPhotos } from "@/lib/outbox-photos";
+
+// Posting needs a verified email (firestore.rules checks the same)
+import { checkVerified, sendVerificationEmail } from "@/lib/account";
 
 // Define allowed category names as a TypeScript union (prevents invalid categories)
 type CategoryKey =
@@ -59,11 +85,11 @@ export default function AddItemScreen() {
     []
   );
 
-  // imageUri = local phone URI (used only to preview image in the UI)
-  const [imageUri, setImageUri] = useState<string | null>(null);
+  // images = uploaded Firebase Storage URLs in display order (first = cover, sent to AI)
+  const [images, setImages] = useState<string[]>([]);
 
-  // imageUrl = Firebase Storage URL (this is the public URL we store in Firestore + send to AI)
-  const [imageUrl, setImageUrl] = useState<string>("");
+  // true while a photo is dragged (the form stops scrolling)
+  const [dragging, setDragging] = useState(false);
 
   // Form fields
   const [title, setTitle] = useState("");
@@ -75,6 +101,9 @@ export default function AddItemScreen() {
   // User phone/contact number
   const [contactNumber, setContactNumber] = useState("");
 
+  // Where the item can be collected (governorate required, geohash optional)
+  const [location, setLocation] = useState<LocationValue>({ governorate: "", geohash: null });
+
   // submitting = true while Firestore saving is happening
   const [submitting, setSubmitting] = useState(false);
 
@@ -85,14 +114,15 @@ export default function AddItemScreen() {
   const [aiLoading, setAiLoading] = useState(false);      // true while AI function is running
   const [aiHint, setAiHint] = useState<string | null>(null); // message shown to user (AI suggested / failed...)
 
-  // Upload state: true while uploading image to Storage
-  const [imageUploading, setImageUploading] = useState(false);
+  // The next stored photo starts the AI category suggestion (first photo of an empty gallery)
+  const suggestFromNextPhoto = useRef(false);
 
   // Validation error messages (one per field)
   const [errImage, setErrImage] = useState<string | null>(null);
   const [errTitle, setErrTitle] = useState<string | null>(null);
   const [errDescription, setErrDescription] = useState<string | null>(null);
   const [errCategory, setErrCategory] = useState<string | null>(null);
+  const [errLocation, setErrLocation] = useState<string | null>(null);
   const [errContactNumber, setErrContactNumber] = useState<string | null>(null);
 
   // Helper to clear all errors before validating again
@@ -101,42 +131,10 @@ export default function AddItemScreen() {
     setErrTitle(null);
     setErrDescription(null);
     setErrCategory(null);
+    setErrLocation(null);
     setErrContactNumber(null);
   };
 
-  // ✅ Helper: convert a local device URI to a Blob
-  // Firebase Storage uploadBytes needs Blob/Uint8Array/ArrayBuffer (not a URI string)
-  const uriToBlob = (uri: string) =>
-    new Promise<Blob>((resolve, reject) => {
-      const xhr = new XMLHttpRequest();                // create network request object
-      xhr.onload = () => resolve(xhr.response);        // when download succeeds, return the blob
-      xhr.onerror = () => reject(new Error("Failed to convert URI to Blob")); // if fails, reject
-      xhr.responseType = "blob";                       // important: return blob
-      xhr.open("GET", uri, true);                      // fetch local file data
-      xhr.send(null);                                  // start request
-    });
-
-  // Upload image to Firebase Storage and return its download URL
-  const uploadImageAsync = async (uri: string, userId: string) => {
-
-    // Convert local file to Blob
-    const blob = await uriToBlob(uri);
-
-    // Create a storage reference/path
-    // Example: items/uid/1700000000000.jpg
-    const fileRef = ref(storage, `items/${userId}/${Date.now()}.jpg`);
-
-    // Upload the blob into Firebase Storage
-    await uploadBytes(fileRef, blob);
-
-    // Some environments support blob.close() to free memory (safe optional)
-    // @ts-ignore
-    blob.close?.();
-
-    // Get the public download URL for the uploaded file
-    return await getDownloadURL(fileRef);
-  };
-
   // Call cloud function to categorize item based on image URL
   const runAICategorization = async (uploadedImageUrl: string) => {
     try {
@@ -172,8 +170,27 @@ export default function AddItemScreen() {
     }
   };
 
-  // Pick image from user's device gallery
-  const pickImage = async () => {
+  // Photos uploaded by this form but not saved on an item yet
+  const unsaved = useUnsavedUploads();
+
+  // Connection state + outbox
+  const offline = useOffline();
+
+  // Photo uploads (progress, cancel, retry); each stored photo joins the gallery
+  const uploads = useUploadQueue((url, job) => {
+    unsaved.uploaded(url, job.path);
+    setImages((prev) => [...prev, url]);
+
+    // Run AI categorization using the cover photo
+    if (suggestFromNextPhoto.current) {
+      suggestFromNextPhoto.current = false;
+      setAiHint(null);
+      runAICategorization(url);
+    }
+  });
+
+  // Pick photos from user's device gallery (several at once, up to the limit)
+  const pickImages = async () => {
 
     // Clear previous errors first
     clearErrors();
@@ -193,72 +210,60 @@ export default function AddItemScreen() {
       return;
     }
 
+    // How many photos can still be added (photos still uploading count too)
+    const slots = remainingImageSlots(images) - uploads.pending;
+    if (slots <= 0) return;
+
     // Open image picker
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ImagePicker.MediaTypeOptions.Images, // images only
-      quality: 0.8,                                    // compress
-      allowsEditing: true,                             // user can crop
-      aspect: [1, 1],                                  // square crop UI
+      quality: 1,                                      // full quality (compressed once before upload)
+      allowsMultipleSelection: true,                   // pick several photos at once
+      selectionLimit: slots,                           // never more than the gallery limit
     });
 
     // If user cancelled selection, stop here
     if (result.canceled) return;
 
-    // Extract the local URI of the selected image
-    const uri = result.assets[0]?.uri ?? null;
-    if (!uri) return;
-
-    // Update preview image in UI
-    setImageUri(uri);
+    // Local URIs of the selected photos
+    const uris = result.assets.map((a) => a.uri).filter(Boolean).slice(0, slots);
+    if (uris.length === 0) return;
 
-    // Clear image error if it existed
-    setErrImage(null);
-
-    // Reset AI hint message
-    setAiHint(null);
-
-    try {
-      // Start upload state
-      setImageUploading(true);
-
-      // Upload immediately to get public URL
-      const url = await uploadImageAsync(uri, user.uid);
-
-      // Save URL in state (used later for Firestore + AI)
-      setImageUrl(url);
+    // Offline: keep the local photos, they are uploaded when the post is sent
+    // (no AI suggestion, it needs the stored photo)
+    if (!offline.online) {
+      setImages((prev) => [...prev, ...uris]);
+      if (errImage) setErrImage(null);
+      return;
+    }
 
-      // Run AI categorization using the uploaded public URL
-      await runAICategorization(url);
-    } catch (e: any) {
-      // Handle upload/AI errors
-      console.log("Image upload error:", e);
-      Alert.alert("Error", e?.message ?? "Failed to upload image.");
+    // The first photo of an empty gallery becomes the cover (used for AI)
+    if (images.length === 0 && uploads.pending === 0) suggestFromNextPhoto.current = true;
 
-      // Reset imageUrl to avoid saving item with missing image URL
-      setImageUrl("");
-    } finally {
-      // Stop upload state
-      setImageUploading(false);
-    }
+    // Upload one by one so each photo shows up as soon as it is stored
+    const jobs = uris.map((uri) => ({ uri, path: newItemImagePath(user.uid) }));
+    unsaved.track(jobs.map((job) => job.path));
+    uploads.enqueue(jobs);
   };
 
-  // Remove selected image and reset related fields
-  const removeImage = () => {
-    setImageUri(null);     // remove preview
-    setImageUrl("");       // remove uploaded URL reference
-    setAiHint(null);       // clear AI hint message
-    setAiLoading(false);   // stop AI loading
-    if (errImage) setErrImage(null); // clear image error if shown
+  // Gallery edited (reorder, cover, remove)
+  const onImagesChange = (next: string[]) => {
+    // Removed photos are not used by any item yet, so delete them right away
+    unsaved.discard(removedImages(images, next));
+
+    setImages(next);
+    if (next.length === 0) setAiHint(null);  // clear AI hint with the last photo
+    if (errImage) setErrImage(null);         // clear image error if shown
   };
 
   // Validate form fields and set error messages
   const validate = () => {
     let ok = true;
 
-    // Must have local preview + uploaded image URL
+    // Must have at least one uploaded photo
     // Because AI + Firestore rely on the Storage URL
-    if (!imageUri || !imageUrl) {
-      setErrImage("Please add an image");
+    if (images.length === 0) {
+      setErrImage("Please add at least one photo");
       ok = false;
     }
 
@@ -280,6 +285,12 @@ export default function AddItemScreen() {
       ok = false;
     }
 
+    // Governorate required (the geohash is optional)
+    if (!location.governorate) {
+      setErrLocation("Please select a governorate");
+      ok = false;
+    }
+
     // Contact validation: digits only + minimum length
     const digits = contactNumber.replace(/\D/g, "");
     if (!digits) {
@@ -293,6 +304,35 @@ export default function AddItemScreen() {
     return ok; // overall pass/fail
   };
 
+  // True when the user's email is verified; otherwise offers to send the link again
+  const ensureVerified = async () => {
+    try {
+      if (await checkVerified()) return true;
+    } catch (e) {
+      // Offline: the check needs the server
+      console.log("Verification check error:", e);
+    }
+
+    Alert.alert(
+      "Verify your email",
+      `Open the link we sent to ${auth.currentUser?.email ?? "your email"} before posting an item.`,
+      [
+        { text: "OK", style: "cancel" },
+        {
+          text: "Send again",
+          onPress: () =>
+            sendVerificationEmail()
+              .then(() => Alert.alert("Sent", "Check your inbox for the verification link."))
+              .catch((e: any) => {
+                console.log("Verification email error:", e);
+                Alert.alert("Error", e?.message ?? "Failed to send the email.");
+              }),
+        },
+      ],
+    );
+    return false;
+  };
+
   // Submit item to Firestore
   const onSubmit = async () => {
 
@@ -309,22 +349,61 @@ export default function AddItemScreen() {
       return;
     }
 
+    if (!(await ensureVerified())) return;
+
+    // Item fields (photos, owner, status and createdAt are added when saving)
+    const fields = {
+      title: title.trim(),                 // item title
+      description: description.trim(),     // item description
+      category: category,                  // chosen or AI-suggested category
+      contactNumber: contactNumber.trim(), // phone number
+      governorate: location.governorate,   // where the item can be collected
+      geohash: location.geohash,           // optional coarse position (null = not pinned)
+    };
+
+    // Offline, or photos picked offline: the post waits in the outbox
+    // (its id is chosen now, so sending it twice never creates a second item)
+    if (!offline.online || images.some(isLocalPhoto)) {
+      try {
+        offline.queue(
+          {
+            kind: "createItem",
+            itemId: doc(collection(db, "items")).id,
+            item: fields,
+            photos: keepOutboxPhotos(images),
+          },
+          fields.title,
+        );
+      } catch (e: any) {
+        // Copying the photos failed (device storage full...)
+        console.log("Offline save error:", e);
+        Alert.alert("Error", e?.message ?? "Failed to save the item on this device.");
+        return;
+      }
+
+      unsaved.commit();
+      Alert.alert("Saved offline", "Your item will be posted when you are back online.");
+      router.back();
+      return;
+    }
+
     try {
       // Start saving state
       setSubmitting(true);
 
       // Save new item as a Firestore document in collection "items"
       await addDoc(collection(db, "items"), {
-        title: title.trim(),                 // item title
-        description: description.trim(),     // item description
-        category: category,                  // chosen or AI-suggested category
-        contactNumber: contactNumber.trim(), // phone number
-        imageUrl,                            // uploaded image URL from Storage
+        ...fields,                           // title, description, category, contact, location
+        ...imageFields(images),              // photo URLs + cover copied into imageUrl
         ownerId: user.uid,                   // logged-in user is the owner
-        status: "available",                 // initial status
+        status: INITIAL_ITEM_STATUS,         // initial status ("available")
+        hidden: false,                       // listed (lists only read hidden == false)
         createdAt: serverTimestamp(),        // server time for sorting
       });
 
+      // The photos belong to the item now (kept when the form closes)
+      unsaved.commit();
+
       // Confirmation
       Alert.alert("Success", "Item added successfully!");
 
@@ -366,41 +445,31 @@ export default function AddItemScreen() {
       >
 
         {/* ScrollView for the whole form */}
-        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <ScrollView
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!dragging}                 // keep still while a photo is dragged
+        >
 
           {/* Images label */}
-          <Text style={styles.label}>Images</Text>
-
-          {/* Image preview and delete button */}
-          <View style={styles.imageWrapper}>
-
-            {/* Image picker button */}
-            <Pressable
-              onPress={pickImage}                        // open picker on press
-              style={styles.imagePickerBox}              // UI box style
-              disabled={imageUploading}                  // disable while uploading
-            >
-              {imageUri ? (
-                // Show selected image preview if exists
-                <Image source={{ uri: imageUri }} style={styles.imagePreview} />
-              ) : (
-                // Otherwise show placeholder icon
-                <View style={styles.imagePlaceholder}>
-                  <Ionicons name="image-outline" size={24} color={stylesVars.brand} />
-                </View>
-              )}
-            </Pressable>
-
-            {/* Remove image button (only if image exists) */}
-            {imageUri ? (
-              <Pressable onPress={removeImage} style={styles.removeBtn} hitSlop={10}>
-                <Ionicons name="close" size={16} color="#FFFFFF" />
-              </Pressable>
-            ) : null}
-          </View>
-
-          {/* Upload progress text */}
-          {imageUploading ? <Text style={styles.aiText}>Uploading image...</Text> : null}
+          <Text style={styles.label}>Photos</Text>
+
+          {/* Photo gallery (first photo = cover) */}
+          <PhotoStrip
+            images={images}
+            onChange={onImagesChange}
+            onAdd={pickImages}
+            uploading={uploads.busy}
+            onDragChange={setDragging}
+          />
+
+          {/* Upload progress / error */}
+          <UploadStatus
+            status={uploads.status}
+            onCancel={uploads.cancel}
+            onRetry={uploads.retry}
+            onDismiss={uploads.dismiss}
+          />
 
           {/* AI hint text */}
           {aiHint ? <Text style={styles.aiText}>{aiHint}</Text> : null}
@@ -446,6 +515,17 @@ export default function AddItemScreen() {
           </Pressable>
           {!!errCategory && <Text style={styles.errorText}>{errCategory}</Text>}
 
+          {/* Location (governorate + optional pin) */}
+          <Text style={[styles.label, { marginTop: 14 }]}>Location</Text>
+          <LocationField
+            value={location}
+            onChange={(next) => {
+              setLocation(next);                       // update state
+              if (errLocation) setErrLocation(null);   // clear error once chosen
+            }}
+            error={errLocation}
+          />
+
           {/* Contact number input */}
           <Text style={[styles.label, { marginTop: 14 }]}>Contact Number</Text>
           <View style={styles.contactRow}>
@@ -468,13 +548,13 @@ export default function AddItemScreen() {
           <Pressable
             style={[
               styles.submitBtn,
-              (submitting || imageUploading || aiLoading) && { opacity: 0.7 }, // dim while busy
+              (submitting || uploads.busy || aiLoading) && { opacity: 0.7 }, // dim while busy
             ]}
             onPress={onSubmit}                          // save item
-            disabled={submitting || imageUploading || aiLoading} // block clicks while busy
+            disabled={submitting || uploads.busy || aiLoading} // block clicks while busy
           >
             <Text style={styles.submitText}>
-              {submitting ? "Saving..." : imageUploading ? "Uploading..." : "Add Item"}
+              {submitting ? "Saving..." : uploads.busy ? "Uploading..." : "Add Item"}
             </Text>
           </Pressable>
         </ScrollView>
@@ -574,42 +654,6 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     fontSize: 12,
   },
-  imageWrapper: {
-    alignSelf: "flex-start",
-  },
-  removeBtn: {
-    position: "absolute",
-    top: -8,
-    right: -8,
-    width: 22,
-    height: 22,
-    borderRadius: 999,
-    backgroundColor: "rgba(0,0,0,0.55)",
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  imagePickerBox: {
-    width: 58,
-    height: 58,
-    borderRadius: 12,
-    borderWidth: 1.5,
-    borderStyle: "dashed",
-    borderColor: "rgba(0,0,0,0.22)",
-    alignItems: "center",
-    justifyContent: "center",
-    backgroundColor: stylesVars.card,
-  },
-  imagePlaceholder: {
-    width: 58,
-    height: 58,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  imagePreview: {
-    width: 58,
-    height: 58,
-    borderRadius: 12,
-  },
   inputBox: {
     backgroundColor: stylesVars.card,
     borderRadius: 14,
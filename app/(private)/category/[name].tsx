@@ -1,17 +1,26 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 // React core
 // useState = store UI state
-// useEffect = subscribe/unsubscribe to Firestore updates
-// useMemo = compute categoryName only when `name` changes
-
-import { View, Text, StyleSheet, Pressable, FlatList, Platform, Image } from "react-native";
+// useEffect = load owner names for the owner filter
+// useMemo = compute categoryName and the items query only when their inputs change
+// useRef = remember which owner names were already requested
+
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
 // View = container
 // Text = display text
 // StyleSheet = styles object
 // Pressable = clickable/touchable elements
 // FlatList = efficient list rendering
 // Platform = detect iOS/Android for padding
-// Image = show item thumbnail
+// ActivityIndicator = spinner under the list while an older page loads
 
 import { Ionicons } from "@expo/vector-icons";
 // Ionicons = icons library
@@ -20,24 +29,57 @@ import { useLocalSearchParams, useRouter } from "expo-router";
 // useRouter = navigation (push/back)
 // useLocalSearchParams = read URL params (name from /category/[name])
 
-import { collection, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import { collection, doc, getDoc, orderBy, query, where } from "firebase/firestore";
 // collection = reference to a Firestore collection
 // query = build a query
 // where = filter documents by field condition
 // orderBy = sort results by a field
-// onSnapshot = realtime listener (updates UI when data changes)
+// getDoc = read an owner's profile once (owner filter names)
 
 import { db } from "@/lib/firebase";
 // db = Firestore instance (already initialized in lib/firebase.ts)
 
+import ItemCard from "@/components/item-card";
+// ItemCard = shared item row (thumbnail, title, description, status)
+
+import CategoryFilterBar from "@/components/category-filter-bar";
+// Filter panel (status, photo, date, owner, sort)
+
+import { useCategoryFilters } from "@/hooks/use-category-filters";
+// Filters saved per category in AsyncStorage
+
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+// Live first page + older pages on scroll + pull-to-refresh
+
+import { activeFilterCount, filterQueryPlan } from "@/lib/item-filters";
+// Converts filter choices into query clauses
+
+import { useNearMe } from "@/hooks/use-near-me";
+// Where distances are measured from (device location or chosen governorate)
+
+import { sortByDistance, withinDistance } from "@/lib/location";
+// Distance filter + "nearest" sort (run on the device)
+
+import { listedItems } from "@/lib/reports";
+import { useBlockedUsers } from "@/hooks/use-blocked-users";
+// Items hidden by moderators or posted by blocked users are left out
+
+import { PAGE_SIZE } from "@/lib/pagination";
+// Rows per page (used to decide whether to keep loading while filtering by distance)
+
 type ItemDoc = {
   id: string; // Firestore document id (added manually from snap doc.id)
   title: string; // item title
   description: string; // item description
   category: string; // item category name (matches Firestore "category")
   imageUrl?: string; // optional image URL stored in Firestore
+  images?: string[]; // optional gallery (first = cover)
+  thumbs?: unknown; // thumbnail URLs (see lib/thumbnails.ts)
   status?: string; // optional status (available/requested/accepted/donated)
   ownerId: string; // UID of the user who listed the item
+  governorate?: string; // governorate the item can be collected in
+  geohash?: string | null; // optional coarse position of the item
+  hidden?: boolean; // hidden by a moderator
 };
 // ItemDoc = shape of item data that our screen expects from Firestore
 
@@ -55,62 +97,113 @@ export default function CategoryScreen() {
   // decodeURIComponent turns URL text into normal text (handles spaces/special chars)
   // useMemo avoids re-decoding on every render unless `name` changes
 
-  const [items, setItems] = useState<ItemDoc[]>([]);
-  // items list for the category
+  const { filters, setFilters, ready } = useCategoryFilters(categoryName);
+  // filters = saved choices for this category; ready = saved choices were loaded
 
-  const [loading, setLoading] = useState(true);
-  // loading = show Loading... until Firestore returns data
+  const [showFilters, setShowFilters] = useState(false);
+  // showFilters = filter panel open/closed
 
-  useEffect(() => {
-    // Runs when categoryName changes (user opens a different category)
+  const [ownerNames, setOwnerNames] = useState<Record<string, string>>({});
+  // Cache of owner names: uid -> name (owner filter chips)
+
+  const requestedOwners = useRef(new Set<string>());
+  // Owner uids whose name was already requested (avoids duplicate reads)
+
+  const itemsQuery = useMemo(() => {
+    // Rebuilt when categoryName or the filters change (the hook then re-subscribes)
 
-    if (!categoryName) return;
-    // If categoryName is empty, don't query Firestore
+    if (!categoryName || !ready) return null;
+    // Wait for the category and its saved filters before querying Firestore
 
-    const q = query(
+    const plan = filterQueryPlan(categoryName, filters);
+    // category + selected statuses (donated/accepted hidden by default) + photo/owner/date filters
+
+    return query(
       collection(db, "items"),
       // reference to Firestore collection "items"
 
-      where("category", "==", categoryName),
-      // filter items where category matches selected category
+      ...plan.clauses.map((c) => where(c.field, c.op, c.value)),
+      // one where() per active filter (hasImage is kept by a Cloud Function)
 
-      orderBy("createdAt", "desc")
-      // sort by newest first (requires createdAt field to exist)
+      orderBy("createdAt", plan.order)
+      // newest or oldest first (each combination has an index in firestore.indexes.json)
     );
+  }, [categoryName, ready, filters]);
+
+  const {
+    items,
+    loading,
+    loadingMore,
+    refreshing,
+    loadMore,
+    refresh,
+    hasMore,
+  } = usePaginatedQuery<ItemDoc>(
+    itemsQuery,
+    undefined,
+    activeFilterCount(filters) === 0 && categoryName ? `category:${categoryName}` : null,
+  );
+  // First page is live; older pages load when the list is scrolled to the end
+  // The unfiltered first page is also saved on the device for offline browsing
 
-    const unsub = onSnapshot(
-      q,
-      // start realtime listener on this query
-
-      (snap) => {
-        // callback when data changes or first time it loads
-        const data: ItemDoc[] = snap.docs.map((d) => ({
-          // convert each document into a JS object
-          id: d.id,
-          // attach Firestore doc id
-          ...(d.data() as any),
-          // spread the remaining fields from Firestore
-        }));
-
-        setItems(data);
-        // update UI list
-
-        setLoading(false);
-        // stop loading
-      },
-      (err) => {
-        // callback when listener fails
-        console.log("Category query error:", err);
-        // log the error for debugging
-        setLoading(false);
-        // stop loading to avoid infinite spinner
-      }
+  const nearMe = useNearMe();
+  // Origin of the distance filter and the "nearest" sort
+
+  const blocked = useBlockedUsers();
+  // Users the signed-in user blocked (their items are not listed)
+
+  const shownItems = useMemo(() => {
+    // Moderation + distance filter + "nearest" sort on top of the Firestore results
+
+    const listed = listedItems(items, blocked);
+    const origin = nearMe.origin;
+    if (!origin) return listed;
+    // No origin yet -> distance choices are ignored
+
+    const nearby = filters.maxDistanceKm ? withinDistance(listed, origin, filters.maxDistanceKm) : listed;
+    return filters.sort === "nearest" ? sortByDistance(nearby, origin) : nearby;
+  }, [items, blocked, nearMe.origin, filters.maxDistanceKm, filters.sort]);
+
+  useEffect(() => {
+    // The distance filter (or hidden items) can hide most of a page; keep loading older pages
+    // until the list has a page worth of rows (or there is nothing left)
+
+    if (loading || shownItems.length >= items.length || shownItems.length >= PAGE_SIZE) return;
+    if (hasMore) loadMore();
+  }, [loading, hasMore, loadMore, items.length, shownItems.length]);
+
+  useEffect(() => {
+    // Load names for owners we haven't seen yet (owner filter chips)
+
+    const uids = [...items.map((i) => i.ownerId), filters.ownerId ?? ""];
+    const missing = Array.from(new Set(uids)).filter(
+      (uid) => uid && !requestedOwners.current.has(uid),
     );
 
-    return unsub;
-    // cleanup: stop listening when screen unmounts or categoryName changes
-  }, [categoryName]);
-  // dependency array: re-run effect if categoryName changes
+    missing.forEach(async (uid) => {
+      requestedOwners.current.add(uid);
+
+      try {
+        const snap = await getDoc(doc(db, "users", uid));
+        const name = snap.exists() ? (snap.data() as any)?.name ?? "User" : "Unknown user";
+        setOwnerNames((prev) => ({ ...prev, [uid]: name }));
+      } catch (e) {
+        console.log("Owner name error:", e);
+      }
+    });
+  }, [items, filters.ownerId]);
+
+  const owners = useMemo(
+    () =>
+      Object.entries(ownerNames)
+        .map(([id, ownerName]) => ({ id, name: ownerName }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [ownerNames],
+  );
+  // Owner chips: everyone seen in this category so far, sorted by name
+
+  const filterCount = activeFilterCount(filters);
+  // Number of non-default filters (badge on the filter button)
 
   return (
     <View style={styles.screen}>
@@ -129,21 +222,44 @@ export default function CategoryScreen() {
         <Text style={styles.headerTitle}>{categoryName || "Category"}</Text>
         {/* Show the category title; fallback to "Category" if missing */}
 
-        <View style={{ width: 34 }} />
-        {/* Right spacer so the title stays centered */}
+        <Pressable onPress={() => setShowFilters((v) => !v)} hitSlop={12} style={styles.backBtn}>
+          {/* Filter button (same size as the back button so the title stays centered) */}
+          <Ionicons name={showFilters ? "options" : "options-outline"} size={22} color="#FFFFFF" />
+          {filterCount > 0 ? (
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>{filterCount}</Text>
+            </View>
+          ) : null}
+        </Pressable>
       </View>
 
-      {loading ? (
-        // If still loading data
+      {showFilters ? (
+        <CategoryFilterBar
+          filters={filters}
+          onChange={setFilters}
+          owners={owners}
+          nearMe={nearMe}
+          disabledSorts={
+            nearMe.origin
+              ? {}
+              : { nearest: "Use your location or pick a governorate to sort by nearest." }
+          }
+        />
+      ) : null}
+
+      {!ready || loading || (shownItems.length === 0 && loadingMore) ? (
+        // If still loading data (or still looking for items within the distance)
         <Text style={styles.infoText}>Loading...</Text>
-      ) : items.length === 0 ? (
+      ) : shownItems.length === 0 ? (
         // If loaded but no items in this category
-        <Text style={styles.infoText}>No items in this category yet.</Text>
+        <Text style={styles.infoText}>
+          {filterCount > 0 ? "No items match these filters." : "No items in this category yet."}
+        </Text>
       ) : (
         // Otherwise show list of items
         <FlatList
-          data={items}
-          // items to render
+          data={shownItems}
+          // items to render (after the distance filter/sort)
 
           keyExtractor={(item) => item.id}
           // unique key for each row (Firestore document id)
@@ -154,42 +270,27 @@ export default function CategoryScreen() {
           ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
           // spacing between cards
 
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          // load the next older page when the end of the list comes close
+
+          refreshing={refreshing}
+          onRefresh={refresh}
+          // pull down to reload from the first page
+
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color="#FFFFFF" style={{ marginTop: 12 }} /> : null
+          }
+
           renderItem={({ item }) => (
             // how to render each item card
-            <Pressable
+            <ItemCard
+              item={item}
+              origin={nearMe.origin}
+              // shows how far the item is when an origin is set
               onPress={() => router.push({ pathname: "/item/[id]", params: { id: item.id } })}
               // pressing card navigates to Item Details screen
-
-              style={styles.card}
-              // card styling
-            >
-              <View style={styles.thumb}>
-                {/* Thumbnail container */}
-                {item.imageUrl ? (
-                  // if image exists
-                  <Image source={{ uri: item.imageUrl }} style={styles.thumbImg} />
-                ) : (
-                  // if no image
-                  <Ionicons name="image-outline" size={22} color="rgba(255,255,255,0.9)" />
-                )}
-              </View>
-
-              <View style={{ flex: 1 }}>
-                {/* Text section expands to fill space */}
-                <Text style={styles.title} numberOfLines={1}>
-                  {/* Title only one line */}
-                  {item.title}
-                </Text>
-
-                <Text style={styles.sub} numberOfLines={2}>
-                  {/* Description up to two lines */}
-                  {item.description}
-                </Text>
-              </View>
-
-              <Ionicons name="chevron-forward" size={18} color="rgba(255,255,255,0.8)" />
-              {/* Right arrow icon */}
-            </Pressable>
+            />
           )}
         />
       )}
@@ -237,6 +338,26 @@ const styles = StyleSheet.create({
   },
   // back button hit area
 
+  badge: {
+    position: "absolute",
+    top: 0,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 999,
+    paddingHorizontal: 4,
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  // active filter count on the filter button
+
+  badgeText: {
+    color: "#4F98DC",
+    fontWeight: "900",
+    fontSize: 10,
+  },
+
   headerTitle: {
     color: "#FFFFFF",
     fontSize: 18,
@@ -251,63 +372,4 @@ const styles = StyleSheet.create({
     paddingTop: 18,
   },
   // info text style (Loading... or empty list message)
-
-  card: {
-    flexDirection: "row",
-    // row layout for image + text + arrow
-
-    alignItems: "center",
-    // center vertically
-
-    gap: 12,
-    // space between thumb and text
-
-    padding: 12,
-    // inside padding
-
-    borderRadius: 18,
-    // rounded corners
-
-    backgroundColor: "rgba(255,255,255,0.16)",
-    // card background
-
-    borderWidth: 1,
-    // border line
-
-    borderColor: "rgba(255,255,255,0.22)",
-    // border color
-  },
-
-  thumb: {
-    width: 56,
-    height: 56,
-    borderRadius: 14,
-    backgroundColor: "rgba(255,255,255,0.18)",
-    alignItems: "center",
-    justifyContent: "center",
-    overflow: "hidden",
-  },
-  // thumbnail container
-
-  thumbImg: {
-    width: "100%",
-    height: "100%",
-  },
-  // thumbnail image fills container
-
-  title: {
-    color: "#FFFFFF",
-    fontWeight: "900",
-    fontSize: 14,
-    marginBottom: 4,
-  },
-  // item title style
-
-  sub: {
-    color: "rgba(255,255,255,0.82)",
-    fontWeight: "600",
-    fontSize: 12,
-    lineHeight: 16,
-  },
-  // item description style
 });
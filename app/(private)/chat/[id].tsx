@@ -0,0 +1,377 @@
+import React, { useEffect, useState } from "react";
+// React core + hooks:
+// useState = conversation, messages and input text
+// useEffect = realtime listeners
+
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Platform,
+  FlatList,
+  TextInput,
+  KeyboardAvoidingView,
+  Alert,
+} from "react-native";
+// React Native UI components:
+// FlatList = message list (inverted so newest messages are at the bottom)
+// TextInput = message composer
+// KeyboardAvoidingView = keep the composer above the keyboard
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons for back + send buttons
+
+import { useLocalSearchParams, useRouter } from "expo-router";
+// useLocalSearchParams = read conversation id from /chat/[id]
+
+import { collection, doc, getDoc, onSnapshot, orderBy, query } from "firebase/firestore";
+// Firestore helpers for realtime conversation + messages
+
+import { auth, db } from "@/lib/firebase";
+// Firebase instances
+
+import {
+  ConversationDoc,
+  MAX_MESSAGE_LENGTH,
+  MessageDoc,
+  markConversationRead,
+  otherParticipant,
+  sendMessage,
+} from "@/lib/chat";
+// Chat helpers (send message, reset unread counter)
+
+export default function ChatThreadScreen() {
+  // Screen that shows one conversation with live updates
+
+  const router = useRouter();
+  // Navigation
+
+  const { id } = useLocalSearchParams<{ id: string }>();
+  // Conversation id (same as the request id)
+
+  const user = auth.currentUser;
+  // Current signed-in user
+
+  const [conversation, setConversation] = useState<ConversationDoc | null>(null);
+  // Conversation document (null until loaded / if missing)
+
+  const [messages, setMessages] = useState<MessageDoc[]>([]);
+  // Messages newest first (FlatList is inverted)
+
+  const [loading, setLoading] = useState(true);
+  // Loading state for the first snapshot
+
+  const [otherName, setOtherName] = useState("Chat");
+  // Name of the other participant shown in the header
+
+  const [text, setText] = useState("");
+  // Composer text
+
+  const [sending, setSending] = useState(false);
+  // Disable send button while writing
+
+  // ✅ LIVE conversation document (last message, unread counters)
+  useEffect(() => {
+    if (!id) return;
+
+    const unsub = onSnapshot(
+      doc(db, "conversations", id),
+      (snap) => {
+        if (!snap.exists()) {
+          setConversation(null);
+          setLoading(false);
+          return;
+        }
+
+        setConversation({ id: snap.id, ...(snap.data() as any) });
+      },
+      (err) => {
+        console.log("Conversation snapshot error:", err);
+        setLoading(false);
+      },
+    );
+
+    return unsub;
+  }, [id]);
+
+  // ✅ LIVE messages
+  useEffect(() => {
+    if (!id) return;
+
+    const q = query(
+      collection(db, "conversations", id, "messages"),
+      orderBy("createdAt", "desc"),
+      // Newest first; the inverted FlatList shows them at the bottom
+    );
+
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setMessages(snap.docs.map((d) => ({ id: d.id, ...(d.data() as any) })));
+        setLoading(false);
+      },
+      (err) => {
+        console.log("Messages snapshot error:", err);
+        setLoading(false);
+      },
+    );
+
+    return unsub;
+  }, [id]);
+
+  const otherId = conversation && user ? otherParticipant(conversation, user.uid) : "";
+  // The person I'm talking to
+
+  const myUnread = conversation && user ? conversation.unread?.[user.uid] ?? 0 : 0;
+  // My unread counter in this conversation
+
+  // Load the other participant's name once we know who it is
+  useEffect(() => {
+    if (!otherId) return;
+
+    getDoc(doc(db, "users", otherId))
+      .then((snap) => setOtherName(snap.exists() ? (snap.data() as any)?.name ?? "User" : "User"))
+      .catch((e) => console.log("Chat other profile error:", e));
+  }, [otherId]);
+
+  // While the thread is open, new messages are read immediately
+  useEffect(() => {
+    if (!id || !user || myUnread === 0) return;
+
+    markConversationRead(id, user.uid).catch((e) => console.log("markConversationRead error:", e));
+  }, [id, user, myUnread]);
+
+  const onSend = async () => {
+    if (!conversation || !user || !text.trim()) return;
+
+    try {
+      setSending(true);
+      await sendMessage(conversation, user.uid, text);
+      setText("");
+      // Clear composer after the message is saved
+    } catch (e: any) {
+      console.log("sendMessage error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to send message.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderMessage = ({ item }: { item: MessageDoc }) => {
+    const mine = item.senderId === user?.uid;
+    // My messages on the right (white), theirs on the left (translucent)
+
+    const time = item.createdAt?.toDate
+      ? item.createdAt.toDate().toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : "";
+    // createdAt is null for a moment while the server timestamp is pending
+
+    return (
+      <View style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleTheirs]}>
+        <Text style={[styles.bubbleText, mine && styles.bubbleTextMine]}>{item.text}</Text>
+        {time ? <Text style={[styles.time, mine && styles.timeMine]}>{time}</Text> : null}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <View style={{ flex: 1, alignItems: "center" }}>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {otherName}
+          </Text>
+          {conversation ? (
+            <Text style={styles.headerSub} numberOfLines={1}>
+              {conversation.itemTitle}
+            </Text>
+          ) : null}
+        </View>
+
+        <Pressable
+          onPress={() =>
+            conversation &&
+            router.push({ pathname: "/item/[id]", params: { id: conversation.itemId } })
+          }
+          // Open the item this conversation is about
+          hitSlop={12}
+          style={styles.backBtn}
+        >
+          <Ionicons name="cube-outline" size={20} color="#FFFFFF" />
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <Text style={styles.infoText}>Loading...</Text>
+      ) : !conversation ? (
+        <Text style={styles.infoText}>Conversation not found.</Text>
+      ) : (
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+        >
+          <FlatList
+            data={messages}
+            keyExtractor={(m) => m.id}
+            inverted
+            // Inverted list keeps the newest message at the bottom near the composer
+
+            contentContainerStyle={{ paddingHorizontal: 16, paddingVertical: 12 }}
+            ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+            renderItem={renderMessage}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                No messages yet. Agree on a pickup time and place here.
+              </Text>
+            }
+          />
+
+          {/* Composer */}
+          <View style={styles.composer}>
+            <TextInput
+              value={text}
+              onChangeText={setText}
+              placeholder="Message"
+              placeholderTextColor="rgba(255,255,255,0.7)"
+              style={styles.input}
+              multiline
+              maxLength={MAX_MESSAGE_LENGTH}
+            />
+
+            <Pressable
+              onPress={onSend}
+              disabled={sending || !text.trim()}
+              style={[styles.sendBtn, (sending || !text.trim()) && { opacity: 0.5 }]}
+            >
+              <Ionicons name="send" size={18} color="#4F98DC" />
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  headerSub: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "rgba(255,255,255,0.8)",
+  },
+  infoText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    paddingHorizontal: 16,
+    paddingTop: 18,
+  },
+  emptyText: {
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+    textAlign: "center",
+    paddingTop: 18,
+    // Inverted list flips its content, so flip the empty text back
+    transform: [{ scaleY: -1 }],
+  },
+  bubble: {
+    maxWidth: "80%",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  bubbleMine: {
+    alignSelf: "flex-end",
+    backgroundColor: "#FFFFFF",
+    borderBottomRightRadius: 4,
+  },
+  bubbleTheirs: {
+    alignSelf: "flex-start",
+    backgroundColor: "rgba(255,255,255,0.18)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+    borderBottomLeftRadius: 4,
+  },
+  bubbleText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  bubbleTextMine: {
+    color: "#4F98DC",
+  },
+  time: {
+    marginTop: 4,
+    fontSize: 10,
+    fontWeight: "700",
+    color: "rgba(255,255,255,0.75)",
+    alignSelf: "flex-end",
+  },
+  timeMine: {
+    color: "rgba(79,152,220,0.75)",
+  },
+  composer: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: Platform.OS === "ios" ? 28 : 14,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255,255,255,0.18)",
+    backgroundColor: "rgba(255,255,255,0.10)",
+  },
+  input: {
+    flex: 1,
+    minHeight: 44,
+    maxHeight: 120,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: "#FFFFFF",
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  sendBtn: {
+    width: 44,
+    height: 44,
+    borderRadius: 999,
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
+/*
+The function of this file is to show a single chat thread between a donor and a requester.
+Messages update live through onSnapshot, the composer sends new messages,
+and the user's unread counter is reset while the thread is open.
+*/
@@ -1,67 +1,237 @@
-import React from "react"; 
+import React, { useEffect, useState } from "react";
 // Import React to define a functional component
+// useState = store conversations + cached profiles
+// useEffect = subscribe to the conversations query
 
-import { View, Text, StyleSheet, Pressable, Platform } from "react-native"; 
+import { View, Text, StyleSheet, Pressable, Platform, FlatList, Image } from "react-native";
 // Import core React Native components:
 // View → container
 // Text → text rendering
 // StyleSheet → styles definition
 // Pressable → tappable button
 // Platform → detect iOS vs Android
+// FlatList → conversation list
+// Image → avatar of the other participant
 
-import { Ionicons } from "@expo/vector-icons"; 
+import { Ionicons } from "@expo/vector-icons";
 // Import Ionicons icon set from Expo
 
-import { useRouter } from "expo-router"; 
+import { useRouter } from "expo-router";
 // Import router hook to navigate between screens
 
-export default function ChatsScreen() { 
+import { collection, doc, getDoc, onSnapshot, orderBy, query, where } from "firebase/firestore";
+// Firestore helpers:
+// query/where/orderBy = conversations where I am a participant, newest first
+// onSnapshot = realtime updates (new messages move a conversation to the top)
+// getDoc = read the other participant's profile once
+
+import { auth, db } from "@/lib/firebase";
+// Firebase instances
+
+import { ConversationDoc, otherParticipant } from "@/lib/chat";
+// Chat types + helper to find the other user in a conversation
+
+type UserProfile = {
+  name: string;
+  avatarUrl: string;
+};
+// Cached display info for the other participant
+
+export default function ChatsScreen() {
 // Define and export the Chats screen component
 
-  const router = useRouter(); 
+  const router = useRouter();
   // Initialize router for navigation actions (back, push, replace, etc.)
 
-  return ( 
+  const user = auth.currentUser;
+  // Current signed-in user
+
+  const [loading, setLoading] = useState(true);
+  // Loading state until the first snapshot arrives
+
+  const [conversations, setConversations] = useState<ConversationDoc[]>([]);
+  // Conversations where current user is a participant
+
+  const [profiles, setProfiles] = useState<Record<string, UserProfile>>({});
+  // Cache: uid -> { name, avatarUrl }
+
+  const ensureProfile = async (uid: string) => {
+    // Fetch a profile only if it is not cached yet
+
+    if (!uid || profiles[uid]) return;
+
+    try {
+      const snap = await getDoc(doc(db, "users", uid));
+      const data = snap.exists() ? (snap.data() as any) : null;
+
+      setProfiles((prev) => ({
+        ...prev,
+        [uid]: {
+          name: data?.name ?? "User",
+          avatarUrl: data?.avatarUrl ?? "",
+        },
+      }));
+    } catch (e) {
+      console.log("Chats ensureProfile error:", e);
+    }
+  };
+
+  useEffect(() => {
+    // Subscribe to my conversations
+
+    if (!user) {
+      setLoading(false);
+      setConversations([]);
+      return;
+    }
+
+    const q = query(
+      collection(db, "conversations"),
+      where("participants", "array-contains", user.uid),
+      // Only conversations I am part of
+
+      orderBy("lastMessageAt", "desc"),
+      // Most recent activity first
+    );
+
+    const unsub = onSnapshot(
+      q,
+      async (snap) => {
+        const data: ConversationDoc[] = snap.docs.map((d) => ({
+          id: d.id,
+          ...(d.data() as any),
+        }));
+
+        setConversations(data);
+        setLoading(false);
+
+        const otherIds = Array.from(new Set(data.map((c) => otherParticipant(c, user.uid))));
+        await Promise.all(otherIds.map((uid) => ensureProfile(uid)));
+        // Load names/avatars of the people I'm chatting with
+      },
+      (err) => {
+        console.log("Conversations query error:", err);
+        setLoading(false);
+      },
+    );
+
+    return unsub;
+    // Cleanup listener when leaving the screen
+
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.uid]);
+
+  const renderRow = ({ item }: { item: ConversationDoc }) => {
+    // Render one conversation row
+
+    const otherId = user ? otherParticipant(item, user.uid) : "";
+    const other = profiles[otherId];
+    // Other participant's cached profile
+
+    const unread = user ? item.unread?.[user.uid] ?? 0 : 0;
+    // Unread messages for me in this conversation
+
+    const preview = item.lastMessage
+      ? `${item.lastSenderId === user?.uid ? "You: " : ""}${item.lastMessage}`
+      : "No messages yet. Say hi!";
+    // Last message preview (prefixed with "You:" if I sent it)
+
+    return (
+      <Pressable
+        style={[styles.row, unread > 0 && styles.rowUnread]}
+        onPress={() => router.push({ pathname: "/chat/[id]", params: { id: item.id } })}
+        // Open the thread
+      >
+        <View style={styles.avatar}>
+          {other?.avatarUrl ? (
+            <Image source={{ uri: other.avatarUrl }} style={styles.avatarImg} />
+          ) : (
+            <Ionicons name="person" size={18} color="#4F98DC" />
+          )}
+        </View>
+
+        <View style={{ flex: 1 }}>
+          <Text style={styles.name} numberOfLines={1}>
+            {other?.name ?? "Loading..."}
+          </Text>
+          {/* Other participant name */}
+
+          <Text style={styles.itemTitle} numberOfLines={1}>
+            {item.itemTitle}
+          </Text>
+          {/* Item the conversation is about */}
+
+          <Text style={[styles.preview, unread > 0 && styles.previewUnread]} numberOfLines={1}>
+            {preview}
+          </Text>
+          {/* Last message */}
+        </View>
+
+        {unread > 0 ? (
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>{unread > 99 ? "99+" : unread}</Text>
+          </View>
+        ) : (
+          <Ionicons name="chevron-forward" size={18} color="rgba(255,255,255,0.8)" />
+        )}
+        {/* Unread badge or chevron */}
+      </Pressable>
+    );
+  };
+
+  return (
     // Start rendering UI
 
-    <View style={styles.screen}> 
+    <View style={styles.screen}>
       {/* Root screen container */}
 
-      <View style={styles.header}> 
+      <View style={styles.header}>
         {/* Header section */}
 
-        <Pressable 
-          onPress={() => router.back()} 
+        <Pressable
+          onPress={() => router.back()}
           // Navigate back to previous screen when pressed
-          hitSlop={12} 
+          hitSlop={12}
           // Increase touch area for better usability
           style={styles.backBtn}
         >
-          <Ionicons name="chevron-back" size={22} color="#FFFFFF" /> 
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
           {/* Back arrow icon */}
         </Pressable>
 
-        <Text style={styles.headerTitle}>Chats</Text> 
+        <Text style={styles.headerTitle}>Chats</Text>
         {/* Screen title */}
 
-        <View style={{ width: 34 }} /> 
+        <View style={{ width: 34 }} />
         {/* Empty spacer to keep title centered */}
       </View>
 
-      <View style={styles.card}> 
-        {/* Card container for "Coming Soon" message */}
-
-        <Ionicons name="chatbubbles-outline" size={44} color="#FFFFFF" /> 
-        {/* Chat icon */}
-
-        <Text style={styles.title}>Chats Feature Coming Soon</Text> 
-        {/* Main message */}
-
-        <Text style={styles.sub}>
-          {/* Explanation text */}
-          This feature will allow donors and requesters to communicate and agree on delivery details.
-        </Text>
-      </View>
+      {loading ? (
+        <Text style={styles.infoText}>Loading...</Text>
+      ) : conversations.length === 0 ? (
+        <View style={styles.card}>
+          {/* Empty state card */}
+
+          <Ionicons name="chatbubbles-outline" size={44} color="#FFFFFF" />
+          {/* Chat icon */}
+
+          <Text style={styles.title}>No chats yet</Text>
+          {/* Main message */}
+
+          <Text style={styles.sub}>
+            {/* Explanation text */}
+            Once a request is approved, open it from My Requests to agree on pickup details.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          keyExtractor={(c) => c.id}
+          contentContainerStyle={{ paddingTop: 6, paddingBottom: 24 }}
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+          renderItem={renderRow}
+        />
+      )}
     </View>
   );
 }
@@ -70,37 +240,37 @@ const styles = StyleSheet.create({
   // Define all styles used in this screen
 
   screen: {
-    flex: 1, 
+    flex: 1,
     // Screen takes full height
 
-    backgroundColor: "#4F98DC", 
+    backgroundColor: "#4F98DC",
     // App’s main blue color
 
-    paddingTop: Platform.OS === "ios" ? 54 : 18, 
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
     // Extra padding for iOS status bar
 
-    paddingHorizontal: 16, 
+    paddingHorizontal: 16,
     // Horizontal padding
   },
 
   header: {
-    height: 54, 
+    height: 54,
     // Fixed header height
 
-    flexDirection: "row", 
+    flexDirection: "row",
     // Arrange items horizontally
 
-    alignItems: "center", 
+    alignItems: "center",
     // Vertically center items
 
-    justifyContent: "space-between", 
+    justifyContent: "space-between",
     // Space between back button, title, spacer
   },
 
   backBtn: {
     width: 34,
     height: 34,
-    borderRadius: 999, 
+    borderRadius: 999,
     // Circular button
 
     alignItems: "center",
@@ -113,20 +283,26 @@ const styles = StyleSheet.create({
     fontWeight: "800",
   },
 
+  infoText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    paddingTop: 18,
+  },
+
   card: {
-    marginTop: 14, 
+    marginTop: 14,
     // Space below header
 
     borderRadius: 18,
     padding: 18,
 
-    backgroundColor: "rgba(255,255,255,0.16)", 
+    backgroundColor: "rgba(255,255,255,0.16)",
     // Semi-transparent card
 
     borderWidth: 1,
     borderColor: "rgba(255,255,255,0.22)",
 
-    alignItems: "center", 
+    alignItems: "center",
     // Center content horizontally
   },
 
@@ -144,9 +320,81 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     textAlign: "center",
   },
+
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderRadius: 18,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+
+  rowUnread: {
+    backgroundColor: "rgba(255,255,255,0.24)",
+    // Highlight conversations with unread messages
+  },
+
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 999,
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+
+  avatarImg: {
+    width: "100%",
+    height: "100%",
+  },
+
+  name: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 14,
+  },
+
+  itemTitle: {
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+    fontSize: 11,
+    marginTop: 2,
+  },
+
+  preview: {
+    color: "rgba(255,255,255,0.78)",
+    fontWeight: "600",
+    fontSize: 12,
+    marginTop: 4,
+  },
+
+  previewUnread: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+  },
+
+  badge: {
+    minWidth: 22,
+    height: 22,
+    paddingHorizontal: 6,
+    borderRadius: 999,
+    backgroundColor: "#E53935",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  badgeText: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 11,
+  },
 });
 /*
-The function of this file is to display a "Chats" screen in the app, which currently shows a "Coming Soon" message. 
-It includes a header with a back button and title, and a card with an icon and text explaining that the chat feature will allow donors and requesters to communicate about delivery details. 
-The screen is styled with the app's main blue color and uses semi-transparent cards for content.
-*/
\ No newline at end of file
+The function of this file is to display the user's chat conversations.
+Each conversation belongs to one approved request and shows the other participant, the item,
+the last message and an unread badge. Tapping a row opens the thread screen (chat/[id]).
+*/
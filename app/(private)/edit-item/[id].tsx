@@ -15,7 +15,6 @@ import {
   ScrollView,
   Modal,
   FlatList,
-  Image,
 } from "react-native";
 // View/Text = layout + text
 // StyleSheet = create style object
@@ -26,7 +25,6 @@ import {
 // ScrollView = scrollable content
 // Modal = overlay popup (category selector)
 // FlatList = list inside modal
-// Image = show item image
 
 import { Ionicons } from "@expo/vector-icons";
 // Ionicons = icons used in header/buttons
@@ -40,19 +38,34 @@ import { doc, getDoc, updateDoc } from "firebase/firestore";
 // getDoc = read doc once
 // updateDoc = update fields in a doc
 
-import { getDownloadURL, ref, uploadBytes, deleteObject } from "firebase/storage";
-// ref = reference to a Storage file path
-// uploadBytes = upload file bytes to Storage
-// getDownloadURL = get a public download URL
-// deleteObject = delete a file from Storage
-
 import * as ImagePicker from "expo-image-picker";
 // ImagePicker = pick image from phone gallery
 
-import { auth, db, storage } from "@/lib/firebase";
+import { auth, db } from "@/lib/firebase";
 // auth = Firebase Auth instance (current user)
 // db = Firestore instance
-// storage = Firebase Storage instance
+
+import PhotoStrip from "@/components/photo-strip";
+// Editable photo gallery (add, remove, cover, drag to reorder)
+
+import { imageFields, itemImages, remainingImageSlots, removedImages } from "@/lib/item-images";
+// Gallery helpers (old single-image items are read as a one-photo gallery)
+
+import { newItemImagePath } from "@/lib/item-storage";
+// Storage path of a new photo
+
+import { useUnsavedUploads } from "@/hooks/use-unsaved-uploads";
+// Deletes photos uploaded here that never get saved (removed or screen left without saving)
+
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import UploadStatus from "@/components/upload-status";
+// Photo uploads with progress, cancel and retry
+
+import LocationField, { LocationValue } from "@/components/location-field";
+// Governorate picker + optional pinned position
+
+import { isGovernorateId, isValidGeohash } from "@/lib/location";
+// Validate the stored location before showing it
 
 type CategoryKey =
   | "Books"
@@ -69,7 +82,10 @@ type ItemDoc = {
   category: CategoryKey | string; // item category (string fallback)
   contactNumber?: string; // optional contact number
   ownerId: string; // UID of item owner (used for permission)
-  imageUrl?: string; // optional image URL from Storage
+  imageUrl?: string; // cover photo URL (older items only have this one)
+  images?: string[]; // photo URLs in display order (first = cover)
+  governorate?: string; // governorate the item can be collected in (missing on older items)
+  geohash?: string | null; // optional coarse position
 };
 // ItemDoc = shape of data stored in Firestore items collection
 
@@ -96,8 +112,6 @@ export default function EditItemScreen() {
   const [saving, setSaving] = useState(false);
   // saving = disable save button while updating Firestore
 
-  const [uploadingImage, setUploadingImage] = useState(false);
-  // uploadingImage = disable image actions while uploading/removing
 
   const [title, setTitle] = useState("");
   // title input state
@@ -111,36 +125,17 @@ export default function EditItemScreen() {
   const [contactNumber, setContactNumber] = useState("");
   // contact number input state
 
-  const [imageUrl, setImageUrl] = useState<string>("");
-  // imageUrl = current image URL to display in UI
+  const [location, setLocation] = useState<LocationValue>({ governorate: "", geohash: null });
+  // governorate + optional geohash (older items have none and must pick a governorate)
 
-  const [showCategoryModal, setShowCategoryModal] = useState(false);
-  // showCategoryModal = open/close category selection modal
+  const [images, setImages] = useState<string[]>([]);
+  // images = photo URLs shown in the editor (saved with "Save Changes")
 
-  // ✅ Reliable URI -> Blob (Expo iOS/Android)
-  const uriToBlob = (uri: string) =>
-    // Function converts local file URI (from ImagePicker) into a Blob for upload
-    new Promise<Blob>((resolve, reject) => {
-      // Promise wrapper because XMLHttpRequest is callback-based
+  const [dragging, setDragging] = useState(false);
+  // dragging = a photo is being dragged (the form stops scrolling)
 
-      const xhr = new XMLHttpRequest();
-      // xhr used to fetch the local file data
-
-      xhr.onload = () => resolve(xhr.response);
-      // when loaded, resolve with the response (blob)
-
-      xhr.onerror = () => reject(new Error("Failed to convert URI to Blob"));
-      // if any error, reject promise
-
-      xhr.responseType = "blob";
-      // tell xhr we want the response as a Blob
-
-      xhr.open("GET", uri, true);
-      // open a GET request to the local URI (async = true)
-
-      xhr.send(null);
-      // send the request
-    });
+  const [showCategoryModal, setShowCategoryModal] = useState(false);
+  // showCategoryModal = open/close category selection modal
 
   useEffect(() => {
     // Runs when `id` changes (or first mount)
@@ -197,8 +192,15 @@ export default function EditItemScreen() {
         setContactNumber(data.contactNumber ?? "");
         // fill contact number
 
-        setImageUrl(data.imageUrl ?? "");
-        // fill imageUrl so it shows current image
+        setLocation({
+          governorate: isGovernorateId(data.governorate) ? data.governorate : "",
+          geohash: isValidGeohash(data.geohash) ? data.geohash : null,
+        });
+        // fill location (anything invalid is dropped)
+
+        const photos = itemImages(data);
+        setImages(photos);
+        // fill the gallery (a single imageUrl becomes a one-photo gallery)
       } catch (e) {
         // any error while loading (permissions/network)
         console.log("Edit load error:", e);
@@ -218,8 +220,17 @@ export default function EditItemScreen() {
   }, [id]);
   // dependency = id. reload if user navigates to a different item id
 
-  const changeItemImage = async () => {
-    // Allows picking a new image and uploading it to Firebase Storage
+  const unsaved = useUnsavedUploads();
+  // Photos uploaded on this screen that the item does not use yet
+
+  const uploads = useUploadQueue((url, job) => {
+    unsaved.uploaded(url, job.path);
+    setImages((prev) => [...prev, url]);
+  });
+  // Photo uploads (progress, cancel, retry); each stored photo is added to the end of the gallery
+
+  const addImages = async () => {
+    // Picks photos and uploads them to Firebase Storage (the item is updated on save)
 
     if (!id) return;
     // must have item id
@@ -247,147 +258,54 @@ export default function EditItemScreen() {
       // stop
     }
 
+    const slots = remainingImageSlots(images) - uploads.pending;
+    // how many photos can still be added (max 8, photos still uploading count too)
+
+    if (slots <= 0) return;
+
     const result = await ImagePicker.launchImageLibraryAsync({
       // open gallery picker UI
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
       // only images
-      quality: 0.85,
-      // compress a bit (balance quality/size)
-      allowsEditing: true,
-      // allow cropping
-      aspect: [1, 1],
-      // crop to square
+      quality: 1,
+      // full quality (the upload service compresses once before upload)
+      allowsMultipleSelection: true,
+      // pick several photos at once
+      selectionLimit: slots,
+      // never more than the gallery limit
     });
 
     if (result.canceled) return;
     // if user cancels selection, stop
 
-    try {
-      setUploadingImage(true);
-      // lock UI while uploading
-
-      const uri = result.assets[0]?.uri;
-      // get the picked local file uri
-
-      if (!uri) return;
-      // guard: no uri
-
-      // Upload new image
-      const blob = await uriToBlob(uri);
-      // convert local uri to Blob
-
-      const fileRef = ref(storage, `item-images/${currentUser.uid}/${id}.jpg`);
-      // create a Storage reference (fixed path per item)
-      // path example: item-images/USER_UID/ITEM_ID.jpg
-
-      await uploadBytes(fileRef, blob);
-      // upload blob to Storage at the path
-
-      // @ts-ignore
-      blob.close?.();
-      // some environments provide blob.close() to release resources (safe optional)
-
-      const newUrl = await getDownloadURL(fileRef);
-      // get public download URL of uploaded image
-
-      // Update Firestore item
-      await updateDoc(doc(db, "items", id), {
-        imageUrl: newUrl,
-      });
-      // store newUrl in Firestore so other screens can read it
-
-      // Update local UI immediately
-      setImageUrl(newUrl);
-      // update local state so image changes without reloading
-
-      Alert.alert("Updated", "Item image updated!");
-      // success message
-    } catch (e: any) {
-      // handle upload/update failures
-      console.log("changeItemImage error:", e);
-      // log technical info
-      Alert.alert("Error", e?.message ?? "Failed to update image.");
-      // show user-friendly error
-    } finally {
-      setUploadingImage(false);
-      // unlock UI
-    }
+    const jobs = result.assets
+      .slice(0, slots)
+      .map((asset) => ({ uri: asset.uri, path: newItemImagePath(currentUser.uid) }));
+    unsaved.track(jobs.map((job) => job.path));
+    uploads.enqueue(jobs);
+    // upload one by one so each photo shows up as soon as it is stored
   };
 
-  const removeItemImage = async () => {
-    // Removes the item image (delete from Storage + clear Firestore field)
-
-    if (!id) return;
-    // must have id
-
-    const currentUser = auth.currentUser;
-    // current user
+  const onImagesChange = (next: string[]) => {
+    // Gallery edited (reorder, cover, remove)
 
-    if (!currentUser) {
-      // user not signed in
-      Alert.alert("Not signed in", "Please sign in again.");
-      // show message
-      return;
-      // stop
-    }
+    unsaved.discard(removedImages(images, next));
+    // photos uploaded on this screen and removed again are not used anywhere -> delete now
+    // (photos the item already had are deleted by the onItemWrittenImageCleanup Cloud Function
+    // once the save removes them from the item)
 
-    Alert.alert("Remove image", "Remove the item image?", [
-      // confirm popup before deleting
-
-      { text: "Cancel", style: "cancel" },
-      // cancel button
-
-      {
-        text: "Remove",
-        // remove button label
-        style: "destructive",
-        // red destructive style (iOS)
-        onPress: async () => {
-          // runs if user confirms removal
-          try {
-            setUploadingImage(true);
-            // lock UI while deleting
-
-            // Best-effort delete from storage (we used a fixed path)
-            const fileRef = ref(storage, `item-images/${currentUser.uid}/${id}.jpg`);
-            // reference to the same fixed image path used during upload
-
-            await deleteObject(fileRef).catch(() => {});
-            // attempt delete in Storage; ignore errors (file might not exist)
-
-            // Clear Firestore field
-            await updateDoc(doc(db, "items", id), { imageUrl: "" });
-            // set Firestore imageUrl to empty string
-
-            setImageUrl("");
-            // update local state
-
-            Alert.alert("Removed", "Item image removed.");
-            // success message
-          } catch (e: any) {
-            // handle errors
-            console.log("removeItemImage error:", e);
-            // log debug
-            Alert.alert("Error", e?.message ?? "Failed to remove image.");
-            // show user friendly error
-          } finally {
-            setUploadingImage(false);
-            // unlock UI
-          }
-        },
-      },
-    ]);
+    setImages(next);
   };
 
   const onSave = async () => {
-    // Saves edited fields (title/description/category/contactNumber/imageUrl) to Firestore
+    // Saves edited fields (title/description/category/location/contactNumber/photos) to Firestore
 
     if (!id) return;
     // must have id
 
-    if (!title.trim() || !description.trim() || !category) {
+    if (!title.trim() || !description.trim() || !category || !location.governorate) {
       // basic validation: must have these fields
-      Alert.alert("Missing fields", "Please fill title, description, and category.");
+      Alert.alert("Missing fields", "Please fill title, description, category, and governorate.");
       // show message
       return;
       // stop save
@@ -407,14 +325,20 @@ export default function EditItemScreen() {
         category: category,
         // update category
 
+        governorate: location.governorate,
+        geohash: location.geohash,
+        // update location (geohash null = not pinned)
+
         contactNumber: contactNumber.trim(),
         // update contact number
 
-        // imageUrl is edited separately, but keeping it here is fine too:
-        imageUrl: imageUrl,
-        // keep whatever is in state (newUrl or empty)
+        ...imageFields(images),
+        // photo URLs in order + cover copied into imageUrl (migrates single-image items)
       });
 
+      unsaved.commit();
+      // the new photos belong to the item now (kept when the screen closes)
+
       Alert.alert("Saved", "Item updated successfully.");
       // show success message
 
@@ -457,76 +381,28 @@ export default function EditItemScreen() {
         <Text style={styles.infoText}>Loading...</Text>
       ) : (
         // Else show form
-        <ScrollView contentContainerStyle={styles.content}>
+        <ScrollView contentContainerStyle={styles.content} scrollEnabled={!dragging}>
           {/* Scrollable content */}
 
-          {/* ✅ Image editor */}
-          <Text style={styles.label}>Image</Text>
+          {/* ✅ Photo gallery editor */}
+          <Text style={styles.label}>Photos</Text>
           {/* Section label */}
 
-          <View style={styles.imageRow}>
-            {/* Row: image box + buttons */}
-
-            <Pressable
-              onPress={changeItemImage}
-              // tapping image box opens picker
-
-              disabled={uploadingImage}
-              // disable while uploading/removing
-
-              style={[styles.imageBox, uploadingImage && { opacity: 0.7 }]}
-              // dim while uploading
-            >
-              {imageUrl ? (
-                // If there is an image URL, show it
-                <Image source={{ uri: imageUrl }} style={styles.image} />
-              ) : (
-                // Otherwise show placeholder
-                <View style={styles.imagePlaceholder}>
-                  <Ionicons name="image-outline" size={26} color="#4F98DC" />
-                  <Text style={styles.imageHint}>Tap to add</Text>
-                </View>
-              )}
-            </Pressable>
-
-            <View style={{ gap: 10 }}>
-              {/* Column for Change/Upload and Remove buttons */}
-
-              <Pressable
-                onPress={changeItemImage}
-                // change image button
-
-                disabled={uploadingImage}
-                // disable while uploading/removing
-
-                style={[styles.smallBtn, uploadingImage && { opacity: 0.7 }]}
-                // dim while uploading
-              >
-                <Text style={styles.smallBtnText}>
-                  {imageUrl ? "Change" : "Upload"}
-                  {/* If there is an image: "Change", else: "Upload" */}
-                </Text>
-              </Pressable>
-
-              <Pressable
-                onPress={removeItemImage}
-                // remove image button
-
-                disabled={uploadingImage || !imageUrl}
-                // disable if uploading OR no image exists
-
-                style={[
-                  styles.smallBtn,
-                  styles.smallBtnDanger,
-                  (uploadingImage || !imageUrl) && { opacity: 0.45 },
-                ]}
-                // red button + dim when disabled
-              >
-                <Text style={styles.smallBtnText}>Remove</Text>
-                {/* remove label */}
-              </Pressable>
-            </View>
-          </View>
+          <PhotoStrip
+            images={images}
+            onChange={onImagesChange}
+            onAdd={addImages}
+            uploading={uploads.busy}
+            onDragChange={setDragging}
+          />
+
+          <UploadStatus
+            status={uploads.status}
+            onCancel={uploads.cancel}
+            onRetry={uploads.retry}
+            onDismiss={uploads.dismiss}
+          />
+          {/* Upload progress / error */}
 
           <Text style={styles.label}>Title</Text>
           {/* Label: Title */}
@@ -589,6 +465,11 @@ export default function EditItemScreen() {
             {/* dropdown arrow icon */}
           </Pressable>
 
+          <Text style={styles.label}>Location</Text>
+          {/* Label: governorate + optional pin */}
+
+          <LocationField value={location} onChange={setLocation} />
+
           <Text style={styles.label}>Contact Number</Text>
           {/* Label: contact number */}
 
@@ -616,8 +497,8 @@ export default function EditItemScreen() {
             onPress={onSave}
             // save action
 
-            disabled={saving}
-            // disable while saving
+            disabled={saving || uploads.busy}
+            // disable while saving or while photos upload
 
             style={[styles.saveBtn, saving && { opacity: 0.7 }]}
             // dim when saving
@@ -739,55 +620,6 @@ const styles = StyleSheet.create({
   label: { color: "#FFFFFF", fontWeight: "800", marginTop: 14, marginBottom: 8 },
   // section label style
 
-  imageRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    gap: 12,
-  },
-  // row layout for image and buttons
-
-  imageBox: {
-    width: 120,
-    height: 120,
-    borderRadius: 18,
-    backgroundColor: "#FFFFFF",
-    overflow: "hidden",
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  // image container
-
-  image: { width: "100%", height: "100%" },
-  // image style
-
-  imagePlaceholder: { alignItems: "center", justifyContent: "center" },
-  // placeholder container
-
-  imageHint: { marginTop: 6, color: "rgba(0,0,0,0.55)", fontWeight: "800", fontSize: 12 },
-  // placeholder hint text
-
-  smallBtn: {
-    height: 42,
-    paddingHorizontal: 16,
-    borderRadius: 14,
-    backgroundColor: "rgba(255,255,255,0.18)",
-    borderWidth: 1,
-    borderColor: "rgba(255,255,255,0.25)",
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  // small action button style
-
-  smallBtnDanger: {
-    backgroundColor: "rgba(229,57,53,0.9)",
-    borderWidth: 0,
-  },
-  // red danger button style
-
-  smallBtnText: { color: "#FFFFFF", fontWeight: "900", fontSize: 12 },
-  // small button text
-
   inputBox: {
     backgroundColor: "#FFFFFF",
     borderRadius: 14,
@@ -4,8 +4,8 @@ import { Ionicons } from "@expo/vector-icons";
 // Import router hook from expo-router to navigate between screens
 import { useRouter } from "expo-router";
 
-// Import React + hooks we use (useMemo for memoizing, useState for state)
-import React, { useMemo, useState } from "react";
+// Import React + hooks we use (useMemo for memoizing, useState for state, useEffect for the search query)
+import React, { useEffect, useMemo, useState } from "react";
 
 // Import React Native UI components used in this screen
 import {
@@ -18,6 +18,42 @@ import {
   View,         // Container/layout component
 } from "react-native";
 
+// Import Firestore query helpers (aliased because `query` is the search text state below)
+import { collection, getDocs, limit, query as buildQuery, where } from "firebase/firestore";
+
+// Import initialized Firestore instance
+import { db } from "@/lib/firebase";
+
+// Import search helpers: query tokens + ranking
+import { rankItems, searchTokens } from "@/lib/search";
+
+// Import the shared item card (same look as the category screen)
+import ItemCard from "@/components/item-card";
+
+// Import the filter chips + "near me" rows (search options panel)
+import { Chip, ChipRow } from "@/components/filter-chips";
+import NearMeRows from "@/components/near-me-rows";
+
+// Import the "near me" origin (device location or chosen governorate)
+import { useNearMe } from "@/hooks/use-near-me";
+
+// Import the distance filter + sort helpers
+import { sortByDistance, withinDistance } from "@/lib/location";
+
+// Import the moderation filter: no hidden items, no items of blocked users
+import { listedItems } from "@/lib/reports";
+import { useBlockedUsers } from "@/hooks/use-blocked-users";
+
+// Live unread notifications count for the nav badge
+import { useUnreadCount } from "@/hooks/use-unread-count";
+import { badgeLabel } from "@/lib/notification-center";
+
+// Max candidate items fetched per search (ranked on the device)
+const SEARCH_LIMIT = 50;
+
+// Wait this long after the last keystroke before querying Firestore
+const SEARCH_DEBOUNCE_MS = 300;
+
 // Define a TypeScript type for a category item
 // Each category has:
 // - key: unique id used by FlatList
@@ -29,12 +65,35 @@ type Category = {
   icon: keyof typeof Ionicons.glyphMap;
 };
 
+// Item fields used by the search results
+type ItemDoc = {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  imageUrl?: string;
+  images?: string[];
+  thumbs?: unknown;
+  status?: string;
+  createdAt?: any;
+  governorate?: string;
+  geohash?: string | null;
+  ownerId?: string;
+  hidden?: boolean;
+};
+
+// Order of the search results: relevance (default) or distance from the user
+type SearchSort = "relevance" | "nearest";
+
 // Export default screen component for the Home screen in the private area
 export default function HomeScreen() {
 
   // Create router instance for navigation
   const router = useRouter();
 
+  // Unread notifications ("" = no badge)
+  const unreadBadge = badgeLabel(useUnreadCount());
+
   // query holds the current search text typed by the user
   const [query, setQuery] = useState("");
 
@@ -67,6 +126,90 @@ export default function HomeScreen() {
 
   }, [categories, query]); // recompute only if categories or query changes
 
+  // Search words from the query ("" when there is nothing to search for)
+  // Joined into a string so the effect below only re-runs when the words change
+  const searchKey = useMemo(() => searchTokens(query).join(" "), [query]);
+
+  // Ranked item results for the current search
+  const [results, setResults] = useState<ItemDoc[]>([]);
+
+  // True while a search query is running
+  const [searching, setSearching] = useState(false);
+
+  // Search options panel (distance + sort) open/closed
+  const [showOptions, setShowOptions] = useState(false);
+
+  // Search options (kept for this visit only)
+  const [searchSort, setSearchSort] = useState<SearchSort>("relevance");
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null);
+
+  // Where distances are measured from
+  const nearMe = useNearMe();
+
+  // Users the signed-in user blocked
+  const blocked = useBlockedUsers();
+
+  // Results after the moderation + distance filter/sort (ranking is kept when there is no origin)
+  const shownResults = useMemo(() => {
+    const listed = listedItems(results, blocked);
+    const origin = nearMe.origin;
+    if (!origin) return listed;
+
+    const nearby = maxDistanceKm ? withinDistance(listed, origin, maxDistanceKm) : listed;
+    return searchSort === "nearest" ? sortByDistance(nearby, origin) : nearby;
+  }, [results, blocked, nearMe.origin, maxDistanceKm, searchSort]);
+
+  // Number of search options that differ from the defaults (badge on the options button)
+  const optionCount = (maxDistanceKm !== null ? 1 : 0) + (searchSort !== "relevance" ? 1 : 0);
+
+  // Item search: fetch items whose keywords contain any search word, then rank them
+  useEffect(() => {
+
+    // No search words -> show the category grid
+    if (!searchKey) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+
+    // Ignore results of a search that was replaced by a newer one
+    let active = true;
+
+    // Debounce so we don't query on every keystroke
+    const timer = setTimeout(async () => {
+      try {
+        const snap = await getDocs(
+          buildQuery(
+            collection(db, "items"),
+            where("keywords", "array-contains-any", searchKey.split(" ")),
+            where("hidden", "==", false),
+            // hidden items are refused by the rules (only their owner and moderators read them)
+            limit(SEARCH_LIMIT)
+          )
+        );
+
+        if (!active) return;
+
+        const data: ItemDoc[] = snap.docs.map((d) => ({ id: d.id, ...(d.data() as any) }));
+
+        // Best matches first (title > category > description, then newest)
+        setResults(rankItems(data, searchKey));
+      } catch (e) {
+        console.log("Search error:", e);
+      } finally {
+        if (active) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    // Cleanup: cancel pending search when the query changes or screen unmounts
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [searchKey]);
+
   // Screen UI return
   return (
     // Root screen container
@@ -88,50 +231,115 @@ export default function HomeScreen() {
         <TextInput
           value={query} // displayed value comes from state
           onChangeText={setQuery} // updates query state on typing
-          placeholder="Search" // placeholder when empty
+          placeholder="Search items or categories" // placeholder when empty
           placeholderTextColor={stylesVars.textSoft} // placeholder color
           style={styles.searchInput} // styling
           returnKeyType="search" // keyboard shows "search" action
         />
-      </View>
-
-      {/* Grid list of categories */}
-      <FlatList
-        data={filtered} // list uses filtered categories, not full list
-        keyExtractor={(item) => item.key} // unique key for each category
-        numColumns={2} // render as a 2-column grid
-        contentContainerStyle={styles.grid} // padding for the whole grid
-        columnWrapperStyle={styles.row} // styling for each row (space-between)
-        showsVerticalScrollIndicator={false} // hide scroll bar
-        renderItem={({ item }) => (
-
-          // Each category is clickable
-          <Pressable
-            onPress={() => {
-
-              // Navigate to category screen when a category card is pressed
-              // Example route: /category/[name]
-              // We pass the category label as the "name" param
-              router.push({
-                pathname: "/category/[name]",
-                params: { name: item.label }, // "Electronics", "Books", etc.
-              });
-            }}
-            style={styles.card} // card styles
-          >
-
-            {/* Circle icon background */}
-            <View style={styles.iconCircle}>
-              {/* Category icon */}
-              <Ionicons name={item.icon} size={30} color={stylesVars.text} />
-            </View>
-
-            {/* Category label */}
-            <Text style={styles.cardLabel}>{item.label}</Text>
 
+        {/* Search options button (distance + sort), only while searching */}
+        {searchKey ? (
+          <Pressable onPress={() => setShowOptions((v) => !v)} hitSlop={10}>
+            <Ionicons
+              name={showOptions ? "options" : "options-outline"}
+              size={20}
+              color={optionCount > 0 ? stylesVars.text : stylesVars.textSoft}
+            />
           </Pressable>
-        )}
-      />
+        ) : null}
+      </View>
+
+      {/* Search options panel */}
+      {searchKey && showOptions ? (
+        <View style={styles.optionsPanel}>
+          <NearMeRows nearMe={nearMe} maxDistanceKm={maxDistanceKm} onChangeMaxDistance={setMaxDistanceKm} />
+
+          <ChipRow title="Sort">
+            <Chip
+              label="Best match"
+              active={searchSort === "relevance"}
+              onPress={() => setSearchSort("relevance")}
+            />
+            <Chip
+              label="Nearest"
+              active={searchSort === "nearest"}
+              disabled={!nearMe.origin}
+              onPress={() => setSearchSort("nearest")}
+            />
+          </ChipRow>
+        </View>
+      ) : null}
+
+      {searchKey ? (
+        // Search mode: ranked item results across all categories
+        <FlatList
+          data={shownResults} // ranked search results (after the distance filter/sort)
+          keyExtractor={(item) => item.id} // Firestore document id
+          contentContainerStyle={styles.results} // padding (leaves room for the nav bar)
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />} // spacing between cards
+          keyboardShouldPersistTaps="handled" // tapping a result works while the keyboard is open
+          showsVerticalScrollIndicator={false}
+          ListHeaderComponent={
+            // Result count / searching hint above the list
+            <Text style={styles.resultsInfo}>
+              {searching
+                ? "Searching..."
+                : shownResults.length === 0
+                  ? results.length > 0
+                    ? "No matching items within this distance."
+                    : "No items match your search."
+                  : `${shownResults.length} result${shownResults.length === 1 ? "" : "s"}`}
+            </Text>
+          }
+          renderItem={({ item }) => (
+            // Same card as the category screen, with the category shown
+            <ItemCard
+              item={item}
+              showCategory
+              origin={nearMe.origin}
+              onPress={() => router.push({ pathname: "/item/[id]", params: { id: item.id } })}
+            />
+          )}
+        />
+      ) : (
+        // Grid list of categories
+        <FlatList
+          data={filtered} // list uses filtered categories, not full list
+          keyExtractor={(item) => item.key} // unique key for each category
+          numColumns={2} // render as a 2-column grid
+          contentContainerStyle={styles.grid} // padding for the whole grid
+          columnWrapperStyle={styles.row} // styling for each row (space-between)
+          showsVerticalScrollIndicator={false} // hide scroll bar
+          renderItem={({ item }) => (
+
+            // Each category is clickable
+            <Pressable
+              onPress={() => {
+
+                // Navigate to category screen when a category card is pressed
+                // Example route: /category/[name]
+                // We pass the category label as the "name" param
+                router.push({
+                  pathname: "/category/[name]",
+                  params: { name: item.label }, // "Electronics", "Books", etc.
+                });
+              }}
+              style={styles.card} // card styles
+            >
+
+              {/* Circle icon background */}
+              <View style={styles.iconCircle}>
+                {/* Category icon */}
+                <Ionicons name={item.icon} size={30} color={stylesVars.text} />
+              </View>
+
+              {/* Category label */}
+              <Text style={styles.cardLabel}>{item.label}</Text>
+
+            </Pressable>
+          )}
+        />
+      )}
 
       {/* Bottom Navigation bar */}
       <View style={styles.bottomNav}>
@@ -155,7 +363,15 @@ export default function HomeScreen() {
 
         {/* Notifications tab navigates to /notifications */}
         <Pressable style={styles.navItem} onPress={() => router.push("/notifications")}>
-          <Ionicons name="notifications-outline" size={22} color={stylesVars.text} />
+          <View>
+            <Ionicons name="notifications-outline" size={22} color={stylesVars.text} />
+            {/* Unread badge on the bell */}
+            {unreadBadge ? (
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>{unreadBadge}</Text>
+              </View>
+            ) : null}
+          </View>
           <Text style={styles.navLabel}>Notifications</Text>
         </Pressable>
 
@@ -231,6 +447,33 @@ const styles = StyleSheet.create({
     fontSize: 15,
   },
 
+  // Search options panel (distance + sort)
+  optionsPanel: {
+    marginTop: 10,
+    marginHorizontal: 18,
+    padding: 12,
+    borderRadius: 18,
+    backgroundColor: stylesVars.card,
+    borderWidth: 1,
+    borderColor: stylesVars.cardBorder,
+    gap: 10,
+  },
+
+  // Search results list padding
+  results: {
+    paddingHorizontal: 18,
+    paddingTop: 14,
+    paddingBottom: 110, // bottom spacing so nav bar doesn’t cover content
+  },
+
+  // "N results" / "Searching..." text above the results
+  resultsInfo: {
+    color: stylesVars.textSoft,
+    fontWeight: "700",
+    fontSize: 13,
+    marginBottom: 10,
+  },
+
   // Grid list container padding
   grid: {
     paddingHorizontal: 18, // left/right spacing
@@ -314,6 +557,26 @@ const styles = StyleSheet.create({
     fontWeight: "700",
   },
 
+  // Unread notifications badge (top-right of the bell)
+  badge: {
+    position: "absolute",
+    top: -6,
+    right: -10,
+    minWidth: 18,
+    height: 18,
+    paddingHorizontal: 4,
+    borderRadius: 999,
+    backgroundColor: "#E53935",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  badgeText: {
+    color: stylesVars.text,
+    fontSize: 10,
+    fontWeight: "900",
+  },
+
   // Floating add button style
   fab: {
     position: "absolute",
@@ -333,7 +596,8 @@ const styles = StyleSheet.create({
   },
 });
  /*This file implements the Home screen for the private area of the app.
-It features a search bar to filter categories, a grid of category cards,
+It features a search bar that searches items across all categories (ranked results
+replace the grid while searching, with optional distance filter and nearest sort), a grid of category cards,
 and a bottom navigation bar with tabs for Home, Profile, Notifications, and Chats.
 A floating add button allows users to create new items.
 The screen uses React Native components and Expo Router for navigation.
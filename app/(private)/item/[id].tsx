@@ -6,29 +6,38 @@ import {
   Pressable,
   Platform,
   ScrollView,
-  Image,
   Alert,
+  Image,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import {
-  doc,
-  onSnapshot,
-  runTransaction,
-  serverTimestamp,
-  collection,
-} from "firebase/firestore";
+import { doc, getDoc, onSnapshot } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase";
+import { requestItem } from "@/lib/requests";
+import { ItemStatus, canRequestItem, itemStatusLabel } from "@/lib/rules";
+import { governorateLabel } from "@/lib/location";
+import { itemImages } from "@/lib/item-images";
+import ImageGallery from "@/components/image-gallery";
+import { useOffline } from "@/lib/offline-context";
+import { queuedMessage } from "@/lib/outbox";
+import { PublicProfile, ratingLabel, toPublicProfile } from "@/lib/profile";
+import { useAuth } from "@/lib/auth-context";
+import { useBlockedUsers } from "@/hooks/use-blocked-users";
+import ReportSheet from "@/components/report-sheet";
 
 type ItemDoc = {
   title: string;
   description: string;
   category: string;
-  status?: "available" | "requested" | "accepted" | "donated" | string;
+  status?: ItemStatus | string;
   imageUrl?: string;
+  images?: string[];
   contactNumber?: string;
+  governorate?: string;
+  geohash?: string | null;
   ownerId: string;
   createdAt?: any;
+  hidden?: boolean; // hidden by a moderator
 };
 
 export default function ItemDetailsScreen() {
@@ -38,12 +47,27 @@ export default function ItemDetailsScreen() {
   const [item, setItem] = useState<ItemDoc | null>(null);
   const [loading, setLoading] = useState(true);
   const [requesting, setRequesting] = useState(false);
+  const [owner, setOwner] = useState<PublicProfile | null>(null);
+  const [reporting, setReporting] = useState(false);
+  const { run } = useOffline();
+  const { isAdmin } = useAuth();
+  const blocked = useBlockedUsers();
+
+  const isOwner = !!item && item.ownerId === auth.currentUser?.uid;
+  const ownerBlocked = !!item && blocked.has(item.ownerId);
+
+  // The rules refused the item: it was hidden by a moderator
+  const [denied, setDenied] = useState(false);
+
+  // Hidden items stay visible to their owner and to moderators only
+  const removed = denied || (!!item?.hidden && !isOwner && !isAdmin);
 
   // ✅ LIVE updates for item changes (status, etc.)
   useEffect(() => {
     if (!id) return;
 
     setLoading(true);
+    setDenied(false);
     const itemRef = doc(db, "items", id);
 
     const unsub = onSnapshot(
@@ -58,6 +82,10 @@ export default function ItemDetailsScreen() {
       },
       (err) => {
         console.log("Item details snapshot error:", err);
+        if (err.code === "permission-denied") {
+          setItem(null);
+          setDenied(true);
+        }
         setLoading(false);
       }
     );
@@ -65,10 +93,19 @@ export default function ItemDetailsScreen() {
     return unsub;
   }, [id]);
 
-  const isAvailable = useMemo(() => {
-    const s = (item?.status ?? "available").toString().toLowerCase();
-    return s === "available";
-  }, [item?.status]);
+  // Owner name + avatar (links to their public profile)
+  useEffect(() => {
+    if (!item?.ownerId) return;
+
+    getDoc(doc(db, "users", item.ownerId))
+      .then((snap) => setOwner(snap.exists() ? toPublicProfile(snap.data()) : null))
+      .catch((e) => console.log("Item owner error:", e));
+  }, [item?.ownerId]);
+
+  const isAvailable = useMemo(
+    () => canRequestItem(item?.status) && !item?.hidden && !ownerBlocked,
+    [item?.status, item?.hidden, ownerBlocked],
+  );
 
   const onRequestItem = async () => {
     if (!id) return;
@@ -97,60 +134,17 @@ export default function ItemDetailsScreen() {
     try {
       setRequesting(true);
 
-      // Unique request id prevents duplicates per user per item
-      const requestId = `${id}_${user.uid}`;
-      const itemRef = doc(db, "items", id);
-      const requestRef = doc(db, "requests", requestId);
-
-      await runTransaction(db, async (tx) => {
-        const itemSnap = await tx.get(itemRef);
-        if (!itemSnap.exists()) {
-          throw new Error("Item not found.");
-        }
-
-        const liveItem = itemSnap.data() as ItemDoc;
-        const liveStatus = (liveItem.status ?? "available").toString().toLowerCase();
+      // The server creates the request, updates the item and notifies the owner
+      // (duplicate requests and unavailable items are rejected there)
+      // Offline: the request waits in the outbox and is sent on reconnect
+      const action = { kind: "requestItem" as const, itemId: id };
+      const result = await run(action, item.title, () => requestItem(id));
 
-        if (liveItem.ownerId === user.uid) {
-          throw new Error("You cannot request your own item.");
-        }
-
-        if (liveStatus !== "available") {
-          throw new Error("This item is not available.");
-        }
-
-        const requestSnap = await tx.get(requestRef);
-        if (requestSnap.exists()) {
-          throw new Error("You already requested this item.");
-        }
-        // Create notification for item owner
-    const notifRef = doc(collection(db, "notifications"));
-    tx.set(notifRef, {
-    toUserId: liveItem.ownerId,
-    fromUserId: user.uid,
-    title: "New request received",
-    body: "Someone requested your item.",
-    type: "request_received",
-    itemId: id,
-    read: false,
-    createdAt: serverTimestamp(),
-    });
-
-
-        // Create request
-        tx.set(requestRef, {
-          itemId: id,
-          itemOwnerId: liveItem.ownerId,
-          requesterId: user.uid,
-          status: "pending",
-          createdAt: serverTimestamp(),
-        });
-
-        // Update item status immediately
-        tx.update(itemRef, { status: "requested" });
-      });
-
-      Alert.alert("Request sent", "The item owner has been notified.");
+      if (result === "queued") {
+        Alert.alert("Offline", queuedMessage(action, item.title));
+      } else {
+        Alert.alert("Request sent", "The item owner has been notified.");
+      }
     } catch (e: any) {
       console.log("Request error:", e);
       Alert.alert("Request failed", e?.message ?? "Please try again.");
@@ -169,29 +163,41 @@ export default function ItemDetailsScreen() {
 
         <Text style={styles.headerTitle}>Item Details</Text>
 
-        <View style={{ width: 34 }} />
+        {item && !isOwner && !removed ? (
+          // Scam listing, offensive photo... -> moderation queue
+          <Pressable onPress={() => setReporting(true)} hitSlop={12} style={styles.backBtn}>
+            <Ionicons name="flag-outline" size={20} color="#FFFFFF" />
+          </Pressable>
+        ) : (
+          <View style={{ width: 34 }} />
+        )}
       </View>
 
       {loading ? (
         <Text style={styles.infoText}>Loading...</Text>
+      ) : removed ? (
+        <Text style={styles.infoText}>This item was removed by a moderator.</Text>
       ) : !item ? (
         <Text style={styles.infoText}>Item not found.</Text>
       ) : (
         <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
-          {/* Image */}
-          <View style={styles.imageBox}>
-            {item.imageUrl ? (
-              <Image source={{ uri: item.imageUrl }} style={styles.image} />
-            ) : (
-              <>
-                <Ionicons name="image-outline" size={34} color="rgba(255,255,255,0.9)" />
-                <Text style={styles.imageHint}>No image</Text>
-              </>
-            )}
-          </View>
+          {/* Full-size photos, not the list thumbnails (swipe, tap for full screen) */}
+          <ImageGallery images={itemImages(item)} />
 
           {/* Card */}
           <View style={styles.card}>
+            {item.hidden ? (
+              <View style={styles.notice}>
+                <Ionicons name="eye-off-outline" size={16} color="#FFFFFF" />
+                <Text style={styles.noticeText}>Hidden by a moderator. Other users cannot see this item.</Text>
+              </View>
+            ) : ownerBlocked ? (
+              <View style={styles.notice}>
+                <Ionicons name="ban-outline" size={16} color="#FFFFFF" />
+                <Text style={styles.noticeText}>You blocked this donor.</Text>
+              </View>
+            ) : null}
+
             <Text style={styles.title}>{item.title}</Text>
 
             <View style={styles.row}>
@@ -202,10 +208,21 @@ export default function ItemDetailsScreen() {
 
               <View style={styles.chipSoft}>
                 <Ionicons name="radio-button-on-outline" size={14} color="#FFFFFF" />
-                <Text style={styles.chipText}>{(item.status ?? "available").toString()}</Text>
+                <Text style={styles.chipText}>{itemStatusLabel(item.status)}</Text>
               </View>
             </View>
 
+            {governorateLabel(item.governorate) ? (
+              // Where the item can be collected ("pinned" = the donor shared a ~1 km area)
+              <View style={[styles.row, { marginTop: 12 }]}>
+                <Ionicons name="location-outline" size={16} color="rgba(255,255,255,0.9)" />
+                <Text style={styles.metaText}>
+                  {governorateLabel(item.governorate)}
+                  {item.geohash ? " · pinned area" : ""}
+                </Text>
+              </View>
+            ) : null}
+
             {item.contactNumber ? (
               <View style={[styles.row, { marginTop: 12 }]}>
                 <Ionicons name="call-outline" size={16} color="rgba(255,255,255,0.9)" />
@@ -213,6 +230,28 @@ export default function ItemDetailsScreen() {
               </View>
             ) : null}
 
+            {owner && item ? (
+              <Pressable
+                onPress={() => router.push({ pathname: "/user/[uid]", params: { uid: item.ownerId } })}
+                style={styles.ownerRow}
+              >
+                <View style={styles.ownerAvatar}>
+                  {owner.avatarUrl ? (
+                    <Image source={{ uri: owner.avatarUrl }} style={styles.ownerAvatarImg} />
+                  ) : (
+                    <Ionicons name="person" size={16} color="#4F98DC" />
+                  )}
+                </View>
+
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.ownerName}>{owner.name}</Text>
+                  <Text style={styles.ownerSub}>{ratingLabel(owner)}</Text>
+                </View>
+
+                <Ionicons name="chevron-forward" size={18} color="rgba(255,255,255,0.9)" />
+              </Pressable>
+            ) : null}
+
             <Text style={styles.sectionTitle}>Description</Text>
             <Text style={styles.desc}>{item.description}</Text>
 
@@ -231,6 +270,10 @@ export default function ItemDetailsScreen() {
           </View>
         </ScrollView>
       )}
+
+      {id ? (
+        <ReportSheet visible={reporting} onClose={() => setReporting(false)} targetType="item" targetId={id} />
+      ) : null}
     </View>
   );
 }
@@ -270,27 +313,6 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingBottom: 28,
   },
-  imageBox: {
-    height: 220,
-    borderRadius: 18,
-    backgroundColor: "rgba(255,255,255,0.16)",
-    borderWidth: 1,
-    borderColor: "rgba(255,255,255,0.22)",
-    alignItems: "center",
-    justifyContent: "center",
-    marginTop: 8,
-    marginBottom: 14,
-    overflow: "hidden",
-  },
-  image: {
-    width: "100%",
-    height: "100%",
-  },
-  imageHint: {
-    marginTop: 8,
-    color: "rgba(255,255,255,0.85)",
-    fontWeight: "700",
-  },
   card: {
     borderRadius: 18,
     padding: 16,
@@ -304,6 +326,21 @@ const styles = StyleSheet.create({
     fontWeight: "900",
     marginBottom: 10,
   },
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: "rgba(0,0,0,0.12)",
+  },
+  noticeText: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 12,
+  },
   row: {
     flexDirection: "row",
     alignItems: "center",
@@ -341,6 +378,34 @@ const styles = StyleSheet.create({
     color: "rgba(255,255,255,0.9)",
     fontWeight: "700",
   },
+  ownerRow: {
+    marginTop: 14,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  ownerAvatar: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  ownerAvatarImg: {
+    width: "100%",
+    height: "100%",
+  },
+  ownerName: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+  },
+  ownerSub: {
+    color: "rgba(255,255,255,0.8)",
+    fontWeight: "600",
+    fontSize: 12,
+  },
   sectionTitle: {
     marginTop: 14,
     marginBottom: 6,
@@ -369,7 +434,9 @@ const styles = StyleSheet.create({
 });
 /*
 The fucntion of this file is to display detailed information about a specific item, 
-including its image, title, description, category, status, and contact number. 
+including its photo gallery, title, description, category, status, location, contact number
+and the owner, who links to their public profile. Other users can report the item,
+items hidden by a moderator are only shown to their owner and to moderators. 
 It also allows users to request the item if it is available, 
 handling user authentication and preventing users from requesting their own items or items that are not available. 
 */
\ No newline at end of file
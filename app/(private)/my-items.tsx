@@ -1,7 +1,6 @@
-import React, { useEffect, useState } from "react";
+import React, { useMemo } from "react";
 // React core + hooks:
-// useState = component state
-// useEffect = run side effects (like Firestore listeners)
+// useMemo = build the items query once per user
 
 import {
   View,
@@ -12,6 +11,7 @@ import {
   FlatList,
   Image,
   Alert,
+  ActivityIndicator,
 } from "react-native";
 // React Native UI building blocks:
 // View/Text = layout + text
@@ -21,6 +21,7 @@ import {
 // FlatList = performant list rendering
 // Image = show item image
 // Alert = popup dialog messages
+// ActivityIndicator = spinner while an older page loads
 
 import { Ionicons } from "@expo/vector-icons";
 // Icon library used for UI icons (back, chevron, image placeholder)
@@ -28,33 +29,32 @@ import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 // Navigation hook for pushing/backing routes
 
-import {
-  collection,
-  onSnapshot,
-  orderBy,
-  query,
-  where,
-  doc,
-  updateDoc,
-  deleteDoc,
-} from "firebase/firestore";
+import { collection, orderBy, query, where, doc, deleteDoc } from "firebase/firestore";
 // Firestore functions:
 // collection/doc = references
 // query/where/orderBy = build queries
-// onSnapshot = realtime listener
-// updateDoc = update document fields
 // deleteDoc = delete documents
 
-import { deleteObject, ref } from "firebase/storage";
-// Firebase Storage functions:
-// ref = create storage reference
-// deleteObject = delete file from storage
-
-import { auth, db, storage } from "@/lib/firebase";
+import { auth, db } from "@/lib/firebase";
 // Your initialized Firebase instances:
 // auth = authentication
 // db = Firestore
-// storage = Storage
+
+import { itemThumbnail } from "@/lib/thumbnails";
+// Small thumbnail of the cover photo (falls back to the photo)
+
+import { canMarkDonated, itemStatusLabel } from "@/lib/rules";
+// Lifecycle rules: donated is only reachable from accepted
+
+import { markDonated as markDonatedOnServer } from "@/lib/requests";
+// Request workflow Cloud Function (status change + requester notification run on the server)
+
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+// Live first page + older pages on scroll + pull-to-refresh
+
+import { useOffline } from "@/lib/offline-context";
+import { queuedMessage } from "@/lib/outbox";
+// Marking as donated while offline waits in the outbox
 
 type ItemDoc = {
   id: string;
@@ -73,7 +73,13 @@ type ItemDoc = {
   // Status of item (available, requested, accepted, donated, ...)
 
   imageUrl?: string;
-  // URL for the item image stored in Firebase Storage (download URL)
+  // Cover photo URL (download URL; older items only have this one)
+
+  images?: string[];
+  // All photo URLs in display order (first = cover)
+
+  thumbs?: unknown;
+  // Thumbnail URLs made by the thumbnail Cloud Function
 
   ownerId: string;
   // UID of the user who created/owns this item
@@ -94,105 +100,82 @@ export default function MyItemsScreen() {
   const user = auth.currentUser;
   // Current signed-in user (or null if signed out)
 
-  const [loading, setLoading] = useState(true);
-  // Loading state: shows "Loading..." while fetching Firestore items
-
-  const [items, setItems] = useState<ItemDoc[]>([]);
-  // Items state: array of item docs that belong to the logged-in user
-
-  useEffect(() => {
-    // This effect subscribes to the user's items in Firestore in real-time
-
-    if (!user) {
-      // If there is no signed-in user, stop and show empty list
-
-      setLoading(false);
-      // Not loading anymore
-
-      setItems([]);
-      // Clear list
-
-      return;
-      // Exit effect early
-    }
-
-    const q = query(
-      // Build Firestore query
-
-      collection(db, "items"),
-      // Read from "items" collection
-
-      where("ownerId", "==", user.uid),
-      // Filter items where ownerId matches current user
+  const itemsQuery = useMemo(
+    () =>
+      user
+        ? query(
+            collection(db, "items"),
+            // Read from "items" collection
 
-      orderBy("createdAt", "desc"),
-      // Sort newest items first
-    );
+            where("ownerId", "==", user.uid),
+            // Filter items where ownerId matches current user
 
-    const unsub = onSnapshot(
-      // Subscribe to realtime updates for this query
+            orderBy("createdAt", "desc"),
+            // Sort newest items first
+          )
+        : null,
+    // No signed-in user -> nothing to load (empty list)
 
-      q,
-      // Query to listen to
-
-      (snap) => {
-        // Callback runs whenever Firestore returns data or changes happen
-
-        const data: ItemDoc[] = snap.docs.map((d) => ({
-          // Convert snapshot documents into plain objects
-
-          id: d.id,
-          // Add document id into the object
-
-          ...(d.data() as any),
-          // Add all Firestore fields into the object
-        }));
-
-        setItems(data);
-        // Store results in state
-
-        setLoading(false);
-        // Stop showing loading UI
-      },
-
-      (err) => {
-        // Error callback if query fails
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [user?.uid],
+  );
+  // Rebuilt only when the user changes (the hook re-subscribes)
 
-        console.log("MyItems query error:", err);
-        // Print error for debugging
+  const { items, loading, loadingMore, refreshing, loadMore, refresh, patchRow } =
+    usePaginatedQuery<ItemDoc>(itemsQuery, undefined, user ? `myItems:${user.uid}` : null);
+  // Newest page is live; older items load when the list is scrolled to the end
+  // (the newest page is also saved on the device for offline browsing)
 
-        setLoading(false);
-        // Stop loading even if error
-      },
-    );
+  const { run } = useOffline();
 
-    return unsub;
-    // Cleanup: unsubscribe listener when screen unmounts or user changes
-  }, [user?.uid]);
-  // Re-run this effect if the user changes (uid changes)
-
-  const markDonated = async (itemId: string) => {
-    // Mark an item as donated by updating Firestore
+  const markDonated = async (item: ItemDoc) => {
+    // Mark an item as donated (the server re-checks ownership + status)
 
     try {
-      await updateDoc(doc(db, "items", itemId), { status: "donated" });
-      // Update items/{itemId} -> status = "donated"
-
-      Alert.alert("Done", "Item marked as donated.");
+      const action = { kind: "markDonated" as const, itemId: item.id };
+      let requestId: string | null = null;
+      // The approved request, when the item went to someone through the app
+
+      const result = await run(action, item.title, async () => {
+        requestId = (await markDonatedOnServer(item.id)).requestId ?? null;
+      });
+      // items/{itemId} -> status = "donated", approved requester gets notified
+
+      if (result === "queued") {
+        Alert.alert("Offline", queuedMessage(action, item.title));
+        return;
+      }
+      // Offline: sent when the connection comes back
+
+      patchRow(item.id, { status: "donated" });
+      // Older pages are not live, so update the row here too
+
+      if (requestId) {
+        Alert.alert("Done", "Item marked as donated. How did the handover go?", [
+          { text: "Later", style: "cancel" },
+          {
+            text: "Rate recipient",
+            onPress: () => router.push({ pathname: "/review/[requestId]", params: { requestId } }),
+          },
+        ]);
+        // Prompt the owner to rate the recipient (also possible later from My Requests)
+      } else {
+        Alert.alert("Done", "Item marked as donated.");
+      }
       // Notify the user
-    } catch (e) {
-      // Handle errors
+    } catch (e: any) {
+      // Handle errors (including a blocked transition)
 
       console.log("markDonated error:", e);
       // Log error
 
-      Alert.alert("Error", "Failed to update item.");
+      Alert.alert("Error", e?.message ?? "Failed to update item.");
       // Show error popup
     }
   };
 
   const deleteItem = async (item: ItemDoc) => {
-    // Delete an item document (and attempt to delete its image)
+    // Delete an item document (and its photos)
 
     Alert.alert("Delete item", "Are you sure you want to delete this item?", [
       // Confirmation dialog so we don't delete accidentally
@@ -211,17 +194,12 @@ export default function MyItemsScreen() {
           try {
             await deleteDoc(doc(db, "items", item.id));
             // Delete the Firestore doc: items/{item.id}
+            // (its photos are deleted from Storage by the onItemWrittenImageCleanup Cloud Function)
+            // (its open requests are closed by the onItemDeletedCloseRequests Cloud Function)
 
-            if (item.imageUrl) {
-              // If there is an image URL, try deleting it from Storage
-
-              const fileRef = ref(storage, item.imageUrl);
-              // Create storage reference from the URL/path provided
+            patchRow(item.id, null);
+            // Drop it from the older pages as well (the live page updates by itself)
 
-              await deleteObject(fileRef).catch(() => {});
-              // Try deleting the file; ignore errors silently
-              // (sometimes URL isn't a valid storage path, or file already deleted)
-            }
 
             Alert.alert("Deleted", "Item deleted successfully.");
             // Success message
@@ -239,13 +217,9 @@ export default function MyItemsScreen() {
     ]);
   };
 
-  const isAccepted = (s?: string) => (s ?? "").toLowerCase() === "accepted";
-  // Helper function:
-  // returns true only if status is exactly "accepted" (case-insensitive)
-
-  const statusLabel = (s?: string) => (s ? s.toString() : "available");
+  const isAccepted = (s?: string) => canMarkDonated(s ?? "");
   // Helper function:
-  // converts status to string for UI display, defaults to "available"
+  // returns true only if the item can be marked donated (status "accepted")
 
   return (
     <View style={styles.screen}>
@@ -294,6 +268,18 @@ export default function MyItemsScreen() {
           ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
           // Adds spacing between cards
 
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          // Load the next older page near the end of the list
+
+          refreshing={refreshing}
+          onRefresh={refresh}
+          // Pull down to reload from the first page
+
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color="#FFFFFF" style={{ marginTop: 12 }} /> : null
+          }
+
           renderItem={({ item }) => (
             // Render each row (item card)
 
@@ -311,10 +297,10 @@ export default function MyItemsScreen() {
                 <View style={styles.thumb}>
                   {/* Image thumbnail container */}
 
-                  {item.imageUrl ? (
-                    // If item has an imageUrl show it
+                  {itemThumbnail(item, "small") ? (
+                    // If item has a cover photo show its thumbnail
 
-                    <Image source={{ uri: item.imageUrl }} style={styles.thumbImg} />
+                    <Image source={{ uri: itemThumbnail(item, "small") }} style={styles.thumbImg} />
                   ) : (
                     // Otherwise show a placeholder icon
 
@@ -332,7 +318,7 @@ export default function MyItemsScreen() {
 
                   <Text style={styles.sub} numberOfLines={1}>
                     {/* Secondary text line: category + status */}
-                    {item.category} • {statusLabel(item.status)}
+                    {item.category} • {itemStatusLabel(item.status)}
                   </Text>
                 </View>
 
@@ -368,7 +354,7 @@ export default function MyItemsScreen() {
                     !isAccepted(item.status) && { opacity: 0.45 },
                     // If not accepted, show it as disabled (faded)
                   ]}
-                  onPress={() => markDonated(item.id)}
+                  onPress={() => markDonated(item)}
                   // Trigger Firestore update
 
                   disabled={!isAccepted(item.status)}
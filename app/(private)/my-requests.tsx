@@ -1,7 +1,7 @@
 import React, { useEffect, useMemo, useState } from "react";
 // React + hooks:
 // useState = store state
-// useEffect = run side-effects (Firestore listeners)
+// useEffect = run side-effects (load titles/profiles for new requests)
 // useMemo = memoize computed values (avoid recalculations)
 
 import {
@@ -13,6 +13,7 @@ import {
   FlatList,
   Alert,
   Image,
+  ActivityIndicator,
 } from "react-native";
 // React Native UI primitives:
 // View/Text = layout + text
@@ -22,37 +23,58 @@ import {
 // FlatList = efficient list rendering
 // Alert = popup messages
 // Image = display avatar images
+// ActivityIndicator = spinner while an older page loads
 
 import { Ionicons } from "@expo/vector-icons";
 // Icon library used for UI icons
 
-import { useRouter } from "expo-router";
-// Navigation hook to move between screens
+import { useLocalSearchParams, useRouter } from "expo-router";
+// Navigation hook to move between screens + the ?tab= param
 
-import {
-  collection,
-  onSnapshot,
-  orderBy,
-  query,
-  where,
-  doc,
-  getDoc,
-  runTransaction,
-  serverTimestamp,
-} from "firebase/firestore";
+import { collection, orderBy, query, where, doc, getDoc } from "firebase/firestore";
 // Firestore functions:
 // collection/doc = references
 // query/where/orderBy = build query
-// onSnapshot = realtime listener
 // getDoc = fetch a single doc once
-// runTransaction = safe multi-doc updates
-// serverTimestamp = server-generated timestamp
 
 import { auth, db } from "@/lib/firebase";
 // Firebase instances:
 // auth = authentication (current user)
 // db = Firestore database
 
+import { approveRequest, cancelRequest, rejectRequest, revokeRequest } from "@/lib/requests";
+
+import { useOffline } from "@/lib/offline-context";
+import { OutboxAction, queuedMessage } from "@/lib/outbox";
+// Actions made offline wait in the outbox and are sent on reconnect
+// Request workflow Cloud Functions (approve/reject/cancel/revoke run on the server)
+
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+// Live first page + older pages on scroll + pull-to-refresh
+
+import { ensureConversation } from "@/lib/chat";
+// Creates (or reuses) the chat conversation for an approved request
+
+import {
+  RequestStatus,
+  canCancelRequest,
+  canDecideRequest,
+  canRevokeRequest,
+  requestStatusLabel,
+  toRequestStatus,
+} from "@/lib/rules";
+// Lifecycle rules: allowed transitions + labels
+
+import { QueuedRequest, buildRequestQueues } from "@/lib/request-queue";
+// Groups received requests into per-item queues (oldest pending first)
+
+import { canReview, starsText } from "@/lib/reviews";
+import { ratingLabel } from "@/lib/profile";
+// Post-donation reviews + the other person's rating
+
+import ReportSheet from "@/components/report-sheet";
+// Report form (scams, harassment...) -> moderation queue
+
 type RequestDoc = {
   // TypeScript type for a request document (requests collection)
 
@@ -68,11 +90,14 @@ type RequestDoc = {
   requesterId: string;
   // UID of the requester (sender of request)
 
-  status: "pending" | "approved" | "rejected" | string;
+  status: RequestStatus | string;
   // Request status
 
   createdAt?: any;
   // Timestamp (serverTimestamp) when request created
+
+  ratings?: Record<string, number>;
+  // Stars each side gave after the donation (uid -> rating, set by submitReview)
 };
 
 type TabKey = "sent" | "received";
@@ -85,6 +110,10 @@ type UserProfileCache = {
 
   avatarUrl: string;
   // profile photo URL stored in users doc
+
+  ratingCount: number;
+  ratingAverage: number | null;
+  // rating summary kept by the server from reviews
 };
 
 export default function MyRequestsScreen() {
@@ -96,27 +125,106 @@ export default function MyRequestsScreen() {
   const user = auth.currentUser;
   // Current logged-in user (null if logged out)
 
-  const [tab, setTab] = useState<TabKey>("sent");
-  // Which tab is selected ("sent" by default)
-
-  const [loading, setLoading] = useState(true);
-  // Loading state while fetching data
+  const params = useLocalSearchParams<{ tab?: string }>();
+  // ?tab=received opens the received tab (notification deep links)
 
-  const [sent, setSent] = useState<RequestDoc[]>([]);
-  // List of requests created by me (requesterId == my uid)
+  const [tab, setTab] = useState<TabKey>(params.tab === "received" ? "received" : "sent");
+  // Which tab is selected ("sent" by default)
 
-  const [received, setReceived] = useState<RequestDoc[]>([]);
-  // List of requests sent to me (itemOwnerId == my uid)
+  useEffect(() => {
+    if (params.tab === "sent" || params.tab === "received") setTab(params.tab);
+  }, [params.tab]);
+  // A push tapped while the screen is open switches the tab
 
   // Cache item titles: itemId -> title
   const [itemTitles, setItemTitles] = useState<Record<string, string>>({});
   // This avoids refetching items title every render
 
+  // Cache item statuses: itemId -> status (donated items can be reviewed)
+  const [itemStatuses, setItemStatuses] = useState<Record<string, string>>({});
+
+  // Request being reported (report form open), null = closed
+  const [reportingId, setReportingId] = useState<string | null>(null);
+
   // Cache user profiles: uid -> {name, avatarUrl}
   const [userProfiles, setUserProfiles] = useState<Record<string, UserProfileCache>>({});
   // This avoids refetching user name/avatar repeatedly
 
-  const list = useMemo(() => (tab === "sent" ? sent : received), [tab, sent, received]);
+  // ---- Paginated lists (sent/received) ----
+  const sentQuery = useMemo(
+    () =>
+      user
+        ? query(
+            collection(db, "requests"),
+            // requests collection
+
+            where("requesterId", "==", user.uid),
+            // Sent requests are those where I am requester
+
+            orderBy("createdAt", "desc"),
+            // Newest first
+          )
+        : null,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [user?.uid],
+  );
+
+  const receivedQuery = useMemo(
+    () =>
+      user
+        ? query(
+            collection(db, "requests"),
+            // requests collection
+
+            where("itemOwnerId", "==", user.uid),
+            // Received requests are those where I am item owner
+
+            orderBy("createdAt", "desc"),
+            // Newest first
+          )
+        : null,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [user?.uid],
+  );
+  // Both queries are rebuilt only when the user changes (no user -> empty lists)
+
+  const sentPages = usePaginatedQuery<RequestDoc>(
+    sentQuery,
+    undefined,
+    user ? `sentRequests:${user.uid}` : null,
+  );
+  const receivedPages = usePaginatedQuery<RequestDoc>(
+    receivedQuery,
+    undefined,
+    user ? `receivedRequests:${user.uid}` : null,
+  );
+  // Newest page of each list is live; older requests load when the list is scrolled to the end
+  // (the newest pages are also saved on the device for offline browsing)
+
+  const sent = sentPages.items;
+  // Requests created by me (requesterId == my uid)
+
+  const received = receivedPages.items;
+  // Requests sent to me (itemOwnerId == my uid)
+  // A queue can be incomplete until its older requests are loaded
+
+  const activePages = tab === "sent" ? sentPages : receivedPages;
+  // Paging state of the visible tab
+
+  useEffect(() => {
+    // Fetch missing titles/users whenever new requests arrive (live page or older page)
+
+    hydrateDisplayData([...sent, ...received]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sent, received]);
+
+  const receivedQueue = useMemo(() => buildRequestQueues(received), [received]);
+  // Received requests grouped by item, each pending request numbered in its item's queue
+
+  const list = useMemo<(RequestDoc | QueuedRequest<RequestDoc>)[]>(
+    () => (tab === "sent" ? sent : receivedQueue),
+    [tab, sent, receivedQueue],
+  );
   // Decide which list to show depending on active tab
   // useMemo prevents recalculating unless tab/sent/received changes
 
@@ -139,6 +247,9 @@ export default function MyRequestsScreen() {
 
       setItemTitles((prev) => ({ ...prev, [itemId]: title ?? "Unknown item" }));
       // Save title in state (or fallback)
+
+      setItemStatuses((prev) => ({ ...prev, [itemId]: (snap.data() as any)?.status ?? "" }));
+      // Save status too (the Rate button needs a donated item)
     } catch (e) {
       console.log("ensureItemTitle error:", e);
       // Log errors (network, permissions, etc.)
@@ -163,7 +274,7 @@ export default function MyRequestsScreen() {
 
         setUserProfiles((prev) => ({
           ...prev,
-          [uid]: { name: "Unknown user", avatarUrl: "" },
+          [uid]: { name: "Unknown user", avatarUrl: "", ratingCount: 0, ratingAverage: null },
         }));
         // Save fallback profile
 
@@ -182,6 +293,10 @@ export default function MyRequestsScreen() {
 
           avatarUrl: data?.avatarUrl ?? "",
           // Use stored avatar URL or empty string
+
+          ratingCount: data?.ratingCount ?? 0,
+          ratingAverage: data?.ratingAverage ?? null,
+          // Rating summary (absent until the first review)
         },
       }));
       // Save profile in cache
@@ -213,135 +328,22 @@ export default function MyRequestsScreen() {
     ]);
   };
 
-  // ---- Live listeners (sent/received) ----
-  useEffect(() => {
-    // Setup Firestore realtime listeners for both "sent" and "received" queries
-
-    if (!user) {
-      // If no user logged in, clear state
-
-      setLoading(false);
-      // Stop loading
-
-      setSent([]);
-      // Clear sent list
-
-      setReceived([]);
-      // Clear received list
-
-      return;
-      // Exit effect early
-    }
+  const { run } = useOffline();
 
-    setLoading(true);
-    // Start loading while initial snapshots arrive
+  // Runs a request action through the outbox; true when it was sent now
+  // (false = queued for later, the user is told so)
+  const runAction = async (action: OutboxAction, requestId: string, send: () => Promise<unknown>) => {
+    const request = [...sent, ...received].find((r) => r.id === requestId);
+    const title = request ? itemTitles[request.itemId] ?? "" : "";
 
-    const sentQ = query(
-      collection(db, "requests"),
-      // requests collection
+    if ((await run(action, title, send)) === "done") return true;
 
-      where("requesterId", "==", user.uid),
-      // Sent requests are those where I am requester
-
-      orderBy("createdAt", "desc"),
-      // Newest first
-    );
-
-    const receivedQ = query(
-      collection(db, "requests"),
-      // requests collection
-
-      where("itemOwnerId", "==", user.uid),
-      // Received requests are those where I am item owner
-
-      orderBy("createdAt", "desc"),
-      // Newest first
-    );
-
-    const unsubSent = onSnapshot(
-      sentQ,
-      // Listen to sent query
-
-      async (snap) => {
-        // Called whenever sent requests change
-
-        const data: RequestDoc[] = snap.docs.map((d) => ({
-          id: d.id,
-          // Save doc id
-
-          ...(d.data() as any),
-          // Spread request document fields
-        }));
-
-        setSent(data);
-        // Update state
-
-        setLoading(false);
-        // Stop loading once data comes
-
-        await hydrateDisplayData(data);
-        // Fetch missing titles/users for UI display
-      },
-
-      (err) => {
-        // Error callback
-
-        console.log("Sent requests query error:", err);
-        // Log
-
-        setLoading(false);
-        // Stop loading even if error
-      },
-    );
-
-    const unsubReceived = onSnapshot(
-      receivedQ,
-      // Listen to received query
-
-      async (snap) => {
-        // Called whenever received requests change
-
-        const data: RequestDoc[] = snap.docs.map((d) => ({
-          id: d.id,
-          ...(d.data() as any),
-        }));
-        // Convert docs to RequestDoc objects
-
-        setReceived(data);
-        // Update state
-
-        setLoading(false);
-        // Stop loading
-
-        await hydrateDisplayData(data);
-        // Fetch missing titles/users
-      },
-
-      (err) => {
-        // Error callback
-
-        console.log("Received requests query error:", err);
-        // Log
-
-        setLoading(false);
-        // Stop loading
-      },
-    );
-
-    return () => {
-      // Cleanup both listeners when unmounting or user changes
-
-      unsubSent();
-      // Unsubscribe sent listener
-
-      unsubReceived();
-      // Unsubscribe received listener
-    };
-  }, [user?.uid]);
-  // Re-run if user UID changes
+    Alert.alert("Offline", queuedMessage(action, title));
+    return false;
+  };
 
-  // ---- Approve / Reject with notifications + item status update ----
-  const approve = async (requestId: string, itemId: string) => {
+  // ---- Approve / Reject (server updates item status + sends notifications) ----
+  const approve = async (requestId: string) => {
     // Approves a pending request (only the item owner should be able to do it)
 
     const currentUser = auth.currentUser;
@@ -358,78 +360,16 @@ export default function MyRequestsScreen() {
     }
 
     try {
-      const requestRef = doc(db, "requests", requestId);
-      // Reference to requests/{requestId}
-
-      const itemRef = doc(db, "items", itemId);
-      // Reference to items/{itemId}
-
-      await runTransaction(db, async (tx) => {
-        // Firestore transaction ensures data stays consistent
-
-        const reqSnap = await tx.get(requestRef);
-        // Read request inside transaction
-
-        const itemSnap = await tx.get(itemRef);
-        // Read item inside transaction
-
-        if (!reqSnap.exists()) throw new Error("Request not found");
-        // Fail if request deleted
+      const sentNow = await runAction({ kind: "approveRequest", requestId }, requestId, () =>
+        approveRequest(requestId),
+      );
+      // Server checks ownership + status, updates request/item and notifies the requester
+      if (!sentNow) return;
 
-        if (!itemSnap.exists()) throw new Error("Item not found");
-        // Fail if item deleted
+      receivedPages.patchRow(requestId, { status: "approved" });
+      // Older pages are not live, so update the row here too
 
-        const req = reqSnap.data() as any;
-        // Request data
-
-        const item = itemSnap.data() as any;
-        // Item data
-
-        if (item.ownerId !== currentUser.uid) {
-          // Security check: only owner can approve
-
-          throw new Error("You are not the owner of this item.");
-          // Abort transaction with error
-        }
-
-        tx.update(requestRef, { status: "approved" });
-        // Update request -> approved
-
-        tx.update(itemRef, { status: "accepted" });
-        // Update item status -> accepted
-
-        const notifRef = doc(collection(db, "notifications"));
-        // Create a new notifications document with auto id
-
-        tx.set(notifRef, {
-          toUserId: req.requesterId,
-          // Notification goes to requester
-
-          title: "Request approved",
-          // Notification title
-
-          body: `Your request for "${item.title ?? "an item"}" was approved.`,
-          // Message text (uses item title if available)
-
-          type: "request_approved",
-          // Notification type (your app can use this later)
-
-          itemId: req.itemId,
-          // Link notification to item
-
-          read: false,
-          // New notifications are unread
-
-          createdAt: serverTimestamp(),
-          // Server time (consistent across devices)
-
-          fromUserId: currentUser.uid,
-          // Who sent the notification (owner)
-        });
-        // Save notification inside the same transaction
-      });
-
-      Alert.alert("Approved", "Request approved and item marked as accepted.");
+      Alert.alert("Approved", "Request approved. Other requests for this item are now on the waitlist.");
       // Success message
     } catch (e: any) {
       console.log("Approve error:", e);
@@ -440,7 +380,7 @@ export default function MyRequestsScreen() {
     }
   };
 
-  const reject = async (requestId: string, itemId: string) => {
+  const reject = async (requestId: string) => {
     // Reject a pending request (only item owner can do it)
 
     const currentUser = auth.currentUser;
@@ -457,85 +397,119 @@ export default function MyRequestsScreen() {
     }
 
     try {
-      const requestRef = doc(db, "requests", requestId);
-      // requests/{requestId}
-
-      const itemRef = doc(db, "items", itemId);
-      // items/{itemId}
-
-      await runTransaction(db, async (tx) => {
-        // Transaction for consistency
-
-        const reqSnap = await tx.get(requestRef);
-        // Read request
-
-        const itemSnap = await tx.get(itemRef);
-        // Read item
-
-        if (!reqSnap.exists()) throw new Error("Request not found");
-        // Request must exist
+      const sentNow = await runAction({ kind: "rejectRequest", requestId }, requestId, () =>
+        rejectRequest(requestId),
+      );
+      // Server checks ownership + status, frees the item if the queue is empty and notifies the requester
+      if (!sentNow) return;
 
-        if (!itemSnap.exists()) throw new Error("Item not found");
-        // Item must exist
+      receivedPages.patchRow(requestId, { status: "rejected" });
+      // Older pages are not live, so update the row here too
 
-        const req = reqSnap.data() as any;
-        // Request fields
-
-        const item = itemSnap.data() as any;
-        // Item fields
+      Alert.alert("Rejected", "Request rejected.");
+      // Success message
+    } catch (e: any) {
+      console.log("Reject error:", e);
+      // Log error
 
-        if (item.ownerId !== currentUser.uid) {
-          // Only owner can reject
+      Alert.alert("Error", e?.message ?? "Failed to reject.");
+      // Popup
+    }
+  };
 
-          throw new Error("You are not the owner of this item.");
-          // Abort
-        }
+  // ---- Cancel (requester) / Revoke (owner) ----
+  const cancel = (requestId: string) => {
+    // Requester withdraws their request (pending, waitlisted or already approved)
 
-        tx.update(requestRef, { status: "rejected" });
-        // Update request -> rejected
+    Alert.alert("Cancel request", "Do you want to withdraw this request?", [
+      // Confirmation dialog so we don't cancel accidentally
 
-        tx.update(itemRef, { status: "available" });
-        // Make item available again
+      { text: "Keep", style: "cancel" },
+      // Keep button: does nothing
 
-        const notifRef = doc(collection(db, "notifications"));
-        // New notification doc
+      {
+        text: "Cancel request",
+        style: "destructive",
 
-        tx.set(notifRef, {
-          toUserId: req.requesterId,
-          // Notify requester
+        onPress: async () => {
+          try {
+            const sentNow = await runAction({ kind: "cancelRequest", requestId }, requestId, () =>
+              cancelRequest(requestId),
+            );
+            // Server cancels the request, frees the item and notifies the owner
+            if (!sentNow) return;
 
-          title: "Request rejected",
-          // Title
+            sentPages.patchRow(requestId, { status: "cancelled" });
+            // Older pages are not live, so update the row here too
 
-          body: `Your request for "${item.title ?? "an item"}" was rejected.`,
-          // Message
+            Alert.alert("Cancelled", "Your request was cancelled.");
+          } catch (e: any) {
+            console.log("Cancel request error:", e);
+            Alert.alert("Error", e?.message ?? "Failed to cancel request.");
+          }
+        },
+      },
+    ]);
+  };
 
-          type: "request_rejected",
-          // Type label
+  const revoke = (requestId: string) => {
+    // Owner takes back an approval (e.g. the requester stopped replying)
+
+    Alert.alert(
+      "Revoke approval",
+      "The item will be available again (or go back to the waitlist). Continue?",
+      [
+        { text: "Keep", style: "cancel" },
+        // Keep button: does nothing
+
+        {
+          text: "Revoke",
+          style: "destructive",
+
+          onPress: async () => {
+            try {
+              const sentNow = await runAction({ kind: "revokeRequest", requestId }, requestId, () =>
+                revokeRequest(requestId),
+              );
+              // Server revokes the request, frees the item and notifies the requester
+              if (!sentNow) return;
+
+              receivedPages.patchRow(requestId, { status: "revoked" });
+              // Older pages are not live, so update the row here too
+
+              Alert.alert("Revoked", "Approval revoked.");
+            } catch (e: any) {
+              console.log("Revoke error:", e);
+              Alert.alert("Error", e?.message ?? "Failed to revoke approval.");
+            }
+          },
+        },
+      ],
+    );
+  };
 
-          itemId: req.itemId,
-          // Associated item id
+  // ---- Chat for approved requests ----
+  const openChat = async (request: RequestDoc) => {
+    // Opens the conversation thread for this request (creating it the first time)
 
-          read: false,
-          // Unread by default
+    try {
+      const conversationId = await ensureConversation({
+        requestId: request.id,
+        // Conversation id = request id (`${itemId}_${requesterId}`)
 
-          createdAt: serverTimestamp(),
-          // Timestamp
+        itemId: request.itemId,
+        itemTitle: itemTitles[request.itemId] ?? "Item",
+        // Cached title shown in the chats list
 
-          fromUserId: currentUser.uid,
-          // Sender is item owner
-        });
-        // Save notification
+        itemOwnerId: request.itemOwnerId,
+        requesterId: request.requesterId,
       });
 
-      Alert.alert("Rejected", "Request rejected and item marked as available.");
-      // Success message
+      router.push({ pathname: "/chat/[id]", params: { id: conversationId } });
+      // Land directly in the thread
     } catch (e: any) {
-      console.log("Reject error:", e);
-      // Log error
-
-      Alert.alert("Error", e?.message ?? "Failed to reject.");
-      // Popup
+      console.log("Open chat error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to open chat.");
     }
   };
 
@@ -592,7 +566,7 @@ export default function MyRequestsScreen() {
         </Pressable>
       </View>
 
-      {loading ? (
+      {activePages.loading ? (
         // If loading, show loading message
 
         <Text style={styles.infoText}>Loading...</Text>
@@ -618,6 +592,20 @@ export default function MyRequestsScreen() {
           ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
           // Space between cards
 
+          onEndReached={activePages.loadMore}
+          onEndReachedThreshold={0.5}
+          // Load the next older page of the visible tab near the end of the list
+
+          refreshing={activePages.refreshing}
+          onRefresh={activePages.refresh}
+          // Pull down to reload the visible tab from the first page
+
+          ListFooterComponent={
+            activePages.loadingMore ? (
+              <ActivityIndicator color="#FFFFFF" style={{ marginTop: 12 }} />
+            ) : null
+          }
+
           renderItem={({ item }) => {
             // Render each request card
 
@@ -643,6 +631,18 @@ export default function MyRequestsScreen() {
                 : requesterProfile?.avatarUrl ?? "";
             // Same logic for avatar
 
+            const otherUid = tab === "sent" ? item.itemOwnerId : item.requesterId;
+            // The other person of the request (their public profile)
+
+            const otherProfile = tab === "sent" ? ownerProfile : requesterProfile;
+            const otherRating =
+              otherProfile && otherProfile.ratingCount > 0 ? ratingLabel(otherProfile) : "";
+            // "4.5 ★ (12 reviews)" once they have reviews
+
+            const myRating = user ? item.ratings?.[user.uid] : undefined;
+            const reviewable = canReview(item.status, itemStatuses[item.itemId]);
+            // Donated: both sides can rate each other once
+
             return (
               <Pressable
                 style={styles.card}
@@ -659,11 +659,23 @@ export default function MyRequestsScreen() {
                   <Text style={styles.title}>Item: {itemTitle}</Text>
                   {/* Item title */}
 
-                  <Text style={styles.sub}>Status: {item.status}</Text>
+                  <Text style={styles.sub}>Status: {requestStatusLabel(item.status)}</Text>
                   {/* Request status */}
 
-                  <View style={styles.personRow}>
-                    {/* Row for avatar + name */}
+                  {"queuePosition" in item && item.queuePosition ? (
+                    // Received tab: place in the item's queue (first come, first listed)
+
+                    <Text style={styles.queueText}>
+                      Queue: #{item.queuePosition} of {item.queueSize}
+                    </Text>
+                  ) : null}
+
+                  <Pressable
+                    style={styles.personRow}
+                    onPress={() => router.push({ pathname: "/user/[uid]", params: { uid: otherUid } })}
+                    hitSlop={6}
+                  >
+                    {/* Row for avatar + name (opens their public profile) */}
 
                     <View style={styles.avatarSmall}>
                       {/* Small avatar circle */}
@@ -684,19 +696,32 @@ export default function MyRequestsScreen() {
                       {tab === "sent" ? "To: " : "From: "}
                       {displayName}
                     </Text>
-                  </View>
+
+                    {otherRating ? <Text style={styles.ratingText}>{otherRating}</Text> : null}
+                  </Pressable>
+
+                  {reviewable && myRating ? (
+                    <Text style={styles.queueText}>You rated {starsText(myRating)}</Text>
+                  ) : null}
+
+                  <Pressable onPress={() => setReportingId(item.id)} hitSlop={6} style={styles.reportRow}>
+                    {/* Report the request (e.g. a harassing requester or a scam) */}
+                    <Ionicons name="flag-outline" size={12} color="rgba(255,255,255,0.85)" />
+                    <Text style={styles.reportText}>Report</Text>
+                  </Pressable>
                 </View>
 
-                {tab === "received" && item.status === "pending" ? (
+                {tab === "received" && canDecideRequest(item.status) ? (
                   // Only show action buttons when:
                   // 1) I'm on "received" tab (I'm the owner)
                   // 2) status is pending
+                  // Accepting one request moves the rest of the queue to the waitlist
 
                   <View style={styles.actions}>
                     {/* Actions column */}
 
                     <Pressable
-                      onPress={() => approve(item.id, item.itemId)}
+                      onPress={() => approve(item.id)}
                       // Approve request
 
                       style={styles.actionBtn}
@@ -707,7 +732,7 @@ export default function MyRequestsScreen() {
                     </Pressable>
 
                     <Pressable
-                      onPress={() => reject(item.id, item.itemId)}
+                      onPress={() => reject(item.id)}
                       // Reject request
 
                       style={[styles.actionBtn, styles.rejectBtn]}
@@ -717,6 +742,61 @@ export default function MyRequestsScreen() {
                       {/* Button label */}
                     </Pressable>
                   </View>
+                ) : toRequestStatus(item.status) === "approved" ||
+                  (tab === "sent" && canCancelRequest(item.status)) ? (
+                  // Approved requests (both tabs) can open the chat to agree on pickup
+                  // Sent tab: requester can withdraw; Received tab: owner can revoke an approval
+
+                  <View style={styles.actions}>
+                    {toRequestStatus(item.status) === "approved" ? (
+                      <Pressable
+                        onPress={() => openChat(item)}
+                        // Open chat thread
+
+                        style={[styles.actionBtn, styles.chatBtn]}
+                      >
+                        <Ionicons name="chatbubble-ellipses-outline" size={14} color="#FFFFFF" />
+                        <Text style={styles.actionText}>Chat</Text>
+                      </Pressable>
+                    ) : null}
+
+                    {/* Once donated the approval is final: Rate replaces Cancel / Revoke */}
+                    {reviewable && !myRating ? (
+                      <Pressable
+                        onPress={() =>
+                          router.push({ pathname: "/review/[requestId]", params: { requestId: item.id } })
+                        }
+                        // Rate the other side of the donation
+
+                        style={[styles.actionBtn, styles.chatBtn]}
+                      >
+                        <Ionicons name="star-outline" size={14} color="#FFFFFF" />
+                        <Text style={styles.actionText}>Rate</Text>
+                      </Pressable>
+                    ) : null}
+
+                    {tab === "sent" && canCancelRequest(item.status) && !reviewable ? (
+                      <Pressable
+                        onPress={() => cancel(item.id)}
+                        // Withdraw my request
+
+                        style={[styles.actionBtn, styles.rejectBtn]}
+                      >
+                        <Text style={styles.actionText}>Cancel</Text>
+                      </Pressable>
+                    ) : null}
+
+                    {tab === "received" && canRevokeRequest(item.status) && !reviewable ? (
+                      <Pressable
+                        onPress={() => revoke(item.id)}
+                        // Take back my approval
+
+                        style={[styles.actionBtn, styles.rejectBtn]}
+                      >
+                        <Text style={styles.actionText}>Revoke</Text>
+                      </Pressable>
+                    ) : null}
+                  </View>
                 ) : (
                   // Otherwise show chevron icon (no actions)
 
@@ -727,6 +807,13 @@ export default function MyRequestsScreen() {
           }}
         />
       )}
+
+      <ReportSheet
+        visible={reportingId !== null}
+        onClose={() => setReportingId(null)}
+        targetType="request"
+        targetId={reportingId ?? ""}
+      />
     </View>
   );
 }
@@ -832,6 +919,13 @@ const styles = StyleSheet.create({
     lineHeight: 16,
   },
 
+  queueText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+    marginTop: 2,
+  },
+
   personRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -839,6 +933,27 @@ const styles = StyleSheet.create({
     marginTop: 6,
   },
 
+  ratingText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+
+  reportRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 8,
+    alignSelf: "flex-start",
+  },
+
+  reportText: {
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+    fontSize: 12,
+    textDecorationLine: "underline",
+  },
+
   avatarSmall: {
     width: 22,
     height: 22,
@@ -867,6 +982,12 @@ const styles = StyleSheet.create({
     borderColor: "rgba(255,255,255,0.25)",
   },
 
+  chatBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+
   rejectBtn: {
     backgroundColor: "rgba(229,57,53,0.9)",
     borderWidth: 0,
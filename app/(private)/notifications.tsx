@@ -1,17 +1,33 @@
 import React, { useEffect, useMemo, useState } from "react"; 
 // React core + hooks:
 // useState = store state
-// useEffect = run side effects (Firestore listener)
-// useMemo = memoize computed values (not strictly needed here, but imported)
+// useEffect = run side effects (load sender profiles + item titles)
+// useMemo = build the notifications query once per user, group the list
 
-import { View, Text, StyleSheet, Pressable, FlatList, Platform, Image } from "react-native";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  SectionList,
+  Platform,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
 // React Native UI components:
 // View/Text = layout + text
 // StyleSheet = styles object
 // Pressable = clickable UI
-// FlatList = performant list
+// SectionList = list grouped by day
 // Platform = detect iOS/Android for padding
 // Image = show avatar
+// ActivityIndicator = spinner while an older page loads
+// Alert = mark-all-read / delete errors
+
+import { GestureHandlerRootView } from "react-native-gesture-handler";
+import Swipeable from "react-native-gesture-handler/ReanimatedSwipeable";
+// Swipe a notification left to delete it
 
 import { Ionicons } from "@expo/vector-icons";
 // Icons used in UI
@@ -21,19 +37,15 @@ import { useRouter } from "expo-router";
 
 import {
   collection,
-  onSnapshot,
   orderBy,
   query,
   where,
   doc,
-  updateDoc,
   getDoc,
 } from "firebase/firestore";
 // Firestore methods:
 // collection/doc = references
 // query/where/orderBy = build a query
-// onSnapshot = realtime listener
-// updateDoc = update a document fields
 // getDoc = read a document once
 
 import { auth, db } from "@/lib/firebase";
@@ -41,6 +53,18 @@ import { auth, db } from "@/lib/firebase";
 // auth = Firebase Auth (current user)
 // db = Firestore instance
 
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+// Live first page + older pages on scroll + pull-to-refresh
+
+import { notificationLink } from "@/lib/notification-links";
+// Screen each notification type opens (same as push taps)
+
+import { deleteNotification, markAllNotificationsRead, markNotificationRead } from "@/lib/notifications";
+// Receiver writes: mark read (one / all) and delete
+
+import { NotificationGroup, groupNotifications } from "@/lib/notification-center";
+// Groups the list by day, then by item
+
 type Notif = {
   // TypeScript type representing a notification document
 
@@ -63,7 +87,10 @@ type Notif = {
   // type label (e.g., request_received / request_approved)
 
   itemId: string;
-  // related item id (used for navigation)
+  // related item id (used for navigation + grouping)
+
+  requestId?: string;
+  // related request (approvals open its chat; older docs don't have it)
 
   read: boolean;
   // if the notification was opened/seen
@@ -88,105 +115,96 @@ export default function NotificationsScreen() {
   const router = useRouter();
   // Router used to navigate to other screens
 
-  const [loading, setLoading] = useState(true);
-  // loading state while we fetch notifications
-
-  const [notifs, setNotifs] = useState<Notif[]>([]);
-  // list of notifications for current user
-
-  // Cache sender profiles: uid -> {name, avatarUrl}
-  const [profiles, setProfiles] = useState<Record<string, UserProfile>>({});
-  // dictionary/object cache: profiles["uid"] = { name, avatarUrl }
-
-  useEffect(() => {
-    // Runs once on mount (because dependency array is [])
-
-    const user = auth.currentUser;
-    // Grab the current logged-in user
-
-    if (!user) {
-      // If user is not logged in, no notifications should load
-
-      setLoading(false);
-      // stop loading
-
-      setNotifs([]);
-      // clear notifications
-
-      return;
-      // exit the effect
-    }
+  const user = auth.currentUser;
+  // Current logged-in user (null if logged out)
 
-    const q = query(
-      collection(db, "notifications"),
-      // base collection: notifications
+  const notifsQuery = useMemo(
+    () =>
+      user
+        ? query(
+            collection(db, "notifications"),
+            // base collection: notifications
 
-      where("toUserId", "==", user.uid),
-      // only notifications addressed to this user
+            where("toUserId", "==", user.uid),
+            // only notifications addressed to this user
 
-      orderBy("createdAt", "desc")
-      // newest first
-    );
+            orderBy("createdAt", "desc")
+            // newest first
+          )
+        : null,
+    // If user is not logged in, no notifications should load
 
-    const unsub = onSnapshot(
-      q,
-      // realtime listener for the query
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [user?.uid]
+  );
 
-      async (snap) => {
-        // runs every time notification documents change
+  const {
+    items: notifs,
+    loading,
+    loadingMore,
+    refreshing,
+    loadMore,
+    refresh,
+    patchRow,
+  } = usePaginatedQuery<Notif>(notifsQuery);
+  // Newest page is live; older notifications load when the list is scrolled to the end
 
-        const data: Notif[] = snap.docs.map((d) => ({
-          id: d.id,
-          // include document id
+  const sections = useMemo(() => groupNotifications(notifs, Date.now()), [notifs]);
+  // Day sections ("Today", "Yesterday", dates) of item groups
 
-          ...(d.data() as any),
-          // include all stored fields from Firestore
-        }));
+  const unreadCount = useMemo(() => notifs.filter((n) => !n.read).length, [notifs]);
+  // Loaded unread notifications (shows the "Mark all read" button)
 
-        setNotifs(data);
-        // update the list state
+  // Cache sender profiles: uid -> {name, avatarUrl}
+  const [profiles, setProfiles] = useState<Record<string, UserProfile>>({});
+  // dictionary/object cache: profiles["uid"] = { name, avatarUrl }
 
-        setLoading(false);
-        // stop loading (we have data now)
+  useEffect(() => {
+    // Fetch sender profiles for notifications that have fromUserId
+    // (runs for the live page and for every older page)
 
-        // Fetch sender profiles for notifications that have fromUserId
-        const senderIds = Array.from(
-          // Convert Set -> Array
+    const senderIds = Array.from(
+      // Convert Set -> Array
 
-          new Set(
-            // Set makes them unique
+      new Set(
+        // Set makes them unique
 
-            data
-              .map((n) => n.fromUserId)
-              // extract fromUserId from each notification
+        notifs
+          .map((n) => n.fromUserId)
+          // extract fromUserId from each notification
 
-              .filter((x): x is string => !!x)
-              // keep only truthy values and tell TypeScript: it's string now
-          )
-        );
+          .filter((x): x is string => !!x)
+          // keep only truthy values and tell TypeScript: it's string now
+      )
+    );
 
-        await Promise.all(senderIds.map((uid) => ensureProfile(uid)));
-        // For each unique sender id, ensure we have their profile cached
-      },
+    senderIds.forEach((uid) => ensureProfile(uid));
+    // For each unique sender id, ensure we have their profile cached
 
-      (err) => {
-        // listener error callback
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [notifs]);
+  // (exhaustive-deps disabled because ensureProfile/profiles aren't in deps)
 
-        console.log("Notifications query error:", err);
-        // log the error
+  // Cache item titles for the group headers: itemId -> title
+  const [itemTitles, setItemTitles] = useState<Record<string, string>>({});
 
-        setLoading(false);
-        // stop loading so UI shows message instead of stuck loading
-      }
+  useEffect(() => {
+    const missing = Array.from(new Set(notifs.map((n) => n.itemId).filter(Boolean))).filter(
+      (id) => itemTitles[id] === undefined,
     );
 
-    return unsub;
-    // Cleanup: unsubscribe from Firestore listener when screen unmounts
-
+    missing.forEach(async (itemId) => {
+      try {
+        const snap = await getDoc(doc(db, "items", itemId));
+        setItemTitles((prev) => ({ ...prev, [itemId]: snap.exists() ? (snap.data() as any)?.title ?? "Item" : "Deleted item" }));
+      } catch (e) {
+        console.log("Item title error:", e);
+        setItemTitles((prev) => ({ ...prev, [itemId]: "Item" }));
+      }
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-  // Empty dependency array = run only once per mount
-  // (You disabled exhaustive-deps because ensureProfile/profiles aren't in deps)
+  }, [notifs]);
+  // (itemTitles is not a dep: it only grows, and fetched ids are skipped)
 
   const ensureProfile = async (uid: string) => {
     // Fetch a sender profile only if it is not already in cache
@@ -237,15 +255,46 @@ export default function NotificationsScreen() {
     // Mark a notification as read in Firestore
 
     try {
-      await updateDoc(doc(db, "notifications", id), { read: true });
+      await markNotificationRead(id);
       // Update notifications/{id}.read = true
+
+      patchRow(id, { read: true });
+      // Older pages are not live, so update the row here too
     } catch (e) {
       console.log("markRead error:", e);
       // log failures (permissions/network)
     }
   };
 
-  const renderRow = ({ item }: { item: Notif }) => {
+  const markAllRead = async () => {
+    // Mark every unread notification as read (also the ones on pages not loaded yet)
+
+    if (!user) return;
+
+    try {
+      const ids = await markAllNotificationsRead(user.uid);
+      ids.forEach((id) => patchRow(id, { read: true }));
+      // Older pages are not live, so update their rows here too
+    } catch (e: any) {
+      console.log("markAllRead error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to mark notifications as read.");
+    }
+  };
+
+  const remove = async (id: string) => {
+    // Delete a notification (swiped away)
+
+    try {
+      await deleteNotification(id);
+      patchRow(id, null);
+      // Older pages are not live, so drop the row here too
+    } catch (e: any) {
+      console.log("Delete notification error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to delete the notification.");
+    }
+  };
+
+  const renderRow = (item: Notif) => {
     // Render function for each FlatList row
     // item is one notification
 
@@ -263,65 +312,114 @@ export default function NotificationsScreen() {
     // Build subtitle: "SenderName • body" if senderName exists else just body
 
     return (
-      <Pressable
-        style={[styles.card, !item.read && styles.unreadCard]}
-        // Base card style + unread highlight if read==false
-
-        onPress={async () => {
-          // When user taps notification
-
-          await markRead(item.id);
-          // Mark read first
-
-          router.push({ pathname: "/my-requests", params: { id: item.itemId } });
-          // Navigate (currently to My Requests screen)
-          // NOTE: You are passing params.id but "/my-requests" doesn't use it in the code you shared.
-          // If you intended to open item details, you would go to "/item/[id]" with itemId instead.
-        }}
+      <Swipeable
+        key={item.id}
+        friction={2}
+        rightThreshold={60}
+        renderRightActions={() => (
+          <Pressable onPress={() => remove(item.id)} style={styles.deleteAction}>
+            <Ionicons name="trash-outline" size={20} color="#FFFFFF" />
+            <Text style={styles.deleteText}>Delete</Text>
+          </Pressable>
+        )}
+        // Swipe left to reveal Delete
       >
-        {/* Avatar */}
-        <View style={styles.avatarWrap}>
-          {/* Wrapper box for avatar/icon */}
-
-          {avatarUrl ? (
-            // If sender has an avatar URL
-
-            <Image source={{ uri: avatarUrl }} style={styles.avatarImg} />
-            // Show avatar image
-          ) : (
-            // Else show default notification icon
-
-            <View style={styles.iconCircle}>
-              <Ionicons name="notifications-outline" size={18} color="#FFFFFF" />
-            </View>
-          )}
-        </View>
-
-        <View style={{ flex: 1 }}>
-          {/* Content column */}
-
-          <Text style={styles.title}>{item.title}</Text>
-          {/* Notification title */}
-
-          <Text style={styles.sub}>{subtitle}</Text>
-          {/* Notification body/subtitle */}
-        </View>
-
-        {!item.read ? <View style={styles.dot} /> : null}
-        {/* Unread red dot indicator */}
-      </Pressable>
+        <Pressable
+          style={[styles.card, !item.read && styles.unreadCard]}
+          // Base card style + unread highlight if read==false
+
+          onPress={async () => {
+            // When user taps notification
+
+            await markRead(item.id);
+            // Mark read first
+
+            router.push(notificationLink(item, "/my-requests"));
+            // Open the screen for this notification (the right My Requests tab, the chat or the item)
+          }}
+        >
+          {/* Avatar (the sender's opens their public profile) */}
+          <Pressable
+            style={styles.avatarWrap}
+            disabled={!item.fromUserId}
+            onPress={() =>
+              item.fromUserId &&
+              router.push({ pathname: "/user/[uid]", params: { uid: item.fromUserId } })
+            }
+            hitSlop={6}
+          >
+            {/* Wrapper box for avatar/icon */}
+
+            {avatarUrl ? (
+              // If sender has an avatar URL
+
+              <Image source={{ uri: avatarUrl }} style={styles.avatarImg} />
+              // Show avatar image
+            ) : (
+              // Else show default notification icon
+
+              <View style={styles.iconCircle}>
+                <Ionicons name="notifications-outline" size={18} color="#FFFFFF" />
+              </View>
+            )}
+          </Pressable>
+
+          <View style={{ flex: 1 }}>
+            {/* Content column */}
+
+            <Text style={styles.title}>{item.title}</Text>
+            {/* Notification title */}
+
+            <Text style={styles.sub}>{subtitle}</Text>
+            {/* Notification body/subtitle */}
+          </View>
+
+          {!item.read ? <View style={styles.dot} /> : null}
+          {/* Unread red dot indicator */}
+        </Pressable>
+      </Swipeable>
     );
   };
 
+  const renderGroup = ({ item: group }: { item: NotificationGroup<Notif> }) => (
+    // Notifications about one item on one day, under the item title
+
+    <View style={styles.group}>
+      {group.itemId ? (
+        <Pressable
+          onPress={() => router.push({ pathname: "/item/[id]", params: { id: group.itemId } })}
+          style={styles.groupHeader}
+        >
+          <Ionicons name="cube-outline" size={14} color="rgba(255,255,255,0.85)" />
+          <Text style={styles.groupTitle} numberOfLines={1}>
+            {itemTitles[group.itemId] ?? "Item"}
+          </Text>
+          {group.notifications.length > 1 ? (
+            <Text style={styles.groupCount}>{group.notifications.length}</Text>
+          ) : null}
+        </Pressable>
+      ) : null}
+
+      <View style={{ gap: 8 }}>{group.notifications.map(renderRow)}</View>
+    </View>
+  );
+
   return (
-    <View style={styles.screen}>
-      {/* Screen container */}
+    <GestureHandlerRootView style={styles.screen}>
+      {/* Screen container (root view for the swipe gestures) */}
 
       <View style={styles.header}>
         {/* Header section */}
 
         <Text style={styles.headerTitle}>Notifications</Text>
         {/* Title */}
+
+        {unreadCount > 0 ? (
+          <Pressable onPress={markAllRead} hitSlop={10} style={styles.markAllBtn}>
+            <Text style={styles.markAllText}>Mark all read</Text>
+          </Pressable>
+        ) : null}
+        {/* Only while something is unread */}
       </View>
 
       {loading ? (
@@ -333,26 +431,45 @@ export default function NotificationsScreen() {
 
         <Text style={styles.infoText}>No notifications yet.</Text>
       ) : (
-        // Else render FlatList
+        // Else render the list grouped by day
 
-        <FlatList
-          data={notifs}
-          // list data
+        <SectionList
+          sections={sections}
+          // day sections of item groups
+
+          keyExtractor={(group) => group.key}
+          // unique key per item group
+
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+          )}
+          // "Today", "Yesterday", dates
 
-          keyExtractor={(n) => n.id}
-          // unique key per row
+          stickySectionHeadersEnabled={false}
 
           contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
           // padding inside list
 
           ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
-          // spacing between cards
+          // spacing between groups
 
-          renderItem={renderRow}
-          // row renderer function
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          // load the next older page near the end of the list
+
+          refreshing={refreshing}
+          onRefresh={refresh}
+          // pull down to reload from the first page
+
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color="#FFFFFF" style={{ marginTop: 12 }} /> : null
+          }
+
+          renderItem={renderGroup}
+          // group renderer function
         />
       )}
-    </View>
+    </GestureHandlerRootView>
   );
 }
 
@@ -378,6 +495,67 @@ const styles = StyleSheet.create({
     // vertical padding
   },
 
+  markAllBtn: {
+    position: "absolute",
+    right: 16,
+    top: 14,
+    // top-right corner, keeps the title centered
+  },
+
+  markAllText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+
+  sectionTitle: {
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "900",
+    fontSize: 13,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+
+  group: {
+    gap: 8,
+  },
+
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 4,
+  },
+
+  groupTitle: {
+    flexShrink: 1,
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+
+  groupCount: {
+    color: "rgba(255,255,255,0.75)",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+
+  deleteAction: {
+    width: 84,
+    marginLeft: 8,
+    borderRadius: 18,
+    backgroundColor: "#E53935",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 2,
+  },
+
+  deleteText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+
   headerTitle: {
     color: "#FFFFFF",
     // white text
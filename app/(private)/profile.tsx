@@ -26,12 +26,6 @@ import {
 // updateDoc(): update an existing document
 // where(): filter query results
 
-import { getDownloadURL, ref, uploadBytes } from "firebase/storage";
-// Firebase Storage imports:
-// ref(): create a storage reference/path
-// uploadBytes(): upload file data
-// getDownloadURL(): get a public URL for uploaded file
-
 import React, { useEffect, useState } from "react";
 // React + hooks:
 // useState for state variables
@@ -54,8 +48,18 @@ import {
 // StyleSheet: define styles
 // Text/View: layout and labels
 
-import { auth, db, storage } from "@/lib/firebase";
-// Import your initialized Firebase instances (Auth, Firestore, Storage)
+import { auth, db } from "@/lib/firebase";
+// Import your initialized Firebase instances (Auth, Firestore)
+
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import UploadStatus from "@/components/upload-status";
+// Avatar upload with progress, cancel and retry
+
+import { unregisterPushToken } from "@/lib/push";
+// Stops pushes to this device on logout
+
+import { useAuth } from "@/lib/auth-context";
+// isAdmin = admins see the admin console
 
 export default function ProfileScreen() {
 // Define and export Profile screen component
@@ -66,6 +70,9 @@ export default function ProfileScreen() {
   const firebaseUser = auth.currentUser;
   // Current signed-in user from Firebase Auth (or null if not signed in)
 
+  const { isAdmin } = useAuth();
+  // True for moderators (admin custom claim)
+
   const [name, setName] = useState<string>("Loading...");
   // State: user display name (default shown while loading)
 
@@ -253,6 +260,12 @@ export default function ProfileScreen() {
         // If user confirms logout, run async code
 
           try {
+            const uid = auth.currentUser?.uid;
+            if (uid) {
+              await unregisterPushToken(uid).catch((e) => console.log("Push unregister error:", e));
+            }
+            // Remove this device's push token first (needs the signed-in user)
+
             await signOut(auth);
             // Firebase sign-out (clears auth session)
 
@@ -273,31 +286,28 @@ export default function ProfileScreen() {
     ]);
   };
 
-  // ✅ Reliable URI -> Blob (Expo iOS/Android)
-  const uriToBlob = (uri: string) =>
-  // Helper function: converts local file URI to Blob so Storage can upload it
+  const avatarUpload = useUploadQueue(async (url) => {
+  // Runs once the new avatar is stored
 
-    new Promise<Blob>((resolve, reject) => {
-    // Return a Promise that resolves to a Blob
-
-      const xhr = new XMLHttpRequest();
-      // Use XHR to fetch the file data from the URI
-
-      xhr.onload = () => resolve(xhr.response);
-      // When loaded successfully, resolve with the binary response (Blob)
-
-      xhr.onerror = () => reject(new Error("Failed to convert URI to Blob"));
-      // On error, reject the promise
+    if (!firebaseUser) return;
 
-      xhr.responseType = "blob";
-      // Set response type so we receive a Blob
+    try {
+      await updateDoc(doc(db, "users", firebaseUser.uid), {
+        avatarUrl: url,
+      });
+      // Update Firestore user doc with avatarUrl field
 
-      xhr.open("GET", uri, true);
-      // Open HTTP GET request to read the local file
+      // UI will update automatically via onSnapshot
+      Alert.alert("Updated", "Profile photo updated!");
+      // Notify user success
+    } catch (e: any) {
+      console.log("Avatar save error:", e);
+      // Log the error for debugging
 
-      xhr.send(null);
-      // Send request
-    });
+      Alert.alert("Error", e?.message ?? "Failed to save avatar.");
+      // Show error in UI
+    }
+  });
 
   const changeAvatar = async () => {
   // Function to pick an image and upload it as the profile avatar
@@ -331,8 +341,8 @@ export default function ProfileScreen() {
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
       // Only allow images
 
-      quality: 0.8,
-      // Compress image quality a bit to reduce size
+      quality: 1,
+      // Full quality (the upload service compresses once before upload)
 
       allowsEditing: true,
       // Allow user to crop/edit image in picker UI
@@ -344,47 +354,14 @@ export default function ProfileScreen() {
     if (result.canceled) return;
     // If user cancels selecting, do nothing
 
-    try {
-      const uri = result.assets[0]?.uri;
-      // Get local URI of selected image
-
-      if (!uri) return;
-      // If somehow missing, stop
-
-      // 1) Upload to Storage
-      const blob = await uriToBlob(uri);
-      // Convert local URI to Blob
-
-      const fileRef = ref(storage, `avatars/${firebaseUser.uid}.jpg`);
-      // Create a storage path; fixed name so new upload replaces old one
-
-      await uploadBytes(fileRef, blob);
-      // Upload blob to Firebase Storage
-
-      // @ts-ignore
-      blob.close?.();
-      // Release blob resources if environment supports it
-
-      // 2) Get URL
-      const url = await getDownloadURL(fileRef);
-      // Get public downloadable URL for the uploaded avatar
-
-      // 3) Save to Firestore user doc
-      await updateDoc(doc(db, "users", firebaseUser.uid), {
-        avatarUrl: url,
-      });
-      // Update Firestore user doc with avatarUrl field
+    const uri = result.assets[0]?.uri;
+    // Get local URI of selected image
 
-      // UI will update automatically via onSnapshot
-      Alert.alert("Updated", "Profile photo updated!");
-      // Notify user success
-    } catch (e: any) {
-      console.log("Avatar upload error:", e);
-      // Log the error for debugging
+    if (!uri) return;
+    // If somehow missing, stop
 
-      Alert.alert("Error", e?.message ?? "Failed to upload avatar.");
-      // Show error in UI
-    }
+    avatarUpload.enqueue([{ uri, path: `avatars/${firebaseUser.uid}.jpg` }]);
+    // Upload (compressed, with retry); fixed name so new upload replaces old one
   };
 
   return (
@@ -419,7 +396,7 @@ export default function ProfileScreen() {
       <View style={styles.profileTop}>
         {/* Top section with avatar and user info */}
 
-        <Pressable onPress={changeAvatar} style={styles.avatar}>
+        <Pressable onPress={changeAvatar} disabled={avatarUpload.busy} style={styles.avatar}>
           {/* Avatar is clickable to change image */}
 
           {avatarUrl ? (
@@ -443,6 +420,16 @@ export default function ProfileScreen() {
 
         <Text style={styles.email}>{email}</Text>
         {/* Display email from Firebase Auth */}
+
+        <View style={styles.uploadBox}>
+          <UploadStatus
+            status={avatarUpload.status}
+            onCancel={avatarUpload.cancel}
+            onRetry={avatarUpload.retry}
+            onDismiss={avatarUpload.dismiss}
+          />
+        </View>
+        {/* Avatar upload progress / error */}
       </View>
 
       {/* Stats */}
@@ -492,6 +479,24 @@ export default function ProfileScreen() {
           // Navigate to My Requests screen
         />
 
+        {firebaseUser ? (
+          <MenuItem
+            icon="person-circle-outline"
+            label="Public Profile"
+            onPress={() => router.push({ pathname: "/user/[uid]", params: { uid: firebaseUser.uid } })}
+            // How other users see me (bio, city, donations, ratings)
+          />
+        ) : null}
+
+        {isAdmin ? (
+          <MenuItem
+            icon="shield-checkmark-outline"
+            label="Admin Console"
+            onPress={() => router.push("/admin")}
+            // Recent items, open reports and users (admins only)
+          />
+        ) : null}
+
         <MenuItem
           icon="settings-outline"
           label="Settings"
@@ -700,6 +705,12 @@ const styles = StyleSheet.create({
     fontWeight: "600",
   },
 
+  uploadBox: {
+    alignSelf: "stretch",
+    paddingHorizontal: 18,
+  },
+  // Full-width avatar upload status
+
   statsRow: {
     flexDirection: "row",
     justifyContent: "space-between",
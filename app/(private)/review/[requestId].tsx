@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Platform,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { doc, getDoc, onSnapshot } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { submitReview } from "@/lib/requests";
+import { toPublicProfile } from "@/lib/profile";
+import {
+  MAX_RATING,
+  MAX_REVIEW_TEXT,
+  Review,
+  canReview,
+  reviewDocId,
+  starsText,
+  validateReview,
+} from "@/lib/reviews";
+
+type RequestDoc = {
+  itemId: string;
+  itemOwnerId: string;
+  requesterId: string;
+  status: string;
+};
+
+export default function ReviewScreen() {
+  const router = useRouter();
+  const { requestId } = useLocalSearchParams<{ requestId: string }>();
+  const uid = auth.currentUser?.uid ?? "";
+
+  const [request, setRequest] = useState<RequestDoc | null>(null);
+  const [itemTitle, setItemTitle] = useState("");
+  const [itemStatus, setItemStatus] = useState<string | null>(null);
+  const [otherName, setOtherName] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  const [mine, setMine] = useState<Review | null>(null);
+  const [theirs, setTheirs] = useState<Review | null>(null);
+
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const isDonor = request?.itemOwnerId === uid;
+  const otherUid = request ? (isDonor ? request.requesterId : request.itemOwnerId) : "";
+
+  // Request + item + the other person (read once)
+  useEffect(() => {
+    if (!requestId) return;
+
+    (async () => {
+      try {
+        const reqSnap = await getDoc(doc(db, "requests", requestId));
+        if (!reqSnap.exists()) return;
+
+        const req = reqSnap.data() as RequestDoc;
+        setRequest(req);
+
+        const other = req.itemOwnerId === uid ? req.requesterId : req.itemOwnerId;
+        const [itemSnap, otherSnap] = await Promise.all([
+          getDoc(doc(db, "items", req.itemId)),
+          getDoc(doc(db, "users", other)),
+        ]);
+
+        setItemTitle((itemSnap.data() as any)?.title ?? "Item");
+        setItemStatus((itemSnap.data() as any)?.status ?? null);
+        setOtherName(toPublicProfile(otherSnap.data()).name);
+      } catch (e) {
+        console.log("Review load error:", e);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [requestId, uid]);
+
+  // ✅ LIVE reviews of both sides (the other side may review while the screen is open)
+  useEffect(() => {
+    if (!requestId || !uid || !otherUid) return;
+
+    const unsubMine = onSnapshot(
+      doc(db, "reviews", reviewDocId(requestId, uid)),
+      (snap) => setMine(snap.exists() ? (snap.data() as Review) : null),
+      (e) => console.log("My review error:", e),
+    );
+    const unsubTheirs = onSnapshot(
+      doc(db, "reviews", reviewDocId(requestId, otherUid)),
+      (snap) => setTheirs(snap.exists() ? (snap.data() as Review) : null),
+      (e) => console.log("Their review error:", e),
+    );
+
+    return () => {
+      unsubMine();
+      unsubTheirs();
+    };
+  }, [requestId, uid, otherUid]);
+
+  const send = async () => {
+    if (!requestId) return;
+
+    const invalid = validateReview(rating, text);
+    setError(invalid);
+    if (invalid) return;
+
+    try {
+      setSending(true);
+      await submitReview(requestId, rating, text);
+      Alert.alert("Thank you", "Your review was posted.");
+    } catch (e: any) {
+      console.log("Submit review error:", e);
+      setError(e?.message ?? "Failed to post your review.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // One review, read-only
+  const reviewCard = (label: string, review: Review) => (
+    <View style={styles.card}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.stars}>{starsText(review.rating)}</Text>
+      {review.text ? <Text style={styles.reviewText}>{review.text}</Text> : null}
+    </View>
+  );
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Review</Text>
+
+        <View style={{ width: 34 }} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator color="#FFFFFF" style={{ marginTop: 30 }} />
+      ) : !request ? (
+        <Text style={styles.infoText}>Request not found.</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <Pressable
+            onPress={() => router.push({ pathname: "/user/[uid]", params: { uid: otherUid } })}
+            style={styles.intro}
+          >
+            <Text style={styles.introTitle}>{itemTitle}</Text>
+            <Text style={styles.introSub}>
+              {isDonor ? "Donated to " : "Received from "}
+              <Text style={styles.introName}>{otherName}</Text>
+            </Text>
+          </Pressable>
+
+          {mine ? (
+            reviewCard("Your review", mine)
+          ) : !canReview(request.status, itemStatus) ? (
+            <Text style={styles.infoText}>You can leave a review once the item is donated.</Text>
+          ) : (
+            <View style={styles.card}>
+              <Text style={styles.label}>
+                How did it go with {otherName}?
+              </Text>
+
+              {/* Star picker */}
+              <View style={styles.starRow}>
+                {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((value) => (
+                  <Pressable key={value} onPress={() => setRating(value)} hitSlop={6}>
+                    <Ionicons
+                      name={value <= rating ? "star" : "star-outline"}
+                      size={34}
+                      color="#FFFFFF"
+                    />
+                  </Pressable>
+                ))}
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder="A few words about the handover (optional)"
+                placeholderTextColor="rgba(0,0,0,0.4)"
+                multiline
+                maxLength={MAX_REVIEW_TEXT}
+                value={text}
+                onChangeText={setText}
+              />
+
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+              <Pressable
+                onPress={send}
+                disabled={sending}
+                style={[styles.primaryBtn, sending && { opacity: 0.6 }]}
+              >
+                <Text style={styles.primaryBtnText}>{sending ? "Posting..." : "Post review"}</Text>
+              </Pressable>
+            </View>
+          )}
+
+          {theirs ? reviewCard(`${otherName}'s review of you`, theirs) : null}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  infoText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    paddingTop: 18,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 28,
+    gap: 14,
+  },
+  intro: {
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  introTitle: {
+    color: "#FFFFFF",
+    fontSize: 18,
+    fontWeight: "900",
+  },
+  introSub: {
+    marginTop: 4,
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+  },
+  introName: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    textDecorationLine: "underline",
+  },
+  card: {
+    borderRadius: 18,
+    padding: 16,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  label: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 15,
+  },
+  stars: {
+    marginTop: 8,
+    color: "#FFFFFF",
+    fontSize: 22,
+  },
+  reviewText: {
+    marginTop: 8,
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  starRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 8,
+    marginVertical: 14,
+  },
+  input: {
+    minHeight: 90,
+    borderRadius: 12,
+    padding: 12,
+    backgroundColor: "rgba(255,255,255,0.92)",
+    color: "rgba(0,0,0,0.75)",
+    textAlignVertical: "top",
+  },
+  errorText: {
+    marginTop: 10,
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+  primaryBtn: {
+    marginTop: 14,
+    height: 50,
+    borderRadius: 999,
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    color: "#4F98DC",
+    fontWeight: "900",
+    fontSize: 16,
+  },
+});
+/*
+This file lets the donor and the recipient of a donated item rate each other (/review/[requestId]).
+Each side leaves 1-5 stars and an optional short text once; the Cloud Function stores it
+and updates the other person's rating. Both reviews are shown once written.
+*/
@@ -1,25 +1,159 @@
-import React from "react";
-// Import React to define a functional component
+import React, { useEffect, useState } from "react";
+// Import React + hooks:
+// useState = preferences shown on screen
+// useEffect = live listener on the user's profile
 
-import { View, Text, StyleSheet, Pressable, Platform } from "react-native";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Platform,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
 // View: container component
 // Text: display text
 // StyleSheet: define styles
 // Pressable: clickable/tappable component
 // Platform: detect iOS vs Android (for padding differences)
+// ScrollView: the settings are longer than one screen
+// Switch: quiet hours + daily digest toggles
+// Alert: save errors
+// ActivityIndicator: spinner while the profile loads
 
 import { Ionicons } from "@expo/vector-icons";
-// Icon library used for UI icons (back arrow)
+// Icon library used for UI icons (back arrow, time steppers)
 
 import { useRouter } from "expo-router";
 // Hook to control navigation (back, push, replace)
 
+import { doc, onSnapshot, setDoc } from "firebase/firestore";
+// Preferences live on users/{uid}/private/settings.notificationPrefs
+
+import { privateSettingsRef } from "@/lib/private-settings";
+// Private settings document (only the user and the Cloud Functions read it)
+
+import { auth, db } from "@/lib/firebase";
+// Firebase instances (current user + Firestore)
+
+import {
+  DEFAULT_NOTIFICATION_PREFS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  NotificationPrefs,
+  channelsFor,
+  formatMinutes,
+  normalizeNotificationPrefs,
+  shiftMinutes,
+  withChannel,
+} from "@/lib/notification-prefs";
+// Pure preferences model (defaults, per-type channels, time helpers)
+
+import AccountSettings from "@/components/account-settings";
+// Email verification, change email/password, delete account
+
+import ProfileSettings from "@/components/profile-settings";
+import { PublicProfile, toPublicProfile } from "@/lib/profile";
+// Name, bio and city shown on the public profile
+
+const TIME_STEP = 30;
+// Quiet hours move in 30 minute steps
+
 export default function SettingsScreen() {
 // Define and export the Settings screen component
 
   const router = useRouter();
 // Initialize the router to handle navigation actions
 
+  const uid = auth.currentUser?.uid;
+
+  const [prefs, setPrefs] = useState<NotificationPrefs>(DEFAULT_NOTIFICATION_PREFS);
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Live preferences (also picks up changes made on another device)
+    if (!uid) return;
+
+    // Older profiles kept the preferences on users/{uid} until the server moved them
+    let profilePrefs: unknown;
+    let privatePrefs: unknown;
+    const showPrefs = () => setPrefs(normalizeNotificationPrefs(privatePrefs ?? profilePrefs));
+
+    const unsubProfile = onSnapshot(
+      doc(db, "users", uid),
+      (snap) => {
+        profilePrefs = snap.data()?.notificationPrefs;
+        showPrefs();
+        setProfile(toPublicProfile(snap.data()));
+        setLoading(false);
+      },
+      (e) => {
+        console.log("Settings snapshot error:", e);
+        setLoading(false);
+      },
+    );
+
+    const unsubSettings = onSnapshot(
+      privateSettingsRef(uid),
+      (snap) => {
+        privatePrefs = snap.data()?.notificationPrefs;
+        showPrefs();
+      },
+      (e) => console.log("Private settings snapshot error:", e),
+    );
+
+    return () => {
+      unsubProfile();
+      unsubSettings();
+    };
+  }, [uid]);
+
+  const save = async (next: NotificationPrefs) => {
+    // Shows the change at once, then stores it (the Cloud Functions read it from there)
+    if (!uid) return;
+
+    setPrefs(next);
+
+    try {
+      await setDoc(privateSettingsRef(uid), { notificationPrefs: next }, { merge: true });
+    } catch (e: any) {
+      console.log("Save settings error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to save your settings.");
+    }
+  };
+
+  const setQuietHours = (patch: Partial<NotificationPrefs["quietHours"]>) =>
+    save({ ...prefs, quietHours: { ...prefs.quietHours, ...patch } });
+
+  // One "From"/"To" time with -30/+30 minute buttons
+  const timeStepper = (label: string, key: "start" | "end") => (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+
+      <Pressable
+        onPress={() => setQuietHours({ [key]: shiftMinutes(prefs.quietHours[key], -TIME_STEP) })}
+        hitSlop={8}
+        style={styles.stepBtn}
+      >
+        <Ionicons name="remove" size={16} color="#FFFFFF" />
+      </Pressable>
+
+      <Text style={styles.time}>{formatMinutes(prefs.quietHours[key])}</Text>
+
+      <Pressable
+        onPress={() => setQuietHours({ [key]: shiftMinutes(prefs.quietHours[key], TIME_STEP) })}
+        hitSlop={8}
+        style={styles.stepBtn}
+      >
+        <Ionicons name="add" size={16} color="#FFFFFF" />
+      </Pressable>
+    </View>
+  );
+
   return (
     <View style={styles.screen}>
       {/* Root container for the whole screen */}
@@ -45,17 +179,90 @@ export default function SettingsScreen() {
         {/* Spacer to keep the title centered */}
       </View>
 
-      <View style={styles.card}>
-        {/* Card container for the content */}
+      {loading ? (
+        <ActivityIndicator color="#FFFFFF" style={{ marginTop: 30 }} />
+      ) : (
+        <ScrollView contentContainerStyle={{ paddingBottom: 40 }} showsVerticalScrollIndicator={false}>
+          {uid && profile ? <ProfileSettings uid={uid} profile={profile} /> : null}
 
-        <Text style={styles.title}>Coming soon</Text>
-        {/* Main message */}
+          <View style={styles.card}>
+            {/* Channels per notification type */}
 
-        <Text style={styles.sub}>
-          {/* Description text */}
-          We’ll add settings like editing profile info and preferences here.
-        </Text>
-      </View>
+            <Text style={styles.title}>Notifications</Text>
+            <Text style={styles.sub}>Choose how each kind of notification reaches you.</Text>
+
+            {NOTIFICATION_TYPES.map(({ type, label }) => {
+              const channels = channelsFor(prefs, type);
+
+              return (
+                <View key={type} style={styles.typeRow}>
+                  <Text style={styles.typeLabel}>{label}</Text>
+
+                  <View style={styles.chips}>
+                    {NOTIFICATION_CHANNELS.map((channel) => {
+                      const on = channels[channel.key];
+
+                      return (
+                        <Pressable
+                          key={channel.key}
+                          onPress={() => save(withChannel(prefs, type, channel.key, !on))}
+                          style={[styles.chip, on && styles.chipOn]}
+                        >
+                          <Text style={[styles.chipText, on && styles.chipTextOn]}>{channel.label}</Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                </View>
+              );
+            })}
+
+            <Text style={styles.hint}>
+              In-app keeps it in your notification list. Emails go to the address of your account.
+            </Text>
+          </View>
+
+          <View style={styles.card}>
+            {/* Quiet hours */}
+
+            <View style={styles.switchRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.title}>Quiet hours</Text>
+                <Text style={styles.sub}>Push notifications wait until these hours are over.</Text>
+              </View>
+
+              <Switch
+                value={prefs.quietHours.enabled}
+                onValueChange={(enabled) => setQuietHours({ enabled })}
+              />
+            </View>
+
+            {prefs.quietHours.enabled ? (
+              <View style={styles.steppers}>
+                {timeStepper("From", "start")}
+                {timeStepper("To", "end")}
+              </View>
+            ) : null}
+          </View>
+
+          <View style={styles.card}>
+            {/* Daily digest */}
+
+            <View style={styles.switchRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.title}>Daily digest</Text>
+                <Text style={styles.sub}>
+                  Get one push and email a day at 09:00 instead of one per notification.
+                </Text>
+              </View>
+
+              <Switch value={prefs.digest} onValueChange={(digest) => save({ ...prefs, digest })} />
+            </View>
+          </View>
+
+          <AccountSettings />
+        </ScrollView>
+      )}
     </View>
   );
 }
@@ -109,7 +316,7 @@ const styles = StyleSheet.create({
 
   card: {
     marginTop: 14,
-    // Space below header
+    // Space below header / previous card
 
     borderRadius: 18,
     padding: 16,
@@ -133,4 +340,96 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     lineHeight: 20,
   },
+
+  typeRow: {
+    marginTop: 14,
+  },
+
+  typeLabel: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    marginBottom: 8,
+  },
+
+  chips: {
+    flexDirection: "row",
+    gap: 8,
+  },
+
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.5)",
+  },
+
+  chipOn: {
+    backgroundColor: "#FFFFFF",
+    borderColor: "#FFFFFF",
+  },
+
+  chipText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+
+  chipTextOn: {
+    color: "#4F98DC",
+  },
+
+  hint: {
+    marginTop: 14,
+    color: "rgba(255,255,255,0.75)",
+    fontWeight: "600",
+    fontSize: 12,
+  },
+
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+
+  steppers: {
+    marginTop: 12,
+    gap: 10,
+  },
+
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+
+  stepperLabel: {
+    width: 44,
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+  },
+
+  stepBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 999,
+    backgroundColor: "rgba(255,255,255,0.22)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
+  time: {
+    width: 56,
+    textAlign: "center",
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "900",
+  },
 });
+/*This file contains the Settings screen.
+Users choose per notification type whether it is kept in the app, pushed or emailed,
+set quiet hours that hold pushes back and switch to a daily digest.
+The choices are saved in the user's private settings, where the notification Cloud Functions read them.
+The Public profile card edits the name, bio and city other users see,
+and the Account card manages the sign-in email, the password and account deletion.
+*/
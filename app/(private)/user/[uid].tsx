@@ -0,0 +1,462 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Platform,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { collection, doc, getDocs, limit, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { governorateLabel } from "@/lib/location";
+import { PublicProfile, donorLevel, joinedLabel, ratingLabel, toPublicProfile } from "@/lib/profile";
+import { Review, reviewerLabel, starsText } from "@/lib/reviews";
+import { blockUser, unblockUser } from "@/lib/moderation";
+import { isDonatedItem } from "@/lib/rules";
+import { useBlockedUsers } from "@/hooks/use-blocked-users";
+import ItemCard, { ItemCardItem } from "@/components/item-card";
+import ReportSheet from "@/components/report-sheet";
+
+// Donated items shown in the history (newest first)
+const HISTORY_LIMIT = 20;
+
+// Latest reviews shown under the rating
+const REVIEWS_LIMIT = 10;
+
+type ItemDoc = ItemCardItem & {
+  ownerId: string;
+  createdAt?: any;
+  donatedAt?: any;
+  hidden?: boolean;
+};
+
+// When the item was donated (items donated before donatedAt existed use their post date)
+const donatedMillis = (item: ItemDoc) =>
+  item.donatedAt?.toMillis?.() ?? item.createdAt?.toMillis?.() ?? 0;
+
+export default function UserProfileScreen() {
+  const router = useRouter();
+  const { uid } = useLocalSearchParams<{ uid: string }>();
+  const isMe = uid === auth.currentUser?.uid;
+
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<ItemDoc[]>([]);
+  const [reviews, setReviews] = useState<(Review & { id: string })[]>([]);
+  const [reporting, setReporting] = useState(false);
+
+  const blocked = useBlockedUsers();
+  const isBlocked = !!uid && blocked.has(uid);
+
+  // ✅ LIVE profile (name, bio, ratings...)
+  useEffect(() => {
+    if (!uid) return;
+
+    setLoading(true);
+    const unsub = onSnapshot(
+      doc(db, "users", uid),
+      (snap) => {
+        setProfile(snap.exists() ? toPublicProfile(snap.data()) : null);
+        setLoading(false);
+      },
+      (err) => {
+        console.log("Public profile snapshot error:", err);
+        setLoading(false);
+      },
+    );
+
+    return unsub;
+  }, [uid]);
+
+  // Listed + donated items (read once; the counts do not need to be live here)
+  useEffect(() => {
+    if (!uid) return;
+
+    // Other people's hidden items are refused by the rules, so only your own profile reads them
+    const owned = query(collection(db, "items"), where("ownerId", "==", uid));
+    getDocs(isMe ? owned : query(owned, where("hidden", "==", false)))
+      .then((snap) => setItems(snap.docs.map((d) => ({ id: d.id, ...(d.data() as any) }))))
+      .catch((e) => console.log("Public profile items error:", e));
+  }, [uid, isMe]);
+
+  // Latest reviews about this user (from the people they donated to or received from)
+  useEffect(() => {
+    if (!uid) return;
+
+    getDocs(
+      query(
+        collection(db, "reviews"),
+        where("revieweeId", "==", uid),
+        orderBy("createdAt", "desc"),
+        limit(REVIEWS_LIMIT),
+      ),
+    )
+      .then((snap) => setReviews(snap.docs.map((d) => ({ id: d.id, ...(d.data() as Review) }))))
+      .catch((e) => console.log("Public profile reviews error:", e));
+  }, [uid]);
+
+  // Items other people may see (hidden ones only on your own profile)
+  const visible = useMemo(() => items.filter((item) => isMe || !item.hidden), [items, isMe]);
+
+  // Donation history, newest donation first
+  const donated = useMemo(
+    () =>
+      visible
+        .filter((item) => isDonatedItem(item.status))
+        .sort((a, b) => donatedMillis(b) - donatedMillis(a)),
+    [visible],
+  );
+
+  // Listed = every item not donated yet (available, requested or accepted)
+  const available = visible.filter((item) => !isDonatedItem(item.status)).length;
+
+  // Block / unblock (blocking hides their items and rejects their requests on your items)
+  const toggleBlock = async () => {
+    if (!uid) return;
+
+    try {
+      if (isBlocked) {
+        await unblockUser(uid);
+      } else {
+        await blockUser(uid);
+        Alert.alert("User blocked", "Their items are hidden and they can no longer request yours.");
+      }
+    } catch (e: any) {
+      console.log("Block user error:", e);
+      Alert.alert("Error", e?.message ?? "Please try again.");
+    }
+  };
+
+  // Other users' profiles: report or block
+  const openActions = () => {
+    Alert.alert(profile?.name ?? "User", undefined, [
+      { text: "Report user", onPress: () => setReporting(true) },
+      {
+        text: isBlocked ? "Unblock user" : "Block user",
+        style: isBlocked ? "default" : "destructive",
+        onPress: toggleBlock,
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  return (
+    <View style={styles.screen}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#FFFFFF" />
+        </Pressable>
+
+        <Text style={styles.headerTitle}>Profile</Text>
+
+        {isMe ? (
+          // Own profile: edit name, bio and city in Settings
+          <Pressable onPress={() => router.push("/settings")} hitSlop={12} style={styles.backBtn}>
+            <Ionicons name="create-outline" size={20} color="#FFFFFF" />
+          </Pressable>
+        ) : profile ? (
+          <Pressable onPress={openActions} hitSlop={12} style={styles.backBtn}>
+            <Ionicons name="ellipsis-horizontal" size={20} color="#FFFFFF" />
+          </Pressable>
+        ) : (
+          <View style={{ width: 34 }} />
+        )}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator color="#FFFFFF" style={{ marginTop: 30 }} />
+      ) : !profile ? (
+        <Text style={styles.infoText}>User not found.</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Who they are */}
+          <View style={styles.top}>
+            <View style={styles.avatar}>
+              {profile.avatarUrl ? (
+                <Image source={{ uri: profile.avatarUrl }} style={styles.avatarImg} />
+              ) : (
+                <Ionicons name="person" size={40} color="#4F98DC" />
+              )}
+            </View>
+
+            <Text style={styles.name}>{profile.name}</Text>
+
+            {isBlocked ? <Text style={styles.blockedText}>You blocked this user.</Text> : null}
+
+            <View style={styles.chip}>
+              <Ionicons name="ribbon-outline" size={14} color="#FFFFFF" />
+              <Text style={styles.chipText}>{donorLevel(donated.length)}</Text>
+            </View>
+
+            <View style={styles.metaRow}>
+              {profile.city ? (
+                <View style={styles.meta}>
+                  <Ionicons name="location-outline" size={14} color="rgba(255,255,255,0.9)" />
+                  <Text style={styles.metaText}>{governorateLabel(profile.city)}</Text>
+                </View>
+              ) : null}
+
+              {profile.joinedAt ? (
+                <View style={styles.meta}>
+                  <Ionicons name="calendar-outline" size={14} color="rgba(255,255,255,0.9)" />
+                  <Text style={styles.metaText}>{joinedLabel(profile.joinedAt)}</Text>
+                </View>
+              ) : null}
+            </View>
+          </View>
+
+          {/* Bio + reputation */}
+          <View style={styles.card}>
+            {profile.bio ? <Text style={styles.bio}>{profile.bio}</Text> : null}
+
+            <View style={styles.statsRow}>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{donated.length}</Text>
+                <Text style={styles.statLabel}>Donated</Text>
+              </View>
+
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{available}</Text>
+                <Text style={styles.statLabel}>Active</Text>
+              </View>
+
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>
+                  {profile.ratingAverage != null ? profile.ratingAverage.toFixed(1) : "–"}
+                </Text>
+                <Text style={styles.statLabel}>Rating</Text>
+              </View>
+            </View>
+
+            <Text style={styles.ratingText}>{ratingLabel(profile)}</Text>
+          </View>
+
+          {/* Reviews */}
+          {reviews.length > 0 ? (
+            <>
+              <Text style={styles.sectionTitle}>Reviews</Text>
+
+              <View style={{ gap: 10 }}>
+                {reviews.map((review) => (
+                  <View key={review.id} style={styles.reviewCard}>
+                    <View style={styles.reviewTop}>
+                      <Text style={styles.reviewStars}>{starsText(review.rating)}</Text>
+                      <Text style={styles.reviewFrom}>{reviewerLabel(review.reviewerRole)}</Text>
+                    </View>
+                    {review.text ? <Text style={styles.reviewText}>{review.text}</Text> : null}
+                  </View>
+                ))}
+              </View>
+            </>
+          ) : null}
+
+          {/* Donation history */}
+          <Text style={styles.sectionTitle}>Donation history</Text>
+
+          {donated.length === 0 ? (
+            <Text style={styles.emptyText}>No donations yet.</Text>
+          ) : (
+            <View style={{ gap: 10 }}>
+              {donated.slice(0, HISTORY_LIMIT).map((item) => (
+                <ItemCard
+                  key={item.id}
+                  item={item}
+                  showCategory
+                  onPress={() => router.push({ pathname: "/item/[id]", params: { id: item.id } })}
+                />
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      {uid && !isMe ? (
+        <ReportSheet visible={reporting} onClose={() => setReporting(false)} targetType="user" targetId={uid} />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: "#4F98DC",
+    paddingTop: Platform.OS === "ios" ? 54 : 18,
+  },
+  header: {
+    height: 54,
+    paddingHorizontal: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  backBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  infoText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    paddingHorizontal: 16,
+    paddingTop: 18,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 28,
+  },
+  top: {
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 92,
+    height: 92,
+    borderRadius: 999,
+    backgroundColor: "#FFFFFF",
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+    marginBottom: 10,
+  },
+  avatarImg: {
+    width: "100%",
+    height: "100%",
+  },
+  name: {
+    color: "#FFFFFF",
+    fontSize: 22,
+    fontWeight: "900",
+    marginBottom: 8,
+  },
+  blockedText: {
+    marginBottom: 8,
+    color: "#FFCDD2",
+    fontWeight: "800",
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 10,
+    height: 30,
+    borderRadius: 999,
+    backgroundColor: "rgba(255,255,255,0.22)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  chipText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+  metaRow: {
+    flexDirection: "row",
+    gap: 14,
+    marginTop: 10,
+  },
+  meta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  metaText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+  },
+  card: {
+    borderRadius: 18,
+    padding: 16,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  bio: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "600",
+    lineHeight: 20,
+    marginBottom: 14,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  stat: {
+    alignItems: "center",
+  },
+  statValue: {
+    color: "#FFFFFF",
+    fontSize: 20,
+    fontWeight: "900",
+  },
+  statLabel: {
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+    fontSize: 12,
+    marginTop: 2,
+  },
+  ratingText: {
+    marginTop: 12,
+    textAlign: "center",
+    color: "#FFFFFF",
+    fontWeight: "800",
+  },
+  reviewCard: {
+    borderRadius: 14,
+    padding: 12,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  reviewTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  reviewStars: {
+    color: "#FFFFFF",
+    fontSize: 16,
+  },
+  reviewFrom: {
+    color: "rgba(255,255,255,0.8)",
+    fontWeight: "700",
+    fontSize: 12,
+  },
+  reviewText: {
+    marginTop: 6,
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "600",
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    marginTop: 18,
+    marginBottom: 10,
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 16,
+  },
+  emptyText: {
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+  },
+});
+/*
+This file displays the public profile of a user (/user/[uid]):
+their name, avatar, bio, city, join date, donor reputation, rating with the latest reviews,
+and the items they have donated. Item pages, request rows and notifications link here.
+Other users can report or block the user from here.
+*/
@@ -20,11 +20,14 @@ import { useColorScheme } from "@/hooks/use-color-scheme";
 // useAuth lets us read that state anywhere
 import { AuthProvider, useAuth } from "@/lib/auth-context";
 
+// Where each route group sends the user (onboarding / private / admin rules)
+import { authRedirect } from "@/lib/roles";
+
 // This component acts as a "security gate":
 // It redirects users depending on whether they are logged in or not.
 function AuthGate() {
-  // Get the logged-in user (or null) and loading flag from the auth context
-  const { user, loading } = useAuth();
+  // Get the logged-in user (or null), loading flag and admin claim from the auth context
+  const { user, loading, isAdmin } = useAuth();
 
   // Get the current route segments from expo-router
   // Example: ["(private)", "index"] or ["(onboarding)", "index"]
@@ -39,29 +42,20 @@ function AuthGate() {
     if (loading) return;
 
     // segments[0] represents the top-level route group:
-    // It will be "(onboarding)" or "(private)"
-    const group = segments[0]; // "(onboarding)" or "(private)"
-
-    // True if user is currently inside onboarding screens (sign-in/sign-up)
-    const inOnboarding = group === "(onboarding)";
-
-    // True if user is currently inside private (protected) screens
-    const inPrivate = group === "(private)";
-
-    // If the user IS logged in AND currently on onboarding,
-    // we redirect them to the private home screen.
-    if (user && inOnboarding) {
-      router.replace("/(private)");
-    }
-    // If the user is NOT logged in AND trying to access private screens,
-    // we force them back to onboarding.
-    else if (!user && inPrivate) {
-      router.replace("/(onboarding)");
+    // It will be "(onboarding)", "(private)" or "(admin)"
+    const group = segments[0];
+
+    // Logged in on onboarding -> private home screen.
+    // Not logged in on private or admin screens -> back to onboarding.
+    // Logged in without the admin claim on admin screens -> private home screen.
+    const target = authRedirect(group, !!user, isAdmin);
+    if (target) {
+      router.replace(target);
     }
 
     // This dependency array means:
-    // rerun when these values change (auth state or route)
-  }, [user, loading, segments, router]);
+    // rerun when these values change (auth state, admin claim or route)
+  }, [user, loading, isAdmin, segments, router]);
 
   // This component renders nothing.
   // It only exists to run the redirect logic above.
@@ -90,6 +84,9 @@ export default function RootLayout() {
           {/* Route group for private screens (home, profile, add-item, etc.) */}
           <Stack.Screen name="(private)" />
 
+          {/* Route group for the admin console (admins only, see AuthGate) */}
+          <Stack.Screen name="(admin)" />
+
           {/* Optional modal screen (if you use modal routes) */}
           <Stack.Screen name="modal" options={{ presentation: "modal" }} />
         </Stack>
@@ -102,5 +99,6 @@ export default function RootLayout() {
 }
 /*This file is the root layout of the app.
 It sets up global navigation theming, authentication state management,
-and route protection to ensure only logged-in users can access private screens.
+and route protection to ensure only logged-in users can access private screens
+and only admins can access the admin console.
 */
\ No newline at end of file
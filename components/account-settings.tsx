@@ -0,0 +1,493 @@
+import React, { useEffect, useState } from "react";
+// useState = sign-in methods, open form, inputs, busy flag; useEffect = refresh the verification state
+
+import { View, Text, StyleSheet, Pressable, TextInput, Alert, ActivityIndicator } from "react-native";
+// TextInput = password / email fields of the open form
+// Alert = confirmations and results
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons (mail, key, trash, chevron, checkmarks)
+
+import { useRouter } from "expo-router";
+// Back to onboarding once the account is deleted
+
+import { auth } from "@/lib/firebase";
+// Current user (email + verification state)
+
+import {
+  changeEmail,
+  changePassword,
+  checkVerified,
+  deleteAccount,
+  sendVerificationEmail,
+} from "@/lib/account";
+// Account actions (the password ones sign in again with the current password first)
+
+import { currentProviders, linkGoogle, linkPassword, unlinkProvider } from "@/lib/sign-in";
+import { SIGN_IN_PROVIDERS, SignInProviderId, canUnlink } from "@/lib/auth-providers";
+// Sign-in methods linked to the account
+
+import GoogleButton, { GOOGLE_CLIENT_IDS } from "@/components/google-button";
+import PhoneSignIn from "@/components/phone-sign-in";
+// Linking Google / a phone number
+
+import { MIN_PASSWORD_LENGTH, authErrorMessage, isEmailLike } from "@/lib/auth-errors";
+// Form checks + readable Firebase Auth errors
+
+// Form open in the card (null = none)
+type AccountForm = "email" | "password" | "delete" | "link-password" | "link-phone";
+
+// needsPassword = only for accounts that sign in with email + password
+const ACTIONS: {
+  form: AccountForm;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  needsPassword: boolean;
+}[] = [
+  { form: "email", label: "Change email", icon: "mail-outline", needsPassword: true },
+  { form: "password", label: "Change password", icon: "key-outline", needsPassword: true },
+  { form: "delete", label: "Delete account", icon: "trash-outline", needsPassword: false },
+];
+
+export default function AccountSettings() {
+  // Account card of the Settings screen
+
+  const router = useRouter();
+  const user = auth.currentUser;
+
+  const [providers, setProviders] = useState<SignInProviderId[]>(currentProviders());
+  const [verified, setVerified] = useState(Boolean(user?.emailVerified || user?.phoneNumber));
+  const [form, setForm] = useState<AccountForm | null>(null);
+  const [password, setPassword] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const hasPassword = providers.includes("password");
+
+  useEffect(() => {
+    // The link may have been opened since the app started
+    if (verified) return;
+    checkVerified()
+      .then(setVerified)
+      .catch((e) => console.log("Verification check error:", e));
+  }, [verified]);
+
+  const openForm = (next: AccountForm) => {
+    // Same row again closes the form; the inputs start empty each time
+    setForm(form === next ? null : next);
+    setPassword("");
+    setNewEmail("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setError(null);
+  };
+
+  // A sign-in method was added or removed
+  const methodsChanged = (title: string, message: string) => {
+    setProviders(currentProviders());
+    setVerified(Boolean(auth.currentUser?.emailVerified || auth.currentUser?.phoneNumber));
+    setForm(null);
+    Alert.alert(title, message);
+  };
+
+  const resendVerification = async () => {
+    try {
+      await sendVerificationEmail();
+      Alert.alert("Sent", "Check your inbox for the verification link.");
+    } catch (e: any) {
+      console.log("Verification email error:", e);
+      Alert.alert("Error", authErrorMessage(e, e?.message ?? "Failed to send the email."));
+    }
+  };
+
+  const addGoogle = async (idToken: string) => {
+    try {
+      await linkGoogle(idToken);
+      methodsChanged("Linked", "You can now sign in with Google.");
+    } catch (e: any) {
+      console.log("Link Google error:", e);
+      Alert.alert("Error", authErrorMessage(e, e?.message ?? "Failed to link Google."));
+    }
+  };
+
+  const removeMethod = (id: SignInProviderId, label: string) => {
+    Alert.alert("Remove sign-in method", `You will no longer be able to sign in with ${label}.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await unlinkProvider(id);
+            methodsChanged("Removed", `${label} was removed from your account.`);
+          } catch (e: any) {
+            console.log("Unlink error:", e);
+            Alert.alert("Error", authErrorMessage(e, e?.message ?? "Failed to remove it."));
+          }
+        },
+      },
+    ]);
+  };
+
+  // Checks the open form; returns an error text or null
+  const validate = () => {
+    if (form === "email" || form === "password" || (form === "delete" && hasPassword)) {
+      if (!password) return "Please enter your current password.";
+    }
+
+    if (form === "email" || form === "link-password") {
+      if (!isEmailLike(newEmail)) return "Please enter a valid email.";
+    }
+
+    if (form === "email" && newEmail.trim().toLowerCase() === (user?.email ?? "").toLowerCase()) {
+      return "This is already your email.";
+    }
+
+    if (form === "password" || form === "link-password") {
+      if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        return `Password should be at least ${MIN_PASSWORD_LENGTH} characters.`;
+      }
+      if (newPassword !== confirmPassword) return "The passwords do not match.";
+    }
+
+    return null;
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (e: any) {
+      console.log("Account action error:", e);
+      setError(authErrorMessage(e, e?.message ?? fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = async () => {
+    const invalid = validate();
+    setError(invalid);
+    if (invalid) return;
+
+    if (form === "email") {
+      const email = newEmail.trim();
+      if (await run(() => changeEmail(password, email), "Failed to change your email.")) {
+        setForm(null);
+        Alert.alert(
+          "Check your inbox",
+          `We sent a link to ${email}. Your email changes once you open it, then sign in with the new address.`,
+        );
+      }
+    }
+
+    if (form === "password") {
+      if (await run(() => changePassword(password, newPassword), "Failed to change your password.")) {
+        setForm(null);
+        Alert.alert("Updated", "Your password was changed.");
+      }
+    }
+
+    if (form === "link-password") {
+      const email = newEmail.trim();
+      if (await run(() => linkPassword(email, newPassword), "Failed to add the password.")) {
+        methodsChanged("Linked", `You can now sign in with ${email} and your password.`);
+      }
+    }
+
+    if (form === "delete") {
+      Alert.alert(
+        "Delete account",
+        "Your items, requests, chats and notifications will be deleted. This cannot be undone.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: async () => {
+              const current = hasPassword ? password : null;
+              if (await run(() => deleteAccount(current), "Failed to delete your account.")) {
+                router.replace("/(onboarding)");
+              }
+            },
+          },
+        ],
+      );
+    }
+  };
+
+  // One input of the open form
+  const field = (
+    placeholder: string,
+    value: string,
+    onChange: (text: string) => void,
+    secure = true,
+  ) => (
+    <TextInput
+      style={styles.input}
+      placeholder={placeholder}
+      placeholderTextColor="rgba(0,0,0,0.4)"
+      secureTextEntry={secure}
+      autoCapitalize="none"
+      keyboardType={secure ? "default" : "email-address"}
+      value={value}
+      onChangeText={onChange}
+    />
+  );
+
+  // Inputs + submit button of the open form
+  const formBody = () => {
+    const danger = form === "delete";
+    const askCurrent = form === "email" || form === "password" || (danger && hasPassword);
+
+    return (
+      <View style={styles.form}>
+        {danger ? (
+          <Text style={styles.warning}>
+            This deletes your items, requests, chats and notifications for good.
+            {hasPassword ? "" : " If you signed in a while ago, you will be asked to sign in again."}
+          </Text>
+        ) : null}
+
+        {form === "email" ? field("New email", newEmail, setNewEmail, false) : null}
+        {form === "link-password" ? field("Email", newEmail, setNewEmail, false) : null}
+        {askCurrent ? field("Current password", password, setPassword) : null}
+        {form === "password" || form === "link-password"
+          ? field(form === "password" ? "New password" : "Password", newPassword, setNewPassword)
+          : null}
+        {form === "password" || form === "link-password"
+          ? field("Confirm password", confirmPassword, setConfirmPassword)
+          : null}
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <Pressable
+          onPress={submit}
+          disabled={busy}
+          style={[styles.submitBtn, danger && styles.dangerBtn, busy && { opacity: 0.6 }]}
+        >
+          {busy ? (
+            <ActivityIndicator color={danger ? "#FFFFFF" : "#4F98DC"} />
+          ) : (
+            <Text style={[styles.submitText, danger && { color: "#FFFFFF" }]}>
+              {danger ? "Delete my account" : "Save"}
+            </Text>
+          )}
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Account</Text>
+      <Text style={styles.sub}>{user?.email ?? user?.phoneNumber ?? ""}</Text>
+
+      {!verified ? (
+        <View style={styles.verifyRow}>
+          <Ionicons name="alert-circle-outline" size={18} color="#FFFFFF" />
+          <Text style={styles.verifyText}>Email not verified. You can post items once it is.</Text>
+          {user?.email ? (
+            <Pressable onPress={resendVerification} hitSlop={8}>
+              <Text style={styles.link}>Send link</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      ) : null}
+
+      <Text style={styles.section}>Sign-in methods</Text>
+
+      {SIGN_IN_PROVIDERS.map(({ id, label }) => {
+        const linked = providers.includes(id);
+
+        // Google stays hidden until the project has client ids
+        if (id === "google.com" && !linked && !GOOGLE_CLIENT_IDS) return null;
+
+        return (
+          <View key={id}>
+            <View style={styles.methodRow}>
+              <Ionicons name={linked ? "checkmark-circle" : "ellipse-outline"} size={18} color="#FFFFFF" />
+              <Text style={styles.actionText}>{label}</Text>
+
+              {linked && canUnlink(providers, id) ? (
+                <Pressable onPress={() => removeMethod(id, label)} hitSlop={8}>
+                  <Text style={styles.link}>Remove</Text>
+                </Pressable>
+              ) : null}
+
+              {!linked && id !== "google.com" ? (
+                <Pressable onPress={() => openForm(id === "phone" ? "link-phone" : "link-password")} hitSlop={8}>
+                  <Text style={styles.link}>Add</Text>
+                </Pressable>
+              ) : null}
+            </View>
+
+            {id === "google.com" && !linked ? (
+              <View style={styles.form}>
+                <GoogleButton label="Link Google" onIdToken={addGoogle} />
+              </View>
+            ) : null}
+
+            {id === "phone" && form === "link-phone" ? (
+              <View style={styles.form}>
+                <PhoneSignIn
+                  mode="link"
+                  onDone={() => methodsChanged("Linked", "You can now sign in with your phone number.")}
+                />
+              </View>
+            ) : null}
+
+            {id === "password" && form === "link-password" ? formBody() : null}
+          </View>
+        );
+      })}
+
+      <Text style={styles.section}>Manage</Text>
+
+      {ACTIONS.filter((action) => hasPassword || !action.needsPassword).map((action) => (
+        <View key={action.form}>
+          <Pressable onPress={() => openForm(action.form)} style={styles.actionRow}>
+            <Ionicons
+              name={action.icon}
+              size={18}
+              color={action.form === "delete" ? "#FFCDD2" : "#FFFFFF"}
+            />
+            <Text style={[styles.actionText, action.form === "delete" && styles.dangerText]}>
+              {action.label}
+            </Text>
+            <Ionicons name={form === action.form ? "chevron-up" : "chevron-down"} size={18} color="#FFFFFF" />
+          </Pressable>
+
+          {form === action.form ? formBody() : null}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 14,
+    borderRadius: 18,
+    padding: 16,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+
+  title: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "900",
+    marginBottom: 6,
+  },
+
+  sub: {
+    color: "rgba(255,255,255,0.8)",
+    fontWeight: "600",
+  },
+
+  verifyRow: {
+    marginTop: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+
+  verifyText: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 12,
+  },
+
+  link: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    textDecorationLine: "underline",
+  },
+
+  section: {
+    marginTop: 16,
+    color: "rgba(255,255,255,0.75)",
+    fontWeight: "800",
+    fontSize: 12,
+    textTransform: "uppercase",
+  },
+
+  methodRow: {
+    marginTop: 10,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+
+  actionRow: {
+    marginTop: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+
+  actionText: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontWeight: "800",
+  },
+
+  dangerText: {
+    color: "#FFCDD2",
+  },
+
+  form: {
+    marginTop: 10,
+    gap: 8,
+  },
+
+  warning: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 12,
+  },
+
+  input: {
+    height: 46,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    backgroundColor: "rgba(255,255,255,0.92)",
+    color: "rgba(0,0,0,0.75)",
+  },
+
+  errorText: {
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+
+  submitBtn: {
+    height: 44,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#FFFFFF",
+  },
+
+  dangerBtn: {
+    backgroundColor: "#E53935",
+  },
+
+  submitText: {
+    color: "#4F98DC",
+    fontWeight: "900",
+  },
+});
+/*This file contains the Account card of the Settings screen.
+The user sees whether their email is verified (and can get the link again),
+links or removes sign-in methods (email + password, Google, phone number),
+changes their email or password, or deletes their account.
+*/
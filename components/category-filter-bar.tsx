@@ -0,0 +1,176 @@
+import React from "react";
+// React core
+
+import { View, Text, StyleSheet, Pressable } from "react-native";
+// View/Text = panel + hint
+
+import { Chip, ChipRow as Row } from "@/components/filter-chips";
+// Shared chips
+
+import NearMeRows from "@/components/near-me-rows";
+// "From" + "Distance" rows
+
+import { NearMe } from "@/hooks/use-near-me";
+// Where distances are measured from
+
+import {
+  DATE_PRESETS,
+  DATE_PRESET_LABELS,
+  DEFAULT_FILTERS,
+  ItemFilters,
+  SORT_KEYS,
+  SORT_LABELS,
+  SortKey,
+  toggleStatus,
+} from "@/lib/item-filters";
+// Filter choices + helpers
+
+import { ITEM_STATUSES, itemStatusLabel } from "@/lib/rules";
+// Item statuses for the status chips
+
+type Props = {
+  filters: ItemFilters;
+  // Current choices
+
+  onChange: (next: ItemFilters) => void;
+  // Called with the new choices (saved by the screen)
+
+  owners: { id: string; name: string }[];
+  // Owners offered in the owner filter (people who listed items in this category)
+
+  nearMe: NearMe;
+  // Origin of the distance filter and the "nearest" sort
+
+  disabledSorts?: Partial<Record<SortKey, string>>;
+  // Sort options that can't be used right now, with the reason shown under the chips
+};
+
+export default function CategoryFilterBar({
+  filters,
+  onChange,
+  owners,
+  nearMe,
+  disabledSorts = {},
+}: Props) {
+  // Filter panel of the category screen: status, photo, date, owner, distance and sort
+
+  const disabledHint = Object.values(disabledSorts).find(Boolean);
+  // First reason a sort option is unavailable (shown once)
+
+  return (
+    <View style={styles.panel}>
+      <Row title="Status">
+        {ITEM_STATUSES.map((s) => (
+          <Chip
+            key={s}
+            label={itemStatusLabel(s)}
+            active={filters.statuses.includes(s)}
+            onPress={() => onChange(toggleStatus(filters, s))}
+            // At least one status stays selected
+          />
+        ))}
+      </Row>
+
+      <Row title="Photo">
+        <Chip
+          label="Any"
+          active={!filters.hasImage}
+          onPress={() => onChange({ ...filters, hasImage: false })}
+        />
+        <Chip
+          label="With photo"
+          active={filters.hasImage}
+          onPress={() => onChange({ ...filters, hasImage: true })}
+        />
+      </Row>
+
+      <Row title="Posted">
+        {DATE_PRESETS.map((p) => (
+          <Chip
+            key={p}
+            label={DATE_PRESET_LABELS[p]}
+            active={filters.datePreset === p}
+            onPress={() => onChange({ ...filters, datePreset: p })}
+          />
+        ))}
+      </Row>
+
+      <Row title="Owner">
+        <Chip
+          label="Anyone"
+          active={filters.ownerId === null}
+          onPress={() => onChange({ ...filters, ownerId: null })}
+        />
+        {owners.map((o) => (
+          <Chip
+            key={o.id}
+            label={o.name}
+            active={filters.ownerId === o.id}
+            onPress={() => onChange({ ...filters, ownerId: o.id })}
+          />
+        ))}
+      </Row>
+
+      <NearMeRows
+        nearMe={nearMe}
+        maxDistanceKm={filters.maxDistanceKm}
+        onChangeMaxDistance={(km) => onChange({ ...filters, maxDistanceKm: km })}
+      />
+
+      <Row title="Sort">
+        {SORT_KEYS.map((k) => (
+          <Chip
+            key={k}
+            label={SORT_LABELS[k]}
+            active={filters.sort === k}
+            disabled={!!disabledSorts[k]}
+            onPress={() => onChange({ ...filters, sort: k })}
+          />
+        ))}
+      </Row>
+
+      {disabledHint ? <Text style={styles.hint}>{disabledHint}</Text> : null}
+
+      <Pressable onPress={() => onChange(DEFAULT_FILTERS)} style={styles.resetBtn}>
+        {/* Back to the defaults (hide donated/accepted, newest first) */}
+        <Text style={styles.resetText}>Reset filters</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 18,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+    gap: 10,
+  },
+  // panel card
+
+  hint: {
+    color: "rgba(255,255,255,0.75)",
+    fontWeight: "600",
+    fontSize: 11,
+  },
+
+  resetBtn: {
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+  },
+
+  resetText: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 12,
+    textDecorationLine: "underline",
+  },
+});
+/*This file contains the filter panel of the category screen.
+It shows chips for status, photo, posting date, owner, distance and sort order,
+and reports every change back to the screen, which saves it and re-runs the query.
+*/
@@ -0,0 +1,87 @@
+import React from "react";
+// React core
+
+import { View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+// ScrollView = horizontal rows of chips
+
+// One selectable chip
+export function Chip({
+  label,
+  active,
+  disabled,
+  onPress,
+}: {
+  label: string;
+  active: boolean;
+  disabled?: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={[styles.chip, active && styles.chipActive, disabled && { opacity: 0.45 }]}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+// One labelled row of chips
+export function ChipRow({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowTitle}>{title}</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.chips}
+      >
+        {children}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 6,
+  },
+
+  rowTitle: {
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+
+  chips: {
+    gap: 8,
+  },
+
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 999,
+    backgroundColor: "rgba(255,255,255,0.14)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+
+  chipActive: {
+    backgroundColor: "#FFFFFF",
+  },
+
+  chipText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+
+  chipTextActive: {
+    color: "#4F98DC",
+  },
+});
+/*This file contains the chip building blocks of the filter panels.
+A Chip is one on/off choice and a ChipRow is a labelled, horizontally scrolling row of chips.
+*/
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from "react";
+// useEffect = react to the Google response; useRef = handle each response once
+
+import { Text, StyleSheet, Pressable, Alert, ActivityIndicator } from "react-native";
+
+import { Ionicons } from "@expo/vector-icons";
+// Google logo
+
+import * as Google from "expo-auth-session/providers/google";
+import * as WebBrowser from "expo-web-browser";
+import Constants from "expo-constants";
+// Google OAuth in the system browser; the client ids come from app.json (extra.googleAuth)
+
+import { GoogleClientIds, googleClientIds } from "@/lib/auth-providers";
+
+// Closes the browser popup when the app is opened from the redirect (web)
+WebBrowser.maybeCompleteAuthSession();
+
+// OAuth client ids (null = Google sign-in is not configured, the button is hidden)
+export const GOOGLE_CLIENT_IDS = googleClientIds(Constants.expoConfig?.extra);
+
+type Props = {
+  label: string;
+  onIdToken: (idToken: string) => Promise<void>;
+  // Signs in or links with the Google id token; errors are shown by the caller
+};
+
+export default function GoogleButton(props: Props) {
+  // "Continue with Google" button (nothing when the project has no client ids)
+
+  if (!GOOGLE_CLIENT_IDS) return null;
+  return <ConfiguredGoogleButton ids={GOOGLE_CLIENT_IDS} {...props} />;
+}
+
+function ConfiguredGoogleButton({ ids, label, onIdToken }: Props & { ids: GoogleClientIds }) {
+  const [request, response, promptAsync] = Google.useIdTokenAuthRequest(ids);
+  const [busy, setBusy] = useState(false);
+  const handled = useRef<typeof response>(null);
+
+  useEffect(() => {
+    // On native the code is exchanged first, so the id token arrives through `response`
+    if (!response || handled.current === response) return;
+    handled.current = response;
+
+    if (response.type === "success" && response.params.id_token) {
+      setBusy(true);
+      onIdToken(response.params.id_token).finally(() => setBusy(false));
+    } else if (response.type === "error") {
+      console.log("Google sign-in error:", response.error);
+      Alert.alert("Error", response.error?.message ?? "Google sign-in failed.");
+    }
+  }, [response, onIdToken]);
+
+  return (
+    <Pressable
+      onPress={() => promptAsync()}
+      disabled={!request || busy}
+      style={[styles.btn, (!request || busy) && { opacity: 0.6 }]}
+    >
+      {busy ? (
+        <ActivityIndicator color="#4F98DC" />
+      ) : (
+        <>
+          <Ionicons name="logo-google" size={18} color="#4F98DC" />
+          <Text style={styles.text}>{label}</Text>
+        </>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  btn: {
+    height: 48,
+    borderRadius: 999,
+    paddingHorizontal: 18,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    backgroundColor: "#FFFFFF",
+  },
+
+  text: {
+    color: "#4F98DC",
+    fontWeight: "900",
+  },
+});
+/*This file contains the Google sign-in button.
+It runs Google's OAuth flow and hands the id token to the caller, which signs in
+or links Google to the signed-in account (lib/sign-in.ts).
+*/
@@ -0,0 +1,210 @@
+import React, { useState } from "react";
+// useState = current page + full-screen viewer open/closed
+
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Image,
+  FlatList,
+  Modal,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  useWindowDimensions,
+} from "react-native";
+// FlatList (pagingEnabled) = swipe between photos
+// Modal = full-screen viewer
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons (placeholder, close)
+
+import { GestureHandlerRootView } from "react-native-gesture-handler";
+// Gestures inside a Modal need their own root view (Android)
+
+import ZoomableImage from "@/components/zoomable-image";
+// Pinch/double-tap zoom
+
+type Props = {
+  images: string[];
+  // Photo URLs in display order (first = cover)
+
+  height?: number;
+  // Height of the inline gallery
+};
+
+// Page index of a horizontal paged list
+const pageOf = (e: NativeSyntheticEvent<NativeScrollEvent>, width: number) =>
+  Math.round(e.nativeEvent.contentOffset.x / Math.max(width, 1));
+
+export default function ImageGallery({ images, height = 220 }: Props) {
+  // Swipeable photo gallery of the item details screen; tap opens the full-screen viewer
+
+  const { width: screenWidth, height: screenHeight } = useWindowDimensions();
+
+  const [boxWidth, setBoxWidth] = useState(0);
+  // Width of the inline gallery (measured, the screen has side padding)
+
+  const [page, setPage] = useState(0);
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [viewerPage, setViewerPage] = useState(0);
+
+  if (images.length === 0) {
+    return (
+      <View style={[styles.box, styles.empty, { height }]}>
+        <Ionicons name="image-outline" size={34} color="rgba(255,255,255,0.9)" />
+        <Text style={styles.emptyText}>No image</Text>
+      </View>
+    );
+  }
+
+  const openViewer = (index: number) => {
+    setViewerPage(index);
+    setViewerOpen(true);
+  };
+
+  return (
+    <>
+      <View style={[styles.box, { height }]} onLayout={(e) => setBoxWidth(e.nativeEvent.layout.width)}>
+        {boxWidth > 0 ? (
+          <FlatList
+            data={images}
+            keyExtractor={(uri, i) => `${i}_${uri}`}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            onMomentumScrollEnd={(e) => setPage(pageOf(e, boxWidth))}
+            renderItem={({ item, index }) => (
+              <Pressable onPress={() => openViewer(index)}>
+                <Image source={{ uri: item }} style={{ width: boxWidth, height }} />
+              </Pressable>
+            )}
+          />
+        ) : null}
+
+        {images.length > 1 ? (
+          <>
+            <View style={styles.counter}>
+              <Text style={styles.counterText}>
+                {page + 1}/{images.length}
+              </Text>
+            </View>
+
+            <View style={styles.dots}>
+              {images.map((uri, i) => (
+                <View key={`${i}_${uri}`} style={[styles.dot, i === page && styles.dotActive]} />
+              ))}
+            </View>
+          </>
+        ) : null}
+      </View>
+
+      <Modal visible={viewerOpen} animationType="fade" onRequestClose={() => setViewerOpen(false)}>
+        <GestureHandlerRootView style={styles.viewer}>
+          <FlatList
+            data={images}
+            keyExtractor={(uri, i) => `${i}_${uri}`}
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            initialScrollIndex={viewerPage}
+            getItemLayout={(_, index) => ({ length: screenWidth, offset: screenWidth * index, index })}
+            onMomentumScrollEnd={(e) => setViewerPage(pageOf(e, screenWidth))}
+            renderItem={({ item }) => (
+              <ZoomableImage uri={item} width={screenWidth} height={screenHeight} />
+            )}
+          />
+
+          <Pressable onPress={() => setViewerOpen(false)} hitSlop={12} style={styles.closeBtn}>
+            <Ionicons name="close" size={24} color="#FFFFFF" />
+          </Pressable>
+
+          {images.length > 1 ? (
+            <Text style={styles.viewerCounter}>
+              {viewerPage + 1}/{images.length}
+            </Text>
+          ) : null}
+        </GestureHandlerRootView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    borderRadius: 18,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+    marginTop: 8,
+    marginBottom: 14,
+    overflow: "hidden",
+  },
+  empty: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  emptyText: {
+    marginTop: 8,
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "700",
+  },
+  counter: {
+    position: "absolute",
+    top: 10,
+    right: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 999,
+    backgroundColor: "rgba(0,0,0,0.45)",
+  },
+  counterText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+  dots: {
+    position: "absolute",
+    bottom: 10,
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 6,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: "rgba(255,255,255,0.5)",
+  },
+  dotActive: {
+    backgroundColor: "#FFFFFF",
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: "#000000",
+  },
+  closeBtn: {
+    position: "absolute",
+    top: 50,
+    right: 18,
+    width: 38,
+    height: 38,
+    borderRadius: 999,
+    backgroundColor: "rgba(255,255,255,0.18)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  viewerCounter: {
+    position: "absolute",
+    bottom: 40,
+    alignSelf: "center",
+    color: "#FFFFFF",
+    fontWeight: "800",
+  },
+});
+/*This file contains the photo gallery of the item details screen.
+Photos can be swiped with a page counter and dots, and tapping one opens
+a full-screen viewer where each photo can be zoomed.
+*/
@@ -0,0 +1,200 @@
+import React from "react";
+// React core
+
+import { View, Text, StyleSheet, Pressable, Image } from "react-native";
+// View/Text = layout + text
+// Pressable = clickable card
+// Image = item thumbnail
+
+import { Ionicons } from "@expo/vector-icons";
+// Ionicons = icons library
+
+import { canRequestItem, itemStatusLabel } from "@/lib/rules";
+// canRequestItem = is the item still open for requests
+// itemStatusLabel = readable status text
+
+import { itemThumbnail } from "@/lib/thumbnails";
+// Small server-made thumbnail of the cover photo (falls back to the photo)
+
+import { GeoPoint, formatDistance, governorateLabel, itemDistanceKm } from "@/lib/location";
+// Governorate name + distance from the user
+
+export type ItemCardItem = {
+  id: string; // Firestore document id
+  title: string; // item title
+  description: string; // item description
+  category?: string; // item category name
+  imageUrl?: string; // optional cover photo URL
+  images?: string[]; // optional gallery (first = cover)
+  thumbs?: unknown; // thumbnail URLs made by the thumbnail Cloud Function
+  status?: string; // optional status (available/requested/accepted/donated)
+  governorate?: string; // governorate the item can be collected in
+  geohash?: string | null; // optional coarse position
+};
+// Fields the card needs (screens pass their own item type)
+
+type Props = {
+  item: ItemCardItem;
+  // Item to display
+
+  onPress: () => void;
+  // Called when the card is tapped (usually opens /item/[id])
+
+  showCategory?: boolean;
+  // Show the category next to the status (used by search results across categories)
+
+  origin?: GeoPoint | null;
+  // Where the user is; when set, the distance to the item is shown
+};
+
+export default function ItemCard({ item, onPress, showCategory, origin }: Props) {
+  // One row of an item list: thumbnail, title, description, status, location
+
+  const place = governorateLabel(item.governorate);
+  // "" for items created before locations existed
+
+  const thumb = itemThumbnail(item, "small");
+  // "" when the item has no photo
+
+  const km = origin ? itemDistanceKm(item, origin) : null;
+  // null when there is no origin or the item has no location
+
+  return (
+    <Pressable onPress={onPress} style={styles.card}>
+      <View style={styles.thumb}>
+        {/* Thumbnail container */}
+        {thumb ? (
+          // if image exists
+          <Image source={{ uri: thumb }} style={styles.thumbImg} />
+        ) : (
+          // if no image
+          <Ionicons name="image-outline" size={22} color="rgba(255,255,255,0.9)" />
+        )}
+      </View>
+
+      <View style={{ flex: 1 }}>
+        {/* Text section expands to fill space */}
+        <Text style={styles.title} numberOfLines={1}>
+          {/* Title only one line */}
+          {item.title}
+        </Text>
+
+        <Text style={styles.sub} numberOfLines={2}>
+          {/* Description up to two lines */}
+          {item.description}
+        </Text>
+
+        <Text style={[styles.status, !canRequestItem(item.status) && styles.statusTaken]}>
+          {/* Status line (dimmed once the item is no longer requestable) */}
+          {itemStatusLabel(item.status)}
+          {showCategory && item.category ? ` · ${item.category}` : ""}
+        </Text>
+
+        {place || km !== null ? (
+          <View style={styles.placeRow}>
+            {/* Location line: governorate + distance */}
+            <Ionicons name="location-outline" size={12} color="rgba(255,255,255,0.82)" />
+            <Text style={styles.place}>
+              {[place, km !== null ? formatDistance(km) : ""].filter(Boolean).join(" · ")}
+            </Text>
+          </View>
+        ) : null}
+      </View>
+
+      <Ionicons name="chevron-forward" size={18} color="rgba(255,255,255,0.8)" />
+      {/* Right arrow icon */}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    // row layout for image + text + arrow
+
+    alignItems: "center",
+    // center vertically
+
+    gap: 12,
+    // space between thumb and text
+
+    padding: 12,
+    // inside padding
+
+    borderRadius: 18,
+    // rounded corners
+
+    backgroundColor: "rgba(255,255,255,0.16)",
+    // card background
+
+    borderWidth: 1,
+    // border line
+
+    borderColor: "rgba(255,255,255,0.22)",
+    // border color
+  },
+
+  thumb: {
+    width: 56,
+    height: 56,
+    borderRadius: 14,
+    backgroundColor: "rgba(255,255,255,0.18)",
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  // thumbnail container
+
+  thumbImg: {
+    width: "100%",
+    height: "100%",
+  },
+  // thumbnail image fills container
+
+  title: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  // item title style
+
+  sub: {
+    color: "rgba(255,255,255,0.82)",
+    fontWeight: "600",
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  // item description style
+
+  placeRow: {
+    marginTop: 3,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 3,
+  },
+  // location line (icon + text)
+
+  place: {
+    color: "rgba(255,255,255,0.82)",
+    fontWeight: "700",
+    fontSize: 11,
+  },
+  // governorate + distance text
+
+  status: {
+    marginTop: 4,
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 11,
+  },
+  // status line style
+
+  statusTaken: {
+    color: "rgba(255,255,255,0.6)",
+  },
+  // dimmed status for items that can no longer be requested
+});
+/*This file contains the item card used by item lists (category screen and home search results).
+It shows the thumbnail, title, description, status and location of one item and opens it on tap.
+*/
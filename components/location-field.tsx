@@ -0,0 +1,205 @@
+import React, { useState } from "react";
+// useState = modal open/closed + locating flag
+
+import { View, Text, StyleSheet, Pressable, Modal, FlatList, Alert } from "react-native";
+// Modal + FlatList = governorate picker (same look as the category picker)
+// Alert = explain a refused location permission
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons (chevron, pin, checkmark)
+
+import {
+  GOVERNORATES,
+  GovernorateId,
+  encodeGeohash,
+  governorateLabel,
+  nearestGovernorate,
+} from "@/lib/location";
+// Governorates + geohash helpers
+
+import { getDeviceLocation } from "@/lib/device-location";
+// Device GPS (asks for permission)
+
+// Location of an item while it is being edited ("" = no governorate chosen yet)
+export type LocationValue = {
+  governorate: GovernorateId | "";
+  geohash: string | null;
+};
+
+type Props = {
+  value: LocationValue;
+  onChange: (next: LocationValue) => void;
+  error?: string | null;
+  // Validation message shown under the picker
+};
+
+export default function LocationField({ value, onChange, error }: Props) {
+  // Governorate picker + optional "pin my location" for the add/edit item forms
+
+  const [showModal, setShowModal] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  const pinLocation = async () => {
+    // Store a coarse geohash of the device position and pick the matching governorate
+
+    setLocating(true);
+    try {
+      const point = await getDeviceLocation();
+      if (!point) {
+        Alert.alert("Location off", "Allow location access to pin the item, or just pick a governorate.");
+        return;
+      }
+
+      onChange({ governorate: nearestGovernorate(point), geohash: encodeGeohash(point) });
+    } catch (e: any) {
+      console.log("Pin location error:", e);
+      Alert.alert("Error", e?.message ?? "Could not get your location.");
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <>
+      <Pressable style={styles.dropdownBox} onPress={() => setShowModal(true)}>
+        <Text style={[styles.dropdownText, !value.governorate && { color: "rgba(0,0,0,0.30)" }]}>
+          {value.governorate ? governorateLabel(value.governorate) : "Select a governorate"}
+        </Text>
+        <Ionicons name="chevron-down" size={18} color="rgba(0,0,0,0.45)" />
+      </Pressable>
+      {!!error && <Text style={styles.errorText}>{error}</Text>}
+
+      {value.geohash ? (
+        // Pinned: offer to remove the pin (the governorate stays)
+        <View style={styles.pinRow}>
+          <Ionicons name="location" size={14} color="#FFFFFF" />
+          <Text style={styles.pinText}>Pinned to your area (about 1 km)</Text>
+          <Pressable onPress={() => onChange({ ...value, geohash: null })} hitSlop={10}>
+            <Text style={styles.pinAction}>Remove</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <Pressable style={styles.pinRow} onPress={pinLocation} disabled={locating}>
+          <Ionicons name="locate-outline" size={14} color="#FFFFFF" />
+          <Text style={styles.pinAction}>
+            {locating ? "Getting your location..." : "Use my current location (optional)"}
+          </Text>
+        </Pressable>
+      )}
+
+      <Modal visible={showModal} transparent animationType="fade">
+        {/* Clicking outside closes the modal */}
+        <Pressable style={styles.modalBackdrop} onPress={() => setShowModal(false)}>
+          <Pressable style={styles.modalCard} onPress={() => {}}>
+            <Text style={styles.modalTitle}>Select Governorate</Text>
+
+            <FlatList
+              data={GOVERNORATES}
+              keyExtractor={(g) => g.id}
+              renderItem={({ item }) => (
+                <Pressable
+                  style={styles.modalItem}
+                  onPress={() => {
+                    onChange({ ...value, governorate: item.id });
+                    setShowModal(false);
+                  }}
+                >
+                  <Text style={styles.modalItemText}>{item.label}</Text>
+                  {value.governorate === item.id ? (
+                    <Ionicons name="checkmark" size={18} color="#FFFFFF" />
+                  ) : null}
+                </Pressable>
+              )}
+              ItemSeparatorComponent={() => <View style={styles.modalSeparator} />}
+            />
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  dropdownBox: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    height: 52,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    shadowColor: "rgba(0,0,0,0.12)",
+    shadowOpacity: 1,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 3,
+  },
+  dropdownText: {
+    fontSize: 15,
+    color: "rgba(0,0,0,0.85)",
+  },
+  errorText: {
+    marginTop: 6,
+    color: "#E53935",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  pinRow: {
+    marginTop: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  pinText: {
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    fontSize: 12,
+  },
+  pinAction: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+    textDecorationLine: "underline",
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.35)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 18,
+  },
+  modalCard: {
+    width: "100%",
+    maxWidth: 420,
+    maxHeight: "80%",
+    backgroundColor: "#4F98DC",
+    borderRadius: 18,
+    padding: 14,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: "800",
+    color: "#FFFFFF",
+    marginBottom: 10,
+  },
+  modalItem: {
+    height: 48,
+    paddingHorizontal: 10,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  modalItemText: {
+    fontSize: 15,
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  modalSeparator: {
+    height: 1,
+    backgroundColor: "rgba(0,0,0,0.08)",
+  },
+});
+/*This file contains the location field of the add and edit item forms.
+The donor picks the governorate where the item can be collected and can pin
+a coarse position (geohash) from the device location, which is used for distances.
+*/
@@ -0,0 +1,83 @@
+import React from "react";
+// React core
+
+import { Text, StyleSheet } from "react-native";
+// Text = hint under the chips
+
+import { Chip, ChipRow } from "@/components/filter-chips";
+// Shared chips
+
+import { NearMe } from "@/hooks/use-near-me";
+// Where distances are measured from
+
+import { DISTANCE_OPTIONS_KM, GOVERNORATES } from "@/lib/location";
+// Governorates + distance choices
+
+type Props = {
+  nearMe: NearMe;
+  // Origin state (device location or chosen governorate)
+
+  maxDistanceKm: number | null;
+  // Current distance limit (null = any distance)
+
+  onChangeMaxDistance: (km: number | null) => void;
+  // Called with the new limit
+};
+
+export default function NearMeRows({ nearMe, maxDistanceKm, onChangeMaxDistance }: Props) {
+  // "From" + "Distance" rows shared by the category filters and the search options
+
+  return (
+    <>
+      <ChipRow title="From">
+        <Chip
+          label={nearMe.locating ? "Locating..." : "My location"}
+          active={nearMe.usingGps}
+          disabled={nearMe.locating}
+          onPress={nearMe.locate}
+        />
+        {GOVERNORATES.map((g) => (
+          <Chip
+            key={g.id}
+            label={g.label}
+            active={!nearMe.usingGps && nearMe.governorate === g.id}
+            onPress={() => nearMe.chooseGovernorate(g.id)}
+          />
+        ))}
+      </ChipRow>
+
+      <ChipRow title="Distance">
+        <Chip
+          label="Any distance"
+          active={maxDistanceKm === null}
+          onPress={() => onChangeMaxDistance(null)}
+        />
+        {DISTANCE_OPTIONS_KM.map((km) => (
+          <Chip
+            key={km}
+            label={`Within ${km} km`}
+            active={maxDistanceKm === km}
+            disabled={!nearMe.origin}
+            onPress={() => onChangeMaxDistance(km)}
+          />
+        ))}
+      </ChipRow>
+
+      {!nearMe.origin ? (
+        <Text style={styles.hint}>Use your location or pick a governorate to filter by distance.</Text>
+      ) : null}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    color: "rgba(255,255,255,0.75)",
+    fontWeight: "600",
+    fontSize: 11,
+  },
+});
+/*This file contains the "near me" rows of the filter panels.
+The user chooses where distances are measured from (device location or a governorate)
+and how far items may be; the rows are used by the category screen and by search.
+*/
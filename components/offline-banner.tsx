@@ -0,0 +1,110 @@
+import React from "react";
+// React core
+
+import { View, Text, StyleSheet, Pressable, Alert, ActivityIndicator } from "react-native";
+// Alert = list of conflicts
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons (offline, warning)
+
+import { useOffline } from "@/lib/offline-context";
+// Connection state + outbox
+
+export default function OfflineBanner() {
+  // Floating bar at the bottom of every private screen:
+  // offline notice, outbox sync progress, or actions that could not be sent
+
+  const { online, syncing, pending, conflicts, sync, dismissConflicts } = useOffline();
+
+  const showConflicts = () => {
+    Alert.alert(
+      conflicts.length === 1 ? "1 change was not saved" : `${conflicts.length} changes were not saved`,
+      conflicts.map((c) => `• ${c.message}`).join("\n\n"),
+      [{ text: "OK", onPress: dismissConflicts }],
+    );
+  };
+
+  if (conflicts.length > 0) {
+    return (
+      <Pressable onPress={showConflicts} style={[styles.bar, styles.conflictBar]}>
+        <Ionicons name="alert-circle" size={18} color="#FFFFFF" />
+        <Text style={styles.text} numberOfLines={2}>
+          {conflicts.length === 1
+            ? "1 offline change could not be completed. Tap to review."
+            : `${conflicts.length} offline changes could not be completed. Tap to review.`}
+        </Text>
+      </Pressable>
+    );
+  }
+
+  if (!online) {
+    return (
+      <View style={[styles.bar, styles.offlineBar]}>
+        <Ionicons name="cloud-offline-outline" size={18} color="#FFFFFF" />
+        <Text style={styles.text} numberOfLines={2}>
+          {pending.length > 0
+            ? `You're offline. ${pending.length} change${pending.length === 1 ? "" : "s"} will be sent when you reconnect.`
+            : "You're offline. Showing saved data."}
+        </Text>
+      </View>
+    );
+  }
+
+  if (pending.length > 0) {
+    return (
+      <Pressable onPress={sync} disabled={syncing} style={[styles.bar, styles.syncBar]}>
+        {syncing ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <Ionicons name="sync" size={18} color="#FFFFFF" />
+        )}
+        <Text style={styles.text} numberOfLines={2}>
+          {syncing
+            ? `Sending ${pending.length} offline change${pending.length === 1 ? "" : "s"}...`
+            : `${pending.length} offline change${pending.length === 1 ? "" : "s"} waiting. Tap to send.`}
+        </Text>
+      </Pressable>
+    );
+  }
+
+  return null;
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    bottom: 28,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    shadowColor: "rgba(0,0,0,0.25)",
+    shadowOpacity: 1,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 6,
+  },
+  offlineBar: {
+    backgroundColor: "#3B4A5A",
+  },
+  syncBar: {
+    backgroundColor: "#2F7BC4",
+  },
+  conflictBar: {
+    backgroundColor: "#C44545",
+  },
+  text: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 13,
+  },
+});
+/*This file contains the offline banner shown over the private screens.
+It tells the user when the device is offline, when queued changes are being sent,
+and lists the queued changes the server refused once they were sent.
+*/
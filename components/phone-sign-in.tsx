@@ -0,0 +1,206 @@
+import React, { useRef, useState } from "react";
+// useState = phone, code, pending confirmation, busy, error; useRef = the reCAPTCHA verifier
+
+import { View, Text, StyleSheet, Pressable, TextInput, ActivityIndicator } from "react-native";
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons (phone, keypad)
+
+import { ConfirmationResult } from "firebase/auth";
+
+import PhoneVerifierModal, { PhoneVerifier, VERIFY_CANCELLED } from "@/components/phone-verifier";
+// reCAPTCHA check Firebase needs before sending an SMS
+
+import { sendPhoneCode } from "@/lib/sign-in";
+import { JORDAN_DIAL_CODE, isSmsCode, toE164Phone } from "@/lib/auth-providers";
+import { authErrorMessage } from "@/lib/auth-errors";
+
+type Props = {
+  mode: "signIn" | "link";
+  // signIn = onboarding; link = add the number to the signed-in account (Settings)
+  onDone: () => void;
+};
+
+export default function PhoneSignIn({ mode, onDone }: Props) {
+  // Phone number → SMS code → signed in (or number linked)
+
+  const verifier = useRef<PhoneVerifier>(null);
+
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [confirmation, setConfirmation] = useState<ConfirmationResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sendCode = async () => {
+    setError(null);
+
+    const e164 = toE164Phone(phone);
+    if (!e164) {
+      setError("Please enter a valid mobile number, e.g. 079 123 4567.");
+      return;
+    }
+    if (!verifier.current) return;
+
+    setBusy(true);
+    try {
+      setConfirmation(await sendPhoneCode(e164, verifier.current, mode === "link"));
+      setCode("");
+    } catch (e: any) {
+      if (e?.code !== VERIFY_CANCELLED) {
+        console.log("Send code error:", e);
+        setError(authErrorMessage(e, e?.message ?? "Could not send the code. Please try again."));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmCode = async () => {
+    setError(null);
+
+    if (!confirmation) return;
+    if (!isSmsCode(code)) {
+      setError("Please enter the 6-digit code from the SMS.");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await confirmation.confirm(code.trim());
+      onDone();
+    } catch (e: any) {
+      console.log("Confirm code error:", e);
+      setError(authErrorMessage(e, e?.message ?? "Could not check the code. Please try again."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.wrap}>
+      <PhoneVerifierModal ref={verifier} />
+
+      {!confirmation ? (
+        <View style={styles.inputRow}>
+          <Ionicons name="call-outline" size={18} color="#4F98DC" />
+          <Text style={styles.dial}>{JORDAN_DIAL_CODE}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="79 123 4567"
+            placeholderTextColor="rgba(79,152,220,0.7)"
+            keyboardType="phone-pad"
+            value={phone}
+            onChangeText={setPhone}
+          />
+        </View>
+      ) : (
+        <>
+          <Text style={styles.info}>Enter the code we sent to {toE164Phone(phone)}.</Text>
+
+          <View style={styles.inputRow}>
+            <Ionicons name="keypad-outline" size={18} color="#4F98DC" />
+            <TextInput
+              style={styles.input}
+              placeholder="6-digit code"
+              placeholderTextColor="rgba(79,152,220,0.7)"
+              keyboardType="number-pad"
+              maxLength={6}
+              value={code}
+              onChangeText={setCode}
+            />
+          </View>
+        </>
+      )}
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <Pressable
+        onPress={confirmation ? confirmCode : sendCode}
+        disabled={busy}
+        style={[styles.btn, busy && { opacity: 0.6 }]}
+      >
+        {busy ? (
+          <ActivityIndicator color="#4F98DC" />
+        ) : (
+          <Text style={styles.btnText}>
+            {confirmation ? (mode === "link" ? "Add number" : "Sign in") : "Send code"}
+          </Text>
+        )}
+      </Pressable>
+
+      {confirmation ? (
+        <Pressable onPress={() => setConfirmation(null)} hitSlop={8} style={styles.changeBtn}>
+          <Text style={styles.changeText}>Change number or send again</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    width: "100%",
+    gap: 10,
+  },
+
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    height: 52,
+  },
+
+  dial: {
+    marginLeft: 10,
+    color: "#4F98DC",
+    fontWeight: "800",
+  },
+
+  input: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 15,
+    color: "rgba(0,0,0,0.75)",
+  },
+
+  info: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+  },
+
+  errorText: {
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+
+  btn: {
+    height: 48,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#FFFFFF",
+  },
+
+  btnText: {
+    color: "#4F98DC",
+    fontWeight: "900",
+  },
+
+  changeBtn: {
+    alignSelf: "center",
+  },
+
+  changeText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+    textDecorationLine: "underline",
+  },
+});
+/*This file contains the phone number sign-in form (SMS code).
+It is used on the onboarding Phone screen and, to add a number to an account,
+in Settings → Account.
+*/
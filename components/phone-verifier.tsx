@@ -0,0 +1,140 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from "react";
+// forwardRef + useImperativeHandle = the parent gets a Firebase ApplicationVerifier
+// useState = modal visible; useRef = the pending verify() call
+
+import { View, Text, StyleSheet, Pressable, Modal } from "react-native";
+// Modal = the reCAPTCHA check is shown over the screen
+
+import { WebView, WebViewMessageEvent } from "react-native-webview";
+// Runs the Firebase web SDK's reCAPTCHA (there is no native one in the JS SDK)
+
+import { SDK_VERSION } from "firebase/app";
+import { ApplicationVerifier } from "firebase/auth";
+
+import { app, auth } from "@/lib/firebase";
+import { recaptchaHtml } from "@/lib/auth-providers";
+
+// What signInWithPhoneNumber / linkWithPhoneNumber expect (_reset is called after each send)
+export type PhoneVerifier = ApplicationVerifier & { _reset(): void };
+
+type Pending = { resolve: (token: string) => void; reject: (e: Error) => void };
+
+// Error thrown when the user closes the check (the screens ignore it)
+export const VERIFY_CANCELLED = "auth/verify-cancelled";
+
+const PhoneVerifierModal = forwardRef<PhoneVerifier>(function PhoneVerifierModal(_, ref) {
+  // reCAPTCHA check before Firebase sends an SMS code
+
+  const [visible, setVisible] = useState(false);
+  const pending = useRef<Pending | null>(null);
+
+  const finish = (result: { token?: string; error?: Error }) => {
+    const current = pending.current;
+    pending.current = null;
+    setVisible(false);
+
+    if (result.token) current?.resolve(result.token);
+    else current?.reject(result.error ?? new Error("Verification failed."));
+  };
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      type: "recaptcha",
+      verify: () => {
+        // Against the Auth emulator no check is needed (see lib/firebase.ts)
+        if (auth.settings.appVerificationDisabledForTesting) return Promise.resolve("emulator");
+
+        return new Promise<string>((resolve, reject) => {
+          pending.current = { resolve, reject };
+          setVisible(true);
+        });
+      },
+      _reset: () => {},
+    }),
+    [],
+  );
+
+  const onMessage = (event: WebViewMessageEvent) => {
+    try {
+      const message = JSON.parse(event.nativeEvent.data);
+      if (message.type === "verify") finish({ token: String(message.token) });
+      else finish({ error: new Error(message.message ?? "Verification failed.") });
+    } catch (e: any) {
+      finish({ error: e });
+    }
+  };
+
+  const cancel = () =>
+    finish({ error: Object.assign(new Error("Verification cancelled."), { code: VERIFY_CANCELLED }) });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={cancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.box}>
+          <Text style={styles.title}>Quick check</Text>
+
+          <WebView
+            style={styles.web}
+            originWhitelist={["*"]}
+            source={{
+              html: recaptchaHtml(app.options as Record<string, unknown>, SDK_VERSION),
+              // The check only runs on the project's own domain
+              baseUrl: `https://${app.options.authDomain}`,
+            }}
+            onMessage={onMessage}
+          />
+
+          <Pressable onPress={cancel} hitSlop={8} style={styles.cancelBtn}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+});
+
+export default PhoneVerifierModal;
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 20,
+  },
+
+  box: {
+    width: "100%",
+    borderRadius: 18,
+    padding: 14,
+    backgroundColor: "#FFFFFF",
+  },
+
+  title: {
+    color: "#4F98DC",
+    fontSize: 16,
+    fontWeight: "900",
+    textAlign: "center",
+  },
+
+  web: {
+    height: 520,
+    marginTop: 8,
+    backgroundColor: "transparent",
+  },
+
+  cancelBtn: {
+    alignSelf: "center",
+    marginTop: 8,
+  },
+
+  cancelText: {
+    color: "#4F98DC",
+    fontWeight: "800",
+  },
+});
+/*This file contains the reCAPTCHA check Firebase needs before it sends an SMS code.
+It shows the Firebase web SDK's check in a WebView and hands the token to the phone sign-in.
+*/
@@ -0,0 +1,258 @@
+import React, { useMemo, useRef, useState } from "react";
+// useRef = drag state readable inside PanResponder callbacks
+// useMemo = one PanResponder per tile
+// useState = which tile is being dragged
+
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Image,
+  Animated,
+  PanResponder,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+// Animated + PanResponder = long-press drag to reorder (no extra library)
+// Alert = photo actions (make cover / remove)
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons (add, remove, cover star)
+
+import { MAX_ITEM_IMAGES, dropIndex, makeCover, moveImage, removeImageAt } from "@/lib/item-images";
+// Pure gallery helpers
+
+const TILE = 72;
+const GAP = 10;
+const SLOT = TILE + GAP;
+const COLUMNS = 4;
+// 4 tiles per row (8 photos = 2 rows)
+
+type Props = {
+  images: string[];
+  // Photo URLs in display order (first = cover)
+
+  onChange: (next: string[]) => void;
+  // Called with the reordered/shortened list
+
+  onAdd: () => void;
+  // Opens the image picker
+
+  uploading?: boolean;
+  // Shows a spinner tile while new photos upload
+
+  onDragChange?: (dragging: boolean) => void;
+  // Lets the form stop scrolling while a tile is dragged
+};
+
+type TileProps = {
+  uri: string;
+  index: number;
+  count: number;
+  onDrop: (from: number, to: number) => void;
+  onPress: () => void;
+  onRemove: () => void;
+  onDragChange: (dragging: boolean) => void;
+};
+
+// One photo tile; long-press then drag to move it
+function PhotoTile({ uri, index, count, onDrop, onPress, onRemove, onDragChange }: TileProps) {
+  const pan = useRef(new Animated.ValueXY()).current;
+  const dragging = useRef(false);
+  const [active, setActive] = useState(false);
+
+  // Latest values for the PanResponder callbacks (created once)
+  const latest = useRef({ index, count, onDrop, onDragChange });
+  latest.current = { index, count, onDrop, onDragChange };
+
+  const endDrag = (dx: number, dy: number) => {
+    const { index: from, count: total, onDrop: drop, onDragChange: change } = latest.current;
+
+    dragging.current = false;
+    setActive(false);
+    change(false);
+    pan.setValue({ x: 0, y: 0 });
+
+    drop(from, dropIndex(from, dx, dy, SLOT, COLUMNS, total));
+  };
+
+  const responder = useMemo(
+    () =>
+      PanResponder.create({
+        // Take over the touch only after a long press started a drag
+        onMoveShouldSetPanResponderCapture: () => dragging.current,
+        onPanResponderMove: Animated.event([null, { dx: pan.x, dy: pan.y }], {
+          useNativeDriver: false,
+        }),
+        onPanResponderRelease: (_, g) => endDrag(g.dx, g.dy),
+        onPanResponderTerminate: (_, g) => endDrag(g.dx, g.dy),
+        onPanResponderTerminationRequest: () => false,
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [],
+  );
+
+  return (
+    <Animated.View
+      {...responder.panHandlers}
+      style={[
+        styles.tile,
+        { transform: pan.getTranslateTransform() },
+        active && styles.tileActive,
+      ]}
+    >
+      <Pressable
+        onPress={onPress}
+        onLongPress={() => {
+          dragging.current = true;
+          setActive(true);
+          onDragChange(true);
+        }}
+        delayLongPress={250}
+        style={{ flex: 1 }}
+      >
+        <Image source={{ uri }} style={styles.tileImg} />
+      </Pressable>
+
+      {index === 0 ? (
+        <View style={styles.coverBadge}>
+          <Ionicons name="star" size={10} color="#FFFFFF" />
+          <Text style={styles.coverText}>Cover</Text>
+        </View>
+      ) : null}
+
+      <Pressable onPress={onRemove} style={styles.removeBtn} hitSlop={10}>
+        <Ionicons name="close" size={14} color="#FFFFFF" />
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+export default function PhotoStrip({ images, onChange, onAdd, uploading, onDragChange }: Props) {
+  // Editable gallery of the add/edit item forms
+
+  const showActions = (index: number) => {
+    // Tap on a photo: make it the cover or remove it
+
+    Alert.alert("Photo", undefined, [
+      ...(index > 0
+        ? [{ text: "Make cover", onPress: () => onChange(makeCover(images, index)) }]
+        : []),
+      { text: "Remove", style: "destructive" as const, onPress: () => onChange(removeImageAt(images, index)) },
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  const canAdd = images.length < MAX_ITEM_IMAGES && !uploading;
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        {images.map((uri, index) => (
+          <PhotoTile
+            key={uri}
+            uri={uri}
+            index={index}
+            count={images.length}
+            onDrop={(from, to) => onChange(moveImage(images, from, to))}
+            onPress={() => showActions(index)}
+            onRemove={() => onChange(removeImageAt(images, index))}
+            onDragChange={(dragging) => onDragChange?.(dragging)}
+          />
+        ))}
+
+        {uploading ? (
+          <View style={[styles.tile, styles.addTile]}>
+            <ActivityIndicator color="#4F98DC" />
+          </View>
+        ) : null}
+
+        {canAdd ? (
+          <Pressable onPress={onAdd} style={[styles.tile, styles.addTile]}>
+            <Ionicons name="add" size={24} color="#4F98DC" />
+          </Pressable>
+        ) : null}
+      </View>
+
+      <Text style={styles.hint}>
+        {images.length}/{MAX_ITEM_IMAGES} photos · tap a photo for options, hold and drag to reorder.
+        The first photo is the cover.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: GAP,
+    width: SLOT * COLUMNS,
+  },
+  tile: {
+    width: TILE,
+    height: TILE,
+    borderRadius: 12,
+    backgroundColor: "#FFFFFF",
+  },
+  tileActive: {
+    zIndex: 10,
+    elevation: 8,
+    opacity: 0.9,
+    shadowColor: "rgba(0,0,0,0.3)",
+    shadowOpacity: 1,
+    shadowRadius: 10,
+    shadowOffset: { width: 0, height: 6 },
+  },
+  tileImg: {
+    width: TILE,
+    height: TILE,
+    borderRadius: 12,
+  },
+  addTile: {
+    borderWidth: 1.5,
+    borderStyle: "dashed",
+    borderColor: "rgba(0,0,0,0.22)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  coverBadge: {
+    position: "absolute",
+    left: 4,
+    bottom: 4,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+    borderRadius: 999,
+    backgroundColor: "rgba(0,0,0,0.55)",
+  },
+  coverText: {
+    color: "#FFFFFF",
+    fontSize: 9,
+    fontWeight: "800",
+  },
+  removeBtn: {
+    position: "absolute",
+    top: -8,
+    right: -8,
+    width: 22,
+    height: 22,
+    borderRadius: 999,
+    backgroundColor: "rgba(0,0,0,0.55)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  hint: {
+    marginTop: 8,
+    color: "rgba(255,255,255,0.9)",
+    fontWeight: "700",
+    fontSize: 12,
+  },
+});
+/*This file contains the editable photo gallery of the add and edit item forms.
+It shows up to eight photos with the cover first, lets the user add, remove
+and pick a cover, and reorders photos with a long-press drag.
+*/
@@ -0,0 +1,245 @@
+import React, { useState } from "react";
+// useState = form fields, error, busy flag
+
+import { View, Text, StyleSheet, Pressable, TextInput, Alert, ActivityIndicator } from "react-native";
+
+import { useRouter } from "expo-router";
+// Opens the public profile
+
+import { doc, updateDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+import { GOVERNORATES, GovernorateId } from "@/lib/location";
+// Cities = the governorates used by items
+
+import {
+  MAX_BIO_LENGTH,
+  MAX_NAME_LENGTH,
+  PublicProfile,
+  profileUpdate,
+  validateProfileEdit,
+} from "@/lib/profile";
+// Public profile model (limits MUST match firestore.rules)
+
+type Props = {
+  uid: string;
+  profile: PublicProfile;
+  // Saved profile (the form starts from it)
+};
+
+export default function ProfileSettings({ uid, profile }: Props) {
+  // Public profile card of the Settings screen (name, bio, city)
+
+  const router = useRouter();
+
+  const [name, setName] = useState(profile.name);
+  const [bio, setBio] = useState(profile.bio);
+  const [city, setCity] = useState<GovernorateId | "">(profile.city);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const changed = name !== profile.name || bio !== profile.bio || city !== profile.city;
+
+  const save = async () => {
+    const edit = { name, bio, city };
+    const invalid = validateProfileEdit(edit);
+    setError(invalid);
+    if (invalid) return;
+
+    setBusy(true);
+    try {
+      await updateDoc(doc(db, "users", uid), profileUpdate(edit));
+      Alert.alert("Saved", "Your profile was updated.");
+    } catch (e: any) {
+      console.log("Save profile error:", e);
+      Alert.alert("Error", e?.message ?? "Failed to save your profile.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Public profile</Text>
+
+        <Pressable
+          onPress={() => router.push({ pathname: "/user/[uid]", params: { uid } })}
+          hitSlop={8}
+        >
+          <Text style={styles.link}>View</Text>
+        </Pressable>
+      </View>
+      <Text style={styles.sub}>Shown to other users on your items and requests.</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Your name"
+        placeholderTextColor="rgba(0,0,0,0.4)"
+        maxLength={MAX_NAME_LENGTH}
+        value={name}
+        onChangeText={setName}
+      />
+
+      <Text style={styles.label}>Bio</Text>
+      <TextInput
+        style={[styles.input, styles.bioInput]}
+        placeholder="A few words about you (optional)"
+        placeholderTextColor="rgba(0,0,0,0.4)"
+        multiline
+        maxLength={MAX_BIO_LENGTH}
+        value={bio}
+        onChangeText={setBio}
+      />
+      <Text style={styles.counter}>
+        {bio.length}/{MAX_BIO_LENGTH}
+      </Text>
+
+      <Text style={styles.label}>City</Text>
+      <View style={styles.chips}>
+        {GOVERNORATES.map((g) => {
+          const on = city === g.id;
+
+          return (
+            <Pressable
+              key={g.id}
+              onPress={() => setCity(on ? "" : g.id)}
+              // Same chip again clears the city
+              style={[styles.chip, on && styles.chipOn]}
+            >
+              <Text style={[styles.chipText, on && styles.chipTextOn]}>{g.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <Pressable
+        onPress={save}
+        disabled={busy || !changed}
+        style={[styles.submitBtn, (busy || !changed) && { opacity: 0.6 }]}
+      >
+        {busy ? <ActivityIndicator color="#4F98DC" /> : <Text style={styles.submitText}>Save</Text>}
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 14,
+    borderRadius: 18,
+    padding: 16,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+
+  title: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "900",
+    marginBottom: 6,
+  },
+
+  sub: {
+    color: "rgba(255,255,255,0.8)",
+    fontWeight: "600",
+  },
+
+  link: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+    textDecorationLine: "underline",
+  },
+
+  label: {
+    marginTop: 14,
+    marginBottom: 6,
+    color: "#FFFFFF",
+    fontWeight: "800",
+  },
+
+  input: {
+    height: 46,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    backgroundColor: "rgba(255,255,255,0.92)",
+    color: "rgba(0,0,0,0.75)",
+  },
+
+  bioInput: {
+    height: 90,
+    paddingTop: 10,
+    textAlignVertical: "top",
+  },
+
+  counter: {
+    marginTop: 4,
+    alignSelf: "flex-end",
+    color: "rgba(255,255,255,0.75)",
+    fontWeight: "600",
+    fontSize: 12,
+  },
+
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.5)",
+  },
+
+  chipOn: {
+    backgroundColor: "#FFFFFF",
+    borderColor: "#FFFFFF",
+  },
+
+  chipText: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 12,
+  },
+
+  chipTextOn: {
+    color: "#4F98DC",
+  },
+
+  errorText: {
+    marginTop: 12,
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+
+  submitBtn: {
+    marginTop: 14,
+    height: 44,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#FFFFFF",
+  },
+
+  submitText: {
+    color: "#4F98DC",
+    fontWeight: "900",
+  },
+});
+/*This file contains the Public profile card of the Settings screen.
+The user edits the name, bio and city other users see on /user/[uid].
+*/
@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+// useState = chosen reason, details, error, busy flag
+
+import { View, Text, StyleSheet, Pressable, Modal, TextInput, Alert, ActivityIndicator } from "react-native";
+// Modal = the report form on top of the screen (same look as the governorate picker)
+
+import { Ionicons } from "@expo/vector-icons";
+// Radio icons of the reasons
+
+import { reportContent } from "@/lib/moderation";
+// Sends the report to the moderation queue (Cloud Function)
+
+import { MAX_REPORT_DETAILS, REPORT_REASONS, ReportReason, ReportTarget, validateReport } from "@/lib/reports";
+// Report reasons + form check (MUST match functions/reports.js)
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  targetType: ReportTarget;
+  targetId: string;
+  // What is reported (an item, a request or a user)
+};
+
+const TITLES: Record<ReportTarget, string> = {
+  item: "Report item",
+  request: "Report request",
+  user: "Report user",
+};
+
+export default function ReportSheet({ visible, onClose, targetType, targetId }: Props) {
+  // Report form: a reason, optional details, then the moderators take a look
+
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const close = () => {
+    setReason(null);
+    setDetails("");
+    setError(null);
+    onClose();
+  };
+
+  const send = async () => {
+    const invalid = validateReport(reason, details);
+    setError(invalid);
+    if (invalid || !reason) return;
+
+    setBusy(true);
+    try {
+      await reportContent(targetType, targetId, reason, details);
+      close();
+      Alert.alert("Thanks for reporting", "Our moderators will take a look.");
+    } catch (e: any) {
+      console.log("Report error:", e);
+      setError(e?.message ?? "Failed to send the report.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={close}>
+      {/* Clicking outside closes the form */}
+      <Pressable style={styles.backdrop} onPress={close}>
+        <Pressable style={styles.card} onPress={() => {}}>
+          <Text style={styles.title}>{TITLES[targetType]}</Text>
+          <Text style={styles.sub}>Reports are private. The person is not told who reported them.</Text>
+
+          {REPORT_REASONS.map((r) => {
+            const on = reason === r.id;
+
+            return (
+              <Pressable key={r.id} style={styles.reasonRow} onPress={() => setReason(r.id)}>
+                <Ionicons name={on ? "radio-button-on" : "radio-button-off"} size={20} color="#FFFFFF" />
+                <Text style={styles.reasonText}>{r.label}</Text>
+              </Pressable>
+            );
+          })}
+
+          <TextInput
+            style={styles.input}
+            placeholder="More details (optional)"
+            placeholderTextColor="rgba(0,0,0,0.4)"
+            multiline
+            maxLength={MAX_REPORT_DETAILS}
+            value={details}
+            onChangeText={setDetails}
+          />
+
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          <View style={styles.actions}>
+            <Pressable onPress={close} style={styles.cancelBtn} disabled={busy}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </Pressable>
+
+            <Pressable onPress={send} style={[styles.sendBtn, busy && { opacity: 0.6 }]} disabled={busy}>
+              {busy ? <ActivityIndicator color="#4F98DC" /> : <Text style={styles.sendText}>Send report</Text>}
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.35)",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 18,
+  },
+  card: {
+    width: "100%",
+    maxWidth: 420,
+    backgroundColor: "#4F98DC",
+    borderRadius: 18,
+    padding: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "800",
+    color: "#FFFFFF",
+  },
+  sub: {
+    marginTop: 4,
+    marginBottom: 8,
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: "600",
+    fontSize: 12,
+  },
+  reasonRow: {
+    height: 40,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  reasonText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+  },
+  input: {
+    marginTop: 8,
+    minHeight: 80,
+    borderRadius: 12,
+    padding: 12,
+    backgroundColor: "rgba(255,255,255,0.92)",
+    color: "rgba(0,0,0,0.75)",
+    textAlignVertical: "top",
+  },
+  errorText: {
+    marginTop: 10,
+    color: "#FFCDD2",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+  actions: {
+    marginTop: 14,
+    flexDirection: "row",
+    gap: 10,
+  },
+  cancelBtn: {
+    flex: 1,
+    height: 44,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.6)",
+  },
+  cancelText: {
+    color: "#FFFFFF",
+    fontWeight: "900",
+  },
+  sendBtn: {
+    flex: 1,
+    height: 44,
+    borderRadius: 999,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#FFFFFF",
+  },
+  sendText: {
+    color: "#4F98DC",
+    fontWeight: "900",
+  },
+});
+/*This file contains the report form shown from item pages, request cards and profiles.
+The user picks a reason and can add details; the report goes to the moderators' queue.
+*/
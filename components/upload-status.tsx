@@ -0,0 +1,158 @@
+import React from "react";
+// React core
+
+import { View, Text, StyleSheet, Pressable } from "react-native";
+// Progress bar + buttons
+
+import { Ionicons } from "@expo/vector-icons";
+// Icons (cancel, error)
+
+import { UploadQueueStatus } from "@/hooks/use-upload-queue";
+// Status from useUploadQueue()
+
+import { formatPercent } from "@/lib/upload-policy";
+// "42%"
+
+type Props = {
+  status: UploadQueueStatus;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+  label?: string;
+  // What is uploading ("photo" by default)
+};
+
+export default function UploadStatus({ status, onCancel, onRetry, onDismiss, label = "photo" }: Props) {
+  // Progress of the upload queue, or its error with Try again / Dismiss
+
+  if (status.state === "idle") return null;
+
+  if (status.state === "error") {
+    return (
+      <View style={[styles.box, styles.errorBox]}>
+        <View style={styles.row}>
+          <Ionicons name="alert-circle" size={18} color="#FFFFFF" />
+          <Text style={styles.errorText}>{status.error}</Text>
+        </View>
+
+        <View style={styles.actions}>
+          <Pressable onPress={onDismiss} style={styles.linkBtn} hitSlop={8}>
+            <Text style={styles.linkText}>Dismiss</Text>
+          </Pressable>
+
+          <Pressable onPress={onRetry} style={styles.retryBtn}>
+            <Text style={styles.retryText}>Try again</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  const title =
+    status.total > 1 ? `Uploading ${label} ${status.current} of ${status.total}` : `Uploading ${label}`;
+
+  return (
+    <View style={styles.box}>
+      <View style={styles.row}>
+        <Text style={styles.title} numberOfLines={1}>
+          {status.retrying ? "Connection problem, retrying..." : title}
+        </Text>
+
+        <Text style={styles.percent}>{formatPercent(status.progress)}</Text>
+
+        <Pressable onPress={onCancel} hitSlop={10} style={styles.cancelBtn}>
+          <Ionicons name="close" size={16} color="#FFFFFF" />
+        </Pressable>
+      </View>
+
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: formatPercent(status.progress) as `${number}%` }]} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    marginTop: 10,
+    padding: 12,
+    borderRadius: 14,
+    backgroundColor: "rgba(255,255,255,0.16)",
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.22)",
+  },
+  errorBox: {
+    backgroundColor: "rgba(214,69,69,0.35)",
+    borderColor: "rgba(255,255,255,0.3)",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+  percent: {
+    color: "#FFFFFF",
+    fontWeight: "800",
+    fontSize: 13,
+  },
+  cancelBtn: {
+    width: 24,
+    height: 24,
+    borderRadius: 999,
+    backgroundColor: "rgba(0,0,0,0.25)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  track: {
+    marginTop: 8,
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: "rgba(255,255,255,0.25)",
+    overflow: "hidden",
+  },
+  fill: {
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: "#FFFFFF",
+  },
+  errorText: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontWeight: "700",
+    fontSize: 13,
+  },
+  actions: {
+    marginTop: 10,
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    gap: 14,
+  },
+  linkBtn: {
+    paddingVertical: 6,
+  },
+  linkText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+  },
+  retryBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    backgroundColor: "#FFFFFF",
+  },
+  retryText: {
+    color: "#4F98DC",
+    fontWeight: "800",
+  },
+});
+/*This file contains the upload status bar shared by the add item, edit item and profile screens.
+It shows which photo is uploading with a percentage bar and a cancel button,
+and after a failed upload shows the error with Try again and Dismiss buttons.
+*/
@@ -0,0 +1,103 @@
+import React from "react";
+// React core
+
+import { StyleSheet } from "react-native";
+// StyleSheet = image fills the page
+
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+// Pinch, pan and double-tap gestures
+
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from "react-native-reanimated";
+// Shared values keep the zoom on the UI thread (smooth on both platforms)
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+
+type Props = {
+  uri: string;
+  width: number;
+  height: number;
+};
+
+export default function ZoomableImage({ uri, width, height }: Props) {
+  // One full-screen photo: pinch to zoom, drag while zoomed, double-tap to zoom in/out
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const x = useSharedValue(0);
+  const y = useSharedValue(0);
+  const savedX = useSharedValue(0);
+  const savedY = useSharedValue(0);
+
+  const reset = () => {
+    "worklet";
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    x.value = withTiming(0);
+    y.value = withTiming(0);
+    savedX.value = 0;
+    savedY.value = 0;
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((e) => {
+      scale.value = Math.min(Math.max(savedScale.value * e.scale, 1), MAX_SCALE);
+    })
+    .onEnd(() => {
+      if (scale.value <= 1.01) reset();
+      else savedScale.value = scale.value;
+    });
+
+  // Only pans while zoomed, so swiping to the next photo still works at 1x
+  const pan = Gesture.Pan()
+    .manualActivation(true)
+    .onTouchesMove((_, manager) => {
+      if (scale.value > 1) manager.activate();
+      else manager.fail();
+    })
+    .onUpdate((e) => {
+      const maxX = (width * (scale.value - 1)) / 2;
+      const maxY = (height * (scale.value - 1)) / 2;
+      x.value = Math.min(Math.max(savedX.value + e.translationX, -maxX), maxX);
+      y.value = Math.min(Math.max(savedY.value + e.translationY, -maxY), maxY);
+    })
+    .onEnd(() => {
+      savedX.value = x.value;
+      savedY.value = y.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (scale.value > 1) {
+        reset();
+      } else {
+        scale.value = withTiming(DOUBLE_TAP_SCALE);
+        savedScale.value = DOUBLE_TAP_SCALE;
+      }
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: x.value }, { translateY: y.value }, { scale: scale.value }],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+      <Animated.Image
+        source={{ uri }}
+        resizeMode="contain"
+        style={[styles.image, { width, height }, animatedStyle]}
+      />
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: "#000000",
+  },
+});
+/*This file contains the zoomable photo of the full-screen gallery.
+It supports pinch to zoom, dragging a zoomed photo and double-tap to zoom,
+using react-native-gesture-handler and react-native-reanimated.
+*/
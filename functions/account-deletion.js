@@ -0,0 +1,49 @@
+// Account deletion rules (used by account.js)
+// What happens to the user's data:
+// - their items, the requests on them, their photos and avatar are deleted
+// - their open requests are cancelled first (owners are told, items go back to the queue),
+//   then every request they made is deleted
+// - their conversations (with the messages) and notifications are deleted
+// - notifications they caused for other users are kept without their uid
+// - reviews about them are deleted; reviews they wrote are kept without their uid
+//   (they are part of the other person's rating)
+// - reports they filed or about them, their block list and their private settings are deleted
+
+const { toItemStatus, toRequestStatus } = require("./rules");
+
+// Deleting the account needs a sign-in at most this old (the app re-authenticates first)
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+// Request statuses that are still open for the item owner
+const OPEN_REQUEST_STATUSES = ["pending", "waitlisted", "approved"];
+
+// authTime = the ID token's auth_time (seconds), now in ms
+function isRecentSignIn(authTime, now, maxAgeSeconds = RECENT_SIGN_IN_SECONDS) {
+  if (typeof authTime !== "number" || !Number.isFinite(authTime)) return false;
+  return now / 1000 - authTime <= maxAgeSeconds;
+}
+
+// True when a request of the deleted user must be cancelled before it is deleted
+// (an approval stays in place once the item was donated)
+function shouldCancelRequest(requestStatus, itemStatus) {
+  const status = toRequestStatus(requestStatus);
+  if (!OPEN_REQUEST_STATUSES.includes(status)) return false;
+  if (status !== "approved") return true;
+  return toItemStatus(itemStatus) === "accepted";
+}
+
+// Storage files of the user (photos + thumbnails share the prefix)
+function userStoragePaths(uid) {
+  return { prefixes: [`items/${uid}/`], files: [`avatars/${uid}.jpg`] };
+}
+
+module.exports = {
+  RECENT_SIGN_IN_SECONDS,
+  OPEN_REQUEST_STATUSES,
+  isRecentSignIn,
+  shouldCancelRequest,
+  userStoragePaths,
+};
+/* This file decides what account deletion does with each piece of the user's data:
+whether the user signed in recently enough, which of their requests are cancelled
+before being deleted, and which Storage folders hold their files. */
@@ -0,0 +1,128 @@
+// Import Firebase Functions v2 callable HTTPS function helper
+const { onCall, HttpsError } = require("firebase-functions/v2/https");
+
+// Admin Auth + Storage: remove the sign-in account and the user's files
+const { getAuth } = require("firebase-admin/auth");
+const { getStorage } = require("firebase-admin/storage");
+
+// Shared Admin Firestore instance
+const { db, FieldValue } = require("./admin");
+
+// The requester side of the request workflow (owners are told, items go back to the queue)
+const { cancelOwnRequest } = require("./requests");
+
+// What happens to each piece of data (pure, unit tested)
+const { isRecentSignIn, shouldCancelRequest, userStoragePaths } = require("./account-deletion");
+
+// Deletes (or updates) every document a query returns
+async function eachDoc(query, write) {
+  const snap = await query.get();
+  snap.docs.forEach((d) => write(d.ref));
+}
+
+// Cancels the user's open requests the same way cancelRequest does
+async function cancelOpenRequests(uid) {
+  const sent = await db.collection("requests").where("requesterId", "==", uid).get();
+
+  for (const request of sent.docs) {
+    const item = await db.collection("items").doc(request.data().itemId).get();
+    if (!item.exists || !shouldCancelRequest(request.data().status, item.data().status)) continue;
+
+    try {
+      await db.runTransaction((tx) => cancelOwnRequest(tx, uid, request.id));
+    } catch (e) {
+      // Changed meanwhile (the owner decided...): the request is deleted anyway
+      console.log("Account deletion cancel error:", request.id, e);
+    }
+  }
+}
+
+// Deletes the user's photos, thumbnails and avatar
+// (a failure is only logged: the nightly orphan cleanup removes whatever is left)
+async function deleteUserFiles(uid) {
+  const bucket = getStorage().bucket();
+  const { prefixes, files } = userStoragePaths(uid);
+
+  try {
+    await Promise.all([
+      ...prefixes.map((prefix) => bucket.deleteFiles({ prefix })),
+      ...files.map((name) => bucket.file(name).delete({ ignoreNotFound: true })),
+    ]);
+  } catch (e) {
+    console.log("Account deletion storage error:", uid, e);
+  }
+}
+
+// The signed-in user deletes their account and their data (see account-deletion.js)
+// The app re-authenticates just before calling, so older sign-ins are refused
+exports.deleteAccount = onCall({ timeoutSeconds: 300 }, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please sign in first.");
+  }
+  const uid = request.auth.uid;
+
+  if (!isRecentSignIn(request.auth.token.auth_time, Date.now())) {
+    throw new HttpsError("failed-precondition", "Please sign in again before deleting your account.");
+  }
+
+  await cancelOpenRequests(uid);
+
+  // A failed write stops before the sign-in account is removed, so the user can try again
+  const writer = db.bulkWriter();
+  const failed = [];
+  const track = (write) => write.catch((e) => failed.push(e));
+  const remove = (ref) => track(writer.delete(ref));
+
+  const requests = db.collection("requests");
+  await eachDoc(requests.where("requesterId", "==", uid), remove);
+  await eachDoc(requests.where("itemOwnerId", "==", uid), remove);
+  await eachDoc(db.collection("items").where("ownerId", "==", uid), remove);
+
+  const notifications = db.collection("notifications");
+  await eachDoc(notifications.where("toUserId", "==", uid), remove);
+  await eachDoc(notifications.where("fromUserId", "==", uid), (ref) =>
+    track(writer.update(ref, { fromUserId: FieldValue.delete() })),
+  );
+
+  // Reviews about the user go; reviews they wrote stay in the other person's rating, without their uid
+  const reviews = db.collection("reviews");
+  await eachDoc(reviews.where("revieweeId", "==", uid), remove);
+  await eachDoc(reviews.where("reviewerId", "==", uid), (ref) =>
+    track(writer.update(ref, { reviewerId: FieldValue.delete() })),
+  );
+
+  // Reports they filed and reports about them go; so does their block list
+  const reports = db.collection("reports");
+  await eachDoc(reports.where("reporterId", "==", uid), remove);
+  await eachDoc(reports.where("targetUserId", "==", uid), remove);
+  await eachDoc(db.collection("users").doc(uid).collection("blocked"), remove);
+  await eachDoc(db.collection("users").doc(uid).collection("private"), remove);
+
+  remove(db.collection("notificationDigests").doc(uid));
+  remove(db.collection("heldPushes").doc(uid));
+  remove(db.collection("users").doc(uid));
+
+  await writer.close();
+
+  if (failed.length > 0) {
+    console.log("Account deletion write errors:", uid, failed);
+    throw new HttpsError("internal", "Some of your data could not be deleted. Please try again.");
+  }
+
+  // Conversations go with their messages
+  const conversations = await db.collection("conversations").where("participants", "array-contains", uid).get();
+  for (const conversation of conversations.docs) {
+    await db.recursiveDelete(conversation.ref);
+  }
+
+  await deleteUserFiles(uid);
+
+  await getAuth().deleteUser(uid);
+
+  return { deleted: true };
+});
+/* This file contains the callable Cloud Function that deletes an account.
+It cancels the user's open requests, deletes their items, requests, conversations,
+notifications, reviews about them, reports, block list, profile, private settings and files, keeps other users' notifications
+and the reviews they wrote without their uid,
+and finally removes the sign-in account. */
@@ -0,0 +1,153 @@
+// Import Firebase Functions v2 callable HTTPS function helper
+const { onCall, HttpsError } = require("firebase-functions/v2/https");
+
+// Admin Auth: custom claims (roles) and user lookups
+const { getAuth } = require("firebase-admin/auth");
+
+// Shared Admin Firestore instance
+const { db, FieldValue } = require("./admin");
+
+// Admin check shared with the moderation queue
+const { requireAdmin } = require("./moderation");
+
+// Role + listing edit rules (pure, unit tested)
+const {
+  claimsWithRole,
+  lookupKind,
+  parseItemEdit,
+  parseRoleChange,
+  rolesOf,
+  saveRoleClaims,
+} = require("./roles");
+
+// Reads the item id of a listing call
+function requireItemId(request) {
+  const itemId = (request.data || {}).itemId;
+  if (!itemId || typeof itemId !== "string" || itemId.includes("/")) {
+    throw new HttpsError("invalid-argument", "Missing or invalid itemId");
+  }
+  return itemId;
+}
+
+// ---------- Callable functions ----------
+
+// An admin grants or revokes a role: the custom claim changes and users/{uid}.roles mirrors it
+// A granted role reaches the user's app at its next token refresh (within an hour) or sign-in;
+// a revoked one also revokes their refresh tokens, so it ends with their current ID token
+exports.setUserRole = onCall(async (request) => {
+  const uid = requireAdmin(request);
+  const change = parseRoleChange(request.data);
+  if (!change) {
+    throw new HttpsError("invalid-argument", "Missing or invalid userId, role or granted");
+  }
+
+  const { userId, role, granted } = change;
+
+  // Keeps at least the caller as admin (nobody locks themselves out of the console)
+  if (userId === uid && role === "admin" && !granted) {
+    throw new HttpsError("failed-precondition", "You cannot remove your own admin role.");
+  }
+
+  let user;
+  try {
+    user = await getAuth().getUser(userId);
+  } catch (e) {
+    if (e.code === "auth/user-not-found") throw new HttpsError("not-found", "User not found.");
+    throw e;
+  }
+
+  const claims = claimsWithRole(user.customClaims, role, granted);
+  await saveRoleClaims(getAuth(), userId, claims, granted);
+
+  await db.collection("users").doc(userId).set({ roles: rolesOf(claims) }, { merge: true });
+
+  return { status: granted ? "granted" : "revoked", roles: rolesOf(claims) };
+});
+
+// An admin looks up an account by email, phone number or uid
+// Returns what the console shows: sign-in details, roles, suspension and the profile name
+exports.lookupUser = onCall(async (request) => {
+  requireAdmin(request);
+
+  const text = String((request.data || {}).query ?? "").trim();
+  const kind = lookupKind(text);
+  if (!kind) {
+    throw new HttpsError("invalid-argument", "Enter an email, a phone number or a user id.");
+  }
+
+  let user;
+  try {
+    if (kind === "email") user = await getAuth().getUserByEmail(text);
+    if (kind === "phone") user = await getAuth().getUserByPhoneNumber(text);
+    if (kind === "uid") user = await getAuth().getUser(text);
+  } catch (e) {
+    if (e.code === "auth/user-not-found" || e.code === "auth/invalid-uid") {
+      throw new HttpsError("not-found", "No user matches this search.");
+    }
+    throw e;
+  }
+
+  const profile = await db.collection("users").doc(user.uid).get();
+
+  return {
+    uid: user.uid,
+    name: (profile.exists && profile.data().name) || "User",
+    email: user.email || null,
+    phoneNumber: user.phoneNumber || null,
+    disabled: user.disabled,
+    suspended: Boolean(profile.exists && profile.data().suspended),
+    roles: rolesOf(user.customClaims),
+    createdAt: user.metadata.creationTime || null,
+    lastSignInAt: user.metadata.lastSignInTime || null,
+  };
+});
+
+// An admin edits any listing: title, description, category (re-categorize) or the hidden flag
+// The status stays with the request workflow; the search fields trigger updates the keywords
+exports.adminUpdateItem = onCall(async (request) => {
+  const uid = requireAdmin(request);
+  const itemId = requireItemId(request);
+
+  const changes = parseItemEdit(request.data);
+  if (!changes) {
+    throw new HttpsError("invalid-argument", "Nothing to save, or a field is invalid.");
+  }
+
+  const itemRef = db.collection("items").doc(itemId);
+
+  await db.runTransaction(async (tx) => {
+    const item = await tx.get(itemRef);
+    if (!item.exists) {
+      throw new HttpsError("not-found", "Item not found.");
+    }
+
+    tx.update(itemRef, {
+      ...changes,
+      ...(changes.hidden === true ? { hiddenAt: FieldValue.serverTimestamp() } : {}),
+      editedBy: uid,
+      editedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  return { status: "updated" };
+});
+
+// An admin removes any listing (its photos are deleted by the Storage cleanup trigger,
+// its open requests are closed by onItemDeletedCloseRequests in requests.js)
+exports.adminDeleteItem = onCall(async (request) => {
+  requireAdmin(request);
+  const itemId = requireItemId(request);
+
+  const itemRef = db.collection("items").doc(itemId);
+  const item = await itemRef.get();
+  if (!item.exists) {
+    throw new HttpsError("not-found", "Item not found.");
+  }
+
+  await itemRef.delete();
+
+  return { status: "deleted" };
+});
+/* This file contains the callable Cloud Functions of the admin console:
+granting and revoking roles (custom claims), looking up accounts,
+and editing, re-categorizing or removing any listing. Every function checks the admin claim. */
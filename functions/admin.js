@@ -0,0 +1,15 @@
+// Import Firebase Admin SDK initializers
+const { initializeApp, getApps } = require("firebase-admin/app");
+const { getFirestore, FieldValue } = require("firebase-admin/firestore");
+
+// Initialize the Admin app only once (several files require this module)
+if (!getApps().length) {
+  initializeApp();
+}
+
+// Admin Firestore instance (bypasses security rules, so every caller must be validated)
+const db = getFirestore();
+
+module.exports = { db, FieldValue };
+/* This file initializes the Firebase Admin SDK once and shares the Firestore instance
+between all Cloud Functions modules. */
@@ -0,0 +1,56 @@
+// One-off backfill of the item search fields (keywords + hasImage, and hidden: false when missing)
+// onItemWrittenSearchFields only fills them in when an item is created or edited, so items
+// saved before it was deployed are missing from search, from the "has image" filter and
+// (without hidden) from every list, which only reads items with hidden == false.
+// Run once after deploying the functions, with Admin credentials for the project:
+//   cd functions && GCLOUD_PROJECT=<project-id> npm run backfill:search
+// (credentials from `gcloud auth application-default login` or GOOGLE_APPLICATION_CREDENTIALS)
+// Running it again is harmless: items already up to date are skipped.
+
+// Shared Admin Firestore instance
+const { db } = require("./admin");
+
+// Same builder as the trigger (search.js)
+const { searchFieldsUpdate } = require("./keywords");
+
+// Items read per page
+const PAGE_SIZE = 300;
+
+async function backfillSearchFields() {
+  const writer = db.bulkWriter();
+  let last = null;
+  let read = 0;
+  let updated = 0;
+
+  for (;;) {
+    let page = db.collection("items").orderBy("__name__").limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+
+    const snap = await page.get();
+    if (snap.empty) break;
+
+    for (const doc of snap.docs) {
+      const update = searchFieldsUpdate(doc.data());
+      if (update) {
+        writer.update(doc.ref, update);
+        updated++;
+      }
+    }
+
+    read += snap.size;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  await writer.close();
+  return { read, updated };
+}
+
+backfillSearchFields()
+  .then(({ read, updated }) => console.log(`Search fields: ${updated} of ${read} items updated.`))
+  .catch((e) => {
+    console.log("Backfill error:", e);
+    process.exitCode = 1;
+  });
+/* This script fills in the keywords, hasImage and hidden fields of every existing item with
+the same builder as the search fields trigger, so items saved before the trigger existed
+show up in the lists, in search and in the "has image" filter. */
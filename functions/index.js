@@ -87,8 +87,77 @@ exports.categorizeItemFromImage = onCall(
     }
   }
 );
+
+// Request workflow callables (see requests.js)
+// The app calls these instead of writing requests/notifications directly
+const requests = require("./requests");
+exports.requestItem = requests.requestItem;
+exports.approveRequest = requests.approveRequest;
+exports.rejectRequest = requests.rejectRequest;
+exports.cancelRequest = requests.cancelRequest;
+exports.revokeRequest = requests.revokeRequest;
+exports.markDonated = requests.markDonated;
+exports.submitReview = requests.submitReview;
+// Closes the open requests of a deleted item
+exports.onItemDeletedCloseRequests = requests.onItemDeletedCloseRequests;
+
+// Search fields trigger: keywords + hasImage (see search.js)
+const search = require("./search");
+exports.onItemWrittenSearchFields = search.onItemWrittenSearchFields;
+
+// Item photo thumbnails (see thumbnails.js)
+const thumbnails = require("./thumbnails");
+exports.onItemImageUploaded = thumbnails.onItemImageUploaded;
+exports.onItemImageDeleted = thumbnails.onItemImageDeleted;
+exports.onItemWrittenThumbnails = thumbnails.onItemWrittenThumbnails;
+
+// Unused Storage file cleanup (see storage-cleanup.js)
+const storageCleanup = require("./storage-cleanup");
+exports.onItemWrittenImageCleanup = storageCleanup.onItemWrittenImageCleanup;
+exports.cleanupOrphanedImages = storageCleanup.cleanupOrphanedImages;
+
+// Notification delivery: push, email, pushes held by quiet hours and the daily digest,
+// per user preferences (see notifications.js)
+const notifications = require("./notifications");
+exports.onNotificationCreated = notifications.onNotificationCreated;
+exports.sendHeldPushes = notifications.sendHeldPushes;
+exports.sendNotificationDigests = notifications.sendNotificationDigests;
+
+// Account deletion: the user's data is removed or anonymized (see account.js)
+const account = require("./account");
+exports.deleteAccount = account.deleteAccount;
+
+// Abuse moderation: reports, blocking and the admin moderation queue (see moderation.js)
+const moderation = require("./moderation");
+exports.reportContent = moderation.reportContent;
+exports.blockUser = moderation.blockUser;
+exports.unblockUser = moderation.unblockUser;
+exports.resolveReport = moderation.resolveReport;
+
+// Admin console: roles, user lookups and listing edits (see admin-console.js)
+const adminConsole = require("./admin-console");
+exports.setUserRole = adminConsole.setUserRole;
+exports.lookupUser = adminConsole.lookupUser;
+exports.adminUpdateItem = adminConsole.adminUpdateItem;
+exports.adminDeleteItem = adminConsole.adminDeleteItem;
+
+// Profile documents for new accounts of every sign-in provider,
+// and private fields kept off the public profiles (see users.js)
+const users = require("./users");
+exports.onAuthUserCreated = users.onAuthUserCreated;
+exports.onUserWrittenMovePrivateFields = users.onUserWrittenMovePrivateFields;
+
 /* The function of this file is to provide a Firebase Cloud Function that categorizes
 an item based on its image URL using OpenAI's vision-capable model. 
 It defines a callable function that the app can invoke, which processes the image, 
 interacts with the OpenAI API to classify the item into predefined categories, 
-and returns the category along with a note indicating whether AI was used or if a fallback category was applied. */
\ No newline at end of file
+and returns the category along with a note indicating whether AI was used or if a fallback category was applied.
+It also exports the request workflow functions and trigger defined in requests.js
+the search fields trigger defined in search.js
+the thumbnail triggers defined in thumbnails.js
+the Storage cleanup functions defined in storage-cleanup.js
+the notification delivery functions defined in notifications.js
+the account deletion function defined in account.js
+the moderation functions defined in moderation.js
+the admin console functions defined in admin-console.js
+and the user document triggers defined in users.js. */
\ No newline at end of file
@@ -0,0 +1,73 @@
+// Item search keywords (MUST match buildKeywords/tokenize in lib/search.ts)
+// Title + category words are stored with their prefixes, description words whole
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_PREFIX_LENGTH = 15;
+
+const STOP_WORDS = new Set(["the", "and", "for", "with", "of", "in", "on", "to", "an", "is", "it"]);
+
+// Lowercase words without accents or punctuation
+function tokenize(text) {
+  const words = String(text ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(w));
+
+  return Array.from(new Set(words));
+}
+
+function prefixes(word) {
+  const out = [];
+  const max = Math.min(word.length, MAX_PREFIX_LENGTH);
+  for (let i = MIN_TOKEN_LENGTH; i <= max; i++) out.push(word.slice(0, i));
+  if (word.length > MAX_PREFIX_LENGTH) out.push(word);
+  return out;
+}
+
+function buildKeywords(item) {
+  const keywords = new Set();
+
+  for (const word of [...tokenize(item.title), ...tokenize(item.category)]) {
+    for (const p of prefixes(word)) keywords.add(p);
+  }
+
+  for (const word of tokenize(item.description)) {
+    keywords.add(word);
+  }
+
+  return Array.from(keywords).sort();
+}
+
+// Same rule as hasImageField in lib/item-filters.ts ("has image" list filter)
+function hasImageField(imageUrl) {
+  return typeof imageUrl === "string" && imageUrl.trim().length > 0;
+}
+
+// Same array contents -> no write needed
+function sameKeywords(a, b) {
+  if (!Array.isArray(a) || a.length !== b.length) return false;
+  return a.every((k, i) => k === b[i]);
+}
+
+// Search fields to write on an item, or null when the stored ones are already up to date
+// (used by the search fields trigger and the one-off backfill)
+// hidden is only added when missing: the list queries filter on hidden == false,
+// which leaves out items without the field
+function searchFieldsUpdate(item) {
+  const keywords = buildKeywords(item);
+  const hasImage = hasImageField(item.imageUrl);
+  const hiddenMissing = typeof item.hidden !== "boolean";
+
+  if (sameKeywords(item.keywords, keywords) && item.hasImage === hasImage && !hiddenMissing) return null;
+
+  return hiddenMissing ? { keywords, hasImage, hidden: false } : { keywords, hasImage };
+}
+
+module.exports = { tokenize, buildKeywords, hasImageField, searchFieldsUpdate };
+/* This file builds the search fields stored on items: the keywords that search matches
+against (title and category prefixes, whole description words, no stop words) and the
+hasImage flag used by the "has image" filter, the hidden flag the list queries need,
+and which of them an item still needs
+(shared by the search fields trigger and the one-off backfill). */
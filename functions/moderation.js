@@ -0,0 +1,247 @@
+// Import Firebase Functions v2 callable HTTPS function helper
+const { onCall, HttpsError } = require("firebase-functions/v2/https");
+
+// Admin Auth: suspended accounts are disabled and signed out
+const { getAuth } = require("firebase-admin/auth");
+
+// Shared Admin Firestore instance
+const { db, FieldValue } = require("./admin");
+
+// The owner side of the request workflow (blocked requesters are rejected like rejectRequest does)
+const { rejectAsOwner } = require("./requests");
+
+// Report rules (pure, unit tested)
+const {
+  REPORT_ACTIONS,
+  canApplyAction,
+  isAdmin,
+  parseReport,
+  reportDocId,
+  reportedItemId,
+  reportedUserId,
+} = require("./reports");
+
+// Collection of each report target
+const TARGET_COLLECTIONS = { item: "items", request: "requests", user: "users" };
+
+// ---------- Helpers ----------
+
+// Returns the caller uid or rejects unauthenticated calls
+function requireAuth(request) {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please sign in first.");
+  }
+  return request.auth.uid;
+}
+
+// Returns the caller uid or rejects callers without the admin custom claim
+// (also used by the admin console, see admin-console.js)
+function requireAdmin(request) {
+  const uid = requireAuth(request);
+  if (!isAdmin(request.auth.token)) {
+    throw new HttpsError("permission-denied", "Only moderators can do this.");
+  }
+  return uid;
+}
+
+// Reads another user's uid from the call data (nobody blocks themselves)
+function requireOtherUser(request, uid) {
+  const userId = (request.data || {}).userId;
+  if (!userId || typeof userId !== "string" || userId.includes("/") || userId === uid) {
+    throw new HttpsError("invalid-argument", "Missing or invalid userId");
+  }
+  return userId;
+}
+
+// Hides every item of a suspended user from the listings
+async function hideItemsOf(uid) {
+  const items = await db.collection("items").where("ownerId", "==", uid).get();
+  const writer = db.bulkWriter();
+
+  items.docs.forEach((d) => {
+    writer.update(d.ref, { hidden: true, hiddenAt: FieldValue.serverTimestamp() });
+  });
+
+  await writer.close();
+}
+
+// Disables the sign-in account, ends its sessions and hides its items
+// (an account deleted meanwhile has nothing left to disable)
+async function suspendAccount(uid) {
+  try {
+    await getAuth().updateUser(uid, { disabled: true });
+    await getAuth().revokeRefreshTokens(uid);
+  } catch (e) {
+    if (e.code !== "auth/user-not-found") throw e;
+  }
+
+  await hideItemsOf(uid);
+}
+
+// ---------- Callable functions ----------
+
+// A user reports an item, a request they take part in or another user
+// Creates reports/{targetType}_{targetId}_{uid} (open) for the moderation queue
+exports.reportContent = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const report = parseReport(request.data);
+  if (!report) {
+    throw new HttpsError("invalid-argument", "Please pick a reason (details: at most 500 characters).");
+  }
+
+  const { targetType, targetId, reason, details } = report;
+  const reportRef = db.collection("reports").doc(reportDocId(targetType, targetId, uid));
+  const targetRef = db.collection(TARGET_COLLECTIONS[targetType]).doc(targetId);
+
+  await db.runTransaction(async (tx) => {
+    const existing = await tx.get(reportRef);
+    const target = await tx.get(targetRef);
+
+    if (!target.exists) {
+      throw new HttpsError("not-found", "Nothing to report here.");
+    }
+
+    const targetUserId = reportedUserId(targetType, targetId, target.data(), uid);
+    if (!targetUserId) {
+      throw new HttpsError("permission-denied", "You cannot report this.");
+    }
+
+    if (existing.exists) {
+      throw new HttpsError("already-exists", "You already reported this.");
+    }
+
+    tx.set(reportRef, {
+      reporterId: uid,
+      targetType,
+      targetId,
+      targetUserId,
+      itemId: reportedItemId(targetType, targetId, target.data()),
+      reason,
+      details,
+      status: "open",
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  return { status: "reported" };
+});
+
+// The caller blocks another user: users/{uid}/blocked/{userId}
+// Their items disappear from the caller's lists, and their pending or waitlisted
+// requests on the caller's items are rejected (new ones are refused by requestItem)
+exports.blockUser = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const userId = requireOtherUser(request, uid);
+
+  await db
+    .collection("users")
+    .doc(uid)
+    .collection("blocked")
+    .doc(userId)
+    .set({ createdAt: FieldValue.serverTimestamp() });
+
+  const open = await db
+    .collection("requests")
+    .where("itemOwnerId", "==", uid)
+    .where("requesterId", "==", userId)
+    .where("status", "in", ["pending", "waitlisted"])
+    .get();
+
+  for (const req of open.docs) {
+    try {
+      await db.runTransaction((tx) => rejectAsOwner(tx, uid, req.id));
+    } catch (e) {
+      // Decided meanwhile (approved, cancelled...): the block itself still holds
+      console.log("Block reject error:", req.id, e);
+    }
+  }
+
+  return { status: "blocked" };
+});
+
+// The caller unblocks a user (their items show again, they can request again)
+exports.unblockUser = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const userId = requireOtherUser(request, uid);
+
+  await db.collection("users").doc(uid).collection("blocked").doc(userId).delete();
+
+  return { status: "unblocked" };
+});
+
+// An admin resolves an open report (and every other open report of the same target):
+// hide_item -> the item is hidden from everyone but its owner (the rules refuse other readers)
+//              and can no longer be requested
+// suspend_user -> the account is disabled and signed out, their items are hidden
+// dismiss -> nothing happens to the target
+exports.resolveReport = onCall(async (request) => {
+  const uid = requireAdmin(request);
+  const { reportId, action } = request.data || {};
+
+  if (!reportId || typeof reportId !== "string" || !REPORT_ACTIONS.includes(action)) {
+    throw new HttpsError("invalid-argument", "Missing or invalid reportId or action");
+  }
+
+  const report = await db.runTransaction(async (tx) => {
+    const reportRef = db.collection("reports").doc(reportId);
+    const snap = await tx.get(reportRef);
+
+    if (!snap.exists) {
+      throw new HttpsError("not-found", "Report not found.");
+    }
+
+    const data = snap.data();
+    if (data.status !== "open") {
+      throw new HttpsError("failed-precondition", "This report was already resolved.");
+    }
+    if (!canApplyAction(action, data)) {
+      throw new HttpsError("failed-precondition", "This action does not apply to the report.");
+    }
+
+    const sameTarget = await tx.get(
+      db
+        .collection("reports")
+        .where("targetType", "==", data.targetType)
+        .where("targetId", "==", data.targetId)
+        .where("status", "==", "open")
+    );
+
+    const itemRef = action === "hide_item" ? db.collection("items").doc(data.itemId) : null;
+    const item = itemRef ? await tx.get(itemRef) : null;
+
+    if (item && item.exists) {
+      tx.update(itemRef, { hidden: true, hiddenAt: FieldValue.serverTimestamp() });
+    }
+
+    if (action === "suspend_user") {
+      tx.set(
+        db.collection("users").doc(data.targetUserId),
+        { suspended: true, suspendedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+    }
+
+    for (const open of [snap, ...sameTarget.docs.filter((d) => d.id !== reportId)]) {
+      tx.update(open.ref, {
+        status: "resolved",
+        action,
+        resolvedBy: uid,
+        resolvedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    return data;
+  });
+
+  // Outside the transaction: Auth is not part of Firestore
+  if (action === "suspend_user") {
+    await suspendAccount(report.targetUserId);
+  }
+
+  return { status: "resolved" };
+});
+
+exports.requireAdmin = requireAdmin;
+/* This file contains the callable Cloud Functions for abuse moderation:
+reporting items, requests and users, blocking and unblocking users,
+and the admin-only resolution of reports (hiding items or suspending accounts). */
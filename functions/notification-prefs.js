@@ -0,0 +1,139 @@
+// Notification preferences (used by notifications.js)
+// Stored by the app on users/{uid}/private/settings.notificationPrefs (MUST match lib/notification-prefs.ts):
+// { types: { [type]: { inApp, push, email } }, quietHours: { enabled, start, end }, digest }
+// Quiet hours are minutes after midnight in APP_TIME_ZONE (the app is for Jordan).
+
+const APP_TIME_ZONE = "Asia/Amman";
+
+const DEFAULT_CHANNELS = { inApp: true, push: true, email: false };
+
+const DEFAULT_QUIET_HOURS = { enabled: false, start: 22 * 60, end: 7 * 60 };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const isMinute = (value) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value < MINUTES_PER_DAY;
+
+const bool = (value, fallback) => (typeof value === "boolean" ? value : fallback);
+
+// Stored preferences -> complete preferences (missing or broken fields use the defaults)
+function normalizeNotificationPrefs(raw) {
+  const value = raw && typeof raw === "object" ? raw : {};
+
+  const types = {};
+  if (value.types && typeof value.types === "object") {
+    for (const [type, channels] of Object.entries(value.types)) {
+      if (!channels || typeof channels !== "object") continue;
+      types[type] = {
+        inApp: bool(channels.inApp, DEFAULT_CHANNELS.inApp),
+        push: bool(channels.push, DEFAULT_CHANNELS.push),
+        email: bool(channels.email, DEFAULT_CHANNELS.email),
+      };
+    }
+  }
+
+  const quiet = value.quietHours && typeof value.quietHours === "object" ? value.quietHours : {};
+
+  return {
+    types,
+    quietHours: {
+      enabled: bool(quiet.enabled, DEFAULT_QUIET_HOURS.enabled),
+      start: isMinute(quiet.start) ? quiet.start : DEFAULT_QUIET_HOURS.start,
+      end: isMinute(quiet.end) ? quiet.end : DEFAULT_QUIET_HOURS.end,
+    },
+    digest: bool(value.digest, false),
+  };
+}
+
+function channelsFor(prefs, type) {
+  return prefs.types[type] || DEFAULT_CHANNELS;
+}
+
+// True when `minute` falls in the quiet hours (start inclusive, end exclusive; may wrap past midnight)
+function isQuietTime(minute, quiet) {
+  if (!quiet.enabled || quiet.start === quiet.end) return false;
+
+  return quiet.start < quiet.end
+    ? minute >= quiet.start && minute < quiet.end
+    : minute >= quiet.start || minute < quiet.end;
+}
+
+// Minutes after midnight of `date` in a time zone
+function minuteOfDay(date, timeZone = APP_TIME_ZONE) {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const part = (type) => Number(parts.find((p) => p.type === type).value);
+  return part("hour") * 60 + part("minute");
+}
+
+// How one new notification is delivered:
+// - inApp:       keep it in the receiver's notification list
+// - push/email:  send now
+// - heldPush:    push it once the quiet hours are over
+// - digestPush/digestEmail: add it to tomorrow's digest instead
+// Quiet hours hold back pushes (emails are not disruptive); the digest replaces both.
+function deliveryPlan(prefs, type, minute) {
+  const channels = channelsFor(prefs, type);
+
+  if (prefs.digest) {
+    return {
+      inApp: channels.inApp,
+      push: false,
+      email: false,
+      heldPush: false,
+      digestPush: channels.push,
+      digestEmail: channels.email,
+    };
+  }
+
+  const quiet = isQuietTime(minute, prefs.quietHours);
+
+  return {
+    inApp: channels.inApp,
+    push: channels.push && !quiet,
+    email: channels.email,
+    heldPush: channels.push && quiet,
+    digestPush: false,
+    digestEmail: false,
+  };
+}
+
+// Title + body of a daily digest for its entries ({ title } of each notification)
+function digestText(entries) {
+  const count = entries.length;
+  const titles = Array.from(new Set(entries.map((e) => e.title).filter(Boolean)));
+
+  return {
+    title: count === 1 ? "1 new notification" : `${count} new notifications`,
+    body: titles.length > 0 ? titles.join(", ") : "Open JoDonate to see what happened.",
+  };
+}
+
+// The push sent when quiet hours end: a single held notification as it was,
+// several as one summary like the digest
+function heldPushNotification(entries) {
+  if (entries.length === 1) return entries[0];
+
+  return { ...digestText(entries), type: "digest", itemId: "" };
+}
+
+module.exports = {
+  APP_TIME_ZONE,
+  DEFAULT_CHANNELS,
+  DEFAULT_QUIET_HOURS,
+  normalizeNotificationPrefs,
+  channelsFor,
+  isQuietTime,
+  minuteOfDay,
+  deliveryPlan,
+  digestText,
+  heldPushNotification,
+};
+/* This file decides how a notification is delivered from the receiver's preferences:
+which channels a type uses, whether the quiet hours hold its push back, whether the
+daily digest takes it, and the text of the digest and of held pushes. */
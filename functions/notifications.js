@@ -0,0 +1,209 @@
+// Import Firestore document trigger (v2)
+const { onDocumentCreated } = require("firebase-functions/v2/firestore");
+
+// Import scheduled function trigger (v2)
+const { onSchedule } = require("firebase-functions/v2/scheduler");
+
+// Shared Admin Firestore instance
+const { db, FieldValue } = require("./admin");
+
+// Expo push sender (pure, unit tested)
+const { pushTokensOf, pushMessages, sendPushMessages } = require("./push");
+
+// Private settings of the receiver: email, push tokens, preferences
+const { privateSettingsRef } = require("./users");
+const { privateSettingsOf } = require("./profiles");
+
+// Receiver preferences (pure, unit tested)
+const {
+  APP_TIME_ZONE,
+  normalizeNotificationPrefs,
+  isQuietTime,
+  minuteOfDay,
+  deliveryPlan,
+  digestText,
+  heldPushNotification,
+} = require("./notification-prefs");
+
+// Emails are queued here and sent by the "Trigger Email from Firestore" extension
+const MAIL_COLLECTION = "mail";
+
+// Notifications waiting for the daily digest: notificationDigests/{uid}.entries
+const DIGEST_COLLECTION = "notificationDigests";
+
+// Pushes held back by quiet hours: heldPushes/{uid}.entries
+const HELD_PUSH_COLLECTION = "heldPushes";
+
+// Private settings of a user (users/{uid}/private/settings, or what an older profile still holds)
+async function settingsOf(uid) {
+  const [userSnap, settingsSnap] = await Promise.all([
+    db.collection("users").doc(uid).get(),
+    privateSettingsRef(uid).get(),
+  ]);
+  return privateSettingsOf(settingsSnap.data(), userSnap.data());
+}
+
+// Pushes to every device of a user; tokens Expo no longer accepts are removed from the settings
+async function pushToUser(uid, settings, notificationId, notification) {
+  const tokens = pushTokensOf(settings);
+  if (tokens.length === 0) return;
+
+  const { invalidTokens } = await sendPushMessages(pushMessages(notificationId, notification, tokens));
+
+  if (invalidTokens.length > 0) {
+    await privateSettingsRef(uid).set({ pushTokens: FieldValue.arrayRemove(...invalidTokens) }, { merge: true });
+  }
+}
+
+// Queues an email to the address saved at sign-up (users without one get none)
+async function emailUser(settings, subject, text) {
+  if (typeof settings.email !== "string" || !settings.email) return;
+
+  await db.collection(MAIL_COLLECTION).add({
+    to: settings.email,
+    message: { subject, text },
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
+
+// Delivers a new notification the way its receiver chose in Settings
+// (notifications are only written by the request workflow functions):
+// push and email now, pushes held until the quiet hours end, or into the daily digest;
+// without in-app delivery the document is removed once it was delivered.
+exports.onNotificationCreated = onDocumentCreated("notifications/{notificationId}", async (event) => {
+  const notification = event.data && event.data.data();
+  if (!notification || !notification.toUserId) return;
+
+  const { notificationId } = event.params;
+  const uid = notification.toUserId;
+  const settings = await settingsOf(uid);
+
+  const plan = deliveryPlan(
+    normalizeNotificationPrefs(settings.notificationPrefs),
+    notification.type,
+    minuteOfDay(new Date()),
+  );
+
+  const work = [];
+
+  if (plan.push) work.push(pushToUser(uid, settings, notificationId, notification));
+  if (plan.email) work.push(emailUser(settings, notification.title, notification.body));
+
+  if (plan.heldPush) {
+    work.push(
+      db
+        .collection(HELD_PUSH_COLLECTION)
+        .doc(uid)
+        .set(
+          {
+            entries: FieldValue.arrayUnion({
+              notificationId,
+              title: notification.title || "",
+              body: notification.body || "",
+              type: notification.type || "",
+              itemId: notification.itemId || "",
+              requestId: notification.requestId || "",
+            }),
+          },
+          { merge: true },
+        ),
+    );
+  }
+
+  if (plan.digestPush || plan.digestEmail) {
+    work.push(
+      db
+        .collection(DIGEST_COLLECTION)
+        .doc(uid)
+        .set(
+          {
+            entries: FieldValue.arrayUnion({
+              notificationId,
+              title: notification.title || "",
+              push: plan.digestPush,
+              email: plan.digestEmail,
+            }),
+          },
+          { merge: true },
+        ),
+    );
+  }
+
+  await Promise.all(work);
+
+  if (!plan.inApp) await event.data.ref.delete();
+});
+
+// Daily digest: one push and/or email per user summarising the notifications held for it
+exports.sendNotificationDigests = onSchedule(
+  { schedule: "every day 09:00", timeZone: APP_TIME_ZONE },
+  async () => {
+    const digests = await db.collection(DIGEST_COLLECTION).get();
+
+    for (const digest of digests.docs) {
+      const entries = Array.isArray(digest.data().entries) ? digest.data().entries : [];
+
+      try {
+        // Left empty by the previous run
+        if (entries.length === 0) {
+          await digest.ref.delete();
+          continue;
+        }
+
+        const settings = await settingsOf(digest.id);
+        const text = digestText(entries);
+
+        if (entries.some((e) => e.push)) {
+          await pushToUser(digest.id, settings, "", { ...text, type: "digest", itemId: "" });
+        }
+        if (entries.some((e) => e.email)) {
+          await emailUser(settings, text.title, text.body);
+        }
+
+        // Entries added while this ran stay for tomorrow
+        await digest.ref.update({ entries: FieldValue.arrayRemove(...entries) });
+      } catch (e) {
+        console.log("Digest error:", digest.id, e);
+      }
+    }
+  },
+);
+
+// Held pushes: every half hour (quiet hours move in 30 minute steps), users whose
+// quiet hours are over get the pushes held for them
+exports.sendHeldPushes = onSchedule(
+  { schedule: "every 30 minutes", timeZone: APP_TIME_ZONE },
+  async () => {
+    const held = await db.collection(HELD_PUSH_COLLECTION).get();
+    const minute = minuteOfDay(new Date());
+
+    for (const doc of held.docs) {
+      const entries = Array.isArray(doc.data().entries) ? doc.data().entries : [];
+
+      try {
+        // Left empty by the previous run
+        if (entries.length === 0) {
+          await doc.ref.delete();
+          continue;
+        }
+
+        const settings = await settingsOf(doc.id);
+        const prefs = normalizeNotificationPrefs(settings.notificationPrefs);
+        if (isQuietTime(minute, prefs.quietHours)) continue;
+
+        const notification = heldPushNotification(entries);
+        await pushToUser(doc.id, settings, notification.notificationId || "", notification);
+
+        // Entries added while this ran wait for the next run
+        await doc.ref.update({ entries: FieldValue.arrayRemove(...entries) });
+      } catch (e) {
+        console.log("Held push error:", doc.id, e);
+      }
+    }
+  },
+);
+
+/* This file delivers notification documents to their receivers as push notifications
+and emails, following each receiver's preferences (channels per type, quiet hours and
+the daily digest). Two scheduled functions send the pushes held back by quiet hours
+once they end, and the daily digest. */
@@ -0,0 +1,63 @@
+// Orphaned Storage files (used by storage-cleanup.js)
+// A file is an orphan when no document points to it:
+// - items/{uid}/{key}.jpg             photo, referenced by items/{id}.images / imageUrl
+// - items/{uid}/thumbs/{key}_{size}   thumbnail, kept while its photo is referenced
+// - avatars/{uid}.jpg                 avatar, referenced by users/{uid}.avatarUrl
+// Files younger than ORPHAN_GRACE_MS are kept: they may belong to a form that is still open.
+
+const { THUMB_SIZES, storagePathFromUrl } = require("./thumbnail-paths");
+
+// Folders the cleanup looks at (anything else is left alone)
+const ORPHAN_PREFIXES = ["items/", "avatars/"];
+
+// Age a file must reach before it can be deleted as an orphan
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const PHOTO_PATH = /^items\/[^/]+\/[^/]+$/;
+const THUMB_PATH = new RegExp(
+  `^items\\/([^/]+)\\/thumbs\\/(.+)_(${Object.keys(THUMB_SIZES).join("|")})\\.jpg$`,
+);
+const AVATAR_PATH = /^avatars\/[^/]+$/;
+
+// Storage paths used by item and user documents
+function referencedPaths(items, users) {
+  const paths = new Set();
+
+  const add = (url) => {
+    const path = storagePathFromUrl(url);
+    if (path) paths.add(path);
+  };
+
+  for (const item of items) {
+    if (Array.isArray(item.images)) item.images.forEach(add);
+    add(item.imageUrl);
+  }
+  for (const user of users) {
+    add(user.avatarUrl);
+  }
+
+  return paths;
+}
+
+// Names of the files to delete; files = [{ name, updated (ms) }]
+function findOrphans(files, referenced, now, graceMs = ORPHAN_GRACE_MS) {
+  return files
+    .filter((file) => {
+      if (!(now - file.updated >= graceMs)) return false;
+
+      const thumb = THUMB_PATH.exec(file.name);
+      if (thumb) return !referenced.has(`items/${thumb[1]}/${thumb[2]}.jpg`);
+
+      if (PHOTO_PATH.test(file.name) || AVATAR_PATH.test(file.name)) {
+        return !referenced.has(file.name);
+      }
+
+      return false;
+    })
+    .map((file) => file.name);
+}
+
+module.exports = { ORPHAN_PREFIXES, ORPHAN_GRACE_MS, referencedPaths, findOrphans };
+/* This file decides which Storage files no document references any more:
+photos no item uses, thumbnails of such photos and avatars no profile uses,
+once they are older than the grace period. */
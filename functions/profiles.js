@@ -0,0 +1,73 @@
+// User profile documents (users/{uid}) for new sign-in accounts (used by users.js)
+// Every provider gets the same fields: sign-up.tsx writes the same ones with the typed name.
+// - name:      Google display name, else the start of the email, else DEFAULT_PROFILE_NAME
+//              (phone numbers are never used: profiles are visible to every signed-in user)
+// - avatarUrl: the Google photo, until the user uploads their own
+// users/{uid} is readable by every signed-in user, so the private fields live in
+// users/{uid}/private/settings (only the user and the Cloud Functions read it):
+// - email:             where notification emails go (absent for phone sign-ins)
+// - pushTokens:        Expo push tokens of the user's devices (lib/push.ts)
+// - notificationPrefs: channels, quiet hours and digest (lib/notification-prefs.ts)
+
+// Name of accounts that come without one (phone sign-ins)
+const DEFAULT_PROFILE_NAME = "JoDonate user";
+
+// Longest name taken from a provider
+const MAX_PROFILE_NAME = 60;
+
+// Fields of users/{uid}/private/settings (MUST match hasPrivateFields in firestore.rules)
+const PRIVATE_FIELDS = ["email", "pushTokens", "notificationPrefs"];
+
+function profileName(user) {
+  const displayName = typeof user.displayName === "string" ? user.displayName.trim() : "";
+  if (displayName) return displayName.slice(0, MAX_PROFILE_NAME);
+
+  const local = typeof user.email === "string" ? user.email.split("@")[0].trim() : "";
+  if (local) return local.slice(0, MAX_PROFILE_NAME);
+
+  return DEFAULT_PROFILE_NAME;
+}
+
+// Profile fields for an Auth user record ({ uid, email, displayName, photoURL, ... })
+function profileFromAuthUser(user) {
+  const profile = { name: profileName(user) };
+
+  if (typeof user.photoURL === "string" && user.photoURL.startsWith("https://")) {
+    profile.avatarUrl = user.photoURL;
+  }
+
+  return profile;
+}
+
+// Private settings of a new account: the email notifications go to
+function privateSettingsFromAuthUser(user) {
+  return typeof user.email === "string" && user.email ? { email: user.email } : {};
+}
+
+// The private fields present on a document (older profiles kept them on users/{uid})
+function privateFieldsOf(data) {
+  const fields = {};
+  for (const key of PRIVATE_FIELDS) {
+    if (data && data[key] != null) fields[key] = data[key];
+  }
+  return fields;
+}
+
+// Private settings of a user: users/{uid}/private/settings, completed by the fields an older
+// profile still holds until onUserWrittenMovePrivateFields moved them
+function privateSettingsOf(settings, profile) {
+  return { ...privateFieldsOf(profile), ...privateFieldsOf(settings) };
+}
+
+module.exports = {
+  DEFAULT_PROFILE_NAME,
+  MAX_PROFILE_NAME,
+  PRIVATE_FIELDS,
+  profileName,
+  profileFromAuthUser,
+  privateSettingsFromAuthUser,
+  privateFieldsOf,
+  privateSettingsOf,
+};
+/* This file builds the profile document of a new account from its Auth user record
+and tells the public profile fields from the private settings. */
@@ -0,0 +1,95 @@
+// Expo push sender (used by notifications.js)
+// Each new notifications/{id} document becomes one push per device of its receiver
+// (unless the receiver's preferences hold it back, see notification-prefs.js).
+// Devices are the Expo push tokens stored in users/{uid}/private/settings.pushTokens by the app (lib/push.ts).
+// The endpoint and fetch are parameters so the unit tests can point them at a local stub.
+
+// Expo push service
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+// Most messages Expo accepts in one request
+const MAX_PUSH_BATCH = 100;
+
+// Android channel created by the app (MUST match PUSH_CHANNEL_ID in lib/push.ts)
+const PUSH_CHANNEL_ID = "default";
+
+const TOKEN_PATTERN = /^(ExponentPushToken|ExpoPushToken)\[[^\]]+\]$/;
+
+function isExpoPushToken(token) {
+  return typeof token === "string" && TOKEN_PATTERN.test(token);
+}
+
+// Valid, unique tokens of a user's private settings
+function pushTokensOf(settings) {
+  const tokens = settings && Array.isArray(settings.pushTokens) ? settings.pushTokens : [];
+  return Array.from(new Set(tokens.filter(isExpoPushToken)));
+}
+
+// One message per token; `data` is what the app reads when the push is tapped
+// (MUST match NotificationLinkData in lib/notification-links.ts)
+function pushMessages(notificationId, notification, tokens) {
+  return tokens.map((to) => ({
+    to,
+    title: notification.title || "JoDonate",
+    body: notification.body || "",
+    sound: "default",
+    channelId: PUSH_CHANNEL_ID,
+    data: {
+      notificationId,
+      type: notification.type || "",
+      itemId: notification.itemId || "",
+      requestId: notification.requestId || "",
+    },
+  }));
+}
+
+// Sends messages in batches; returns how many were accepted and the tokens
+// Expo reports as no longer registered (app uninstalled, permission revoked)
+async function sendPushMessages(messages, { endpoint = EXPO_PUSH_URL, fetchImpl = fetch } = {}) {
+  let sent = 0;
+  const invalidTokens = [];
+
+  for (let i = 0; i < messages.length; i += MAX_PUSH_BATCH) {
+    const batch = messages.slice(i, i + MAX_PUSH_BATCH);
+
+    const response = await fetchImpl(endpoint, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Accept-Encoding": "gzip, deflate",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(batch),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Expo push request failed with status ${response.status}`);
+    }
+
+    // One ticket per message, in the same order
+    const { data: tickets = [] } = await response.json();
+
+    tickets.forEach((ticket, index) => {
+      if (ticket && ticket.status === "ok") {
+        sent += 1;
+      } else if (ticket && ticket.details && ticket.details.error === "DeviceNotRegistered") {
+        invalidTokens.push(batch[index].to);
+      }
+    });
+  }
+
+  return { sent, invalidTokens };
+}
+
+module.exports = {
+  EXPO_PUSH_URL,
+  MAX_PUSH_BATCH,
+  PUSH_CHANNEL_ID,
+  isExpoPushToken,
+  pushTokensOf,
+  pushMessages,
+  sendPushMessages,
+};
+/* This file builds and sends Expo push messages for notification documents:
+one message per valid device token, sent in batches, reporting the tokens
+Expo no longer accepts so they can be removed. */
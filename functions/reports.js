@@ -0,0 +1,88 @@
+// Report + moderation rules (used by moderation.js; MUST match lib/moderation.ts in the app)
+// Users report an item, a request or a user: reports/{targetType}_{targetId}_{reporterId}
+// (one report per user per target). Admins (custom claim admin == true) resolve open
+// reports by hiding the item, suspending the reported user or dismissing the report.
+
+// What can be reported
+const REPORT_TARGETS = ["item", "request", "user"];
+
+// Why it is reported
+const REPORT_REASONS = ["scam", "offensive", "harassment", "spam", "other"];
+
+// Longest optional explanation
+const MAX_REPORT_DETAILS = 500;
+
+// How an admin resolves a report
+const REPORT_ACTIONS = ["hide_item", "suspend_user", "dismiss"];
+
+function reportDocId(targetType, targetId, reporterId) {
+  return `${targetType}_${targetId}_${reporterId}`;
+}
+
+// { targetType, targetId, reason, details } of the call data, or null when invalid
+function parseReport(data) {
+  if (!data || !REPORT_TARGETS.includes(data.targetType) || !REPORT_REASONS.includes(data.reason)) {
+    return null;
+  }
+  if (typeof data.targetId !== "string" || !data.targetId || data.targetId.includes("/")) return null;
+
+  const raw = data.details == null ? "" : data.details;
+  if (typeof raw !== "string") return null;
+
+  const details = raw.trim();
+  if (details.length > MAX_REPORT_DETAILS) return null;
+
+  return { targetType: data.targetType, targetId: data.targetId, reason: data.reason, details };
+}
+
+// Who a report is about, or null when the reporter cannot report this target
+// item: its owner; request: the other participant (only participants report a request);
+// user: the user. Nobody reports themselves.
+function reportedUserId(targetType, targetId, target, reporterId) {
+  let uid = null;
+
+  if (targetType === "item") uid = target.ownerId;
+  if (targetType === "user") uid = targetId;
+  if (targetType === "request") {
+    if (reporterId === target.itemOwnerId) uid = target.requesterId;
+    if (reporterId === target.requesterId) uid = target.itemOwnerId;
+  }
+
+  return uid && uid !== reporterId ? uid : null;
+}
+
+// Item a report points to (items are reported directly, requests through their item)
+function reportedItemId(targetType, targetId, target) {
+  if (targetType === "item") return targetId;
+  if (targetType === "request") return target.itemId || null;
+  return null;
+}
+
+// True when the caller's ID token has the admin custom claim
+function isAdmin(token) {
+  return Boolean(token && token.admin === true);
+}
+
+// True when the action applies to the report (hiding needs an item report, suspending a user)
+// A request report also names an item: the one of the owner who reported, which stays listed
+function canApplyAction(action, report) {
+  if (action === "hide_item") return report.targetType === "item" && Boolean(report.itemId);
+  if (action === "suspend_user") return Boolean(report.targetUserId);
+  return action === "dismiss";
+}
+
+module.exports = {
+  REPORT_TARGETS,
+  REPORT_REASONS,
+  MAX_REPORT_DETAILS,
+  REPORT_ACTIONS,
+  reportDocId,
+  parseReport,
+  reportedUserId,
+  reportedItemId,
+  isAdmin,
+  canApplyAction,
+};
+/* This file contains the rules of user reports and how admins resolve them:
+what can be reported and why, who and which item a report is about,
+and which admin actions apply to it. */
@@ -0,0 +1,535 @@
+// Import Firebase Functions v2 callable HTTPS function helper
+const { onCall, HttpsError } = require("firebase-functions/v2/https");
+
+// Import Firestore document trigger (v2)
+const { onDocumentDeleted } = require("firebase-functions/v2/firestore");
+
+// Shared Admin Firestore instance
+const { db, FieldValue } = require("./admin");
+
+// Lifecycle rules (same transitions as lib/rules.ts in the app)
+const {
+  assertItemTransition,
+  assertRequestTransition,
+  canRequestItem,
+  toItemStatus,
+  toRequestStatus,
+} = require("./rules");
+
+// Post-donation reviews (pure, unit tested)
+const { addRating, canReview, parseReview, reviewDocId, reviewerRole } = require("./reviews");
+
+// ---------- Helpers ----------
+
+// Returns the caller uid or rejects unauthenticated calls
+function requireAuth(request) {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please sign in first.");
+  }
+  return request.auth.uid;
+}
+
+// Reads a required string argument from the call data
+function requireString(request, key) {
+  const value = (request.data || {})[key];
+  if (!value || typeof value !== "string") {
+    throw new HttpsError("invalid-argument", `Missing or invalid ${key}`);
+  }
+  return value;
+}
+
+// Reads a document inside the transaction and fails with "not-found" if missing
+async function getOrThrow(tx, ref, label) {
+  const snap = await tx.get(ref);
+  if (!snap.exists) {
+    throw new HttpsError("not-found", `${label} not found.`);
+  }
+  return snap.data();
+}
+
+// Adds a notification write to the transaction
+// (requestId lets the app open the request's chat, see lib/notification-links.ts)
+function notify(tx, { toUserId, fromUserId, title, body, type, itemId, requestId }) {
+  tx.set(db.collection("notifications").doc(), {
+    toUserId,
+    fromUserId,
+    title,
+    body,
+    type,
+    itemId,
+    requestId,
+    read: false,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
+
+// Reads the other requests for an item that are in one of the given statuses
+// (must run before any write in the transaction)
+async function otherRequests(tx, itemId, requestId, statuses) {
+  const snap = await tx.get(
+    db.collection("requests").where("itemId", "==", itemId).where("status", "in", statuses)
+  );
+  return snap.docs.filter((d) => d.id !== requestId);
+}
+
+// users/{ownerId}/blocked/{uid}: the owner blocked uid
+function blockRef(ownerId, uid) {
+  return db.collection("users").doc(ownerId).collection("blocked").doc(uid);
+}
+
+// Title used in notification texts
+function titleOf(item) {
+  return item.title || "an item";
+}
+
+// ---------- Callable functions ----------
+
+// Requester asks for an item that is available or already has a queue of pending requests
+// Creates requests/{itemId}_{uid} (pending), marks the item requested, notifies the owner
+exports.requestItem = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const itemId = requireString(request, "itemId");
+
+  const itemRef = db.collection("items").doc(itemId);
+  const requestRef = db.collection("requests").doc(`${itemId}_${uid}`);
+
+  await db.runTransaction(async (tx) => {
+    const item = await getOrThrow(tx, itemRef, "Item");
+    const existing = await tx.get(requestRef);
+    const blocked = await tx.get(blockRef(item.ownerId, uid));
+
+    if (item.ownerId === uid) {
+      throw new HttpsError("permission-denied", "You cannot request your own item.");
+    }
+
+    // Owners who blocked the caller get no more requests from them (see moderation.js)
+    if (blocked.exists) {
+      throw new HttpsError("permission-denied", "You cannot request this item.");
+    }
+
+    // Only a cancelled request can be replaced by a new one
+    if (existing.exists && toRequestStatus(existing.data().status) !== "cancelled") {
+      throw new HttpsError("already-exists", "You already requested this item.");
+    }
+
+    // Items hidden by a moderator cannot be requested either
+    if (!canRequestItem(item.status) || item.hidden === true) {
+      throw new HttpsError("failed-precondition", "This item is not available.");
+    }
+
+    tx.set(requestRef, {
+      itemId,
+      itemOwnerId: item.ownerId,
+      requesterId: uid,
+      status: "pending",
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    // First request in the queue marks the item as requested
+    if (toItemStatus(item.status) === "available") {
+      tx.update(itemRef, { status: "requested" });
+    }
+
+    notify(tx, {
+      toUserId: item.ownerId,
+      fromUserId: uid,
+      title: "New request received",
+      body: "Someone requested your item.",
+      type: "request_received",
+      itemId,
+      requestId: requestRef.id,
+    });
+  });
+
+  return { status: "pending" };
+});
+
+// Loads request + item for an owner decision and checks the caller owns the item
+async function loadForOwner(tx, uid, requestId) {
+  const requestRef = db.collection("requests").doc(requestId);
+  const req = await getOrThrow(tx, requestRef, "Request");
+
+  const itemRef = db.collection("items").doc(req.itemId);
+  const item = await getOrThrow(tx, itemRef, "Item");
+
+  if (item.ownerId !== uid) {
+    throw new HttpsError("permission-denied", "You are not the owner of this item.");
+  }
+
+  return { requestRef, req, itemRef, item };
+}
+
+// Makes a requested item available again when its queue of pending requests is empty
+// (accepted items stay promised to the approved requester)
+function releaseIfQueueEmpty(tx, itemRef, item, queue) {
+  if (toItemStatus(item.status) !== "requested" || queue.length > 0) return;
+
+  assertItemTransition(item.status, "available");
+  tx.update(itemRef, { status: "available" });
+}
+
+// Frees an accepted item after its approval was cancelled or revoked
+// Waitlisted requests go back to the owner's queue (item "requested"), otherwise the item is available
+function reopenItem(tx, itemRef, item, waitlist) {
+  const next = waitlist.length > 0 ? "requested" : "available";
+
+  assertItemTransition(item.status, next);
+  tx.update(itemRef, { status: next });
+
+  for (const other of waitlist) {
+    tx.update(other.ref, { status: "pending" });
+
+    notify(tx, {
+      toUserId: other.data().requesterId,
+      fromUserId: item.ownerId,
+      title: "Back in the queue",
+      body: `"${titleOf(item)}" is available again and your request is back in the queue.`,
+      type: "request_reopened",
+      itemId: itemRef.id,
+      requestId: other.id,
+    });
+  }
+}
+
+// Item owner approves a pending request -> item accepted, chat opened, requester notified
+// The other pending requests move to the waitlist and their requesters are told
+exports.approveRequest = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const requestId = requireString(request, "requestId");
+
+  await db.runTransaction(async (tx) => {
+    const { requestRef, req, itemRef, item } = await loadForOwner(tx, uid, requestId);
+    const queue = await otherRequests(tx, req.itemId, requestId, ["pending"]);
+    const conversationRef = db.collection("conversations").doc(requestId);
+    const conversation = await tx.get(conversationRef);
+
+    assertRequestTransition(req.status, "approved");
+    assertItemTransition(item.status, "accepted");
+
+    tx.update(requestRef, { status: "approved" });
+    tx.update(itemRef, { status: "accepted" });
+
+    // The chat of the request is ready when the requester opens the notification
+    // (same fields as ensureConversation in lib/chat.ts)
+    if (!conversation.exists) {
+      tx.set(conversationRef, {
+        requestId,
+        itemId: req.itemId,
+        itemTitle: titleOf(item),
+        itemOwnerId: req.itemOwnerId,
+        requesterId: req.requesterId,
+        participants: [req.itemOwnerId, req.requesterId],
+        lastMessage: "",
+        lastSenderId: "",
+        lastMessageAt: FieldValue.serverTimestamp(),
+        unread: { [req.itemOwnerId]: 0, [req.requesterId]: 0 },
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    for (const other of queue) {
+      tx.update(other.ref, { status: "waitlisted" });
+
+      notify(tx, {
+        toUserId: other.data().requesterId,
+        fromUserId: uid,
+        title: "Request waitlisted",
+        body: `"${titleOf(item)}" was promised to someone else. You're on the waitlist if it falls through.`,
+        type: "request_waitlisted",
+        itemId: req.itemId,
+        requestId: other.id,
+      });
+    }
+
+    notify(tx, {
+      toUserId: req.requesterId,
+      fromUserId: uid,
+      title: "Request approved",
+      body: `Your request for "${titleOf(item)}" was approved.`,
+      type: "request_approved",
+      itemId: req.itemId,
+      requestId,
+    });
+  });
+
+  return { status: "approved" };
+});
+
+// Rejects a request on uid's item inside the transaction (also used when the owner blocks
+// the requester, see moderation.js)
+async function rejectAsOwner(tx, uid, requestId) {
+  const { requestRef, req, itemRef, item } = await loadForOwner(tx, uid, requestId);
+  const queue = await otherRequests(tx, req.itemId, requestId, ["pending"]);
+
+  assertRequestTransition(req.status, "rejected");
+
+  tx.update(requestRef, { status: "rejected" });
+  releaseIfQueueEmpty(tx, itemRef, item, queue);
+
+  notify(tx, {
+    toUserId: req.requesterId,
+    fromUserId: uid,
+    title: "Request rejected",
+    body: `Your request for "${titleOf(item)}" was rejected.`,
+    type: "request_rejected",
+    itemId: req.itemId,
+    requestId,
+  });
+}
+
+// Item owner rejects a pending (or waitlisted) request -> requester notified
+// The item becomes available again once no other request is pending
+exports.rejectRequest = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const requestId = requireString(request, "requestId");
+
+  await db.runTransaction((tx) => rejectAsOwner(tx, uid, requestId));
+
+  return { status: "rejected" };
+});
+
+exports.rejectAsOwner = rejectAsOwner;
+
+// Cancels a request of uid inside the transaction (also used when an account is deleted, see account.js)
+async function cancelOwnRequest(tx, uid, requestId) {
+  const requestRef = db.collection("requests").doc(requestId);
+  const req = await getOrThrow(tx, requestRef, "Request");
+
+  if (req.requesterId !== uid) {
+    throw new HttpsError("permission-denied", "You can only cancel your own requests.");
+  }
+
+  // The item may already be deleted: the request is then just closed, nobody to notify
+  const itemRef = db.collection("items").doc(req.itemId);
+  const itemSnap = await tx.get(itemRef);
+
+  if (!itemSnap.exists) {
+    assertRequestTransition(req.status, "cancelled");
+    tx.update(requestRef, { status: "cancelled" });
+    return;
+  }
+
+  const item = itemSnap.data();
+  const queue = await otherRequests(tx, req.itemId, requestId, ["pending"]);
+  const waitlist = await otherRequests(tx, req.itemId, requestId, ["waitlisted"]);
+
+  assertRequestTransition(req.status, "cancelled");
+
+  tx.update(requestRef, { status: "cancelled" });
+
+  if (toRequestStatus(req.status) === "approved") {
+    reopenItem(tx, itemRef, item, waitlist);
+  } else {
+    releaseIfQueueEmpty(tx, itemRef, item, queue);
+  }
+
+  notify(tx, {
+    toUserId: req.itemOwnerId,
+    fromUserId: uid,
+    title: "Request cancelled",
+    body: `A request for "${titleOf(item)}" was cancelled.`,
+    type: "request_cancelled",
+    itemId: req.itemId,
+    requestId,
+  });
+}
+
+// Requester withdraws their pending, waitlisted or approved request -> owner notified
+// The item becomes available again once no other request is pending;
+// backing out of an approval hands the item back to the waitlist
+exports.cancelRequest = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const requestId = requireString(request, "requestId");
+
+  await db.runTransaction((tx) => cancelOwnRequest(tx, uid, requestId));
+
+  return { status: "cancelled" };
+});
+
+exports.cancelOwnRequest = cancelOwnRequest;
+
+// Item owner takes back an approval (e.g. the requester stopped replying)
+// -> request revoked, item back to available (or to the waitlist), requester notified
+exports.revokeRequest = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const requestId = requireString(request, "requestId");
+
+  await db.runTransaction(async (tx) => {
+    const { requestRef, req, itemRef, item } = await loadForOwner(tx, uid, requestId);
+    const waitlist = await otherRequests(tx, req.itemId, requestId, ["waitlisted"]);
+
+    assertRequestTransition(req.status, "revoked");
+
+    tx.update(requestRef, { status: "revoked" });
+    reopenItem(tx, itemRef, item, waitlist);
+
+    notify(tx, {
+      toUserId: req.requesterId,
+      fromUserId: uid,
+      title: "Approval revoked",
+      body: `The owner of "${titleOf(item)}" took back their approval.`,
+      type: "request_revoked",
+      itemId: req.itemId,
+      requestId,
+    });
+  });
+
+  return { status: "revoked" };
+});
+
+// Item owner confirms the handover -> item donated, approved requester notified
+// Requests still waiting on the waitlist are rejected
+// Returns the approved request's id (null when there was none) so the owner can rate the recipient
+exports.markDonated = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const itemId = requireString(request, "itemId");
+
+  return db.runTransaction(async (tx) => {
+    const itemRef = db.collection("items").doc(itemId);
+    const item = await getOrThrow(tx, itemRef, "Item");
+
+    if (item.ownerId !== uid) {
+      throw new HttpsError("permission-denied", "You are not the owner of this item.");
+    }
+
+    // The approved request tells us who received the item
+    const approved = await tx.get(
+      db
+        .collection("requests")
+        .where("itemId", "==", itemId)
+        .where("status", "==", "approved")
+        .limit(1)
+    );
+    const waitlist = await otherRequests(tx, itemId, null, ["pending", "waitlisted"]);
+
+    assertItemTransition(item.status, "donated");
+
+    // donatedAt orders the donation history on the public profile (user/[uid].tsx)
+    tx.update(itemRef, { status: "donated", donatedAt: FieldValue.serverTimestamp() });
+
+    for (const other of waitlist) {
+      tx.update(other.ref, { status: "rejected" });
+
+      notify(tx, {
+        toUserId: other.data().requesterId,
+        fromUserId: uid,
+        title: "Request rejected",
+        body: `"${titleOf(item)}" was donated to someone else.`,
+        type: "request_rejected",
+        itemId,
+        requestId: other.id,
+      });
+    }
+
+    if (!approved.empty) {
+      notify(tx, {
+        toUserId: approved.docs[0].data().requesterId,
+        fromUserId: uid,
+        title: "Donation completed",
+        body: `"${titleOf(item)}" was marked as donated. Enjoy!`,
+        type: "item_donated",
+        itemId,
+        requestId: approved.docs[0].id,
+      });
+    }
+
+    return { status: "donated", requestId: approved.empty ? null : approved.docs[0].id };
+  });
+});
+
+// Donor or recipient rates the other side of a donated request (1-5 stars + optional text)
+// Creates reviews/{requestId}_{uid} once, updates the reviewee's rating summary on users/{uid},
+// records the rating on the request (so request cards know it was done) and notifies the reviewee
+exports.submitReview = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const requestId = requireString(request, "requestId");
+
+  const review = parseReview(request.data);
+  if (!review) {
+    throw new HttpsError("invalid-argument", "Please pick 1 to 5 stars and keep the review short.");
+  }
+
+  await db.runTransaction(async (tx) => {
+    const reqRef = db.collection("requests").doc(requestId);
+    const req = await getOrThrow(tx, reqRef, "Request");
+
+    const role = reviewerRole(req, uid);
+    if (!role) {
+      throw new HttpsError("permission-denied", "Only the donor and the recipient can review.");
+    }
+
+    const item = await getOrThrow(tx, db.collection("items").doc(req.itemId), "Item");
+    if (!canReview(req.status, item.status)) {
+      throw new HttpsError("failed-precondition", "You can leave a review once the item is donated.");
+    }
+
+    const reviewRef = db.collection("reviews").doc(reviewDocId(requestId, uid));
+    if ((await tx.get(reviewRef)).exists) {
+      throw new HttpsError("already-exists", "You already reviewed this donation.");
+    }
+
+    const revieweeId = role === "donor" ? req.requesterId : req.itemOwnerId;
+    const revieweeRef = db.collection("users").doc(revieweeId);
+    const reviewee = await tx.get(revieweeRef);
+
+    tx.set(reviewRef, {
+      requestId,
+      itemId: req.itemId,
+      reviewerId: uid,
+      revieweeId,
+      reviewerRole: role,
+      rating: review.rating,
+      text: review.text,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    tx.set(revieweeRef, addRating(reviewee.data(), review.rating), { merge: true });
+    tx.update(reqRef, { [`ratings.${uid}`]: review.rating });
+
+    notify(tx, {
+      toUserId: revieweeId,
+      fromUserId: uid,
+      title: "New review",
+      body: `You got ${review.rating} of 5 stars for "${titleOf(item)}".`,
+      type: "review_received",
+      itemId: req.itemId,
+      requestId,
+    });
+  });
+
+  return { status: "reviewed" };
+});
+// ---------- Triggers ----------
+
+// Item deleted (by its owner or from the admin console) -> its open requests are closed
+// and the requesters notified: pending/waitlisted ones rejected, the approved one revoked
+exports.onItemDeletedCloseRequests = onDocumentDeleted("items/{itemId}", async (event) => {
+  const item = event.data ? event.data.data() : {};
+  const { itemId } = event.params;
+
+  await db.runTransaction(async (tx) => {
+    const open = await otherRequests(tx, itemId, null, ["pending", "waitlisted", "approved"]);
+
+    for (const other of open) {
+      const req = other.data();
+      const status = toRequestStatus(req.status) === "approved" ? "revoked" : "rejected";
+
+      tx.update(other.ref, { status });
+
+      notify(tx, {
+        toUserId: req.requesterId,
+        fromUserId: req.itemOwnerId,
+        title: status === "revoked" ? "Approval revoked" : "Request rejected",
+        body: `"${titleOf(item)}" was removed and is no longer available.`,
+        type: `request_${status}`,
+        itemId,
+        requestId: other.id,
+      });
+    }
+  });
+});
+/* This file contains the Cloud Functions for the request workflow: the callables from the
+first request to the reviews after the donation, and the trigger that closes the requests of
+a deleted item.
+Each callable checks the caller with request.auth, enforces the lifecycle transitions
+inside a Firestore transaction, and writes the matching notification. */
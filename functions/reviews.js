@@ -0,0 +1,73 @@
+// Review rules (used by submitReview in requests.js; MUST match lib/reviews.ts in the app)
+// Once an item is donated, the donor and the recipient of the approved request can each
+// rate the other once: reviews/{requestId}_{reviewerId}. The reviewee's users/{uid} doc
+// keeps ratingCount, ratingSum and ratingAverage, which profiles and request cards show.
+
+const { toItemStatus, toRequestStatus } = require("./rules");
+
+const MIN_RATING = 1;
+const MAX_RATING = 5;
+
+// Longest review text
+const MAX_REVIEW_TEXT = 500;
+
+// One review per side of a request
+function reviewDocId(requestId, reviewerId) {
+  return `${requestId}_${reviewerId}`;
+}
+
+// "donor" / "recipient" for the two participants of a request, null for anyone else
+function reviewerRole(request, uid) {
+  if (uid && uid === request.itemOwnerId) return "donor";
+  if (uid && uid === request.requesterId) return "recipient";
+  return null;
+}
+
+// Reviews open once the approved request's item was handed over
+function canReview(requestStatus, itemStatus) {
+  return toRequestStatus(requestStatus) === "approved" && toItemStatus(itemStatus) === "donated";
+}
+
+// { rating, text } of the call data, or null when invalid
+function parseReview(data) {
+  const rating = data && data.rating;
+  if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) return null;
+
+  const raw = data.text == null ? "" : data.text;
+  if (typeof raw !== "string") return null;
+
+  const text = raw.trim();
+  if (text.length > MAX_REVIEW_TEXT) return null;
+
+  return { rating, text };
+}
+
+// Rating fields of the reviewee after one more review
+// (the average is rounded to 2 decimals; the sum keeps it exact over time)
+function addRating(user, rating) {
+  const count = Number.isInteger(user && user.ratingCount) ? user.ratingCount : 0;
+  const sum = typeof (user && user.ratingSum) === "number" ? user.ratingSum : 0;
+
+  const ratingCount = count + 1;
+  const ratingSum = sum + rating;
+
+  return {
+    ratingCount,
+    ratingSum,
+    ratingAverage: Math.round((ratingSum / ratingCount) * 100) / 100,
+  };
+}
+
+module.exports = {
+  MIN_RATING,
+  MAX_RATING,
+  MAX_REVIEW_TEXT,
+  reviewDocId,
+  reviewerRole,
+  canReview,
+  parseReview,
+  addRating,
+};
+/* This file contains the rules of post-donation reviews and the rating summary:
+who may review whom and when, what a valid review is, and how one more rating
+changes the reviewee's count, sum and average. */
@@ -0,0 +1,92 @@
+// Role + admin console rules (used by admin-console.js; MUST match lib/roles.ts in the app)
+// Roles are Firebase Auth custom claims ({ admin: true }) set by the setUserRole function;
+// users/{uid}.roles mirrors them so the admin console can show them.
+// Admins can also edit, re-categorize, hide or remove any listing.
+
+// Roles an admin can grant or revoke
+const ROLES = ["admin"];
+
+// Item categories (MUST match the app categories and isValidCategory in firestore.rules)
+const ITEM_CATEGORIES = ["Books", "Furniture", "Clothes", "Electronics", "Accessories", "Plants"];
+
+// { userId, role, granted } of the call data, or null when invalid
+function parseRoleChange(data) {
+  if (!data || typeof data.userId !== "string" || !data.userId || data.userId.includes("/")) return null;
+  if (!ROLES.includes(data.role) || typeof data.granted !== "boolean") return null;
+
+  return { userId: data.userId, role: data.role, granted: data.granted };
+}
+
+// Custom claims after granting or revoking a role (other claims are kept)
+function claimsWithRole(claims, role, granted) {
+  const next = { ...(claims || {}) };
+  if (granted) {
+    next[role] = true;
+  } else {
+    delete next[role];
+  }
+  return next;
+}
+
+// Saves the new claims with the Admin Auth instance `auth` (a parameter so the unit tests
+// can pass a stub). Revoking a role also revokes the user's refresh tokens: their app can
+// no longer get a new ID token, so the old claim ends with the current token instead of
+// being renewed until the next sign-in.
+async function saveRoleClaims(auth, userId, claims, granted) {
+  await auth.setCustomUserClaims(userId, claims);
+  if (!granted) await auth.revokeRefreshTokens(userId);
+}
+
+// Roles held in a custom claims object, in ROLES order
+function rolesOf(claims) {
+  return ROLES.filter((role) => Boolean(claims && claims[role] === true));
+}
+
+// Fields of an admin listing edit, or null when invalid or empty
+// title/description: non-empty text; category: one of ITEM_CATEGORIES; hidden: moderator flag
+// (missing or null fields are left as they are)
+function parseItemEdit(data) {
+  if (!data) return null;
+  const changes = {};
+
+  for (const key of ["title", "description"]) {
+    if (data[key] == null) continue;
+    if (typeof data[key] !== "string" || !data[key].trim()) return null;
+    changes[key] = data[key].trim();
+  }
+
+  if (data.category != null) {
+    if (!ITEM_CATEGORIES.includes(data.category)) return null;
+    changes.category = data.category;
+  }
+
+  if (data.hidden != null) {
+    if (typeof data.hidden !== "boolean") return null;
+    changes.hidden = data.hidden;
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// How the lookup text finds an Auth user: an email, a phone number (+962...) or a uid
+function lookupKind(text) {
+  const value = typeof text === "string" ? text.trim() : "";
+  if (!value || value.includes("/")) return null;
+  if (value.includes("@")) return "email";
+  if (/^\+[0-9]{8,15}$/.test(value)) return "phone";
+  return "uid";
+}
+
+module.exports = {
+  ROLES,
+  ITEM_CATEGORIES,
+  parseRoleChange,
+  claimsWithRole,
+  saveRoleClaims,
+  rolesOf,
+  parseItemEdit,
+  lookupKind,
+};
+/* This file contains the rules of roles and of the admin console's listing edits:
+granting or revoking a role in the custom claims (a revoke also ends the user's sessions), the fields an admin may change
+on any listing, and how the user lookup reads its search text. */
@@ -0,0 +1,89 @@
+// Import callable error type so rule violations reach the app as readable errors
+const { HttpsError } = require("firebase-functions/v2/https");
+
+// Item + request lifecycle (MUST match lib/rules.ts in the app)
+// Item:    available → requested → accepted → donated
+//                      requested → available (last pending request rejected / cancelled)
+//                                  accepted → available | requested (approval cancelled / revoked;
+//                                             "requested" when the waitlist goes back to pending)
+// Request: pending → approved | rejected | cancelled | waitlisted
+//          approved → cancelled (requester backed out) | revoked (owner took it back)
+//          waitlisted → pending (approved requester backed out) | rejected | cancelled
+const ITEM_TRANSITIONS = {
+  available: ["requested"],
+  requested: ["accepted", "available"],
+  accepted: ["donated", "available", "requested"],
+  donated: [],
+};
+
+const REQUEST_TRANSITIONS = {
+  pending: ["approved", "rejected", "cancelled", "waitlisted"],
+  approved: ["cancelled", "revoked"],
+  rejected: [],
+  cancelled: [],
+  waitlisted: ["pending", "rejected", "cancelled"],
+  revoked: [],
+};
+
+// Item statuses that still accept new requests
+const REQUESTABLE_ITEM_STATUSES = ["available", "requested"];
+
+// Items created before statuses existed have no status -> "available"
+function toItemStatus(status) {
+  const s = String(status ?? "").trim().toLowerCase();
+  if (!s) return "available";
+  return s in ITEM_TRANSITIONS ? s : null;
+}
+
+function toRequestStatus(status) {
+  const s = String(status ?? "").trim().toLowerCase();
+  return s in REQUEST_TRANSITIONS ? s : null;
+}
+
+function canTransitionItem(from, to) {
+  const current = toItemStatus(from);
+  return current !== null && ITEM_TRANSITIONS[current].includes(to);
+}
+
+function canTransitionRequest(from, to) {
+  const current = toRequestStatus(from);
+  return current !== null && REQUEST_TRANSITIONS[current].includes(to);
+}
+
+function canRequestItem(status) {
+  return REQUESTABLE_ITEM_STATUSES.includes(toItemStatus(status));
+}
+
+// Throw "failed-precondition" so the app can show why the action was refused
+function assertItemTransition(from, to) {
+  if (!canTransitionItem(from, to)) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Item cannot change from "${from ?? "available"}" to "${to}".`
+    );
+  }
+}
+
+function assertRequestTransition(from, to) {
+  if (!canTransitionRequest(from, to)) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Request cannot change from "${from ?? "unknown"}" to "${to}".`
+    );
+  }
+}
+
+module.exports = {
+  ITEM_TRANSITIONS,
+  REQUEST_TRANSITIONS,
+  REQUESTABLE_ITEM_STATUSES,
+  toItemStatus,
+  toRequestStatus,
+  canTransitionItem,
+  canTransitionRequest,
+  canRequestItem,
+  assertItemTransition,
+  assertRequestTransition,
+};
+/* This file mirrors the app's lifecycle rules (lib/rules.ts) on the server,
+so the callable functions enforce exactly the same status transitions as the screens. */
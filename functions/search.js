@@ -0,0 +1,28 @@
+// Import Firestore document trigger (v2)
+const { onDocumentWritten } = require("firebase-functions/v2/firestore");
+
+// Initializes the Admin SDK (event document refs use it)
+require("./admin");
+
+// Field builders shared with the app (lib/search.ts, lib/item-filters.ts)
+const { searchFieldsUpdate } = require("./keywords");
+
+// Keeps the derived fields of items/{itemId} in sync:
+// - keywords (title, description, category) for the home search
+// - hasImage for the category "has image" filter
+// - hidden: false when missing, so the item matches the list queries
+// Runs on create and on every edit; skips the write when nothing changed,
+// which also stops the trigger from looping on its own update
+// (items saved before this trigger existed are filled in by backfill-search-fields.js)
+exports.onItemWrittenSearchFields = onDocumentWritten("items/{itemId}", async (event) => {
+  const after = event.data && event.data.after;
+  if (!after || !after.exists) return;
+
+  const update = searchFieldsUpdate(after.data());
+  if (!update) return;
+
+  await after.ref.update(update);
+});
+/* This file contains the Firestore trigger that maintains the derived search fields of each item,
+so the home screen search can query keywords with array-contains-any
+and the category list can filter on hasImage. */
@@ -0,0 +1,83 @@
+// Import Firestore document trigger (v2)
+const { onDocumentWritten } = require("firebase-functions/v2/firestore");
+
+// Import scheduled function trigger (v2)
+const { onSchedule } = require("firebase-functions/v2/scheduler");
+
+// Admin Storage: list and delete files
+const { getStorage } = require("firebase-admin/storage");
+
+// Shared Admin Firestore instance
+const { db } = require("./admin");
+
+// Item photo paths (shared with the thumbnail triggers)
+const { ownItemImagePaths } = require("./thumbnail-paths");
+
+// Orphan detection (pure, unit tested)
+const { ORPHAN_PREFIXES, referencedPaths, findOrphans } = require("./orphans");
+
+// Files deleted in parallel by the nightly cleanup
+const DELETE_BATCH = 50;
+
+const photoPath = ({ ownerId, key }) => `items/${ownerId}/${key}.jpg`;
+
+// Deletes files by name (a missing file is not an error)
+async function deleteFiles(bucket, names) {
+  for (let i = 0; i < names.length; i += DELETE_BATCH) {
+    await Promise.all(
+      names.slice(i, i + DELETE_BATCH).map((name) => bucket.file(name).delete({ ignoreNotFound: true })),
+    );
+  }
+}
+
+// Deletes the photos an item stopped using:
+// - photos removed or replaced when the item is saved
+// - every photo when the item is deleted
+// (their thumbnails go with them, see onItemImageDeleted)
+// Only photos in the owner's own folder are deleted, whatever URLs the item holds
+exports.onItemWrittenImageCleanup = onDocumentWritten("items/{itemId}", async (event) => {
+  const before = event.data && event.data.before;
+  const after = event.data && event.data.after;
+  if (!before || !before.exists) return;
+
+  const kept = new Set(after && after.exists ? ownItemImagePaths(after.data()).map(photoPath) : []);
+  const dropped = ownItemImagePaths(before.data())
+    .map(photoPath)
+    .filter((path) => !kept.has(path));
+
+  if (dropped.length === 0) return;
+
+  await deleteFiles(getStorage().bucket(), dropped);
+});
+
+// Nightly backstop: deletes photos, thumbnails and avatars no item or user document references
+// (forms closed by a crash, uploads that finished after the form was left...)
+exports.cleanupOrphanedImages = onSchedule(
+  { schedule: "every day 03:00", timeZone: "Asia/Amman", memory: "512MiB", timeoutSeconds: 540 },
+  async () => {
+    const [items, users] = await Promise.all([
+      db.collection("items").select("images", "imageUrl").get(),
+      db.collection("users").select("avatarUrl").get(),
+    ]);
+
+    const referenced = referencedPaths(
+      items.docs.map((d) => d.data()),
+      users.docs.map((d) => d.data()),
+    );
+
+    const bucket = getStorage().bucket();
+    const files = [];
+    for (const prefix of ORPHAN_PREFIXES) {
+      const [found] = await bucket.getFiles({ prefix });
+      for (const file of found) {
+        const updated = Date.parse(file.metadata.updated || file.metadata.timeCreated || "");
+        files.push({ name: file.name, updated });
+      }
+    }
+
+    await deleteFiles(bucket, findOrphans(files, referenced, Date.now()));
+  },
+);
+/* This file contains the Cloud Functions that remove unused Storage files.
+Photos an item no longer uses are deleted when it is saved or deleted,
+and a nightly job deletes any photo, thumbnail or avatar no document references. */
@@ -0,0 +1,71 @@
+// Item photo thumbnail paths (MUST match lib/thumbnails.ts)
+// Photo:     items/{uid}/{key}.jpg
+// Thumbnail: items/{uid}/thumbs/{key}_{size}.jpg
+
+// Longest side of each thumbnail
+const THUMB_SIZES = { small: 200, medium: 600 };
+
+const ITEM_IMAGE_PATH = /^items\/([^/]+)\/([A-Za-z0-9_-]+)\.jpg$/;
+
+// { ownerId, key } of an item photo path, null for anything else (thumbnails, avatars...)
+function parseItemImagePath(path) {
+  const match = ITEM_IMAGE_PATH.exec(String(path ?? ""));
+  return match ? { ownerId: match[1], key: match[2] } : null;
+}
+
+function thumbPath(ownerId, key, size) {
+  return `items/${ownerId}/thumbs/${key}_${size}.jpg`;
+}
+
+// Storage path of a download URL ("" when it is not one)
+// https://firebasestorage.googleapis.com/v0/b/{bucket}/o/{encoded path}?alt=media&token=...
+function storagePathFromUrl(url) {
+  const encoded = /\/o\/([^?#]+)/.exec(String(url ?? ""));
+  if (!encoded) return "";
+
+  try {
+    return decodeURIComponent(encoded[1]);
+  } catch {
+    return "";
+  }
+}
+
+// Same as imageKeyFromUrl in lib/thumbnails.ts, but returns the whole { ownerId, key }
+function parseItemImageUrl(url) {
+  return parseItemImagePath(storagePathFromUrl(url));
+}
+
+// Photos of an item (gallery, or the single imageUrl of older items)
+function itemImagePaths(item) {
+  const urls = Array.isArray(item.images) && item.images.length > 0 ? item.images : [item.imageUrl];
+
+  const seen = new Set();
+  const out = [];
+  for (const url of urls) {
+    const parsed = parseItemImageUrl(url);
+    if (parsed && !seen.has(parsed.key)) {
+      seen.add(parsed.key);
+      out.push(parsed);
+    }
+  }
+  return out;
+}
+
+// Photos of an item stored in its owner's folder; a URL of another user's photo
+// pasted into the item is skipped, so nothing acting on the item can touch that file
+function ownItemImagePaths(item) {
+  return itemImagePaths(item).filter((p) => p.ownerId === item.ownerId);
+}
+
+module.exports = {
+  THUMB_SIZES,
+  parseItemImagePath,
+  parseItemImageUrl,
+  storagePathFromUrl,
+  thumbPath,
+  itemImagePaths,
+  ownItemImagePaths,
+};
+/* This file maps item photos to their thumbnail files and turns download URLs into
+Storage paths, so the thumbnail and cleanup functions know which files an item uses
+(and which of them are in its owner's folder). */
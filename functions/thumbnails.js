@@ -0,0 +1,144 @@
+// Import Storage object triggers (v2)
+const { onObjectFinalized, onObjectDeleted } = require("firebase-functions/v2/storage");
+
+// Import Firestore document trigger (v2)
+const { onDocumentWritten } = require("firebase-functions/v2/firestore");
+
+// Admin Storage: read photos, write thumbnails, make their download URLs
+const { getStorage, getDownloadURL } = require("firebase-admin/storage");
+
+// Download tokens for the thumbnails
+const { randomUUID } = require("crypto");
+
+// Image resizing
+const sharp = require("sharp");
+
+// Shared Admin Firestore instance
+const { db, FieldValue } = require("./admin");
+
+// Thumbnail paths shared with the app (lib/thumbnails.ts)
+const {
+  THUMB_SIZES,
+  parseItemImagePath,
+  thumbPath,
+  itemImagePaths,
+} = require("./thumbnail-paths");
+
+// JPEG quality of the thumbnails
+const THUMB_QUALITY = 75;
+
+// ---------- Helpers ----------
+
+// Resizes one photo to every thumbnail size and returns { small, medium } download URLs
+async function makeThumbnails(bucket, path, { ownerId, key }) {
+  const [original] = await bucket.file(path).download();
+
+  const thumbs = {};
+  for (const [size, px] of Object.entries(THUMB_SIZES)) {
+    const data = await sharp(original)
+      .rotate() // apply the EXIF orientation
+      .resize(px, px, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: THUMB_QUALITY })
+      .toBuffer();
+
+    const file = bucket.file(thumbPath(ownerId, key, size));
+    await file.save(data, {
+      resumable: false,
+      metadata: {
+        contentType: "image/jpeg",
+        cacheControl: "public, max-age=31536000",
+        metadata: { firebaseStorageDownloadTokens: randomUUID() },
+      },
+    });
+
+    thumbs[size] = await getDownloadURL(file);
+  }
+  return thumbs;
+}
+
+// Download URLs of thumbnails made earlier, or null when they are not all there yet
+async function existingThumbnails(bucket, { ownerId, key }) {
+  const thumbs = {};
+  for (const size of Object.keys(THUMB_SIZES)) {
+    const file = bucket.file(thumbPath(ownerId, key, size));
+    const [exists] = await file.exists();
+    if (!exists) return null;
+
+    thumbs[size] = await getDownloadURL(file);
+  }
+  return thumbs;
+}
+
+// ---------- Triggers ----------
+
+// A photo was uploaded to items/{uid}/{key}.jpg: make its thumbnails.
+// Photos are uploaded while the add/edit form is still open, so the item usually
+// does not use the photo yet; onItemWrittenThumbnails attaches them when it is saved.
+// Thumbnails are written to items/{uid}/thumbs/, which this trigger ignores (no loop).
+exports.onItemImageUploaded = onObjectFinalized({ memory: "512MiB" }, async (event) => {
+  const { name, bucket: bucketName, contentType } = event.data;
+
+  const photo = parseItemImagePath(name);
+  if (!photo || !String(contentType ?? "").startsWith("image/")) return;
+
+  const bucket = getStorage().bucket(bucketName);
+  const thumbs = await makeThumbnails(bucket, name, photo);
+
+  // Items of this owner that already use the photo
+  const snap = await db.collection("items").where("ownerId", "==", photo.ownerId).get();
+  const users = snap.docs.filter((d) => itemImagePaths(d.data()).some((p) => p.key === photo.key));
+  if (users.length === 0) return;
+
+  const batch = db.batch();
+  users.forEach((d) => batch.update(d.ref, { [`thumbs.${photo.key}`]: thumbs }));
+  await batch.commit();
+});
+
+// A photo was deleted: delete its thumbnails too
+exports.onItemImageDeleted = onObjectDeleted(async (event) => {
+  const photo = parseItemImagePath(event.data.name);
+  if (!photo) return;
+
+  const bucket = getStorage().bucket(event.data.bucket);
+  await Promise.all(
+    Object.keys(THUMB_SIZES).map((size) =>
+      bucket.file(thumbPath(photo.ownerId, photo.key, size)).delete({ ignoreNotFound: true }),
+    ),
+  );
+});
+
+// Keeps items/{itemId}.thumbs in sync with the item photos:
+// - attaches thumbnails that were made before the item was saved
+// - drops entries of photos the item no longer uses
+// Skips the write when nothing changed, which also stops the trigger from looping on its own update
+exports.onItemWrittenThumbnails = onDocumentWritten("items/{itemId}", async (event) => {
+  const after = event.data && event.data.after;
+  if (!after || !after.exists) return;
+
+  const item = after.data();
+  const photos = itemImagePaths(item);
+  const current = item.thumbs && typeof item.thumbs === "object" ? item.thumbs : {};
+
+  const updates = {};
+
+  const keys = new Set(photos.map((p) => p.key));
+  for (const key of Object.keys(current)) {
+    if (!keys.has(key)) updates[`thumbs.${key}`] = FieldValue.delete();
+  }
+
+  const bucket = getStorage().bucket();
+  for (const photo of photos) {
+    if (current[photo.key]) continue;
+
+    const thumbs = await existingThumbnails(bucket, photo);
+    if (thumbs) updates[`thumbs.${photo.key}`] = thumbs;
+  }
+
+  if (Object.keys(updates).length === 0) return;
+
+  await after.ref.update(updates);
+});
+/* This file contains the Cloud Functions of the item thumbnail pipeline.
+Each uploaded item photo gets a small and a medium JPEG copy made with sharp,
+their download URLs are stored on the item in `thumbs`, and the copies are
+deleted together with the photo. */
@@ -0,0 +1,65 @@
+// Import the Auth user trigger (v1: v2 only has blocking triggers, which need Identity Platform)
+const functionsV1 = require("firebase-functions/v1");
+
+// Import Firestore document trigger (v2)
+const { onDocumentWritten } = require("firebase-functions/v2/firestore");
+
+// Shared Admin Firestore instance
+const { db, FieldValue } = require("./admin");
+
+// Profile fields of a new account (pure, unit tested)
+const { privateFieldsOf, privateSettingsFromAuthUser, profileFromAuthUser } = require("./profiles");
+
+// users/{uid}/private/settings: email, push tokens and notification preferences
+// (only the user and the Cloud Functions read it)
+function privateSettingsRef(uid) {
+  return db.collection("users").doc(uid).collection("private").doc("settings");
+}
+
+// Creates users/{uid} for every new account, whatever the provider (email, Google, phone)
+// Email sign-ups usually write it first with the typed name (sign-up.tsx); that one is kept
+exports.onAuthUserCreated = functionsV1.auth.user().onCreate(async (user) => {
+  const userRef = db.collection("users").doc(user.uid);
+  const settingsRef = privateSettingsRef(user.uid);
+
+  await db.runTransaction(async (tx) => {
+    const [existing, settings] = await Promise.all([tx.get(userRef), tx.get(settingsRef)]);
+
+    if (!settings.exists) {
+      tx.set(settingsRef, privateSettingsFromAuthUser(user));
+    }
+    if (existing.exists) return;
+
+    tx.set(userRef, {
+      ...profileFromAuthUser(user),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+});
+
+// Older profiles kept the email, push tokens and preferences on users/{uid}, which every
+// signed-in user can read: the next write of such a profile moves them to the private settings
+// (values already in the private settings win)
+exports.onUserWrittenMovePrivateFields = onDocumentWritten("users/{uid}", async (event) => {
+  const after = event.data && event.data.after;
+  if (!after || !after.exists) return;
+
+  const legacy = privateFieldsOf(after.data());
+  const keys = Object.keys(legacy);
+  if (keys.length === 0) return;
+
+  const { uid } = event.params;
+  const settingsRef = privateSettingsRef(uid);
+
+  await db.runTransaction(async (tx) => {
+    const settings = await tx.get(settingsRef);
+
+    tx.set(settingsRef, { ...legacy, ...privateFieldsOf(settings.data()) }, { merge: true });
+    tx.update(after.ref, Object.fromEntries(keys.map((key) => [key, FieldValue.delete()])));
+  });
+});
+
+exports.privateSettingsRef = privateSettingsRef;
+/* This file contains the Cloud Functions of user documents: the profile and private settings
+of each new account, so users who sign in with Google or a phone number get them just like
+email sign-ups, and the move of private fields off older public profiles. */
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+// useState = current block list, useEffect = live listener
+
+import { collection, onSnapshot } from "firebase/firestore";
+
+import { auth, db } from "@/lib/firebase";
+
+const NONE: ReadonlySet<string> = new Set();
+
+// Live set of the uids the signed-in user blocked (users/{uid}/blocked).
+// Lists hide their items (see listedItems in lib/reports.ts).
+export function useBlockedUsers(): ReadonlySet<string> {
+  const uid = auth.currentUser?.uid;
+  const [blocked, setBlocked] = useState<ReadonlySet<string>>(NONE);
+
+  useEffect(() => {
+    if (!uid) {
+      setBlocked(NONE);
+      return;
+    }
+
+    const unsub = onSnapshot(
+      collection(db, "users", uid, "blocked"),
+      (snap) => setBlocked(new Set(snap.docs.map((d) => d.id))),
+      (e) => console.log("Blocked users error:", e),
+    );
+
+    return unsub;
+  }, [uid]);
+
+  return blocked;
+}
+
+/*This file contains the hook behind blocking: the users the signed-in user blocked.
+*/
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from "react";
+// useState = current filters
+// useEffect = load saved filters when the category changes
+// useCallback = stable setter for child components
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+// AsyncStorage = small key/value storage on the device
+
+import {
+  DEFAULT_FILTERS,
+  ItemFilters,
+  filtersStorageKey,
+  parseFilters,
+} from "@/lib/item-filters";
+// Filter defaults + validation of saved data
+
+// Filters of one category list, saved per category on the device
+// `ready` is false until the saved filters were read (avoids querying twice on open)
+export function useCategoryFilters(category: string) {
+  const [filters, setFiltersState] = useState<ItemFilters>(DEFAULT_FILTERS);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    if (!category) return;
+
+    let active = true;
+    setReady(false);
+
+    AsyncStorage.getItem(filtersStorageKey(category))
+      .then((raw) => {
+        if (active) setFiltersState(parseFilters(raw));
+      })
+      .catch((e) => {
+        console.log("Load filters error:", e);
+        if (active) setFiltersState(DEFAULT_FILTERS);
+      })
+      .finally(() => {
+        if (active) setReady(true);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [category]);
+
+  // Updates the filters and saves them for next time
+  const setFilters = useCallback(
+    (next: ItemFilters) => {
+      setFiltersState(next);
+
+      AsyncStorage.setItem(filtersStorageKey(category), JSON.stringify(next)).catch((e) =>
+        console.log("Save filters error:", e),
+      );
+    },
+    [category],
+  );
+
+  return { filters, setFilters, ready };
+}
+
+/*This hook keeps the filter and sort choices of a category list.
+It loads the saved choices for the category from AsyncStorage and saves every change,
+so each category remembers its own filters.
+*/
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+// useState = chosen governorate + GPS position
+// useEffect = load the saved governorate
+// useCallback = stable handlers for chips
+// useMemo = origin derived from the two sources
+
+import { Alert } from "react-native";
+// Alert = explain a refused location permission
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+// AsyncStorage = remembers the chosen governorate on the device
+
+import {
+  GeoPoint,
+  GovernorateId,
+  NEAR_ME_STORAGE_KEY,
+  governorateCenter,
+  governorateLabel,
+  isGovernorateId,
+} from "@/lib/location";
+// Governorates + storage key
+
+import { getDeviceLocation } from "@/lib/device-location";
+// Device GPS (asks for permission)
+
+// Where "near me" is measured from: the device position (this session only)
+// or a governorate the user picked (saved on the device)
+export function useNearMe() {
+  const [governorate, setGovernorateState] = useState<GovernorateId | null>(null);
+  const [gpsPoint, setGpsPoint] = useState<GeoPoint | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    AsyncStorage.getItem(NEAR_ME_STORAGE_KEY)
+      .then((raw) => {
+        if (active && isGovernorateId(raw)) setGovernorateState(raw);
+      })
+      .catch((e) => console.log("Load near me error:", e));
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Measure from a governorate (replaces the GPS position)
+  const chooseGovernorate = useCallback((id: GovernorateId) => {
+    setGovernorateState(id);
+    setGpsPoint(null);
+
+    AsyncStorage.setItem(NEAR_ME_STORAGE_KEY, id).catch((e) =>
+      console.log("Save near me error:", e),
+    );
+  }, []);
+
+  // Measure from the device position (asks for permission the first time)
+  const locate = useCallback(async () => {
+    setLocating(true);
+    try {
+      const point = await getDeviceLocation();
+      if (!point) {
+        Alert.alert("Location off", "Allow location access, or pick your governorate instead.");
+        return;
+      }
+      setGpsPoint(point);
+    } catch (e: any) {
+      console.log("Locate error:", e);
+      Alert.alert("Error", e?.message ?? "Could not get your location.");
+    } finally {
+      setLocating(false);
+    }
+  }, []);
+
+  const origin = useMemo(
+    () => gpsPoint ?? governorateCenter(governorate),
+    [gpsPoint, governorate],
+  );
+
+  const label = gpsPoint ? "Your location" : governorateLabel(governorate);
+
+  return {
+    origin,
+    label,
+    governorate,
+    usingGps: !!gpsPoint,
+    locating,
+    locate,
+    chooseGovernorate,
+  };
+}
+
+export type NearMe = ReturnType<typeof useNearMe>;
+
+/*This hook keeps the place that distances are measured from.
+The user can use the device location or pick a governorate;
+the governorate is saved on the device, the GPS position is not.
+*/
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+// useState = pages + loading flags
+// useEffect = live listener on the first page
+// useRef = cursors and a generation counter (ignores results of an old query)
+// useMemo = merged list
+// useCallback = stable loadMore/refresh for FlatList props
+
+import {
+  DocumentData,
+  Query,
+  QueryDocumentSnapshot,
+  endAt,
+  getDocs,
+  limit,
+  onSnapshot,
+  query,
+  startAfter,
+} from "firebase/firestore";
+// onSnapshot = live first page (limit, or endAt once older pages are loaded)
+// getDocs + startAfter = older pages (read once)
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+// AsyncStorage = saved first page for offline starts
+
+import { PAGE_SIZE, hasMoreAfter, mergePages } from "@/lib/pagination";
+// Page size + merge helpers
+
+import { listCacheKey, parseCachedRows, serializeRows } from "@/lib/list-cache";
+// Saved page (de)serialization
+
+import { useOffline } from "@/lib/offline-context";
+// Connection state (no endless spinner while offline)
+
+type Cursor = QueryDocumentSnapshot<DocumentData> | null;
+
+// Converts a snapshot document into a list row (id + fields)
+function toRow<T>(d: QueryDocumentSnapshot<DocumentData>): T {
+  return { id: d.id, ...(d.data() as any) } as T;
+}
+
+// Paginated list for a Firestore query that already has its where/orderBy clauses
+// `baseQuery` must be memoized by the screen (a new object re-subscribes); null = nothing to load
+// The first page stays live; older pages are loaded by loadMore() and cleared by refresh()
+// Once an older page is loaded, the live page ends at the document that page started after
+// (instead of a fixed size), so rows pushed down by new documents stay in the live page
+// rather than falling between the two
+// With a `cacheKey` the first page is also saved on the device and shown until the
+// query answers, so the list can be browsed offline
+export function usePaginatedQuery<T extends { id: string }>(
+  baseQuery: Query<DocumentData> | null,
+  pageSize: number = PAGE_SIZE,
+  cacheKey: string | null = null,
+) {
+  const { online } = useOffline();
+
+  const [livePage, setLivePage] = useState<T[]>([]);
+  const [olderPages, setOlderPages] = useState<T[][]>([]);
+
+  const [loading, setLoading] = useState(true);
+  // First page not received yet
+
+  const [loadingMore, setLoadingMore] = useState(false);
+  // An older page is being fetched
+
+  const [refreshing, setRefreshing] = useState(false);
+  // Pull-to-refresh in progress
+
+  const [hasMore, setHasMore] = useState(false);
+
+  const [version, setVersion] = useState(0);
+  // Bumped by refresh() to subscribe again
+
+  const [anchor, setAnchor] = useState<Cursor>(null);
+  // Last document of the live page when the first older page was loaded (null = fixed size page)
+
+  const liveCursor = useRef<Cursor>(null);
+  // Last document of the live page
+
+  const olderCursor = useRef<Cursor>(null);
+  // Last document of the last older page
+
+  const generation = useRef(0);
+  // Changes with every subscription; older page results of a previous one are dropped
+
+  const loadingMoreRef = useRef(false);
+  // Same as loadingMore, readable synchronously (onEndReached can fire twice in a row)
+
+  const refreshRequested = useRef(false);
+  // The next subscription comes from refresh() (keeps the current rows visible)
+
+  const received = useRef(false);
+  const savedShown = useRef(false);
+  // A page came from Firestore / the saved page is on screen
+
+  // New query (or refresh): start again from a fixed size first page
+  useEffect(() => {
+    const current = ++generation.current;
+
+    setOlderPages([]);
+    setAnchor(null);
+    olderCursor.current = null;
+    liveCursor.current = null;
+    loadingMoreRef.current = false;
+    setLoadingMore(false);
+
+    if (!baseQuery) {
+      setLivePage([]);
+      setHasMore(false);
+      setLoading(false);
+      setRefreshing(false);
+      return;
+    }
+
+    if (!refreshRequested.current) setLoading(true);
+    refreshRequested.current = false;
+    // A refresh keeps the current rows on screen until the new page arrives
+
+    received.current = false;
+    savedShown.current = false;
+
+    if (cacheKey) {
+      AsyncStorage.getItem(listCacheKey(cacheKey))
+        .then((raw) => {
+          if (current !== generation.current || received.current) return;
+
+          const saved = parseCachedRows<T>(raw);
+          if (saved.length === 0) return;
+
+          savedShown.current = true;
+          setLivePage(saved);
+          setHasMore(false);
+          setLoading(false);
+        })
+        .catch((e) => console.log("Load saved page error:", e));
+    }
+  }, [baseQuery, pageSize, cacheKey, version]);
+
+  // Live first page (subscribes again when it gets anchored to the older pages)
+  useEffect(() => {
+    if (!baseQuery) return;
+
+    const current = generation.current;
+
+    const unsub = onSnapshot(
+      anchor ? query(baseQuery, endAt(anchor)) : query(baseQuery, limit(pageSize)),
+      { includeMetadataChanges: true },
+      (snap) => {
+        if (current !== generation.current) return;
+
+        if (snap.metadata.fromCache && snap.empty && savedShown.current) {
+          // Offline answer from an empty memory cache: keep the saved page
+          setRefreshing(false);
+          return;
+        }
+        received.current = true;
+
+        const rows = snap.docs.map((d) => toRow<T>(d));
+        setLivePage(rows);
+        liveCursor.current = anchor ?? snap.docs[snap.docs.length - 1] ?? null;
+        // An anchored page always ends at the anchor (even if that document was deleted)
+
+        if (cacheKey && !snap.metadata.fromCache) {
+          AsyncStorage.setItem(listCacheKey(cacheKey), serializeRows(rows.slice(0, pageSize))).catch((e) =>
+            console.log("Save page error:", e),
+          );
+        }
+
+        if (!olderCursor.current) setHasMore(hasMoreAfter(snap.docs.length, pageSize));
+        // Once older pages are loaded, the last of them decides
+
+        setLoading(false);
+        setRefreshing(false);
+      },
+      (err) => {
+        console.log("Paginated query error:", err);
+        setLoading(false);
+        setRefreshing(false);
+      },
+    );
+
+    return unsub;
+  }, [baseQuery, pageSize, cacheKey, version, anchor]);
+
+  // Offline with nothing saved: show the empty list instead of a spinner
+  useEffect(() => {
+    if (!online) {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [online]);
+
+  // Loads the next older page (FlatList onEndReached)
+  const loadMore = useCallback(async () => {
+    const cursor = olderCursor.current ?? liveCursor.current;
+    if (!baseQuery || !cursor || !hasMore || loadingMoreRef.current) return;
+
+    const current = generation.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const snap = await getDocs(query(baseQuery, startAfter(cursor), limit(pageSize)));
+      if (current !== generation.current) return;
+
+      if (snap.docs.length > 0) {
+        setOlderPages((prev) => [...prev, snap.docs.map((d) => toRow<T>(d))]);
+        if (!olderCursor.current) setAnchor(cursor);
+        // First older page: the live page now ends where it starts
+        olderCursor.current = snap.docs[snap.docs.length - 1];
+      }
+      setHasMore(hasMoreAfter(snap.docs.length, pageSize));
+    } catch (e) {
+      console.log("Load more error:", e);
+    } finally {
+      if (current === generation.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [baseQuery, hasMore, pageSize]);
+
+  // Pull-to-refresh: drops the older pages and reads the first page again
+  const refresh = useCallback(() => {
+    if (!baseQuery) return;
+    refreshRequested.current = true;
+    setRefreshing(true);
+    setVersion((v) => v + 1);
+  }, [baseQuery]);
+
+  // Applies a change the screen made itself to a row of an older page (null = removed)
+  // Older pages are not live; rows of the live page update on their own
+  const patchRow = useCallback((id: string, patch: Partial<T> | null) => {
+    setOlderPages((prev) =>
+      prev.map((page) =>
+        patch === null
+          ? page.filter((row) => row.id !== id)
+          : page.map((row) => (row.id === id ? { ...row, ...patch } : row)),
+      ),
+    );
+  }, []);
+
+  const items = useMemo(() => mergePages(livePage, olderPages), [livePage, olderPages]);
+
+  return { items, loading, loadingMore, refreshing, hasMore, loadMore, refresh, patchRow };
+}
+
+/*This hook loads a Firestore query page by page for the list screens.
+The first page is a live listener, so new and changed documents show up at once,
+older pages are read with startAfter/limit when the list is scrolled to the end
+(the live page then grows from its last document instead of sliding past it),
+and pull-to-refresh starts again from the first page.
+Lists with a cache key also keep their first page on the device for offline browsing.
+*/
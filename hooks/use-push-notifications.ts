@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+// useEffect = register once per user + listen for push taps
+
+import * as Notifications from "expo-notifications";
+// Push taps (while running, and the one that launched the app)
+
+import { useRouter } from "expo-router";
+// Opens the screen of a tapped push
+
+import { auth } from "@/lib/firebase";
+import { registerPushToken } from "@/lib/push";
+import { markNotificationRead } from "@/lib/notifications";
+import { notificationLink, pushNotificationId } from "@/lib/notification-links";
+
+// Registers this device for pushes and opens the right screen when one is tapped.
+// Used by the private layout, so it only runs for a signed-in user.
+export function usePushNotifications() {
+  const router = useRouter();
+  const uid = auth.currentUser?.uid;
+
+  useEffect(() => {
+    if (!uid) return;
+    registerPushToken(uid).catch((e) => console.log("Push register error:", e));
+  }, [uid]);
+
+  useEffect(() => {
+    const open = (response: Notifications.NotificationResponse) => {
+      const data = response.notification.request.content.data;
+
+      const notificationId = pushNotificationId(data);
+      if (notificationId) {
+        markNotificationRead(notificationId).catch((e) => console.log("Push markRead error:", e));
+      }
+
+      router.push(notificationLink(data));
+    };
+
+    // A push that launched the app (handled once)
+    const launched = Notifications.getLastNotificationResponse();
+    if (launched) {
+      Notifications.clearLastNotificationResponse();
+      open(launched);
+    }
+
+    const sub = Notifications.addNotificationResponseReceivedListener(open);
+    return () => sub.remove();
+  }, [router]);
+}
+
+/*This file contains the hook that connects push notifications to the app:
+it saves the device's push token for the signed-in user and deep-links taps.
+*/
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+// useState = current count, useEffect = live listener
+
+import { onSnapshot } from "firebase/firestore";
+
+import { auth } from "@/lib/firebase";
+import { unreadNotificationsQuery } from "@/lib/notifications";
+import { MAX_BADGE_COUNT } from "@/lib/notification-center";
+
+// Live number of unread notifications of the signed-in user (for badges).
+// Counts at most MAX_BADGE_COUNT + 1, enough to show "99+".
+export function useUnreadCount() {
+  const uid = auth.currentUser?.uid;
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!uid) {
+      setCount(0);
+      return;
+    }
+
+    const unsub = onSnapshot(
+      unreadNotificationsQuery(uid, MAX_BADGE_COUNT + 1),
+      (snap) => setCount(snap.size),
+      (e) => console.log("Unread count error:", e),
+    );
+
+    return unsub;
+  }, [uid]);
+
+  return count;
+}
+
+/*This file contains the hook behind the unread notifications badge.
+*/
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef } from "react";
+// useRef = photos of this form that are not saved yet
+// useEffect = delete them when the form closes without saving
+
+import { discardUploads, releaseUploads, trackUploads } from "@/lib/upload-tracker";
+// Pending upload list (survives app restarts)
+
+// Photos uploaded by an add/edit item form that the item does not use yet.
+// track() before uploading, uploaded() when the URL is known, discard() when a
+// photo is removed, commit() after the item was saved. Whatever is still unsaved
+// when the form closes is deleted.
+export function useUnsavedUploads() {
+  const paths = useRef<Set<string>>(new Set());
+  const pathOfUrl = useRef<Map<string, string>>(new Map());
+
+  const track = useCallback((newPaths: string[]) => {
+    newPaths.forEach((p) => paths.current.add(p));
+    trackUploads(newPaths);
+  }, []);
+
+  const uploaded = useCallback((url: string, path: string) => {
+    pathOfUrl.current.set(url, path);
+  }, []);
+
+  // Deletes the given photos if this form uploaded them (saved photos are left alone)
+  const discard = useCallback((urls: string[]) => {
+    const mine = urls
+      .map((url) => pathOfUrl.current.get(url))
+      .filter((p): p is string => !!p && paths.current.has(p));
+
+    mine.forEach((p) => paths.current.delete(p));
+    discardUploads(mine);
+  }, []);
+
+  // The item was saved with the form's photos
+  const commit = useCallback(() => {
+    releaseUploads(Array.from(paths.current));
+    paths.current.clear();
+    pathOfUrl.current.clear();
+  }, []);
+
+  useEffect(() => {
+    const pending = paths.current;
+    return () => {
+      discardUploads(Array.from(pending));
+    };
+  }, []);
+
+  return { track, uploaded, discard, commit };
+}
+
+/*This file contains the hook the add and edit item forms use to clean up photos
+that were uploaded but never saved on an item.
+*/
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+// useState = status shown by <UploadStatus />
+// useRef = queue + current upload (read by async code without re-renders)
+// useEffect = cancel the upload when the screen closes
+
+import { UploadHandle, startUpload } from "@/lib/upload";
+// Resumable upload with retry
+
+import { isUploadCanceled, uploadErrorMessage } from "@/lib/upload-policy";
+// Error helpers
+
+export type UploadJob = {
+  uri: string; // local photo URI from the picker
+  path: string; // Storage path to upload to
+};
+
+export type UploadQueueStatus = {
+  state: "idle" | "uploading" | "error";
+  progress: number; // 0-1 of the current photo
+  current: number; // 1-based position of the current photo in this batch
+  total: number; // photos in this batch
+  retrying: boolean; // an attempt failed and the upload is being retried
+  error: string | null; // message of the error state
+};
+
+const IDLE: UploadQueueStatus = {
+  state: "idle",
+  progress: 0,
+  current: 0,
+  total: 0,
+  retrying: false,
+  error: null,
+};
+
+// Uploads photos one after another with progress, cancel and retry.
+// onUploaded runs for each photo as soon as it is stored. After an upload gives up,
+// the queue stops in the "error" state: retry() continues with the failed photo,
+// dismiss() drops the remaining photos.
+export function useUploadQueue(onUploaded: (url: string, job: UploadJob) => void) {
+  const [status, setStatus] = useState<UploadQueueStatus>(IDLE);
+
+  const queue = useRef<UploadJob[]>([]);
+  const done = useRef(0);
+  // Jobs left (first = current) + finished jobs of this batch
+
+  const handle = useRef<UploadHandle | null>(null);
+  const running = useRef(false);
+
+  const onUploadedRef = useRef(onUploaded);
+  useEffect(() => {
+    onUploadedRef.current = onUploaded;
+  });
+  // Latest callback (it reads the screen's current state)
+
+  const reset = useCallback(() => {
+    queue.current = [];
+    done.current = 0;
+    setStatus(IDLE);
+  }, []);
+
+  const run = useCallback(async () => {
+    if (running.current) return;
+    running.current = true;
+
+    while (queue.current.length > 0) {
+      const job = queue.current[0];
+
+      setStatus({
+        ...IDLE,
+        state: "uploading",
+        current: done.current + 1,
+        total: done.current + queue.current.length,
+      });
+
+      const upload = startUpload(job.uri, job.path, {
+        onProgress: (progress) => setStatus((s) => ({ ...s, progress, retrying: false })),
+        onRetry: () => setStatus((s) => ({ ...s, retrying: true })),
+      });
+      handle.current = upload;
+
+      try {
+        const url = await upload.promise;
+        queue.current.shift();
+        done.current += 1;
+        onUploadedRef.current(url, job);
+      } catch (e) {
+        handle.current = null;
+        running.current = false;
+
+        if (isUploadCanceled(e)) {
+          reset();
+          return;
+        }
+
+        console.log("Upload error:", e);
+        setStatus((s) => ({ ...s, state: "error", retrying: false, error: uploadErrorMessage(e) }));
+        return;
+      }
+    }
+
+    handle.current = null;
+    running.current = false;
+    reset();
+  }, [reset]);
+
+  // Adds photos to the queue and starts uploading
+  const enqueue = useCallback(
+    (jobs: UploadJob[]) => {
+      queue.current.push(...jobs);
+      run();
+    },
+    [run],
+  );
+
+  // Stops the current upload and drops the rest
+  const cancel = useCallback(() => {
+    if (handle.current) {
+      queue.current = [];
+      handle.current.cancel();
+    } else {
+      reset();
+    }
+  }, [reset]);
+
+  // Stop uploading when the screen closes
+  useEffect(
+    () => () => {
+      queue.current = [];
+      handle.current?.cancel();
+    },
+    [],
+  );
+
+  return {
+    status,
+    busy: status.state === "uploading",
+    // true while a photo is being uploaded (forms block saving)
+
+    pending: status.state === "idle" ? 0 : status.total - status.current + 1,
+    // photos not stored yet (they still take gallery slots)
+
+    enqueue,
+    cancel,
+    retry: run,
+    dismiss: cancel,
+  };
+}
+
+/*This file contains the upload queue hook used by the add item, edit item and profile screens.
+It uploads picked photos one by one through the shared upload service and
+exposes progress, cancel, retry and the error state for <UploadStatus />.
+*/
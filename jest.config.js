@@ -1,4 +1,8 @@
 module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
+  // Same "@/..." import alias as tsconfig.json
+  moduleNameMapper: { "^@/(.*)$": "<rootDir>/$1" },
+  // Emulator suites need running Firebase emulators: npm run test:emulator
+  testPathIgnorePatterns: ["/node_modules/", "<rootDir>/tests/emulator/"],
 };
@@ -0,0 +1,7 @@
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/tests/emulator/**/*.test.ts"],
+  // Emulator round-trips are slower than unit tests
+  testTimeout: 20000,
+};
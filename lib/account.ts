@@ -0,0 +1,93 @@
+// Import Firebase Auth account helpers
+// reauthenticateWithCredential: sensitive changes need a fresh sign-in
+// verifyBeforeUpdateEmail: the new address only replaces the old one once its link is opened
+import {
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  signOut,
+  updatePassword,
+  User,
+  verifyBeforeUpdateEmail,
+} from "firebase/auth";
+
+// Import Firestore helper (users/{uid}/private/settings.email is where notification emails go)
+import { setDoc } from "firebase/firestore";
+
+// Import callable helper (account deletion runs on the server, see functions/account.js)
+import { httpsCallable } from "firebase/functions";
+
+// Import initialized Firebase instances
+import { auth, functions } from "@/lib/firebase";
+
+// Private settings document (other users cannot read the email)
+import { privateSettingsRef } from "@/lib/private-settings";
+
+// The signed-in user, or an error the screens can show
+function currentUser(): User {
+  const user = auth.currentUser;
+  if (!user) throw new Error("Please sign in again.");
+  return user;
+}
+
+// Emails a link to choose a new password
+// (Firebase does not say whether the address has an account)
+export async function sendPasswordReset(email: string) {
+  await sendPasswordResetEmail(auth, email.trim());
+}
+
+export async function sendVerificationEmail() {
+  await sendEmailVerification(currentUser());
+}
+
+// True once the user opened the verification link (phone sign-ins are verified by their SMS code)
+// Reloads the account and refreshes the ID token, so firestore.rules sees it too
+export async function checkVerified() {
+  const user = currentUser();
+  if (user.emailVerified || user.phoneNumber) return true;
+
+  await user.reload();
+  if (!user.emailVerified) return false;
+
+  await user.getIdToken(true);
+  return true;
+}
+
+// Copies the sign-in email to the private settings (at sign-up, and after it changed with verifyBeforeUpdateEmail)
+export async function syncNotificationEmail(user: User) {
+  if (!user.email) return;
+  await setDoc(privateSettingsRef(user.uid), { email: user.email }, { merge: true });
+}
+
+// Signs in again with the current password before a sensitive change
+async function reauthenticate(password: string) {
+  const user = currentUser();
+  await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email ?? "", password));
+  return user;
+}
+
+// Sends a link to the new address; the email changes once it is opened
+// (Firebase then signs the user out, and the next sign-in updates the private settings)
+export async function changeEmail(password: string, newEmail: string) {
+  const user = await reauthenticate(password);
+  await verifyBeforeUpdateEmail(user, newEmail.trim());
+}
+
+export async function changePassword(password: string, newPassword: string) {
+  const user = await reauthenticate(password);
+  await updatePassword(user, newPassword);
+}
+
+// Deletes the account and the user's data on the server, then signs out here
+// Accounts without a password (Google, phone) rely on a recent sign-in instead
+export async function deleteAccount(password: string | null) {
+  if (password !== null) await reauthenticate(password);
+  await httpsCallable(functions, "deleteAccount")();
+  await signOut(auth);
+}
+
+/*This file contains the account actions of the signed-in user:
+password reset, email verification, changing the email or password after
+signing in again, and deleting the account through a Cloud Function.
+*/
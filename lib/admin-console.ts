@@ -0,0 +1,41 @@
+// Import callable helper from Firebase Functions
+import { httpsCallable } from "firebase/functions";
+
+// Import initialized Functions instance
+import { functions } from "@/lib/firebase";
+
+import { ItemCategory, Role, UserLookup } from "@/lib/roles";
+
+// Calls an admin console function; server errors (HttpsError) keep their message for the screens
+async function callAdmin<T = { status: string }>(name: string, data: Record<string, string | boolean>) {
+  const fn = httpsCallable<Record<string, string | boolean>, T>(functions, name);
+  const res = await fn(data);
+  return res.data;
+}
+
+// Grants or revokes a role (custom claim) of any user
+export function setUserRole(userId: string, role: Role, granted: boolean) {
+  return callAdmin<{ status: string; roles: Role[] }>("setUserRole", { userId, role, granted });
+}
+
+// Finds an account by email, phone number (+962...) or uid
+export function lookupUser(query: string) {
+  return callAdmin<UserLookup>("lookupUser", { query: query.trim() });
+}
+
+// Edits any listing (only the given fields change)
+export function adminUpdateItem(
+  itemId: string,
+  changes: { title?: string; description?: string; category?: ItemCategory; hidden?: boolean },
+) {
+  return callAdmin("adminUpdateItem", { itemId, ...changes });
+}
+
+// Removes any listing
+export function adminDeleteItem(itemId: string) {
+  return callAdmin("adminDeleteItem", { itemId });
+}
+
+/*This file wraps the admin console Cloud Functions (functions/admin-console.js):
+roles, user lookups and listing edits.
+*/
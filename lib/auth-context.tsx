@@ -1,7 +1,8 @@
 // Import Firebase authentication listener and User type
 // onAuthStateChanged: listens for login / logout changes
+// onIdTokenChanged: also fires when the ID token (and its custom claims) is refreshed
 // User: Firebase user object type
-import { onAuthStateChanged, User } from "firebase/auth";
+import { onAuthStateChanged, onIdTokenChanged, User } from "firebase/auth";
 
 // Import React utilities
 // createContext: creates a global context
@@ -20,12 +21,17 @@ import React, {
 // Import initialized Firebase Auth instance
 import { auth } from "@/lib/firebase";
 
+// Reads the admin custom claim (moderators)
+import { isAdminClaims } from "@/lib/reports";
+
 // Define the shape of authentication state
 // user: currently logged-in user (or null if logged out)
 // loading: true while Firebase is checking auth state
+// isAdmin: true when the user's ID token has the admin custom claim
 type AuthState = {
   user: User | null;
   loading: boolean;
+  isAdmin: boolean;
 };
 
 // Create the authentication context
@@ -34,8 +40,20 @@ type AuthState = {
 const AuthContext = createContext<AuthState>({
   user: null,
   loading: true,
+  isAdmin: false,
 });
 
+// True when the user's current ID token has the admin custom claim
+async function readAdminClaim(u: User): Promise<boolean> {
+  try {
+    const token = await u.getIdTokenResult();
+    return isAdminClaims(token.claims);
+  } catch (e) {
+    console.log("Token claims error:", e);
+    return false;
+  }
+}
+
 // AuthProvider wraps the entire app
 // It provides auth state (user + loading) to all components
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -45,10 +63,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // Indicates whether auth state is still being determined
   const [loading, setLoading] = useState(true);
 
+  // Admin custom claim of the current ID token
+  const [isAdmin, setIsAdmin] = useState(false);
+
   // Listen for authentication state changes
   useEffect(() => {
     // onAuthStateChanged runs whenever user logs in or logs out
-    const unsub = onAuthStateChanged(auth, (u) => {
+    // The claims are read first, so the route guard never sees an admin as a non-admin
+    const unsub = onAuthStateChanged(auth, async (u) => {
+      setIsAdmin(u ? await readAdminClaim(u) : false);
       setUser(u);       // u is either a User object or null
       setLoading(false); // Auth state has been resolved
     });
@@ -57,10 +80,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return unsub;
   }, []);
 
+  // Read the custom claims whenever the ID token changes (sign-in, refresh, sign-out)
+  useEffect(() => {
+    const unsub = onIdTokenChanged(auth, async (u) => {
+      setIsAdmin(u ? await readAdminClaim(u) : false);
+    });
+
+    return unsub;
+  }, []);
+
   // Memoize the context value to avoid unnecessary re-renders
   const value = useMemo(
-    () => ({ user, loading }),
-    [user, loading]
+    () => ({ user, loading, isAdmin }),
+    [user, loading, isAdmin]
   );
 
   // Provide auth state to all children components
@@ -77,7 +109,8 @@ export function useAuth() {
   return useContext(AuthContext);
 }
 /*This file manages global authentication state in the app.
-It listens to Firebase Authentication and provides the current user and loading status 
+It listens to Firebase Authentication and provides the current user, loading status
+and whether the user is an admin (moderator) 
 to all components
 using React Context.
 */
\ No newline at end of file
@@ -0,0 +1,44 @@
+// ---------- Account form checks + Firebase Auth error texts ----------
+// Shared by the onboarding screens, the phone sign-in and the Account card in Settings.
+
+// Firebase Auth refuses shorter passwords ("auth/weak-password")
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Loose shape check before calling Firebase (the server does the real check)
+export function isEmailLike(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+// Friendly messages for the Firebase Auth error codes the account forms can hit
+const MESSAGES: Record<string, string> = {
+  "auth/invalid-credential": "Wrong email or password.",
+  "auth/wrong-password": "Wrong password.",
+  "auth/user-not-found": "No account found for this email.",
+  "auth/user-mismatch": "Wrong password.",
+  "auth/invalid-email": "Invalid email address.",
+  "auth/missing-email": "Please enter your email.",
+  "auth/email-already-in-use": "This email is already in use.",
+  "auth/weak-password": `Password should be at least ${MIN_PASSWORD_LENGTH} characters.`,
+  "auth/requires-recent-login": "Please sign in again and retry.",
+  "auth/too-many-requests": "Too many attempts. Please wait a moment and try again.",
+  "auth/network-request-failed": "You are offline. Please try again when connected.",
+  "auth/credential-already-in-use": "This sign-in method already belongs to another account.",
+  "auth/provider-already-linked": "This sign-in method is already linked to your account.",
+  "auth/account-exists-with-different-credential":
+    "An account with this email already exists. Sign in with it, then link this method in Settings.",
+  "auth/invalid-phone-number": "Invalid phone number.",
+  "auth/invalid-verification-code": "Wrong code. Please check the SMS and try again.",
+  "auth/code-expired": "The code expired. Please ask for a new one.",
+  "auth/captcha-check-failed": "The check failed. Please try again.",
+  "functions/failed-precondition": "Please sign in again and retry.",
+};
+
+// Message for an error thrown by Firebase Auth (or the account Cloud Function)
+export function authErrorMessage(e: unknown, fallback: string) {
+  const code = (e as { code?: unknown } | null)?.code;
+  return (typeof code === "string" && MESSAGES[code]) || fallback;
+}
+
+/*This file contains the pure helpers of the account forms:
+email/password checks and readable texts for Firebase Auth errors.
+*/
@@ -0,0 +1,111 @@
+// ---------- Sign-in providers ----------
+// Accounts can sign in with email + password, Google and/or a phone number (SMS code).
+// Several providers can be linked to one account (Settings → Account).
+
+export type SignInProviderId = "password" | "google.com" | "phone";
+
+export const SIGN_IN_PROVIDERS: { id: SignInProviderId; label: string }[] = [
+  { id: "password", label: "Email & password" },
+  { id: "google.com", label: "Google" },
+  { id: "phone", label: "Phone number" },
+];
+
+// Providers linked to a Firebase user (user.providerData), in SIGN_IN_PROVIDERS order
+export function linkedProviderIds(providerData: { providerId: string }[]): SignInProviderId[] {
+  const linked = new Set(providerData.map((p) => p.providerId));
+  return SIGN_IN_PROVIDERS.map((p) => p.id).filter((id) => linked.has(id));
+}
+
+// The last sign-in method cannot be removed (the account would be unreachable)
+export function canUnlink(linked: SignInProviderId[], id: SignInProviderId) {
+  return linked.length > 1 && linked.includes(id);
+}
+
+// ---------- Phone numbers ----------
+
+export const JORDAN_DIAL_CODE = "+962";
+
+// Jordanian mobiles: 07 7/8/9 + 7 digits
+const JORDAN_MOBILE = /^\+9627[789]\d{7}$/;
+
+// Any other country: E.164
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+// E.164 form of a typed phone number, or null
+// Local Jordanian forms are accepted: 0791234567, 791234567, 00962791234567
+export function toE164Phone(input: string) {
+  let phone = input.replace(/[\s\-().]/g, "");
+
+  if (phone.startsWith("00")) phone = `+${phone.slice(2)}`;
+  else if (phone.startsWith("0")) phone = `${JORDAN_DIAL_CODE}${phone.slice(1)}`;
+  else if (/^7\d{8}$/.test(phone)) phone = `${JORDAN_DIAL_CODE}${phone}`;
+
+  if (phone.startsWith(JORDAN_DIAL_CODE)) return JORDAN_MOBILE.test(phone) ? phone : null;
+  return E164.test(phone) ? phone : null;
+}
+
+// SMS codes are six digits
+export function isSmsCode(code: string) {
+  return /^\d{6}$/.test(code.trim());
+}
+
+// ---------- Google ----------
+
+export type GoogleClientIds = {
+  webClientId?: string;
+  iosClientId?: string;
+  androidClientId?: string;
+};
+
+// OAuth client ids from app.json (extra.googleAuth); null when none is set
+// (the Google button is hidden until the project is configured)
+export function googleClientIds(extra: unknown): GoogleClientIds | null {
+  const config = (extra as { googleAuth?: Record<string, unknown> } | null)?.googleAuth ?? {};
+  const ids: GoogleClientIds = {};
+
+  for (const key of ["webClientId", "iosClientId", "androidClientId"] as const) {
+    const value = config[key];
+    if (typeof value === "string" && value.trim()) ids[key] = value.trim();
+  }
+
+  return Object.keys(ids).length > 0 ? ids : null;
+}
+
+// ---------- reCAPTCHA page (phone sign-in) ----------
+
+// Page shown in a WebView by components/phone-verifier.tsx: the Firebase web SDK's
+// reCAPTCHA posts its token back to the app, which passes it to signInWithPhoneNumber
+export function recaptchaHtml(config: Record<string, unknown>, sdkVersion: string) {
+  const sdk = `https://www.gstatic.com/firebasejs/${sdkVersion}`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <script src="${sdk}/firebase-app-compat.js"></script>
+  <script src="${sdk}/firebase-auth-compat.js"></script>
+</head>
+<body style="margin:0;height:100vh;display:flex;align-items:center;justify-content:center">
+  <div id="recaptcha"></div>
+  <script>
+    const send = (message) => window.ReactNativeWebView.postMessage(JSON.stringify(message));
+    try {
+      firebase.initializeApp(${JSON.stringify(config)});
+      const verifier = new firebase.auth.RecaptchaVerifier("recaptcha", {
+        size: "normal",
+        callback: (token) => send({ type: "verify", token }),
+        "expired-callback": () => send({ type: "error", message: "The check expired. Please try again." }),
+      });
+      verifier.render().catch((e) => send({ type: "error", message: e.message }));
+    } catch (e) {
+      send({ type: "error", message: e.message });
+    }
+  </script>
+</body>
+</html>`;
+}
+
+/*This file contains the pure helpers of the sign-in providers:
+linked providers, phone number formats, the Google client ids and
+the reCAPTCHA page used to send SMS codes.
+*/
@@ -0,0 +1,150 @@
+// Import Firestore helpers used by the chat feature
+// doc / collection: build references
+// runTransaction: create a conversation only if it does not exist yet
+// writeBatch: write a message + update the conversation in one atomic step
+// increment: bump the unread counter without reading it first
+// serverTimestamp: consistent server time for ordering
+import {
+  collection,
+  doc,
+  increment,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+
+// Import initialized Firestore instance
+import { db } from "@/lib/firebase";
+
+// Shape of a conversation document (conversations/{conversationId})
+// One conversation exists per request, so the id matches the request id
+export type ConversationDoc = {
+  id: string;
+  requestId: string;
+  itemId: string;
+  itemTitle: string;
+  itemOwnerId: string;
+  requesterId: string;
+
+  // Both user ids, used by the "array-contains" query on the chats screen
+  participants: string[];
+
+  // Preview of the latest message shown in the conversation list
+  lastMessage: string;
+  lastSenderId: string;
+  lastMessageAt?: any;
+
+  // Unread message count per participant: unread[uid] = number
+  unread: Record<string, number>;
+
+  createdAt?: any;
+};
+
+// Shape of a message document (conversations/{conversationId}/messages/{messageId})
+export type MessageDoc = {
+  id: string;
+  senderId: string;
+  text: string;
+  createdAt?: any;
+};
+
+// Data needed to open a chat for a request
+type ConversationSeed = {
+  requestId: string;
+  itemId: string;
+  itemTitle: string;
+  itemOwnerId: string;
+  requesterId: string;
+};
+
+// Longest message we accept (keeps documents small)
+export const MAX_MESSAGE_LENGTH = 1000;
+
+// Conversation ids use the same format as request ids: `${itemId}_${requesterId}`
+export function conversationIdFor(itemId: string, requesterId: string) {
+  return `${itemId}_${requesterId}`;
+}
+
+// Returns the uid of the other person in the conversation
+export function otherParticipant(conversation: ConversationDoc, uid: string) {
+  return conversation.itemOwnerId === uid
+    ? conversation.requesterId
+    : conversation.itemOwnerId;
+}
+
+// Creates the conversation for a request if it does not exist yet
+// Returns the conversation id so the caller can navigate to the thread
+export async function ensureConversation(seed: ConversationSeed) {
+  const conversationRef = doc(db, "conversations", seed.requestId);
+
+  await runTransaction(db, async (tx) => {
+    const snap = await tx.get(conversationRef);
+
+    // Already created (by us or the other participant) -> nothing to do
+    if (snap.exists()) return;
+
+    tx.set(conversationRef, {
+      requestId: seed.requestId,
+      itemId: seed.itemId,
+      itemTitle: seed.itemTitle,
+      itemOwnerId: seed.itemOwnerId,
+      requesterId: seed.requesterId,
+      participants: [seed.itemOwnerId, seed.requesterId],
+      lastMessage: "",
+      lastSenderId: "",
+      // New conversations still need a timestamp so they appear in the ordered list
+      lastMessageAt: serverTimestamp(),
+      unread: {
+        [seed.itemOwnerId]: 0,
+        [seed.requesterId]: 0,
+      },
+      createdAt: serverTimestamp(),
+    });
+  });
+
+  return seed.requestId;
+}
+
+// Sends a message and updates the conversation preview + the receiver's unread counter
+export async function sendMessage(
+  conversation: ConversationDoc,
+  senderId: string,
+  text: string,
+) {
+  const clean = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+  if (!clean) return;
+
+  const conversationRef = doc(db, "conversations", conversation.id);
+  const messageRef = doc(collection(conversationRef, "messages"));
+  const receiverId = otherParticipant(conversation, senderId);
+
+  const batch = writeBatch(db);
+
+  batch.set(messageRef, {
+    senderId,
+    text: clean,
+    createdAt: serverTimestamp(),
+  });
+
+  batch.update(conversationRef, {
+    lastMessage: clean,
+    lastSenderId: senderId,
+    lastMessageAt: serverTimestamp(),
+    [`unread.${receiverId}`]: increment(1),
+  });
+
+  await batch.commit();
+}
+
+// Resets the unread counter of a user when they open the thread
+export async function markConversationRead(conversationId: string, uid: string) {
+  await updateDoc(doc(db, "conversations", conversationId), {
+    [`unread.${uid}`]: 0,
+  });
+}
+
+/*This file contains the Firestore logic for the chat feature.
+Each approved request gets one conversation (same id as the request),
+with messages stored in a subcollection and unread counters kept per participant.
+*/
@@ -0,0 +1,24 @@
+// Import expo-location (device GPS + permission prompt)
+import * as Location from "expo-location";
+
+// Import the point type shared with the pure location helpers
+import { GeoPoint } from "@/lib/location";
+
+// Current position of the device, or null when the user refuses the permission
+// Only foreground ("while using the app") permission is asked for
+export async function getDeviceLocation(): Promise<GeoPoint | null> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== "granted") return null;
+
+  // Balanced accuracy is plenty for a 6-character geohash and is faster than GPS-only
+  const position = await Location.getCurrentPositionAsync({
+    accuracy: Location.Accuracy.Balanced,
+  });
+
+  return { lat: position.coords.latitude, lng: position.coords.longitude };
+}
+
+/*This file reads the device position for the location features.
+It asks for the location permission and returns the coordinates,
+which the screens turn into a governorate and a geohash with lib/location.ts.
+*/
@@ -6,17 +6,29 @@ import { initializeApp, getApp, getApps } from "firebase/app";
 // Import Firebase Authentication utilities
 // initializeAuth: initializes Firebase Auth manually (needed for React Native)
 // getReactNativePersistence: enables persistent login using AsyncStorage
-import { initializeAuth, getReactNativePersistence } from "firebase/auth";
+// connectAuthEmulator: local Auth emulator (see below)
+import { connectAuthEmulator, initializeAuth, getReactNativePersistence } from "firebase/auth";
 
-// Import Firestore database initializer
-import { getFirestore } from "firebase/firestore";
+// Import Firestore database initializers
+// initializeFirestore + persistentLocalCache: keep read documents and pending writes on the device
+// getFirestore: reuse the instance when this file runs again (fast refresh)
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentSingleTabManager,
+} from "firebase/firestore";
 
 // AsyncStorage is used to store auth session locally on the device
 // This keeps the user logged in even after closing the app
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 // Import Firebase Storage initializer (used for images)
-import { getStorage } from "firebase/storage";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
+
+// Import Cloud Functions initializer (used for callable functions)
+import { connectFunctionsEmulator, getFunctions } from "firebase/functions";
 
 // Firebase project configuration
 // These values identify our Firebase project (JoDonate)
@@ -46,14 +58,50 @@ export const auth = initializeAuth(app, {
 
 // Initialize Firestore database
 // Firestore is used to store users, items, requests, notifications, etc.
-export const db = getFirestore(app);
+// The persistent cache lets listeners answer from the device while offline. It is
+// stored in IndexedDB; where that is missing (React Native) the SDK falls back to its
+// memory cache, so the list screens also save their first page (lib/list-cache.ts).
+export const db = (() => {
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentSingleTabManager(undefined) }),
+    });
+  } catch {
+    // Already initialized (fast refresh)
+    return getFirestore(app);
+  }
+})();
 
 // Initialize Firebase Storage
 // Used to store uploaded item images
 export const storage = getStorage(app);
 
+// Initialize Cloud Functions
+// Used to call server-side functions (AI categorization, request workflow)
+export const functions = getFunctions(app);
+
+// Local emulators: set EXPO_PUBLIC_FIREBASE_EMULATOR_HOST (e.g. 10.0.2.2 from an Android
+// emulator) and run `firebase emulators:start`. Google and phone sign-in work there too:
+// the Auth emulator accepts any Google account and shows SMS codes in its UI / logs.
+const EMULATOR_HOST = process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST;
+if (EMULATOR_HOST) {
+  try {
+    connectAuthEmulator(auth, `http://${EMULATOR_HOST}:9099`, { disableWarnings: true });
+    connectFirestoreEmulator(db, EMULATOR_HOST, 8080);
+    connectFunctionsEmulator(functions, EMULATOR_HOST, 5001);
+    connectStorageEmulator(storage, EMULATOR_HOST, 9199);
+
+    // No reCAPTCHA before phone codes (components/phone-verifier.tsx)
+    auth.settings.appVerificationDisabledForTesting = true;
+  } catch (e) {
+    // Already connected (fast refresh)
+    console.log("Emulator connect error:", e);
+  }
+}
+
 /*This file initializes and configures Firebase services for the app.
 It sets up Firebase Authentication with persistent login using AsyncStorage,
-Firestore database for data storage, and Firebase Storage for image uploads.
+Firestore database for data storage (with its offline cache), Firebase Storage for image uploads,
+and Cloud Functions for server-side actions, optionally against the local emulators.
 The configuration ensures Firebase is only initialized once to prevent errors.
 */
\ No newline at end of file
@@ -0,0 +1,26 @@
+// Import the Expo image manipulator (resize + re-encode on the device)
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+
+// Upload size limits
+import { UPLOAD_MAX_SIZE, UPLOAD_QUALITY, resizeToFit } from "@/lib/thumbnails";
+
+// Shrinks a picked photo before upload and returns the local URI of the JPEG copy
+// (longest side at most UPLOAD_MAX_SIZE; smaller photos are only re-compressed)
+export async function compressImage(uri: string): Promise<string> {
+  const context = ImageManipulator.manipulate(uri);
+
+  let image = await context.renderAsync();
+
+  const resize = resizeToFit(image.width, image.height, UPLOAD_MAX_SIZE);
+  if (resize) {
+    context.resize(resize);
+    image = await context.renderAsync();
+  }
+
+  const saved = await image.saveAsync({ compress: UPLOAD_QUALITY, format: SaveFormat.JPEG });
+  return saved.uri;
+}
+
+/*This file compresses item photos on the device before they are uploaded,
+so uploads are faster and every screen downloads smaller files.
+*/
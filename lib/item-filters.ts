@@ -0,0 +1,187 @@
+// Import item statuses (status filter choices)
+import { ITEM_STATUSES, ItemStatus } from "@/lib/rules";
+
+// Import the distance choices (distance filter)
+import { isDistanceOption } from "@/lib/location";
+
+// ---------- Category list filters ----------
+// Every combination of these filters maps to one Firestore query:
+//   category == X [, status in S] [, hasImage == true] [, ownerId == U]
+//   [, createdAt >= since] orderBy createdAt asc|desc
+// firestore.indexes.json has an index for each combination (keep both in sync)
+// The distance filter and "nearest" sort run on the device (lib/location.ts)
+
+// Sort orders for the item list
+export const SORT_KEYS = ["newest", "oldest", "nearest"] as const;
+export type SortKey = (typeof SORT_KEYS)[number];
+
+// "Posted within" choices
+export const DATE_PRESETS = ["any", "7d", "30d", "90d"] as const;
+export type DatePreset = (typeof DATE_PRESETS)[number];
+
+const DATE_PRESET_DAYS: Record<Exclude<DatePreset, "any">, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  any: "Any time",
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+};
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  nearest: "Nearest",
+};
+
+export type ItemFilters = {
+  // Statuses to show (all statuses = no status filter)
+  statuses: ItemStatus[];
+
+  // Only items with a photo
+  hasImage: boolean;
+
+  // Only items posted within this period
+  datePreset: DatePreset;
+
+  // Only items of this owner (null = anyone)
+  ownerId: string | null;
+
+  // Only items within this many km of the user (null = any distance)
+  maxDistanceKm: number | null;
+
+  sort: SortKey;
+};
+
+// Donated and accepted items are hidden until the user asks for them
+export const DEFAULT_FILTERS: ItemFilters = {
+  statuses: ["available", "requested"],
+  hasImage: false,
+  datePreset: "any",
+  ownerId: null,
+  maxDistanceKm: null,
+  sort: "newest",
+};
+
+// AsyncStorage key for a category's saved filters
+export function filtersStorageKey(category: string): string {
+  return `categoryFilters:${category}`;
+}
+
+// Reads saved filters; anything missing or invalid falls back to the defaults
+// (saved data may come from an older app version)
+export function parseFilters(raw?: string | null): ItemFilters {
+  if (!raw) return DEFAULT_FILTERS;
+
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return DEFAULT_FILTERS;
+  }
+  if (!data || typeof data !== "object") return DEFAULT_FILTERS;
+
+  const statuses = Array.isArray(data.statuses)
+    ? ITEM_STATUSES.filter((s) => data.statuses.includes(s))
+    : DEFAULT_FILTERS.statuses;
+
+  return {
+    statuses: statuses.length > 0 ? statuses : DEFAULT_FILTERS.statuses,
+    hasImage: data.hasImage === true,
+    datePreset: (DATE_PRESETS as readonly string[]).includes(data.datePreset)
+      ? data.datePreset
+      : DEFAULT_FILTERS.datePreset,
+    ownerId: typeof data.ownerId === "string" && data.ownerId ? data.ownerId : null,
+    maxDistanceKm: isDistanceOption(data.maxDistanceKm) ? data.maxDistanceKm : null,
+    sort: (SORT_KEYS as readonly string[]).includes(data.sort) ? data.sort : DEFAULT_FILTERS.sort,
+  };
+}
+
+// Adds or removes a status; at least one status always stays selected
+export function toggleStatus(filters: ItemFilters, status: ItemStatus): ItemFilters {
+  const has = filters.statuses.includes(status);
+  if (has && filters.statuses.length === 1) return filters;
+
+  const next = has
+    ? filters.statuses.filter((s) => s !== status)
+    : ITEM_STATUSES.filter((s) => s === status || filters.statuses.includes(s));
+
+  return { ...filters, statuses: next };
+}
+
+// Statuses for the `status in [...]` query, or null when every status is selected
+export function statusQueryValues(filters: ItemFilters): ItemStatus[] | null {
+  return filters.statuses.length >= ITEM_STATUSES.length ? null : filters.statuses;
+}
+
+// Start of the "posted within" period (null = no date filter)
+export function createdAfter(preset: DatePreset, now: Date = new Date()): Date | null {
+  if (preset === "any") return null;
+  return new Date(now.getTime() - DATE_PRESET_DAYS[preset] * 24 * 60 * 60 * 1000);
+}
+
+// One `where` clause of the category query
+export type FilterClause = {
+  field: "category" | "hidden" | "status" | "hasImage" | "ownerId" | "createdAt";
+  op: "==" | "in" | ">=";
+  value: unknown;
+};
+
+// Firestore query for a category list with the given filters
+// Equality filters first, then the createdAt range + order (the shape the indexes expect)
+// hidden == false is always there: the rules refuse hidden items to everyone but owners and moderators
+// "nearest" is ordered newest-first by Firestore and re-sorted by distance on the device
+export function filterQueryPlan(
+  category: string,
+  filters: ItemFilters,
+  now: Date = new Date(),
+): { clauses: FilterClause[]; order: "asc" | "desc" } {
+  const clauses: FilterClause[] = [
+    { field: "category", op: "==", value: category },
+    { field: "hidden", op: "==", value: false },
+  ];
+
+  const statuses = statusQueryValues(filters);
+  if (statuses) clauses.push({ field: "status", op: "in", value: statuses });
+
+  if (filters.hasImage) clauses.push({ field: "hasImage", op: "==", value: true });
+
+  if (filters.ownerId) clauses.push({ field: "ownerId", op: "==", value: filters.ownerId });
+
+  const since = createdAfter(filters.datePreset, now);
+  if (since) clauses.push({ field: "createdAt", op: ">=", value: since });
+
+  return { clauses, order: filters.sort === "oldest" ? "asc" : "desc" };
+}
+
+// Number of filters that differ from the defaults (badge on the filter button)
+export function activeFilterCount(filters: ItemFilters): number {
+  let count = 0;
+  if (
+    filters.statuses.length !== DEFAULT_FILTERS.statuses.length ||
+    filters.statuses.some((s) => !DEFAULT_FILTERS.statuses.includes(s))
+  ) {
+    count += 1;
+  }
+  if (filters.hasImage !== DEFAULT_FILTERS.hasImage) count += 1;
+  if (filters.datePreset !== DEFAULT_FILTERS.datePreset) count += 1;
+  if (filters.ownerId !== DEFAULT_FILTERS.ownerId) count += 1;
+  if (filters.maxDistanceKm !== DEFAULT_FILTERS.maxDistanceKm) count += 1;
+  if (filters.sort !== DEFAULT_FILTERS.sort) count += 1;
+  return count;
+}
+
+// Stored on items so "has image" can be a Firestore filter
+// (written by the onItemWrittenSearchFields Cloud Function; MUST match functions/keywords.js)
+export function hasImageField(imageUrl?: string | null): boolean {
+  return typeof imageUrl === "string" && imageUrl.trim().length > 0;
+}
+
+/*This file describes the filter and sort options of the category item list.
+It holds the defaults, validates filters saved in AsyncStorage,
+and converts the choices into the values used by the Firestore query.
+*/
@@ -0,0 +1,97 @@
+// ---------- Item photo galleries ----------
+// items/{id}.images   = download URLs in display order (the first one is the cover)
+// items/{id}.imageUrl = copy of the cover, kept for list thumbnails, the
+//                       "has photo" filter and the AI categorizer
+// Items created before galleries only have `imageUrl`; itemImages() reads them
+// as a one-photo gallery, so no backfill is needed.
+
+// Most photos one item can have
+export const MAX_ITEM_IMAGES = 8;
+
+// Fields that hold photos on an item document
+export type ItemImageFields = {
+  images?: unknown;
+  imageUrl?: string | null;
+};
+
+const isUrl = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+// Gallery of an item in display order (read-side migration of single-`imageUrl` items)
+export function itemImages(item: ItemImageFields | null | undefined): string[] {
+  if (!item) return [];
+
+  if (Array.isArray(item.images)) {
+    const images = Array.from(new Set(item.images.filter(isUrl)));
+    if (images.length > 0) return images.slice(0, MAX_ITEM_IMAGES);
+  }
+
+  return isUrl(item.imageUrl) ? [item.imageUrl] : [];
+}
+
+// Cover photo ("" when the item has none)
+export function coverImage(item: ItemImageFields | null | undefined): string {
+  return itemImages(item)[0] ?? "";
+}
+
+// Fields to write for a gallery (the cover is mirrored into imageUrl)
+export function imageFields(images: string[]): { images: string[]; imageUrl: string } {
+  const clean = Array.from(new Set(images.filter(isUrl))).slice(0, MAX_ITEM_IMAGES);
+  return { images: clean, imageUrl: clean[0] ?? "" };
+}
+
+// How many more photos can be added
+export function remainingImageSlots(images: string[]): number {
+  return Math.max(0, MAX_ITEM_IMAGES - images.length);
+}
+
+// Moves one photo to a new position (drag-to-reorder); out-of-range indexes are clamped
+export function moveImage(images: string[], from: number, to: number): string[] {
+  if (from < 0 || from >= images.length) return images;
+
+  const target = Math.min(Math.max(to, 0), images.length - 1);
+  if (target === from) return images;
+
+  const next = [...images];
+  const [moved] = next.splice(from, 1);
+  next.splice(target, 0, moved);
+  return next;
+}
+
+// Makes a photo the cover by moving it to the front
+export function makeCover(images: string[], index: number): string[] {
+  return moveImage(images, index, 0);
+}
+
+export function removeImageAt(images: string[], index: number): string[] {
+  return images.filter((_, i) => i !== index);
+}
+
+// Photos that were in `before` but are gone from `after` (to delete from Storage on save)
+export function removedImages(before: string[], after: string[]): string[] {
+  const kept = new Set(after);
+  return before.filter((url) => !kept.has(url));
+}
+
+// Position a dragged thumbnail lands on in a grid of `columns` tiles,
+// from how far it moved (`slot` = tile size + gap)
+export function dropIndex(
+  from: number,
+  dx: number,
+  dy: number,
+  slot: number,
+  columns: number,
+  count: number,
+): number {
+  if (count <= 0 || slot <= 0 || columns <= 0) return from;
+
+  const col = Math.min(Math.max((from % columns) + Math.round(dx / slot), 0), columns - 1);
+  const row = Math.max(Math.floor(from / columns) + Math.round(dy / slot), 0);
+
+  return Math.min(row * columns + col, count - 1);
+}
+
+/*This file contains the pure helpers of the item photo gallery.
+It reads the photos of old and new items the same way, keeps the cover in imageUrl,
+and reorders, removes and diffs photo lists for the add and edit forms.
+*/
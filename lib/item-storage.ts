@@ -0,0 +1,32 @@
+// Import Firebase Storage helpers
+// ref = file reference (from a path or a download URL)
+// deleteObject = delete a stored file
+import { deleteObject, ref } from "firebase/storage";
+
+// Import initialized Storage instance
+import { storage } from "@/lib/firebase";
+
+// Storage path for a new item photo (uploaded with startUpload in lib/upload.ts)
+// Path: items/{uid}/{timestamp}_{random}.jpg (unique, so photos of one item never overwrite each other)
+// The thumbnail Cloud Function picks the photo up from this path (see lib/thumbnails.ts)
+export function newItemImagePath(userId: string): string {
+  return `items/${userId}/${Date.now()}_${Math.random().toString(36).slice(2, 8)}.jpg`;
+}
+
+// Deletes stored photos by download URL (best effort: a missing file is not an error)
+// Returns how many could not be deleted
+export async function deleteItemImages(urls: string[]): Promise<number> {
+  const results = await Promise.allSettled(urls.map((url) => deleteObject(ref(storage, url))));
+
+  const failed = results.filter(
+    (r) => r.status === "rejected" && (r.reason as any)?.code !== "storage/object-not-found",
+  );
+  failed.forEach((r) => console.log("Delete image error:", (r as PromiseRejectedResult).reason));
+
+  return failed.length;
+}
+
+/*This file names and deletes item photos in Firebase Storage.
+The add and edit item forms upload each picked photo to a new path from here,
+and edits and item deletion remove the photos that are no longer used.
+*/
@@ -0,0 +1,74 @@
+// ---------- Saved list pages ----------
+// The list screens keep the first page of their query on the device, so they can
+// show it at once when the app starts offline (Firestore's own cache is in memory
+// only on React Native). Rows are stored as JSON; Firestore Timestamps are stored
+// as [seconds, nanoseconds] and read back as CachedTimestamp, which has the same
+// toMillis()/toDate() the screens use.
+
+// AsyncStorage key prefix of a saved page (prefix + the list's cache key)
+export const LIST_CACHE_PREFIX = "listCache:";
+
+// Rows kept per list
+export const MAX_CACHED_ROWS = 50;
+
+const TIMESTAMP_TAG = "__timestamp";
+
+// Read-only stand-in for a Firestore Timestamp of a saved row
+export class CachedTimestamp {
+  constructor(
+    readonly seconds: number,
+    readonly nanoseconds: number,
+  ) {}
+
+  toMillis() {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+
+  toDate() {
+    return new Date(this.toMillis());
+  }
+}
+
+const isTimestampLike = (v: any): v is { seconds: number; nanoseconds: number } =>
+  !!v &&
+  typeof v === "object" &&
+  typeof v.seconds === "number" &&
+  typeof v.nanoseconds === "number" &&
+  typeof v.toMillis === "function";
+
+export function listCacheKey(key: string): string {
+  return `${LIST_CACHE_PREFIX}${key}`;
+}
+
+// Rows -> stored JSON (at most MAX_CACHED_ROWS)
+export function serializeRows(rows: unknown[]): string {
+  return JSON.stringify(rows.slice(0, MAX_CACHED_ROWS), function (this: any, key, value) {
+    // `this[key]` is the value before its own toJSON() ran
+    const original = this[key];
+    return isTimestampLike(original)
+      ? { [TIMESTAMP_TAG]: [original.seconds, original.nanoseconds] }
+      : value;
+  });
+}
+
+// Stored JSON -> rows ([] for anything unreadable)
+export function parseCachedRows<T extends { id: string }>(raw: string | null): T[] {
+  if (!raw) return [];
+
+  try {
+    const rows = JSON.parse(raw, (_key, value) => {
+      const ts = value && typeof value === "object" ? value[TIMESTAMP_TAG] : undefined;
+      return Array.isArray(ts) && ts.length === 2 ? new CachedTimestamp(Number(ts[0]), Number(ts[1])) : value;
+    });
+
+    return Array.isArray(rows)
+      ? rows.filter((r): r is T => !!r && typeof r === "object" && typeof r.id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/*This file contains the pure helpers that save the first page of a list on the device
+and read it back with its timestamps, for browsing while offline.
+*/
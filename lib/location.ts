@@ -0,0 +1,235 @@
+// ---------- Item locations ----------
+// Every item stores the governorate it can be collected in and, optionally,
+// a coarse geohash of the donor's position:
+//   items/{id}.governorate = "irbid"
+//   items/{id}.geohash     = "sv9hc4" (or null)
+// Distances use the geohash when there is one, otherwise the governorate center.
+// Everything here is pure (no GPS, no Firebase) so it can be unit tested.
+
+export type GeoPoint = { lat: number; lng: number };
+
+// The 12 governorates of Jordan; `center` is the governorate's main city
+export const GOVERNORATES = [
+  { id: "amman", label: "Amman", center: { lat: 31.9539, lng: 35.9106 } },
+  { id: "irbid", label: "Irbid", center: { lat: 32.5514, lng: 35.8515 } },
+  { id: "zarqa", label: "Zarqa", center: { lat: 32.0728, lng: 36.088 } },
+  { id: "balqa", label: "Balqa", center: { lat: 32.0392, lng: 35.7272 } },
+  { id: "madaba", label: "Madaba", center: { lat: 31.716, lng: 35.7939 } },
+  { id: "mafraq", label: "Mafraq", center: { lat: 32.3429, lng: 36.208 } },
+  { id: "jerash", label: "Jerash", center: { lat: 32.2747, lng: 35.8961 } },
+  { id: "ajloun", label: "Ajloun", center: { lat: 32.3333, lng: 35.7528 } },
+  { id: "karak", label: "Karak", center: { lat: 31.18, lng: 35.7047 } },
+  { id: "tafilah", label: "Tafilah", center: { lat: 30.8375, lng: 35.6042 } },
+  { id: "maan", label: "Ma'an", center: { lat: 30.1962, lng: 35.734 } },
+  { id: "aqaba", label: "Aqaba", center: { lat: 29.5321, lng: 35.0063 } },
+] as const;
+
+export type GovernorateId = (typeof GOVERNORATES)[number]["id"];
+
+export const GOVERNORATE_IDS: GovernorateId[] = GOVERNORATES.map((g) => g.id);
+
+export function isGovernorateId(value: unknown): value is GovernorateId {
+  return typeof value === "string" && (GOVERNORATE_IDS as string[]).includes(value);
+}
+
+// Readable name of a governorate ("" when unknown, e.g. items created before locations)
+export function governorateLabel(id?: string | null): string {
+  return GOVERNORATES.find((g) => g.id === id)?.label ?? "";
+}
+
+export function governorateCenter(id?: string | null): GeoPoint | null {
+  return GOVERNORATES.find((g) => g.id === id)?.center ?? null;
+}
+
+export function isValidPoint(point: unknown): point is GeoPoint {
+  const p = point as GeoPoint;
+  return (
+    !!p &&
+    Number.isFinite(p.lat) &&
+    Number.isFinite(p.lng) &&
+    Math.abs(p.lat) <= 90 &&
+    Math.abs(p.lng) <= 180
+  );
+}
+
+// ---------- Geohash ----------
+// 6 characters ≈ 1.2 km × 0.6 km: close enough for "near me",
+// coarse enough not to publish the donor's exact address
+export const GEOHASH_PRECISION = 6;
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Same alphabet as BASE32, 1-12 characters (MUST match isValidGeohash in firestore.rules)
+const GEOHASH_PATTERN = /^[0-9b-hjkmnp-z]{1,12}$/;
+
+export function isValidGeohash(hash: unknown): hash is string {
+  return typeof hash === "string" && GEOHASH_PATTERN.test(hash);
+}
+
+// Standard geohash: bits alternate longitude/latitude, 5 bits per character
+export function encodeGeohash(point: GeoPoint, precision: number = GEOHASH_PRECISION): string {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lng : lat;
+    const coord = evenBit ? point.lng : point.lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    if (coord >= mid) {
+      value = value * 2 + 1;
+      range[0] = mid;
+    } else {
+      value *= 2;
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    bits += 1;
+
+    if (bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+// Center of the geohash cell (null for an invalid hash)
+export function decodeGeohash(hash: string): GeoPoint | null {
+  if (!isValidGeohash(hash)) return null;
+
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+
+    for (let bit = 4; bit >= 0; bit -= 1) {
+      const range = evenBit ? lng : lat;
+      const mid = (range[0] + range[1]) / 2;
+
+      if ((value >> bit) & 1) range[0] = mid;
+      else range[1] = mid;
+
+      evenBit = !evenBit;
+    }
+  }
+
+  return { lat: (lat[0] + lat[1]) / 2, lng: (lng[0] + lng[1]) / 2 };
+}
+
+// ---------- Distances ----------
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle (haversine) distance in kilometers
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Governorate whose center is closest to a point (pre-fills the picker from GPS)
+export function nearestGovernorate(point: GeoPoint): GovernorateId {
+  let best: GovernorateId = GOVERNORATES[0].id;
+  let bestKm = Infinity;
+
+  for (const g of GOVERNORATES) {
+    const km = distanceKm(point, g.center);
+    if (km < bestKm) {
+      best = g.id;
+      bestKm = km;
+    }
+  }
+
+  return best;
+}
+
+// Location fields stored on an item
+export type LocatedItem = {
+  governorate?: string | null;
+  geohash?: string | null;
+};
+
+// Fields written by the add/edit item forms (geohash is optional)
+export function itemLocationFields(
+  governorate: GovernorateId,
+  point?: GeoPoint | null,
+): { governorate: GovernorateId; geohash: string | null } {
+  return {
+    governorate,
+    geohash: point && isValidPoint(point) ? encodeGeohash(point) : null,
+  };
+}
+
+// Best known position of an item: its geohash, else its governorate center, else null
+export function itemPoint(item: LocatedItem): GeoPoint | null {
+  if (item.geohash) {
+    const point = decodeGeohash(item.geohash);
+    if (point) return point;
+  }
+  return governorateCenter(item.governorate);
+}
+
+// Distance from `origin` to an item (null when the item has no location)
+export function itemDistanceKm(item: LocatedItem, origin: GeoPoint): number | null {
+  const point = itemPoint(item);
+  return point ? distanceKm(origin, point) : null;
+}
+
+// "Within" choices of the distance filter (null = any distance)
+export const DISTANCE_OPTIONS_KM = [5, 10, 25, 50, 100] as const;
+
+export function isDistanceOption(value: unknown): value is number {
+  return (DISTANCE_OPTIONS_KM as readonly unknown[]).includes(value);
+}
+
+// Short text for a distance ("< 1 km", "12 km")
+export function formatDistance(km: number): string {
+  if (km < 1) return "< 1 km";
+  return `${Math.round(km)} km`;
+}
+
+// Items within `maxKm` of `origin` (items without a location are left out)
+export function withinDistance<T extends LocatedItem>(items: T[], origin: GeoPoint, maxKm: number): T[] {
+  return items.filter((item) => {
+    const km = itemDistanceKm(item, origin);
+    return km !== null && km <= maxKm;
+  });
+}
+
+// Closest items first; items without a location keep their order at the end
+export function sortByDistance<T extends LocatedItem>(items: T[], origin: GeoPoint): T[] {
+  return items
+    .map((item, index) => ({ item, index, km: itemDistanceKm(item, origin) }))
+    .sort((a, b) => {
+      if (a.km === null || b.km === null) {
+        if (a.km === b.km) return a.index - b.index;
+        return a.km === null ? 1 : -1;
+      }
+      return a.km - b.km || a.index - b.index;
+    })
+    .map((entry) => entry.item);
+}
+
+// AsyncStorage key of the governorate chosen as "near me" when GPS is not used
+export const NEAR_ME_STORAGE_KEY = "nearMe:governorate";
+
+/*This file contains the location logic of the app.
+It lists Jordan's governorates, encodes and decodes geohashes, measures distances,
+and filters or sorts items by how far they are from the user.
+*/
@@ -0,0 +1,37 @@
+// Import callable helper from Firebase Functions
+import { httpsCallable } from "firebase/functions";
+
+// Import initialized Functions instance
+import { functions } from "@/lib/firebase";
+
+import { ReportAction, ReportReason, ReportTarget } from "@/lib/reports";
+
+// Calls a moderation function; server errors (HttpsError) keep their message for the screens
+async function callModeration(name: string, data: Record<string, string>) {
+  const fn = httpsCallable<Record<string, string>, { status: string }>(functions, name);
+  const res = await fn(data);
+  return res.data;
+}
+
+// Reports an item, a request the user takes part in or another user
+export function reportContent(targetType: ReportTarget, targetId: string, reason: ReportReason, details: string) {
+  return callModeration("reportContent", { targetType, targetId, reason, details: details.trim() });
+}
+
+// Hides the user's items and rejects their pending requests on the caller's items
+export function blockUser(userId: string) {
+  return callModeration("blockUser", { userId });
+}
+
+export function unblockUser(userId: string) {
+  return callModeration("unblockUser", { userId });
+}
+
+// Moderators only: hide the item, suspend the user or dismiss the report
+export function resolveReport(reportId: string, action: ReportAction) {
+  return callModeration("resolveReport", { reportId, action });
+}
+
+/*This file wraps the moderation Cloud Functions (functions/moderation.js):
+reports, blocking and the moderators' decisions.
+*/
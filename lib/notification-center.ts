@@ -0,0 +1,99 @@
+// ---------- Notification center ----------
+// The notification list is shown by day (Today, Yesterday, then dates) and,
+// inside a day, notifications about the same item are grouped together.
+
+// Fields the grouping needs (notifications.tsx rows have more)
+export type GroupableNotification = {
+  id: string;
+  itemId?: string;
+  read: boolean;
+  createdAt?: { toMillis(): number } | null; // missing while the server timestamp is pending
+};
+
+// Notifications about one item on one day (newest first)
+export type NotificationGroup<T> = {
+  key: string;
+  itemId: string;
+  notifications: T[];
+  unread: number;
+};
+
+// One day of the list (SectionList section)
+export type NotificationSection<T> = {
+  key: string;
+  title: string;
+  data: NotificationGroup<T>[];
+};
+
+// Most unread notifications counted for the badge ("99+" above)
+export const MAX_BADGE_COUNT = 99;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Local calendar day of a time: "2026-10-19"
+export function dayKey(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// Section title of a day: "Today", "Yesterday", "12 Oct" (this year) or "12 Oct 2025"
+export function dayTitle(key: string, now: number): string {
+  if (key === dayKey(now)) return "Today";
+
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (key === dayKey(yesterday.getTime())) return "Yesterday";
+
+  const [year, month, day] = key.split("-").map(Number);
+  const label = `${day} ${MONTHS[month - 1]}`;
+  return year === new Date(now).getFullYear() ? label : `${label} ${year}`;
+}
+
+// Newest-first notifications -> day sections of item groups (order is kept)
+export function groupNotifications<T extends GroupableNotification>(
+  notifications: T[],
+  now: number,
+): NotificationSection<T>[] {
+  const sections: NotificationSection<T>[] = [];
+  const sectionOf = new Map<string, NotificationSection<T>>();
+  const groupOf = new Map<string, NotificationGroup<T>>();
+
+  for (const n of notifications) {
+    const day = dayKey(n.createdAt?.toMillis() ?? now);
+
+    let section = sectionOf.get(day);
+    if (!section) {
+      section = { key: day, title: dayTitle(day, now), data: [] };
+      sectionOf.set(day, section);
+      sections.push(section);
+    }
+
+    // Notifications without an item stay on their own
+    const itemId = n.itemId ?? "";
+    const groupKey = itemId ? `${day}/${itemId}` : `${day}/#${n.id}`;
+
+    let group = groupOf.get(groupKey);
+    if (!group) {
+      group = { key: groupKey, itemId, notifications: [], unread: 0 };
+      groupOf.set(groupKey, group);
+      section.data.push(group);
+    }
+
+    group.notifications.push(n);
+    if (!n.read) group.unread += 1;
+  }
+
+  return sections;
+}
+
+// Badge text for an unread count ("" hides the badge)
+export function badgeLabel(count: number): string {
+  if (count <= 0) return "";
+  return count > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : String(count);
+}
+
+/*This file contains the pure helpers of the notification center:
+grouping the list by day and by item, and the unread badge text.
+*/
@@ -0,0 +1,59 @@
+import type { Href } from "expo-router";
+// Typed route of the screen a notification opens
+
+// ---------- Notification deep links ----------
+// A notification (in the list or as a push) opens the screen where the user acts on it.
+// Types MUST match the `type` values written by notify() in functions/requests.js.
+
+// Data carried by a push (set by functions/push.js); the list rows have the same fields
+export type NotificationLinkData = {
+  notificationId?: unknown;
+  type?: unknown;
+  itemId?: unknown;
+  requestId?: unknown; // notifications written before it existed have none
+};
+
+// Notifications the item owner receives (their "Received" requests tab)
+const OWNER_TYPES = ["request_received", "request_cancelled"];
+
+// Notifications the requester receives (their "Sent" requests tab)
+// An approval opens the request's chat instead (the server opens it on approval)
+const REQUESTER_TYPES = [
+  "request_approved",
+  "request_rejected",
+  "request_waitlisted",
+  "request_reopened",
+  "request_revoked",
+];
+
+const text = (value: unknown): string => (typeof value === "string" ? value : "");
+
+// Screen a notification opens (unknown types open `fallback`, the notification list by default)
+export function notificationLink(
+  data: NotificationLinkData | null | undefined,
+  fallback: Href = "/notifications",
+): Href {
+  const type = text(data?.type);
+  const itemId = text(data?.itemId);
+  const requestId = text(data?.requestId);
+
+  if (type === "request_approved" && requestId) return { pathname: "/chat/[id]", params: { id: requestId } };
+  if (OWNER_TYPES.includes(type)) return { pathname: "/my-requests", params: { tab: "received" } };
+  if (REQUESTER_TYPES.includes(type)) return { pathname: "/my-requests", params: { tab: "sent" } };
+  // A donation (or a review from the other side) opens the request's review screen
+  if ((type === "item_donated" || type === "review_received") && requestId) {
+    return { pathname: "/review/[requestId]", params: { requestId } };
+  }
+  if (type === "item_donated" && itemId) return { pathname: "/item/[id]", params: { id: itemId } };
+
+  return fallback;
+}
+
+// Notification document id of a push ("" when missing)
+export function pushNotificationId(data: NotificationLinkData | null | undefined): string {
+  return text(data?.notificationId);
+}
+
+/*This file maps a notification to the screen it opens, for taps in the
+notification list and on push notifications.
+*/
@@ -0,0 +1,133 @@
+// ---------- Notification preferences ----------
+// Stored on users/{uid}/private/settings.notificationPrefs and read by the onNotificationCreated
+// Cloud Function (MUST match functions/notification-prefs.js):
+// - types:      per notification `type`, which channels deliver it
+//               (inApp = kept in the notification list, push, email)
+// - quietHours: pushes between start and end are held until end (minutes after midnight, Jordan time)
+// - digest:     pushes and emails are collected and sent once a day instead
+// Types without a saved choice (including types added later) use DEFAULT_CHANNELS.
+
+export type NotificationChannel = "inApp" | "push" | "email";
+
+export const NOTIFICATION_CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: "inApp", label: "In-app" },
+  { key: "push", label: "Push" },
+  { key: "email", label: "Email" },
+];
+
+export type ChannelPrefs = Record<NotificationChannel, boolean>;
+
+export type QuietHours = {
+  enabled: boolean;
+  start: number; // minutes after midnight
+  end: number; // minutes after midnight (may be earlier than start: overnight)
+};
+
+export type NotificationPrefs = {
+  types: Record<string, ChannelPrefs>;
+  quietHours: QuietHours;
+  digest: boolean;
+};
+
+// Notification types shown in Settings (MUST match the types written by notify() in functions/requests.js)
+export const NOTIFICATION_TYPES: { type: string; label: string }[] = [
+  { type: "request_received", label: "New requests for my items" },
+  { type: "request_cancelled", label: "Requests cancelled" },
+  { type: "request_approved", label: "My request approved" },
+  { type: "request_rejected", label: "My request rejected" },
+  { type: "request_waitlisted", label: "Moved to the waitlist" },
+  { type: "request_reopened", label: "Back in the queue" },
+  { type: "request_revoked", label: "Approval revoked" },
+  { type: "item_donated", label: "Item donated" },
+  { type: "review_received", label: "New reviews" },
+];
+
+export const DEFAULT_CHANNELS: ChannelPrefs = { inApp: true, push: true, email: false };
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: 22 * 60, end: 7 * 60 };
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  types: {},
+  quietHours: DEFAULT_QUIET_HOURS,
+  digest: false,
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const isMinute = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value < MINUTES_PER_DAY;
+
+const bool = (value: unknown, fallback: boolean) => (typeof value === "boolean" ? value : fallback);
+
+// Stored preferences -> complete preferences (missing or broken fields use the defaults)
+export function normalizeNotificationPrefs(raw: unknown): NotificationPrefs {
+  const value = raw && typeof raw === "object" ? (raw as any) : {};
+
+  const types: Record<string, ChannelPrefs> = {};
+  if (value.types && typeof value.types === "object") {
+    for (const [type, channels] of Object.entries(value.types as Record<string, any>)) {
+      if (!channels || typeof channels !== "object") continue;
+      types[type] = {
+        inApp: bool(channels.inApp, DEFAULT_CHANNELS.inApp),
+        push: bool(channels.push, DEFAULT_CHANNELS.push),
+        email: bool(channels.email, DEFAULT_CHANNELS.email),
+      };
+    }
+  }
+
+  const quiet = value.quietHours && typeof value.quietHours === "object" ? value.quietHours : {};
+
+  return {
+    types,
+    quietHours: {
+      enabled: bool(quiet.enabled, DEFAULT_QUIET_HOURS.enabled),
+      start: isMinute(quiet.start) ? quiet.start : DEFAULT_QUIET_HOURS.start,
+      end: isMinute(quiet.end) ? quiet.end : DEFAULT_QUIET_HOURS.end,
+    },
+    digest: bool(value.digest, false),
+  };
+}
+
+// Channels of one notification type
+export function channelsFor(prefs: NotificationPrefs, type: string): ChannelPrefs {
+  return prefs.types[type] ?? DEFAULT_CHANNELS;
+}
+
+// Turns one channel of one type on or off
+export function withChannel(
+  prefs: NotificationPrefs,
+  type: string,
+  channel: NotificationChannel,
+  on: boolean,
+): NotificationPrefs {
+  return {
+    ...prefs,
+    types: { ...prefs.types, [type]: { ...channelsFor(prefs, type), [channel]: on } },
+  };
+}
+
+// True when `minute` falls in the quiet hours (start inclusive, end exclusive; may wrap past midnight)
+export function isQuietTime(minute: number, quiet: QuietHours): boolean {
+  if (!quiet.enabled || quiet.start === quiet.end) return false;
+
+  return quiet.start < quiet.end
+    ? minute >= quiet.start && minute < quiet.end
+    : minute >= quiet.start || minute < quiet.end;
+}
+
+// Moves a time by `delta` minutes, wrapping around midnight
+export function shiftMinutes(minute: number, delta: number): number {
+  return (((minute + delta) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+// 1320 -> "22:00"
+export function formatMinutes(minute: number): string {
+  const h = Math.floor(minute / 60);
+  const m = minute % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/*This file contains the pure model of the notification preferences:
+the channels per notification type, quiet hours and the daily digest,
+with the defaults used when nothing was saved.
+*/
@@ -0,0 +1,62 @@
+// Import Firestore helpers
+// The receiver may only mark notifications as read or delete them (see firestore.rules)
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  query,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+// Import initialized Firestore instance
+import { db } from "@/lib/firebase";
+
+// Most writes in one batch (Firestore allows 500)
+const BATCH_SIZE = 400;
+
+// Unread notifications of a user (the badge count and mark-all-read use it)
+export function unreadNotificationsQuery(userId: string, max?: number) {
+  const base = query(
+    collection(db, "notifications"),
+    where("toUserId", "==", userId),
+    where("read", "==", false),
+  );
+  return max ? query(base, limit(max)) : base;
+}
+
+export async function markNotificationRead(notificationId: string) {
+  await updateDoc(doc(db, "notifications", notificationId), { read: true });
+}
+
+// Marks every unread notification as read, including pages that are not loaded
+// Returns the ids that were updated
+export async function markAllNotificationsRead(userId: string): Promise<string[]> {
+  const ids: string[] = [];
+
+  // Each round reads the next unread ones (the previous round marked theirs read)
+  for (;;) {
+    const snap = await getDocs(unreadNotificationsQuery(userId, BATCH_SIZE));
+    if (snap.empty) break;
+
+    const batch = writeBatch(db);
+    snap.docs.forEach((d) => batch.update(d.ref, { read: true }));
+    await batch.commit();
+
+    ids.push(...snap.docs.map((d) => d.id));
+    if (snap.size < BATCH_SIZE) break;
+  }
+
+  return ids;
+}
+
+export async function deleteNotification(notificationId: string) {
+  await deleteDoc(doc(db, "notifications", notificationId));
+}
+
+/*This file contains the notification writes the receiver can make:
+mark one or all as read and delete one.
+*/
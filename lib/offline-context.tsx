@@ -0,0 +1,263 @@
+// NetInfo = device connection state
+import NetInfo from "@react-native-community/netinfo";
+
+// AsyncStorage = the outbox survives app restarts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Import React utilities
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+// Signed-in user (entries are sent only for the user who queued them)
+import { auth } from "@/lib/firebase";
+
+// Outbox model (pure, unit tested)
+import {
+  EMPTY_OUTBOX,
+  OUTBOX_STORAGE_KEY,
+  OutboxAction,
+  OutboxConflict,
+  OutboxEntry,
+  OutboxState,
+  conflictMessage,
+  enqueueEntry,
+  isNetworkError,
+  isServerError,
+  parseOutbox,
+  sendFailure,
+  sendableEntries,
+} from "@/lib/outbox";
+
+// Sends one entry
+import { sendOutboxEntry } from "@/lib/outbox-runner";
+
+// Local photo copies of offline posts
+import { releaseOutboxPhotos } from "@/lib/outbox-photos";
+
+// "done" = the action ran now, "queued" = it waits in the outbox
+export type RunResult = "done" | "queued";
+
+type OfflineState = {
+  online: boolean;
+  // false when the device has no connection
+
+  syncing: boolean;
+  // the outbox is being sent
+
+  pending: OutboxEntry[];
+  // actions waiting for the connection
+
+  conflicts: OutboxConflict[];
+  // actions that failed once sent (shown by <OfflineBanner />)
+
+  queue: (action: OutboxAction, title: string) => void;
+  // stores an action for later
+
+  run: (action: OutboxAction, title: string, send: () => Promise<unknown>) => Promise<RunResult>;
+  // runs `send` when online; queues the action when offline or when the connection drops
+
+  sync: () => void;
+  // sends the outbox now (also runs on reconnect)
+
+  dismissConflicts: () => void;
+};
+
+const OfflineContext = createContext<OfflineState>({
+  online: true,
+  syncing: false,
+  pending: [],
+  conflicts: [],
+  queue: () => {},
+  run: async (_action, _title, send) => {
+    await send();
+    return "done";
+  },
+  sync: () => {},
+  dismissConflicts: () => {},
+});
+
+// Connection state right now (a failed call may be the connection dropping, see isServerError)
+async function deviceOnline(): Promise<boolean> {
+  const state = await NetInfo.fetch();
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+const newEntryId = () => `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// OfflineProvider wraps the private screens: connection state + outbox
+export function OfflineProvider({ children }: { children: React.ReactNode }) {
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxState>(EMPTY_OUTBOX);
+
+  const outboxRef = useRef<OutboxState>(EMPTY_OUTBOX);
+  const loaded = useRef(false);
+  const syncingRef = useRef(false);
+  // Same values readable from async code
+
+  // Every change goes through here: state, ref and device storage stay the same
+  const save = useCallback((change: (prev: OutboxState) => OutboxState) => {
+    const next = change(outboxRef.current);
+    outboxRef.current = next;
+    setOutbox(next);
+    AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(next)).catch((e) =>
+      console.log("Save outbox error:", e),
+    );
+  }, []);
+
+  // Connection state
+  useEffect(() => {
+    const unsub = NetInfo.addEventListener((state) => {
+      setOnline(state.isConnected !== false && state.isInternetReachable !== false);
+    });
+    return unsub;
+  }, []);
+
+  // Load the outbox saved by an earlier session
+  useEffect(() => {
+    AsyncStorage.getItem(OUTBOX_STORAGE_KEY)
+      .then((raw) => {
+        const stored = parseOutbox(raw);
+        // Entries queued before loading finished are kept after the stored ones
+        const merged = outboxRef.current.entries.reduce(enqueueEntry, stored.entries);
+        save(() => ({ entries: merged, conflicts: [...stored.conflicts, ...outboxRef.current.conflicts] }));
+      })
+      .catch((e) => console.log("Load outbox error:", e))
+      .finally(() => {
+        loaded.current = true;
+        setOutbox((o) => ({ ...o }));
+        // re-render so the sync effect sees the loaded outbox
+      });
+  }, [save]);
+
+  // Sends the entries one by one; stops at the first network error or server failure
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !loaded.current) return;
+
+    const userId = auth.currentUser?.uid ?? null;
+    if (sendableEntries(outboxRef.current.entries, userId).length === 0) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+
+    try {
+      let entry: OutboxEntry | undefined;
+      while ((entry = sendableEntries(outboxRef.current.entries, userId)[0])) {
+        const current = entry;
+
+        try {
+          await sendOutboxEntry(current, (updated) =>
+            save((o) => ({ ...o, entries: o.entries.map((e) => (e.id === updated.id ? updated : e)) })),
+          );
+
+          save((o) => ({ ...o, entries: o.entries.filter((e) => e.id !== current.id) }));
+        } catch (e) {
+          const sent = outboxRef.current.entries.find((x) => x.id === current.id) ?? current;
+          const failure = sendFailure(e, await deviceOnline(), sent.attempts ?? 0);
+
+          if (failure === "wait") {
+            console.log("Outbox sync paused:", e);
+            return;
+          }
+
+          // Kept for the next sync (reconnect, a new entry or the banner's "Tap to send")
+          if (failure === "retry") {
+            console.log("Outbox server failure:", e);
+            const retried = { ...sent, attempts: (sent.attempts ?? 0) + 1 };
+            save((o) => ({ ...o, entries: o.entries.map((x) => (x.id === current.id ? retried : x)) }));
+            return;
+          }
+
+          console.log("Outbox conflict:", e);
+          if (sent.action.kind === "createItem") releaseOutboxPhotos(sent.action.photos);
+
+          save((o) => ({
+            entries: o.entries.filter((x) => x.id !== current.id),
+            conflicts: [...o.conflicts, { entry: sent, message: conflictMessage(sent, e) }],
+          }));
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [save]);
+
+  // Send on reconnect (and once the stored outbox is loaded)
+  useEffect(() => {
+    if (online && loaded.current && outbox.entries.length > 0) sync();
+  }, [online, outbox.entries.length, sync]);
+
+  const queue = useCallback(
+    (action: OutboxAction, title: string) => {
+      const userId = auth.currentUser?.uid;
+      if (!userId) return;
+
+      const entry: OutboxEntry = { id: newEntryId(), userId, title, createdAt: Date.now(), action };
+      save((o) => ({ ...o, entries: enqueueEntry(o.entries, entry) }));
+    },
+    [save],
+  );
+
+  const run = useCallback(
+    async (action: OutboxAction, title: string, send: () => Promise<unknown>): Promise<RunResult> => {
+      if (!online) {
+        queue(action, title);
+        return "queued";
+      }
+
+      try {
+        await send();
+        return "done";
+      } catch (e) {
+        // A server failure is only queued when the device turned out to be offline
+        if (!isNetworkError(e) && !(isServerError(e) && !(await deviceOnline()))) throw e;
+
+        queue(action, title);
+        return "queued";
+      }
+    },
+    [online, queue],
+  );
+
+  const dismissConflicts = useCallback(() => {
+    const uid = auth.currentUser?.uid;
+    save((o) => ({ ...o, conflicts: o.conflicts.filter((c) => c.entry.userId !== uid) }));
+  }, [save]);
+
+  const userId = auth.currentUser?.uid ?? null;
+
+  const value = useMemo(
+    () => ({
+      online,
+      syncing,
+      pending: sendableEntries(outbox.entries, userId),
+      conflicts: outbox.conflicts.filter((c) => c.entry.userId === userId),
+      queue,
+      run,
+      sync,
+      dismissConflicts,
+    }),
+    [online, syncing, outbox, userId, queue, run, sync, dismissConflicts],
+  );
+
+  return <OfflineContext.Provider value={value}>{children}</OfflineContext.Provider>;
+}
+
+// Connection state + outbox for any private screen
+export function useOffline() {
+  return useContext(OfflineContext);
+}
+
+/*This file provides the offline state of the app: whether the device is online,
+and the outbox of item posts and request actions made while offline.
+The outbox is stored on the device and sent in order when the connection comes back;
+actions the server refuses by then are kept as conflicts for the user to review.
+*/
@@ -0,0 +1,38 @@
+import { Directory, File, Paths } from "expo-file-system";
+// expo-file-system = copies of photos picked offline (the picker's cache may be cleared)
+
+import { isLocalPhoto } from "@/lib/outbox";
+// Local file check
+
+const outboxDir = () => new Directory(Paths.document, "outbox");
+
+// Copies local photos into the app's documents folder; URLs are returned as they are
+export function keepOutboxPhotos(photos: string[]): string[] {
+  const dir = outboxDir();
+  if (!dir.exists) dir.create({ intermediates: true });
+
+  return photos.map((uri) => {
+    if (!isLocalPhoto(uri)) return uri;
+
+    const copy = new File(dir, `${Date.now()}_${Math.random().toString(36).slice(2, 8)}.jpg`);
+    new File(uri).copy(copy);
+    return copy.uri;
+  });
+}
+
+// Deletes the copies once the post was sent (or dropped)
+export function releaseOutboxPhotos(photos: string[]) {
+  for (const uri of photos) {
+    if (!isLocalPhoto(uri)) continue;
+
+    try {
+      const file = new File(uri);
+      if (file.exists) file.delete();
+    } catch (e) {
+      console.log("Outbox photo delete error:", e);
+    }
+  }
+}
+
+/*This file keeps the photos of item posts made offline until they are uploaded.
+*/
@@ -0,0 +1,116 @@
+// Import Firestore helpers (posts use a fixed id, so sending twice is harmless)
+import { doc, getDocFromServer, serverTimestamp, setDoc } from "firebase/firestore";
+
+// Import initialized Firestore instance
+import { db } from "@/lib/firebase";
+
+// Request workflow Cloud Functions
+import {
+  approveRequest,
+  cancelRequest,
+  markDonated,
+  rejectRequest,
+  requestItem,
+  revokeRequest,
+} from "@/lib/requests";
+
+// Photo upload (compressed, resumable, retried)
+import { startUpload } from "@/lib/upload";
+import { newItemImagePath } from "@/lib/item-storage";
+
+// Gallery fields (cover mirrored into imageUrl)
+import { imageFields } from "@/lib/item-images";
+
+// Initial item status
+import { INITIAL_ITEM_STATUS } from "@/lib/rules";
+
+// Outbox model + local photo copies
+import { OutboxEntry, isLocalPhoto } from "@/lib/outbox";
+import { releaseOutboxPhotos } from "@/lib/outbox-photos";
+
+// Longest wait for the server to confirm a post
+// (Firestore keeps an offline write pending instead of failing it)
+const POST_CONFIRM_MS = 20 * 1000;
+
+// Rejects with a network error (deadline-exceeded) when the write is not confirmed in time;
+// Firestore still sends the pending write once the connection is back
+function confirmedWrite(write: Promise<void>): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(Object.assign(new Error("The post was not confirmed in time."), { code: "deadline-exceeded" })),
+      POST_CONFIRM_MS,
+    );
+  });
+
+  return Promise.race([write, timeout]).finally(() => {
+    if (timer) clearTimeout(timer);
+  });
+}
+
+// Sends one outbox entry; throws the server/network error when it fails.
+// onUpdate saves progress (photos uploaded so far), so a retry does not upload them again.
+export async function sendOutboxEntry(
+  entry: OutboxEntry,
+  onUpdate: (entry: OutboxEntry) => void,
+): Promise<void> {
+  const { action } = entry;
+
+  switch (action.kind) {
+    case "requestItem":
+      await requestItem(action.itemId);
+      return;
+    case "approveRequest":
+      await approveRequest(action.requestId);
+      return;
+    case "rejectRequest":
+      await rejectRequest(action.requestId);
+      return;
+    case "cancelRequest":
+      await cancelRequest(action.requestId);
+      return;
+    case "revokeRequest":
+      await revokeRequest(action.requestId);
+      return;
+    case "markDonated":
+      await markDonated(action.itemId);
+      return;
+    case "createItem": {
+      const itemRef = doc(db, "items", action.itemId);
+
+      // An earlier send that timed out may have reached the server after all
+      // (offline this throws "unavailable", so the entry waits for the connection)
+      if ((await getDocFromServer(itemRef)).exists()) {
+        releaseOutboxPhotos(action.photos);
+        return;
+      }
+
+      const photos = [...action.photos];
+
+      for (let i = 0; i < photos.length; i++) {
+        if (!isLocalPhoto(photos[i])) continue;
+
+        const local = photos[i];
+        photos[i] = await startUpload(local, newItemImagePath(entry.userId)).promise;
+        releaseOutboxPhotos([local]);
+        onUpdate({ ...entry, action: { ...action, photos: [...photos] } });
+      }
+
+      await confirmedWrite(
+        setDoc(itemRef, {
+          ...action.item,
+          ...imageFields(photos),
+          ownerId: entry.userId,
+          status: INITIAL_ITEM_STATUS,
+          hidden: false,
+          createdAt: serverTimestamp(),
+        }),
+      );
+      return;
+    }
+  }
+}
+
+/*This file sends the actions of the offline outbox: request workflow calls,
+and item posts (uploading their offline photos first).
+*/
@@ -0,0 +1,190 @@
+// ---------- Offline outbox ----------
+// Item posts and request actions made while offline are stored on the device
+// (lib/offline-context.tsx) and sent in order when the connection comes back.
+// A network error keeps an entry for the next try; a server failure is tried again
+// a few times; any other error means the action can no longer be done (the item
+// was taken meanwhile, the request was already answered...) and the entry becomes
+// a conflict shown to the user.
+
+// AsyncStorage key of the outbox (entries + conflicts)
+export const OUTBOX_STORAGE_KEY = "outbox:v1";
+
+export type OutboxAction =
+  | { kind: "requestItem"; itemId: string }
+  | { kind: "approveRequest"; requestId: string }
+  | { kind: "rejectRequest"; requestId: string }
+  | { kind: "cancelRequest"; requestId: string }
+  | { kind: "revokeRequest"; requestId: string }
+  | { kind: "markDonated"; itemId: string }
+  | {
+      kind: "createItem";
+      itemId: string; // id chosen on the device, so a retried post never creates a second item
+      item: Record<string, unknown>; // item fields without photos, owner, status and createdAt
+      photos: string[]; // download URLs, or local files still to upload
+    };
+
+export type OutboxKind = OutboxAction["kind"];
+
+export type OutboxEntry = {
+  id: string;
+  userId: string; // who queued it (only sent while the same user is signed in)
+  title: string; // item title, for messages
+  createdAt: number;
+  action: OutboxAction;
+  attempts?: number; // sends that failed on the server so far
+};
+
+export type OutboxConflict = {
+  entry: OutboxEntry;
+  message: string;
+};
+
+export type OutboxState = {
+  entries: OutboxEntry[];
+  conflicts: OutboxConflict[];
+};
+
+export const EMPTY_OUTBOX: OutboxState = { entries: [], conflicts: [] };
+
+const KINDS: OutboxKind[] = [
+  "requestItem",
+  "approveRequest",
+  "rejectRequest",
+  "cancelRequest",
+  "revokeRequest",
+  "markDonated",
+  "createItem",
+];
+
+// Error codes of a missing connection (Functions, Firestore, Storage, upload service)
+const NETWORK_ERRORS = new Set([
+  "unavailable",
+  "deadline-exceeded",
+  "functions/unavailable",
+  "functions/deadline-exceeded",
+  "storage/retry-limit-exceeded",
+  "upload/stalled",
+]);
+
+// Error codes of a server failure (a crashed Cloud Function). The Functions SDK also reports
+// a fetch that failed for lack of connection this way, so the device's connection state
+// (NetInfo) tells the two apart.
+const SERVER_ERRORS = new Set(["internal", "functions/internal"]);
+
+// Server failures of one entry before it becomes a conflict
+export const MAX_SEND_ATTEMPTS = 3;
+
+const codeOf = (e: unknown): string =>
+  e && typeof e === "object" && typeof (e as any).code === "string" ? (e as any).code : "";
+
+export function isNetworkError(e: unknown): boolean {
+  if (NETWORK_ERRORS.has(codeOf(e))) return true;
+  const message = e instanceof Error ? e.message : "";
+  return /network request failed|failed to fetch|offline/i.test(message);
+}
+
+export function isServerError(e: unknown): boolean {
+  return SERVER_ERRORS.has(codeOf(e));
+}
+
+// What happens to an entry whose send failed:
+// - "wait":     the device is offline, the entry is sent on reconnect
+// - "retry":    the server failed, the entry is sent again later (attempts + 1)
+// - "conflict": the action is refused, or the server failed MAX_SEND_ATTEMPTS times
+export function sendFailure(e: unknown, deviceOnline: boolean, attempts: number): "wait" | "retry" | "conflict" {
+  if (isNetworkError(e)) return "wait";
+  if (!isServerError(e)) return "conflict";
+  if (!deviceOnline) return "wait";
+  return attempts + 1 < MAX_SEND_ATTEMPTS ? "retry" : "conflict";
+}
+
+// Photos picked offline are local files (uploaded when the post is sent)
+export function isLocalPhoto(uri: string): boolean {
+  return /^(file|content|ph|assets-library):/i.test(uri);
+}
+
+const isEntry = (e: any): e is OutboxEntry =>
+  !!e &&
+  typeof e.id === "string" &&
+  typeof e.userId === "string" &&
+  typeof e.createdAt === "number" &&
+  (e.attempts === undefined || typeof e.attempts === "number") &&
+  !!e.action &&
+  KINDS.includes(e.action.kind);
+
+// Reads the stored outbox (drops anything it does not understand)
+export function parseOutbox(raw: string | null): OutboxState {
+  if (!raw) return EMPTY_OUTBOX;
+
+  try {
+    const value = JSON.parse(raw);
+    const entries = Array.isArray(value?.entries) ? value.entries.filter(isEntry) : [];
+    const conflicts = Array.isArray(value?.conflicts)
+      ? value.conflicts.filter((c: any) => isEntry(c?.entry) && typeof c.message === "string")
+      : [];
+    return { entries, conflicts };
+  } catch {
+    return EMPTY_OUTBOX;
+  }
+}
+
+// Target of an action (same kind + same target = same action queued twice)
+const targetOf = (action: OutboxAction): string =>
+  "requestId" in action ? action.requestId : action.itemId;
+
+// Adds an entry unless the same action is already waiting
+export function enqueueEntry(entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] {
+  const duplicate = entries.some(
+    (e) => e.action.kind === entry.action.kind && targetOf(e.action) === targetOf(entry.action),
+  );
+  return duplicate ? entries : [...entries, entry];
+}
+
+// Entries the signed-in user can send now (oldest first)
+export function sendableEntries(entries: OutboxEntry[], userId: string | null): OutboxEntry[] {
+  if (!userId) return [];
+  return entries.filter((e) => e.userId === userId).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// What the action does, for messages ("Request for “Desk”")
+export function actionLabel(entry: Pick<OutboxEntry, "action" | "title">): string {
+  const title = entry.title ? `“${entry.title}”` : "an item";
+
+  switch (entry.action.kind) {
+    case "createItem":
+      return `Post ${title}`;
+    case "requestItem":
+      return `Request for ${title}`;
+    case "approveRequest":
+      return `Approval of a request for ${title}`;
+    case "rejectRequest":
+      return `Rejection of a request for ${title}`;
+    case "cancelRequest":
+      return `Cancelling your request for ${title}`;
+    case "revokeRequest":
+      return `Revoking the approval for ${title}`;
+    case "markDonated":
+      return `Marking ${title} as donated`;
+  }
+}
+
+// Message shown when an action was queued ("Request for “Desk” will be sent when you are back online.")
+export function queuedMessage(action: OutboxAction, title: string): string {
+  return `${actionLabel({ action, title })} will be sent when you are back online.`;
+}
+
+// Message of a conflict ("Request for “Desk” could not be sent: This item is no longer available.")
+export function conflictMessage(entry: OutboxEntry, e: unknown): string {
+  const reason = isServerError(e)
+    ? "the server kept failing. Please try again later."
+    : e instanceof Error && e.message
+      ? e.message
+      : "it was refused by the server.";
+  return `${actionLabel(entry)} could not be sent: ${reason}`;
+}
+
+/*This file contains the pure model of the offline outbox:
+the queued actions, how they are stored, which errors mean "try again later"
+(no connection, or a server failure that has not repeated too often)
+and the messages shown when an action turned into a conflict.
+*/
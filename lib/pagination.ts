@@ -0,0 +1,35 @@
+// ---------- Cursor pagination ----------
+// Lists show one live page (onSnapshot + limit) followed by older pages
+// loaded once with startAfter(last doc) + limit when the user scrolls
+
+// Documents per page on the list screens
+export const PAGE_SIZE = 20;
+
+// Joins the live first page and the older pages into one list
+// A document can be in two pages when new documents push the live page down
+// (it is kept where it appears first, so the live copy wins)
+export function mergePages<T extends { id: string }>(live: T[], older: T[][]): T[] {
+  const seen = new Set<string>();
+  const merged: T[] = [];
+
+  for (const page of [live, ...older]) {
+    for (const row of page) {
+      if (seen.has(row.id)) continue;
+      seen.add(row.id);
+      merged.push(row);
+    }
+  }
+
+  return merged;
+}
+
+// A page shorter than the page size is the last one
+// (a full page may still be the last; the next fetch then returns nothing)
+export function hasMoreAfter(lastPageLength: number, pageSize: number = PAGE_SIZE): boolean {
+  return lastPageLength >= pageSize;
+}
+
+/*This file contains the pure helpers behind the paginated list screens.
+It merges the live first page with the older pages without duplicates
+and decides whether another page can be requested.
+*/
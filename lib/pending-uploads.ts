@@ -0,0 +1,41 @@
+// ---------- Pending uploads ----------
+// The add/edit item forms upload photos as soon as they are picked, before the
+// item is saved. Until then the Storage paths are "pending" and kept on the device
+// (lib/upload-tracker.ts), so photos of an abandoned form are deleted when the
+// form closes, or on the next start if the app was killed.
+// This file holds the pure list helpers; paths look like items/{uid}/{key}.jpg.
+
+// AsyncStorage key of the pending path list
+export const PENDING_UPLOADS_KEY = "uploads:pending";
+
+// Reads the stored list (ignores anything that is not a list of paths)
+export function parsePendingUploads(raw: string | null): string[] {
+  if (!raw) return [];
+
+  try {
+    const value = JSON.parse(raw);
+    return Array.isArray(value)
+      ? Array.from(new Set(value.filter((p): p is string => typeof p === "string" && p.length > 0)))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function withPending(list: string[], paths: string[]): string[] {
+  return Array.from(new Set([...list, ...paths]));
+}
+
+export function withoutPending(list: string[], paths: string[]): string[] {
+  const drop = new Set(paths);
+  return list.filter((p) => !drop.has(p));
+}
+
+// Paths the signed-in user may delete (their own item folder)
+export function ownPendingUploads(list: string[], userId: string): string[] {
+  return list.filter((p) => p.startsWith(`items/${userId}/`));
+}
+
+/*This file contains the pure helpers of the pending upload list:
+photos uploaded by a form that has not been saved yet.
+*/
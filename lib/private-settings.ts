@@ -0,0 +1,15 @@
+// Import Firestore document reference helper
+import { doc } from "firebase/firestore";
+
+// Import initialized Firestore instance
+import { db } from "@/lib/firebase";
+
+// users/{uid}/private/settings: the email notifications go to, the push tokens of the
+// user's devices and the notification preferences. Unlike users/{uid}, only the user and
+// the Cloud Functions can read it (fields MUST match PRIVATE_FIELDS in functions/profiles.js).
+export function privateSettingsRef(uid: string) {
+  return doc(db, "users", uid, "private", "settings");
+}
+
+/*This file points to the user's private settings document in Firestore.
+*/
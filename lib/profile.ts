@@ -0,0 +1,110 @@
+// ---------- Public profiles ----------
+// Stored on users/{uid}, readable by every signed-in user (the private fields live in
+// users/{uid}/private/settings, see lib/private-settings.ts):
+// - name:          shown everywhere (MUST match MAX_PROFILE_NAME in functions/profiles.js)
+// - bio:           a few lines about the user (optional)
+// - city:          a governorate id from lib/location.ts (optional)
+// - createdAt:     join date
+// - ratingCount / ratingAverage: kept by the server from reviews, never written by the app
+// Length limits MUST match isValidProfile in firestore.rules.
+
+import { GovernorateId, isGovernorateId } from "@/lib/location";
+
+export const MAX_NAME_LENGTH = 60;
+export const MAX_BIO_LENGTH = 300;
+
+export type PublicProfile = {
+  name: string;
+  bio: string;
+  city: GovernorateId | "";
+  avatarUrl: string;
+  joinedAt: Date | null;
+  ratingCount: number;
+  ratingAverage: number | null;
+};
+
+// Fields the owner edits in Settings
+export type ProfileEdit = Pick<PublicProfile, "name" | "bio" | "city">;
+
+const toDate = (value: any): Date | null => {
+  if (value && typeof value.toDate === "function") return value.toDate();
+  return value instanceof Date ? value : null;
+};
+
+// Public fields of a users/{uid} document (missing or bad fields get safe defaults)
+export function toPublicProfile(data: any): PublicProfile {
+  const count = Number.isInteger(data?.ratingCount) && data.ratingCount > 0 ? data.ratingCount : 0;
+  const average = typeof data?.ratingAverage === "number" ? data.ratingAverage : null;
+
+  return {
+    name: typeof data?.name === "string" && data.name.trim() ? data.name.trim() : "User",
+    bio: typeof data?.bio === "string" ? data.bio : "",
+    city: isGovernorateId(data?.city) ? data.city : "",
+    avatarUrl: typeof data?.avatarUrl === "string" ? data.avatarUrl : "",
+    joinedAt: toDate(data?.createdAt),
+    ratingCount: count,
+    ratingAverage: count > 0 ? average : null,
+  };
+}
+
+// Error text for the edit form, or null when it can be saved
+export function validateProfileEdit(edit: ProfileEdit): string | null {
+  const name = edit.name.trim();
+  if (!name) return "Please enter your name.";
+  if (name.length > MAX_NAME_LENGTH) return `Name should be at most ${MAX_NAME_LENGTH} characters.`;
+  if (edit.bio.trim().length > MAX_BIO_LENGTH) return `Bio should be at most ${MAX_BIO_LENGTH} characters.`;
+  if (edit.city && !isGovernorateId(edit.city)) return "Please pick a city from the list.";
+  return null;
+}
+
+// Document update for a valid edit (an empty bio/city removes it)
+export function profileUpdate(edit: ProfileEdit) {
+  const bio = edit.bio.trim();
+  return {
+    name: edit.name.trim(),
+    bio: bio || null,
+    city: edit.city || null,
+  };
+}
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// "Joined March 2026" ("" when the date is unknown)
+export function joinedLabel(date: Date | null): string {
+  if (!date) return "";
+  return `Joined ${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+}
+
+// ---------- Donor reputation ----------
+
+// Badge from the number of donated items (lowest first)
+export const DONOR_LEVELS: { min: number; label: string }[] = [
+  { min: 0, label: "New member" },
+  { min: 1, label: "Donor" },
+  { min: 5, label: "Trusted donor" },
+  { min: 20, label: "Top donor" },
+];
+
+export function donorLevel(donated: number): string {
+  let label = DONOR_LEVELS[0].label;
+  for (const level of DONOR_LEVELS) {
+    if (donated >= level.min) label = level.label;
+  }
+  return label;
+}
+
+// "4.5 ★ (12 reviews)" or "No ratings yet"
+export function ratingLabel(profile: Pick<PublicProfile, "ratingCount" | "ratingAverage">): string {
+  if (!profile.ratingCount || profile.ratingAverage == null) return "No ratings yet";
+
+  const reviews = profile.ratingCount === 1 ? "1 review" : `${profile.ratingCount} reviews`;
+  return `${profile.ratingAverage.toFixed(1)} ★ (${reviews})`;
+}
+
+/*This file contains the pure model of public profiles:
+reading the public fields of a user document, checking the Settings edit form,
+the join date text and the donor reputation shown on /user/[uid].
+*/
@@ -0,0 +1,74 @@
+// Import Expo push helpers
+// expo-notifications = permission, Expo push token, Android channel
+// expo-device = push tokens only exist on real devices
+import * as Notifications from "expo-notifications";
+import * as Device from "expo-device";
+import Constants from "expo-constants";
+import { Platform } from "react-native";
+
+// Import Firestore helpers (tokens are a set on users/{uid}/private/settings.pushTokens)
+import { arrayRemove, arrayUnion, setDoc } from "firebase/firestore";
+
+// Private settings document (other users cannot read the tokens)
+import { privateSettingsRef } from "@/lib/private-settings";
+
+// Android channel the server sends to (MUST match channelId in functions/push.js)
+export const PUSH_CHANNEL_ID = "default";
+
+// Pushes that arrive while the app is open are shown as banners too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// Expo push token of this device, or null (simulator, permission denied, no EAS project id)
+async function devicePushToken(askPermission: boolean): Promise<string | null> {
+  if (!Device.isDevice) return null;
+
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync(PUSH_CHANNEL_ID, {
+      name: "Requests",
+      importance: Notifications.AndroidImportance.HIGH,
+      lightColor: "#4F98DC",
+    });
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status !== "granted" && askPermission) {
+    status = (await Notifications.requestPermissionsAsync()).status;
+  }
+  if (status !== "granted") return null;
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+  if (!projectId) return null;
+
+  return (await Notifications.getExpoPushTokenAsync({ projectId })).data;
+}
+
+// Saves this device's push token in the user's private settings (asks for permission once)
+// Returns the token, or null when this device cannot receive pushes
+export async function registerPushToken(userId: string): Promise<string | null> {
+  const token = await devicePushToken(true);
+  if (!token) return null;
+
+  await setDoc(privateSettingsRef(userId), { pushTokens: arrayUnion(token) }, { merge: true });
+  return token;
+}
+
+// Removes this device's token before signing out (the next user of the device
+// must not receive the previous user's pushes)
+export async function unregisterPushToken(userId: string) {
+  const token = await devicePushToken(false);
+  if (!token) return;
+
+  await setDoc(privateSettingsRef(userId), { pushTokens: arrayRemove(token) }, { merge: true });
+}
+
+/*This file registers the device for push notifications.
+It asks for permission, gets the Expo push token and stores it in the user's
+private settings, where the onNotificationCreated Cloud Function reads it.
+*/
@@ -0,0 +1,99 @@
+// ---------- Reports, blocking and moderation ----------
+// Users report an item, a request or a user through the reportContent Cloud Function
+// (one report per user per target) and block users through blockUser.
+// Admins (custom claim admin == true) resolve open reports in the moderation queue.
+// Rules MUST match functions/reports.js.
+
+export const REPORT_TARGETS = ["item", "request", "user"] as const;
+export type ReportTarget = (typeof REPORT_TARGETS)[number];
+
+export const REPORT_REASONS = [
+  { id: "scam", label: "Scam or fake listing" },
+  { id: "offensive", label: "Offensive content or photo" },
+  { id: "harassment", label: "Harassment" },
+  { id: "spam", label: "Spam" },
+  { id: "other", label: "Something else" },
+] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number]["id"];
+
+export const MAX_REPORT_DETAILS = 500;
+
+// How a moderator resolves a report
+export const REPORT_ACTIONS = ["hide_item", "suspend_user", "dismiss"] as const;
+export type ReportAction = (typeof REPORT_ACTIONS)[number];
+
+export const REPORT_ACTION_LABELS: Record<ReportAction, string> = {
+  hide_item: "Hide item",
+  suspend_user: "Suspend user",
+  dismiss: "Dismiss",
+};
+
+export type Report = {
+  reporterId?: string;
+  targetType: ReportTarget;
+  targetId: string;
+  targetUserId: string;
+  itemId: string | null;
+  reason: ReportReason;
+  details: string;
+  status: "open" | "resolved";
+  action?: ReportAction;
+  createdAt?: any;
+};
+
+// reports/{targetType}_{targetId}_{reporterId}
+export function reportDocId(targetType: ReportTarget, targetId: string, reporterId: string): string {
+  return `${targetType}_${targetId}_${reporterId}`;
+}
+
+// Error text for the report form, or null when it can be sent
+export function validateReport(reason: ReportReason | null, details: string): string | null {
+  if (!reason) return "Please pick a reason.";
+  if (details.trim().length > MAX_REPORT_DETAILS) {
+    return `Please keep the details under ${MAX_REPORT_DETAILS} characters.`;
+  }
+  return null;
+}
+
+export function reasonLabel(reason: string): string {
+  return REPORT_REASONS.find((r) => r.id === reason)?.label ?? "Other";
+}
+
+// "Reported item" / "Reported request" / "Reported user"
+export function reportTargetLabel(targetType: ReportTarget): string {
+  return `Reported ${targetType}`;
+}
+
+// True when the action applies to the report (hiding needs an item report, suspending a user)
+// A request report also names an item: the one of the owner who reported, which stays listed
+export function canApplyAction(
+  action: ReportAction,
+  report: Pick<Report, "targetType" | "itemId" | "targetUserId">,
+): boolean {
+  if (action === "hide_item") return report.targetType === "item" && Boolean(report.itemId);
+  if (action === "suspend_user") return Boolean(report.targetUserId);
+  return action === "dismiss";
+}
+
+// True for ID token claims of a moderator
+export function isAdminClaims(claims: Record<string, unknown> | null | undefined): boolean {
+  return claims?.admin === true;
+}
+
+// ---------- What the user sees ----------
+
+type ListedItem = { ownerId?: string; hidden?: boolean };
+
+// Items shown in lists: not hidden by a moderator and not posted by a blocked user
+export function isListed(item: ListedItem, blocked: ReadonlySet<string>): boolean {
+  return item.hidden !== true && !(item.ownerId && blocked.has(item.ownerId));
+}
+
+export function listedItems<T extends ListedItem>(items: T[], blocked: ReadonlySet<string>): T[] {
+  return items.filter((item) => isListed(item, blocked));
+}
+
+/*This file contains the pure rules of reports and blocking:
+the report reasons and form check, the moderator actions, the admin claim,
+and which items the lists show.
+*/
@@ -0,0 +1,91 @@
+// Import lifecycle status parser
+import { RequestStatus, toRequestStatus } from "@/lib/rules";
+
+// Minimal request shape needed to build a queue
+export type QueueRequest = {
+  itemId: string;
+  status: string;
+  createdAt?: any;
+};
+
+// Queue info added to each request
+export type QueuedRequest<T extends QueueRequest> = T & {
+  // 1-based place among the item's pending requests (null when not pending)
+  queuePosition: number | null;
+
+  // Number of pending requests for the same item
+  queueSize: number;
+};
+
+// Order of requests inside one item's group: the chosen requester first,
+// then the queue (oldest first), then the waitlist, then finished requests
+const STATUS_ORDER: Record<RequestStatus, number> = {
+  approved: 0,
+  pending: 1,
+  waitlisted: 2,
+  rejected: 3,
+  cancelled: 3,
+  revoked: 3,
+};
+
+// Firestore Timestamp / Date / number -> milliseconds
+// Requests still waiting for a server timestamp count as the newest
+export function toMillis(value: any): number {
+  if (value == null) return Number.MAX_SAFE_INTEGER;
+  if (typeof value === "number") return value;
+  if (typeof value.toMillis === "function") return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return Number.MAX_SAFE_INTEGER;
+}
+
+const statusRank = (status: string) => {
+  const s = toRequestStatus(status);
+  return s ? STATUS_ORDER[s] : 4;
+};
+
+// Groups the owner's received requests by item and numbers each pending queue
+// Items keep the order of their most recent request, so new activity stays on top
+export function buildRequestQueues<T extends QueueRequest>(requests: T[]): QueuedRequest<T>[] {
+  const groups = new Map<string, T[]>();
+  const latest = new Map<string, number>();
+
+  for (const r of requests) {
+    const group = groups.get(r.itemId) ?? [];
+    group.push(r);
+    groups.set(r.itemId, group);
+
+    const t = toMillis(r.createdAt);
+    latest.set(r.itemId, Math.max(latest.get(r.itemId) ?? 0, t));
+  }
+
+  const itemIds = Array.from(groups.keys()).sort(
+    (a, b) => (latest.get(b) ?? 0) - (latest.get(a) ?? 0),
+  );
+
+  const result: QueuedRequest<T>[] = [];
+
+  for (const itemId of itemIds) {
+    const group = groups.get(itemId)!.slice().sort(
+      (a, b) =>
+        statusRank(a.status) - statusRank(b.status) ||
+        toMillis(a.createdAt) - toMillis(b.createdAt),
+    );
+
+    const queueSize = group.filter((r) => toRequestStatus(r.status) === "pending").length;
+    let position = 0;
+
+    for (const r of group) {
+      const pending = toRequestStatus(r.status) === "pending";
+      if (pending) position += 1;
+
+      result.push({ ...r, queuePosition: pending ? position : null, queueSize });
+    }
+  }
+
+  return result;
+}
+
+/*This file orders the requests an owner received into per-item queues.
+Pending requests are numbered oldest first so the owner can see who asked first,
+while the approved and waitlisted requests of the same item stay next to them.
+*/
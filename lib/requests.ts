@@ -0,0 +1,57 @@
+// Import callable helper from Firebase Functions
+import { httpsCallable } from "firebase/functions";
+
+// Import initialized Functions instance
+import { functions } from "@/lib/firebase";
+
+// Result returned by every workflow function: the new status
+// (markDonated also returns the approved request, so the owner can rate the recipient)
+type WorkflowResult = { status: string; requestId?: string | null };
+
+// Calls a workflow function and returns its result
+// Errors thrown by the server (HttpsError) keep their message, so screens can show it
+async function callWorkflow(name: string, data: Record<string, string | number>) {
+  const fn = httpsCallable<Record<string, string | number>, WorkflowResult>(functions, name);
+  const res = await fn(data);
+  return res.data;
+}
+
+// Requester asks for an item (creates a pending request)
+export function requestItem(itemId: string) {
+  return callWorkflow("requestItem", { itemId });
+}
+
+// Item owner approves a pending request
+export function approveRequest(requestId: string) {
+  return callWorkflow("approveRequest", { requestId });
+}
+
+// Item owner rejects a pending request
+export function rejectRequest(requestId: string) {
+  return callWorkflow("rejectRequest", { requestId });
+}
+
+// Requester withdraws their pending, waitlisted or approved request
+export function cancelRequest(requestId: string) {
+  return callWorkflow("cancelRequest", { requestId });
+}
+
+// Item owner takes back an approval
+export function revokeRequest(requestId: string) {
+  return callWorkflow("revokeRequest", { requestId });
+}
+
+// Item owner confirms the item was handed over
+export function markDonated(itemId: string) {
+  return callWorkflow("markDonated", { itemId });
+}
+
+// Donor or recipient rates the other side once the item is donated
+export function submitReview(requestId: string, rating: number, text: string) {
+  return callWorkflow("submitReview", { requestId, rating, text: text.trim() });
+}
+
+/*This file wraps the request workflow Cloud Functions (functions/requests.js).
+Screens call these helpers instead of writing requests, items and notifications directly,
+so the server validates the caller and the status transitions.
+*/
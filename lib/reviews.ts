@@ -0,0 +1,59 @@
+// ---------- Post-donation reviews ----------
+// Once an item is donated, the donor and the recipient rate each other once (1-5 stars
+// and an optional short text) through the submitReview Cloud Function.
+// Rules MUST match functions/reviews.js.
+
+import { toItemStatus, toRequestStatus } from "@/lib/rules";
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_REVIEW_TEXT = 500;
+
+export type ReviewerRole = "donor" | "recipient";
+
+export type Review = {
+  requestId: string;
+  itemId: string;
+  reviewerId?: string; // removed when the reviewer deletes their account
+  revieweeId: string;
+  reviewerRole: ReviewerRole;
+  rating: number;
+  text: string;
+  createdAt?: any;
+};
+
+// reviews/{requestId}_{reviewerId}
+export function reviewDocId(requestId: string, reviewerId: string): string {
+  return `${requestId}_${reviewerId}`;
+}
+
+// Reviews open once the approved request's item was handed over
+export function canReview(requestStatus?: string | null, itemStatus?: string | null): boolean {
+  return toRequestStatus(requestStatus) === "approved" && toItemStatus(itemStatus) === "donated";
+}
+
+// Error text for the review form, or null when it can be sent
+export function validateReview(rating: number, text: string): string | null {
+  if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+    return "Please pick 1 to 5 stars.";
+  }
+  if (text.trim().length > MAX_REVIEW_TEXT) {
+    return `Please keep the review under ${MAX_REVIEW_TEXT} characters.`;
+  }
+  return null;
+}
+
+// "★★★★☆"
+export function starsText(rating: number): string {
+  const full = Math.max(0, Math.min(MAX_RATING, Math.round(rating)));
+  return "★".repeat(full) + "☆".repeat(MAX_RATING - full);
+}
+
+// Who wrote a review, as shown on the reviewee's profile
+export function reviewerLabel(role: ReviewerRole): string {
+  return role === "donor" ? "From a donor" : "From a recipient";
+}
+
+/*This file contains the pure rules of post-donation reviews:
+when a request can be reviewed, the form check and the star texts.
+*/
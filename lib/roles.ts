@@ -0,0 +1,56 @@
+// ---------- Roles + admin console ----------
+// Roles are Firebase Auth custom claims ({ admin: true }) granted or revoked in the admin
+// console through the setUserRole Cloud Function. The (admin) route group is only for admins.
+// Rules MUST match functions/roles.js.
+
+export const ROLES = ["admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+};
+
+// Item categories (MUST match add-item.tsx / edit-item/[id].tsx and firestore.rules)
+export const ITEM_CATEGORIES = ["Books", "Furniture", "Clothes", "Electronics", "Accessories", "Plants"] as const;
+export type ItemCategory = (typeof ITEM_CATEGORIES)[number];
+
+// What the lookupUser function returns
+export type UserLookup = {
+  uid: string;
+  name: string;
+  email: string | null;
+  phoneNumber: string | null;
+  disabled: boolean;
+  suspended: boolean;
+  roles: Role[];
+  createdAt: string | null;
+  lastSignInAt: string | null;
+};
+
+// Error text for the admin listing form, or null when it can be saved
+export function validateItemEdit(title: string, description: string, category: string): string | null {
+  if (!title.trim()) return "Please add a title.";
+  if (!description.trim()) return "Please add a description.";
+  if (!(ITEM_CATEGORIES as readonly string[]).includes(category)) return "Please pick a category.";
+  return null;
+}
+
+// ---------- Route guard ----------
+
+// Where AuthGate sends the user from a route group, or null to stay
+// - signed out: only onboarding
+// - signed in: not onboarding; the (admin) group needs the admin claim
+export function authRedirect(
+  group: string | undefined,
+  signedIn: boolean,
+  isAdmin: boolean,
+): "/(onboarding)" | "/(private)" | null {
+  if (!signedIn) return group === "(private)" || group === "(admin)" ? "/(onboarding)" : null;
+  if (group === "(onboarding)") return "/(private)";
+  if (group === "(admin)" && !isAdmin) return "/(private)";
+  return null;
+}
+
+/*This file contains the pure rules of roles and the admin console:
+the roles, the listing form check and where the route guard sends each user.
+*/
@@ -1,7 +1,172 @@
+// ---------- Item + request lifecycle ----------
+// Item:    available → requested → accepted → donated
+//                      requested → available (last pending request rejected / cancelled)
+//                                  accepted → available | requested (approval cancelled / revoked;
+//                                             "requested" when the waitlist goes back to pending)
+// Request: pending → approved | rejected | cancelled | waitlisted
+//          approved → cancelled (requester backed out) | revoked (owner took it back)
+//          waitlisted → pending (approved requester backed out) | rejected | cancelled
+// Several users can request the same item; the owner picks one from the queue
+// and the other pending requests move to the waitlist
+// The same table lives in functions/rules.js, which enforces it on the server
+
+// All statuses an item can have
+export const ITEM_STATUSES = ["available", "requested", "accepted", "donated"] as const;
+export type ItemStatus = (typeof ITEM_STATUSES)[number];
+
+// All statuses a request can have
+export const REQUEST_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "cancelled",
+  "waitlisted",
+  "revoked",
+] as const;
+export type RequestStatus = (typeof REQUEST_STATUSES)[number];
+
+// Status given to new documents
+export const INITIAL_ITEM_STATUS: ItemStatus = "available";
+export const INITIAL_REQUEST_STATUS: RequestStatus = "pending";
+
+// Item statuses that still accept new requests (the queue stays open until one is approved)
+export const REQUESTABLE_ITEM_STATUSES: readonly ItemStatus[] = ["available", "requested"];
+
+// Allowed next statuses for each item status
+export const ITEM_TRANSITIONS: Record<ItemStatus, readonly ItemStatus[]> = {
+  available: ["requested"],
+  requested: ["accepted", "available"],
+  accepted: ["donated", "available", "requested"],
+  donated: [],
+};
+
+// Allowed next statuses for each request status
+export const REQUEST_TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+  pending: ["approved", "rejected", "cancelled", "waitlisted"],
+  approved: ["cancelled", "revoked"],
+  rejected: [],
+  cancelled: [],
+  waitlisted: ["pending", "rejected", "cancelled"],
+  revoked: [],
+};
+
+// Human-readable labels for the UI
+const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
+  available: "Available",
+  requested: "Requested",
+  accepted: "Accepted",
+  donated: "Donated",
+};
+
+const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+  waitlisted: "Waitlisted",
+  revoked: "Revoked",
+};
+
+// Converts a raw Firestore value into a known item status
+// Items created before statuses existed have no status -> "available"
+// Unknown values return null so guards never allow them
+export function toItemStatus(status?: string | null): ItemStatus | null {
+  const s = (status ?? "").toString().trim().toLowerCase();
+  if (!s) return INITIAL_ITEM_STATUS;
+  return (ITEM_STATUSES as readonly string[]).includes(s) ? (s as ItemStatus) : null;
+}
+
+// Converts a raw Firestore value into a known request status (null if unknown)
+export function toRequestStatus(status?: string | null): RequestStatus | null {
+  const s = (status ?? "").toString().trim().toLowerCase();
+  return (REQUEST_STATUSES as readonly string[]).includes(s) ? (s as RequestStatus) : null;
+}
+
+// True if an item may move from one status to another
+export function canTransitionItem(from: string | null | undefined, to: ItemStatus): boolean {
+  const current = toItemStatus(from);
+  return current !== null && ITEM_TRANSITIONS[current].includes(to);
+}
+
+// True if a request may move from one status to another
+export function canTransitionRequest(
+  from: string | null | undefined,
+  to: RequestStatus,
+): boolean {
+  const current = toRequestStatus(from);
+  return current !== null && REQUEST_TRANSITIONS[current].includes(to);
+}
+
+// Throws a readable error when an item transition is not allowed
+// Used inside transactions so invalid updates are aborted
+export function assertItemTransition(from: string | null | undefined, to: ItemStatus) {
+  if (!canTransitionItem(from, to)) {
+    throw new Error(`Item cannot change from "${from ?? INITIAL_ITEM_STATUS}" to "${to}".`);
+  }
+}
+
+// Throws a readable error when a request transition is not allowed
+export function assertRequestTransition(from: string | null | undefined, to: RequestStatus) {
+  if (!canTransitionRequest(from, to)) {
+    throw new Error(`Request cannot change from "${from ?? "unknown"}" to "${to}".`);
+  }
+}
+
+// Guards used by the screens
+
+// An item can be requested while it is available or other requests are still pending
+export function canRequestItem(status?: string | null): boolean {
+  const s = toItemStatus(status);
+  return s !== null && REQUESTABLE_ITEM_STATUSES.includes(s);
+}
+
 // This function checks whether an item is allowed to be marked as "donated"
 // It returns true only if the item status is "accepted"
 export function canMarkDonated(status: string): boolean {
   // Business rule:
   // An item can be marked as donated ONLY after a request has been accepted
-  return status === "accepted";
+  return canTransitionItem(status, "donated");
+}
+
+// The owner can approve/reject a request only while it is pending
+export function canDecideRequest(status?: string | null): boolean {
+  return canTransitionRequest(status, "approved") && canTransitionRequest(status, "rejected");
+}
+
+// The requester can withdraw a request while it is pending, waitlisted or approved
+export function canCancelRequest(status?: string | null): boolean {
+  return canTransitionRequest(status, "cancelled");
+}
+
+// The owner can take back an approval until the item is donated
+export function canRevokeRequest(status?: string | null): boolean {
+  return canTransitionRequest(status, "revoked");
+}
+
+// True when a request can no longer change
+export function isFinalRequestStatus(status?: string | null): boolean {
+  const s = toRequestStatus(status);
+  return s !== null && REQUEST_TRANSITIONS[s].length === 0;
+}
+
+// True once an item was donated (unknown statuses are not, so they stay with the listed items)
+export function isDonatedItem(status?: string | null): boolean {
+  return toItemStatus(status) === "donated";
+}
+
+// Label for an item status ("Unknown" for unexpected values)
+export function itemStatusLabel(status?: string | null): string {
+  const s = toItemStatus(status);
+  return s ? ITEM_STATUS_LABELS[s] : "Unknown";
+}
+
+// Label for a request status ("Unknown" for unexpected values)
+export function requestStatusLabel(status?: string | null): string {
+  const s = toRequestStatus(status);
+  return s ? REQUEST_STATUS_LABELS[s] : "Unknown";
 }
+
+/*This file holds the business rules of the donation lifecycle.
+It defines the item and request statuses, which transitions are allowed,
+and the guard/label helpers every screen uses before changing a status.
+*/
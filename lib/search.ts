@@ -0,0 +1,124 @@
+// ---------- Item search ----------
+// Items store a `keywords` array (written by the onItemWrittenSearchFields Cloud Function).
+// The app looks up candidates with `array-contains-any` and ranks them here.
+// Tokenizing MUST match functions/keywords.js, or stored keywords won't match queries.
+
+// Fields used for searching
+export type SearchableItem = {
+  title?: string;
+  description?: string;
+  category?: string;
+  createdAt?: any;
+};
+
+// Firestore allows at most 30 values in array-contains-any; we use fewer to keep reads cheap
+export const MAX_QUERY_TOKENS = 10;
+
+// Shortest word/prefix we index and search for
+export const MIN_TOKEN_LENGTH = 2;
+
+// Longest prefix we index for title/category words
+const MAX_PREFIX_LENGTH = 15;
+
+// Common words that would match almost every item
+const STOP_WORDS = new Set(["the", "and", "for", "with", "of", "in", "on", "to", "an", "is", "it"]);
+
+// Splits text into lowercase words without accents or punctuation
+// Works for Latin and Arabic letters (anything Unicode considers a letter/number)
+export function tokenize(text?: string | null): string[] {
+  const words = (text ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(w));
+
+  return Array.from(new Set(words));
+}
+
+// All prefixes of a word, from MIN_TOKEN_LENGTH letters up to the whole word
+function prefixes(word: string): string[] {
+  const out: string[] = [];
+  const max = Math.min(word.length, MAX_PREFIX_LENGTH);
+  for (let i = MIN_TOKEN_LENGTH; i <= max; i++) out.push(word.slice(0, i));
+  if (word.length > MAX_PREFIX_LENGTH) out.push(word);
+  return out;
+}
+
+// Keywords stored on an item
+// Title + category words are stored with their prefixes (so "lap" finds "laptop"),
+// description words are stored whole to keep the array small
+export function buildKeywords(item: SearchableItem): string[] {
+  const keywords = new Set<string>();
+
+  for (const word of [...tokenize(item.title), ...tokenize(item.category)]) {
+    for (const p of prefixes(word)) keywords.add(p);
+  }
+
+  for (const word of tokenize(item.description)) {
+    keywords.add(word);
+  }
+
+  return Array.from(keywords).sort();
+}
+
+// Tokens sent to Firestore for a search box value (empty = no search)
+export function searchTokens(text?: string | null): string[] {
+  return tokenize(text).slice(0, MAX_QUERY_TOKENS);
+}
+
+// Points for one query token against one item
+// Whole-word title matches count most, description prefixes least
+function tokenScore(token: string, title: string[], category: string[], description: string[]) {
+  if (title.includes(token)) return 6;
+  if (title.some((w) => w.startsWith(token))) return 4;
+  if (category.some((w) => w.startsWith(token))) return 3;
+  if (description.includes(token)) return 2;
+  if (description.some((w) => w.startsWith(token))) return 1;
+  return 0;
+}
+
+// Relevance score of an item for the given query tokens (0 = not a match)
+export function scoreItem(item: SearchableItem, tokens: string[]): number {
+  const title = tokenize(item.title);
+  const category = tokenize(item.category);
+  const description = tokenize(item.description);
+
+  let score = 0;
+  let matched = 0;
+
+  for (const token of tokens) {
+    const s = tokenScore(token, title, category, description);
+    score += s;
+    if (s > 0) matched += 1;
+  }
+
+  // Items matching every word beat items matching only some of them
+  if (tokens.length > 1 && matched === tokens.length) score += 5;
+
+  return score;
+}
+
+// Timestamp -> milliseconds for tie-breaking (missing = oldest)
+const createdMillis = (item: SearchableItem) => {
+  const v = item.createdAt;
+  if (typeof v?.toMillis === "function") return v.toMillis();
+  return typeof v === "number" ? v : 0;
+};
+
+// Drops non-matching items and sorts the rest: best score first, then newest
+export function rankItems<T extends SearchableItem>(items: T[], text: string): T[] {
+  const tokens = searchTokens(text);
+  if (tokens.length === 0) return [];
+
+  return items
+    .map((item) => ({ item, score: scoreItem(item, tokens) }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score || createdMillis(b.item) - createdMillis(a.item))
+    .map((r) => r.item);
+}
+
+/*This file contains the item search logic.
+It turns item text into keyword arrays (stored on each item by a Cloud Function),
+turns the search box text into query tokens, and ranks the matching items for display.
+*/
@@ -0,0 +1,77 @@
+// Import Firebase Auth helpers for the Google and phone providers
+// signInWith*: sign in (a new account is created on first use, see functions/users.js)
+// linkWith*: add a sign-in method to the signed-in account
+import {
+  ApplicationVerifier,
+  ConfirmationResult,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  linkWithCredential,
+  linkWithPhoneNumber,
+  sendEmailVerification,
+  signInWithCredential,
+  signInWithPhoneNumber,
+  unlink,
+  User,
+} from "firebase/auth";
+
+// Import initialized Firebase auth instance
+import { auth } from "@/lib/firebase";
+
+// Keeps the notification email (private settings) in step with the account
+import { syncNotificationEmail } from "@/lib/account";
+
+import { SignInProviderId, linkedProviderIds } from "@/lib/auth-providers";
+
+// The signed-in user, or an error the screens can show
+function currentUser(): User {
+  const user = auth.currentUser;
+  if (!user) throw new Error("Please sign in again.");
+  return user;
+}
+
+// Sign-in methods of the signed-in user
+export function currentProviders() {
+  return linkedProviderIds(auth.currentUser?.providerData ?? []);
+}
+
+// Signs in with the Google id token from components/google-button.tsx
+export async function signInWithGoogle(idToken: string) {
+  await signInWithCredential(auth, GoogleAuthProvider.credential(idToken));
+}
+
+export async function linkGoogle(idToken: string) {
+  const { user } = await linkWithCredential(currentUser(), GoogleAuthProvider.credential(idToken));
+  await syncNotificationEmail(user);
+}
+
+// Sends an SMS code; confirm() with the code then signs in (or links the number)
+// phone must be E.164 (toE164Phone); the verifier is components/phone-verifier.tsx
+export async function sendPhoneCode(
+  phone: string,
+  verifier: ApplicationVerifier,
+  link = false,
+): Promise<ConfirmationResult> {
+  return link
+    ? linkWithPhoneNumber(currentUser(), phone, verifier)
+    : signInWithPhoneNumber(auth, phone, verifier);
+}
+
+// Adds email + password to an account made with Google or a phone number
+export async function linkPassword(email: string, password: string) {
+  const { user } = await linkWithCredential(
+    currentUser(),
+    EmailAuthProvider.credential(email.trim(), password),
+  );
+
+  await syncNotificationEmail(user);
+  sendEmailVerification(user).catch((e) => console.log("Verification email error:", e));
+}
+
+export async function unlinkProvider(id: SignInProviderId) {
+  await unlink(currentUser(), id);
+}
+
+/*This file contains the Google and phone number sign-in, and linking or removing
+sign-in methods of the signed-in account.
+*/
@@ -0,0 +1,72 @@
+// ---------- Item photo sizes and thumbnails ----------
+// Photos are resized and compressed on the device before upload (lib/image-compress.ts).
+// The onItemImageUploaded Cloud Function (functions/thumbnails.js) then stores two
+// smaller copies next to each photo and records their URLs on the item:
+//   items/{id}.thumbs = { [photo key]: { small, medium } }
+// The photo key is the file name without ".jpg" (items/{uid}/{key}.jpg).
+// Lists show the small thumbnail; until it exists (and for older items) they
+// fall back to the full photo. The item details screen always shows full photos.
+
+import { ItemImageFields, coverImage } from "@/lib/item-images";
+
+// Longest side of an uploaded photo, and its JPEG quality (0-1)
+export const UPLOAD_MAX_SIZE = 1600;
+export const UPLOAD_QUALITY = 0.7;
+
+// Longest side of each thumbnail (MUST match THUMB_SIZES in functions/thumbnail-paths.js)
+export const THUMB_SIZES = { small: 200, medium: 600 } as const;
+
+export type ThumbSize = keyof typeof THUMB_SIZES;
+
+export type ItemThumbFields = ItemImageFields & {
+  thumbs?: unknown;
+};
+
+// Item photo path: items/{uid}/{key}.jpg (thumbnails live in items/{uid}/thumbs/, so they never match)
+const ITEM_IMAGE_PATH = /^items\/[^/]+\/([A-Za-z0-9_-]+)\.jpg$/;
+
+// Resize that makes the longest side at most `max` (null when the photo is already small enough)
+export function resizeToFit(
+  width: number,
+  height: number,
+  max: number,
+): { width: number } | { height: number } | null {
+  if (!(width > 0) || !(height > 0) || Math.max(width, height) <= max) return null;
+  return width >= height ? { width: max } : { height: max };
+}
+
+// Photo key of a Storage download URL ("" when it is not an item photo)
+// https://firebasestorage.googleapis.com/v0/b/{bucket}/o/items%2F{uid}%2F{key}.jpg?alt=media&token=...
+export function imageKeyFromUrl(url: string): string {
+  const encoded = /\/o\/([^?#]+)/.exec(url)?.[1];
+  if (!encoded) return "";
+
+  try {
+    return ITEM_IMAGE_PATH.exec(decodeURIComponent(encoded))?.[1] ?? "";
+  } catch {
+    // Malformed escape sequence
+    return "";
+  }
+}
+
+// Thumbnail of one photo, or the photo itself when it has none yet
+export function thumbnailUrl(thumbs: unknown, url: string, size: ThumbSize): string {
+  const key = imageKeyFromUrl(url);
+  if (!key || !thumbs || typeof thumbs !== "object") return url;
+
+  const entry = (thumbs as Record<string, unknown>)[key];
+  const thumb = entry && typeof entry === "object" ? (entry as Record<string, unknown>)[size] : null;
+
+  return typeof thumb === "string" && thumb.length > 0 ? thumb : url;
+}
+
+// Thumbnail of the cover photo ("" when the item has no photo)
+export function itemThumbnail(item: ItemThumbFields | null | undefined, size: ThumbSize): string {
+  const cover = coverImage(item);
+  return cover ? thumbnailUrl(item?.thumbs, cover, size) : "";
+}
+
+/*This file contains the pure helpers of the photo size pipeline.
+It decides how far a photo is shrunk before upload, and picks the
+server-made thumbnail of a photo for the list screens.
+*/
@@ -0,0 +1,96 @@
+// ---------- Upload retry policy ----------
+// Used by the upload service (lib/upload.ts). An upload attempt fails on an error
+// from Storage, or when no bytes moved for UPLOAD_STALL_MS (weak connections tend
+// to hang instead of failing). Temporary failures are retried with exponential
+// backoff; permission/quota errors and cancels are not.
+
+// Attempts per file (first try + retries)
+export const MAX_UPLOAD_ATTEMPTS = 4;
+
+// An attempt with no progress for this long is abandoned and retried
+export const UPLOAD_STALL_MS = 30_000;
+
+// Backoff: 1s, 2s, 4s... capped, with ±20% jitter so retries do not line up
+export const RETRY_BASE_MS = 1000;
+export const RETRY_MAX_MS = 15_000;
+
+// Largest photo Storage accepts (MUST match isValidImage in storage.rules)
+// Compressed photos are far smaller; this only stops unexpected huge files early
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Codes of the errors the upload service throws itself (Storage errors use "storage/...")
+export const UPLOAD_CANCELED = "upload/canceled";
+export const UPLOAD_STALLED = "upload/stalled";
+export const UPLOAD_TOO_LARGE = "upload/too-large";
+
+// Storage errors that will fail again on retry
+const PERMANENT_ERRORS = new Set([
+  UPLOAD_CANCELED,
+  UPLOAD_TOO_LARGE,
+  "storage/canceled",
+  "storage/unauthorized",
+  "storage/unauthenticated",
+  "storage/quota-exceeded",
+  "storage/invalid-argument",
+  "storage/invalid-format",
+  "storage/no-default-bucket",
+  "storage/bucket-not-found",
+  "storage/project-not-found",
+]);
+
+const codeOf = (e: unknown): string =>
+  e && typeof e === "object" && typeof (e as any).code === "string" ? (e as any).code : "";
+
+// Error with a code the screens can check (same shape as Firebase errors)
+export function uploadError(code: string, message: string): Error & { code: string } {
+  return Object.assign(new Error(message), { code });
+}
+
+export function isUploadCanceled(e: unknown): boolean {
+  const code = codeOf(e);
+  return code === UPLOAD_CANCELED || code === "storage/canceled";
+}
+
+export function isRetryableUploadError(e: unknown): boolean {
+  return !PERMANENT_ERRORS.has(codeOf(e));
+}
+
+// Wait before retry number `attempt` (1 = first retry); `random` is injectable for tests
+export function retryDelayMs(attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_MS);
+  const jitter = 0.8 + random() * 0.4;
+  return Math.round(base * jitter);
+}
+
+// 0-1 share of the bytes sent (0 until the size is known)
+export function uploadFraction(bytesTransferred: number, totalBytes: number): number {
+  if (!(totalBytes > 0)) return 0;
+  return Math.min(Math.max(bytesTransferred / totalBytes, 0), 1);
+}
+
+export function formatPercent(fraction: number): string {
+  return `${Math.round(Math.min(Math.max(fraction, 0), 1) * 100)}%`;
+}
+
+// Message shown in the upload error state
+export function uploadErrorMessage(e: unknown): string {
+  switch (codeOf(e)) {
+    case UPLOAD_STALLED:
+    case "storage/retry-limit-exceeded":
+      return "The connection is too slow or offline. Check it and try again.";
+    case "storage/unauthorized":
+    case "storage/unauthenticated":
+      return "You are not allowed to upload this photo. Please sign in again.";
+    case UPLOAD_TOO_LARGE:
+      return "This photo is too large. Please pick a smaller one.";
+    case "storage/quota-exceeded":
+      return "Photo storage is full right now. Please try again later.";
+    default:
+      return "The photo could not be uploaded. Please try again.";
+  }
+}
+
+/*This file contains the pure retry policy of the upload service:
+which errors are worth retrying, how long to wait between attempts,
+and the progress and error text shown by the upload status bar.
+*/
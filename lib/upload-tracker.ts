@@ -0,0 +1,59 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+// AsyncStorage = pending paths survive an app restart
+
+import { deleteItemImages } from "@/lib/item-storage";
+// Deletes photos in Firebase Storage
+
+import {
+  PENDING_UPLOADS_KEY,
+  ownPendingUploads,
+  parsePendingUploads,
+  withPending,
+  withoutPending,
+} from "@/lib/pending-uploads";
+// Pure list helpers
+
+// Every change is a read-modify-write of one AsyncStorage key, so changes run one at a time
+let chain: Promise<unknown> = Promise.resolve();
+
+const update = (change: (list: string[]) => string[]) => {
+  const next = chain.then(async () => {
+    const list = parsePendingUploads(await AsyncStorage.getItem(PENDING_UPLOADS_KEY));
+    await AsyncStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(change(list)));
+  });
+  chain = next.catch((e) => console.log("Pending uploads error:", e));
+  return chain;
+};
+
+// Photo paths a form is about to upload (call before the upload starts)
+export function trackUploads(paths: string[]) {
+  if (paths.length === 0) return Promise.resolve();
+  return update((list) => withPending(list, paths));
+}
+
+// The item was saved: its photos are no longer pending
+export function releaseUploads(paths: string[]) {
+  if (paths.length === 0) return Promise.resolve();
+  return update((list) => withoutPending(list, paths));
+}
+
+// Deletes pending photos that will not be saved (removed from the form or form abandoned)
+export async function discardUploads(paths: string[]) {
+  if (paths.length === 0) return;
+
+  const failed = await deleteItemImages(paths);
+  if (failed === 0) await releaseUploads(paths);
+  // Kept on failure, so the next start tries again
+}
+
+// App start: no form is open, so every pending photo of this user was abandoned
+export async function cleanupAbandonedUploads(userId: string) {
+  await chain;
+  const list = parsePendingUploads(await AsyncStorage.getItem(PENDING_UPLOADS_KEY));
+  await discardUploads(ownPendingUploads(list, userId));
+}
+
+/*This file keeps the list of photos uploaded by the item forms but not saved yet.
+Photos of an abandoned form are deleted when it closes, or on the next start
+if the app was closed first. The cleanupOrphanedImages Cloud Function is the backstop.
+*/
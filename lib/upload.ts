@@ -0,0 +1,148 @@
+// Import Firebase Storage helpers
+// ref = file reference
+// uploadBytesResumable = chunked upload with progress events that can be canceled
+// getDownloadURL = public URL saved in Firestore
+import { getDownloadURL, ref, uploadBytesResumable, UploadTask } from "firebase/storage";
+
+// Import initialized Storage instance
+import { storage } from "@/lib/firebase";
+
+// Resize + compress before upload
+import { compressImage } from "@/lib/image-compress";
+
+// Retry policy (pure, unit tested)
+import {
+  MAX_UPLOAD_ATTEMPTS,
+  MAX_UPLOAD_BYTES,
+  UPLOAD_CANCELED,
+  UPLOAD_STALLED,
+  UPLOAD_STALL_MS,
+  UPLOAD_TOO_LARGE,
+  isRetryableUploadError,
+  retryDelayMs,
+  uploadError,
+  uploadFraction,
+} from "@/lib/upload-policy";
+
+export type UploadOptions = {
+  onProgress?: (fraction: number) => void;
+  // 0-1 share of the current attempt
+
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  // An attempt failed and another one starts after delayMs
+};
+
+export type UploadHandle = {
+  promise: Promise<string>;
+  // Resolves with the download URL; rejects with the last error
+  // (code "upload/canceled" after cancel())
+
+  cancel: () => void;
+};
+
+// Reliable URI -> Blob (Expo iOS/Android)
+// Firebase Storage needs Blob/Uint8Array/ArrayBuffer (not a URI string)
+const uriToBlob = (uri: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.onload = () => resolve(xhr.response);
+    xhr.onerror = () => reject(new Error("Failed to convert URI to Blob"));
+    xhr.responseType = "blob";
+    xhr.open("GET", uri, true);
+    xhr.send(null);
+  });
+
+// Compresses a picked photo and uploads it to `path` (items and avatars)
+// Each attempt is a resumable upload; failed or stalled attempts are retried with backoff
+export function startUpload(uri: string, path: string, options: UploadOptions = {}): UploadHandle {
+  let canceled = false;
+  let task: UploadTask | null = null;
+  let wake: (() => void) | null = null;
+  // Current attempt + pending backoff wait, so cancel() can stop either
+
+  const cancel = () => {
+    canceled = true;
+    task?.cancel();
+    wake?.();
+  };
+
+  // One upload attempt; rejects on error or when no progress was made for UPLOAD_STALL_MS
+  const attemptUpload = (blob: Blob) =>
+    new Promise<void>((resolve, reject) => {
+      const current = uploadBytesResumable(ref(storage, path), blob, { contentType: "image/jpeg" });
+      task = current;
+
+      let stalled = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const watch = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          stalled = true;
+          current.cancel();
+        }, UPLOAD_STALL_MS);
+      };
+      watch();
+
+      current.on(
+        "state_changed",
+        (snap) => {
+          watch();
+          options.onProgress?.(uploadFraction(snap.bytesTransferred, snap.totalBytes));
+        },
+        (e) => {
+          if (timer) clearTimeout(timer);
+          reject(stalled ? uploadError(UPLOAD_STALLED, "Upload stalled") : e);
+        },
+        () => {
+          if (timer) clearTimeout(timer);
+          resolve();
+        },
+      );
+    });
+
+  const promise = (async () => {
+    const blob = await uriToBlob(await compressImage(uri));
+
+    try {
+      // Storage rules refuse it anyway; fail before sending any bytes
+      if (blob.size > MAX_UPLOAD_BYTES) throw uploadError(UPLOAD_TOO_LARGE, "This photo is too large to upload.");
+
+      for (let attempt = 1; ; attempt++) {
+        if (canceled) throw uploadError(UPLOAD_CANCELED, "Upload canceled");
+
+        try {
+          options.onProgress?.(0);
+          await attemptUpload(blob);
+          return await getDownloadURL(ref(storage, path));
+        } catch (e) {
+          if (canceled) throw uploadError(UPLOAD_CANCELED, "Upload canceled");
+          if (attempt >= MAX_UPLOAD_ATTEMPTS || !isRetryableUploadError(e)) throw e;
+
+          const delay = retryDelayMs(attempt);
+          options.onRetry?.(attempt, delay, e);
+
+          // Backoff (cancel() ends the wait early)
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, delay);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          wake = null;
+        }
+      }
+    } finally {
+      // Some environments support blob.close() to free memory (safe optional)
+      // @ts-ignore
+      blob.close?.();
+    }
+  })();
+
+  return { promise, cancel };
+}
+
+/*This file contains the shared upload service for item photos and avatars.
+It compresses the photo, uploads it with resumable uploads and progress events,
+retries failed or stalled attempts with backoff, and can be canceled.
+*/
@@ -0,0 +1,52 @@
+import { MIN_PASSWORD_LENGTH, authErrorMessage, isEmailLike } from "../lib/auth-errors";
+
+// Server account deletion rules (functions/account-deletion.js)
+const deletion = require("../functions/account-deletion");
+
+describe("account forms", () => {
+  test("email shape", () => {
+    expect(isEmailLike("sara@example.com")).toBe(true);
+    expect(isEmailLike("  sara@example.com ")).toBe(true);
+    expect(isEmailLike("sara@example")).toBe(false);
+    expect(isEmailLike("sara example.com")).toBe(false);
+    expect(isEmailLike("")).toBe(false);
+  });
+
+  test("known Firebase Auth codes get a readable text, others the fallback", () => {
+    expect(authErrorMessage({ code: "auth/wrong-password" }, "x")).toBe("Wrong password.");
+    expect(authErrorMessage({ code: "auth/weak-password" }, "x")).toContain(String(MIN_PASSWORD_LENGTH));
+    expect(authErrorMessage({ code: "auth/requires-recent-login" }, "x")).toBe("Please sign in again and retry.");
+    expect(authErrorMessage({ code: "auth/something-new" }, "Failed.")).toBe("Failed.");
+    expect(authErrorMessage(new Error("boom"), "Failed.")).toBe("Failed.");
+    expect(authErrorMessage(null, "Failed.")).toBe("Failed.");
+  });
+});
+
+describe("account deletion", () => {
+  test("needs a sign-in from the last few minutes", () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    const secondsAgo = (s: number) => now / 1000 - s;
+
+    expect(deletion.isRecentSignIn(secondsAgo(30), now)).toBe(true);
+    expect(deletion.isRecentSignIn(secondsAgo(deletion.RECENT_SIGN_IN_SECONDS), now)).toBe(true);
+    expect(deletion.isRecentSignIn(secondsAgo(deletion.RECENT_SIGN_IN_SECONDS + 1), now)).toBe(false);
+    expect(deletion.isRecentSignIn(undefined, now)).toBe(false);
+  });
+
+  test("open requests are cancelled first, finished ones are only deleted", () => {
+    expect(deletion.shouldCancelRequest("pending", "requested")).toBe(true);
+    expect(deletion.shouldCancelRequest("waitlisted", "accepted")).toBe(true);
+    expect(deletion.shouldCancelRequest("approved", "accepted")).toBe(true);
+
+    // The item was handed over: nothing to give back
+    expect(deletion.shouldCancelRequest("approved", "donated")).toBe(false);
+
+    for (const status of ["rejected", "cancelled", "revoked", "unknown"]) {
+      expect(deletion.shouldCancelRequest(status, "available")).toBe(false);
+    }
+  });
+
+  test("the user's photos, thumbnails and avatar", () => {
+    expect(deletion.userStoragePaths("u1")).toEqual({ prefixes: ["items/u1/"], files: ["avatars/u1.jpg"] });
+  });
+});
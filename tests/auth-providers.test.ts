@@ -0,0 +1,135 @@
+import {
+  canUnlink,
+  googleClientIds,
+  isSmsCode,
+  linkedProviderIds,
+  recaptchaHtml,
+  toE164Phone,
+} from "../lib/auth-providers";
+
+// Server profile of new accounts (functions/profiles.js)
+const profiles = require("../functions/profiles");
+
+describe("linked providers", () => {
+  test("known providers only, in display order", () => {
+    expect(
+      linkedProviderIds([{ providerId: "phone" }, { providerId: "password" }, { providerId: "github.com" }]),
+    ).toEqual(["password", "phone"]);
+    expect(linkedProviderIds([])).toEqual([]);
+  });
+
+  test("the last sign-in method cannot be removed", () => {
+    expect(canUnlink(["password", "google.com"], "google.com")).toBe(true);
+    expect(canUnlink(["password"], "password")).toBe(false);
+    expect(canUnlink(["password", "phone"], "google.com")).toBe(false);
+  });
+});
+
+describe("phone numbers", () => {
+  test("local Jordanian forms become E.164", () => {
+    expect(toE164Phone("0791234567")).toBe("+962791234567");
+    expect(toE164Phone("079 123 4567")).toBe("+962791234567");
+    expect(toE164Phone("781234567")).toBe("+962781234567");
+    expect(toE164Phone("00962771234567")).toBe("+962771234567");
+    expect(toE164Phone("+962 79-123-4567")).toBe("+962791234567");
+  });
+
+  test("Jordanian numbers must be mobiles", () => {
+    expect(toE164Phone("0761234567")).toBeNull();
+    expect(toE164Phone("064123456")).toBeNull();
+    expect(toE164Phone("07912345")).toBeNull();
+  });
+
+  test("other countries need a valid E.164 number", () => {
+    expect(toE164Phone("+14155550123")).toBe("+14155550123");
+    expect(toE164Phone("0014155550123")).toBe("+14155550123");
+    expect(toE164Phone("+123")).toBeNull();
+    expect(toE164Phone("hello")).toBeNull();
+    expect(toE164Phone("")).toBeNull();
+  });
+
+  test("SMS codes are six digits", () => {
+    expect(isSmsCode("123456")).toBe(true);
+    expect(isSmsCode(" 123456 ")).toBe(true);
+    expect(isSmsCode("12345")).toBe(false);
+    expect(isSmsCode("12345a")).toBe(false);
+  });
+});
+
+describe("Google client ids", () => {
+  test("empty or missing ids mean Google is not configured", () => {
+    expect(googleClientIds(undefined)).toBeNull();
+    expect(googleClientIds({})).toBeNull();
+    expect(googleClientIds({ googleAuth: { webClientId: "", iosClientId: "  " } })).toBeNull();
+  });
+
+  test("set ids are kept and trimmed", () => {
+    expect(
+      googleClientIds({ googleAuth: { webClientId: " web.apps ", androidClientId: "android.apps", iosClientId: 3 } }),
+    ).toEqual({ webClientId: "web.apps", androidClientId: "android.apps" });
+  });
+});
+
+describe("reCAPTCHA page", () => {
+  test("loads the given SDK version with the app config", () => {
+    const html = recaptchaHtml({ apiKey: "key", authDomain: "demo.firebaseapp.com" }, "12.7.0");
+
+    expect(html).toContain("https://www.gstatic.com/firebasejs/12.7.0/firebase-auth-compat.js");
+    expect(html).toContain('"authDomain":"demo.firebaseapp.com"');
+    expect(html).toContain("ReactNativeWebView.postMessage");
+  });
+});
+
+describe("profiles of new accounts", () => {
+  test("Google accounts keep their name and photo", () => {
+    expect(
+      profiles.profileFromAuthUser({
+        displayName: " Sara Ali ",
+        email: "sara@example.com",
+        photoURL: "https://lh3.googleusercontent.com/a/photo",
+      }),
+    ).toEqual({
+      name: "Sara Ali",
+      avatarUrl: "https://lh3.googleusercontent.com/a/photo",
+    });
+  });
+
+  test("email accounts without a name use the start of the email", () => {
+    expect(profiles.profileFromAuthUser({ email: "omar.k@example.com" })).toEqual({ name: "omar.k" });
+  });
+
+  test("the email goes to the private settings, never the public profile", () => {
+    expect(profiles.privateSettingsFromAuthUser({ email: "omar.k@example.com" })).toEqual({
+      email: "omar.k@example.com",
+    });
+    expect(profiles.privateSettingsFromAuthUser({ phoneNumber: "+962791234567" })).toEqual({});
+  });
+
+  test("private fields of older profiles are still found, the private settings win", () => {
+    const legacy = { name: "Sara", email: "old@example.com", pushTokens: ["ExponentPushToken[1]"] };
+
+    expect(profiles.privateFieldsOf(legacy)).toEqual({
+      email: "old@example.com",
+      pushTokens: ["ExponentPushToken[1]"],
+    });
+    expect(profiles.privateSettingsOf({ email: "new@example.com" }, legacy)).toEqual({
+      email: "new@example.com",
+      pushTokens: ["ExponentPushToken[1]"],
+    });
+    expect(profiles.privateSettingsOf(undefined, undefined)).toEqual({});
+  });
+
+  test("phone accounts get the default name and never the number", () => {
+    const profile = profiles.profileFromAuthUser({ phoneNumber: "+962791234567" });
+
+    expect(profile).toEqual({ name: profiles.DEFAULT_PROFILE_NAME });
+    expect(JSON.stringify(profile)).not.toContain("962");
+  });
+
+  test("long names are cut and non-https photos are ignored", () => {
+    const profile = profiles.profileFromAuthUser({ displayName: "x".repeat(100), photoURL: "http://a/b.jpg" });
+
+    expect(profile.name).toHaveLength(profiles.MAX_PROFILE_NAME);
+    expect(profile.avatarUrl).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { initializeTestEnvironment, RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { deleteApp, FirebaseApp, initializeApp } from "firebase/app";
+import {
+  Auth,
+  connectAuthEmulator,
+  createUserWithEmailAndPassword,
+  getAuth,
+  GoogleAuthProvider,
+  linkWithCredential,
+  PhoneAuthProvider,
+  signInWithCredential,
+} from "firebase/auth";
+
+// Google / phone sign-in against the Auth emulator, and the profile created
+// by functions/users.js (npm run test:emulator)
+const PROJECT_ID = "demo-jodonate";
+const AUTH_HOST = "http://127.0.0.1:9099";
+
+// Name given to accounts without one (functions/profiles.js)
+const { DEFAULT_PROFILE_NAME } = require("../../functions/profiles");
+
+let testEnv: RulesTestEnvironment;
+const apps: FirebaseApp[] = [];
+
+// A fresh, signed-out client app
+const newAuth = (): Auth => {
+  const app = initializeApp({ projectId: PROJECT_ID, apiKey: "demo-key" }, `app-${apps.length}`);
+  apps.push(app);
+
+  const auth = getAuth(app);
+  connectAuthEmulator(auth, AUTH_HOST, { disableWarnings: true });
+  return auth;
+};
+
+// The Auth emulator accepts unsigned JSON as a Google id token
+const googleCredential = (email: string, name: string) =>
+  GoogleAuthProvider.credential(
+    JSON.stringify({ sub: `google-${Date.now()}`, email, email_verified: true, name }),
+  );
+
+// Sends an SMS code to the number and reads it back from the emulator
+// (the Node SDK has no signInWithPhoneNumber, so the REST API stands in for the reCAPTCHA flow)
+const phoneCredential = async (phoneNumber: string) => {
+  const sent = await fetch(
+    `${AUTH_HOST}/identitytoolkit.googleapis.com/v1/accounts:sendVerificationCode?key=demo-key`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ phoneNumber, recaptchaToken: "ignored" }),
+    },
+  );
+  const { sessionInfo } = await sent.json();
+
+  const codes = await fetch(`${AUTH_HOST}/emulator/v1/projects/${PROJECT_ID}/verificationCodes`);
+  const { verificationCodes } = await codes.json();
+  const { code } = verificationCodes.filter((c: any) => c.phoneNumber === phoneNumber).pop();
+
+  return PhoneAuthProvider.credential(sessionInfo, code);
+};
+
+// The profile is written by an Auth trigger, so it shows up a moment after sign-in
+const waitForProfile = async (uid: string) => {
+  for (let attempt = 0; attempt < 40; attempt++) {
+    let data: any;
+    await testEnv.withSecurityRulesDisabled(async (ctx) => {
+      data = (await ctx.firestore().doc(`users/${uid}`).get()).data();
+    });
+    if (data) return data;
+    await new Promise((r) => setTimeout(r, 250));
+  }
+  throw new Error(`No profile for ${uid}`);
+};
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({ projectId: PROJECT_ID });
+});
+
+afterEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+afterAll(async () => {
+  await Promise.all(apps.map((app) => deleteApp(app)));
+  await testEnv.cleanup();
+});
+
+describe("Google sign-in", () => {
+  test("creates a profile with the Google name and email", async () => {
+    const email = `sara-${Date.now()}@gmail.test`;
+    const cred = await signInWithCredential(newAuth(), googleCredential(email, "Sara Ali"));
+
+    expect(await waitForProfile(cred.user.uid)).toMatchObject({ name: "Sara Ali", email });
+  });
+
+  test("linking Google to an email account keeps the same account", async () => {
+    const auth = newAuth();
+    const email = `omar-${Date.now()}@test.dev`;
+    const { user } = await createUserWithEmailAndPassword(auth, email, "secret123");
+
+    const linked = await linkWithCredential(user, googleCredential(email, "Omar"));
+
+    expect(linked.user.uid).toBe(user.uid);
+    expect(linked.user.providerData.map((p) => p.providerId).sort()).toEqual(["google.com", "password"]);
+  });
+});
+
+describe("phone sign-in", () => {
+  test("creates a profile with the default name and no number", async () => {
+    const phone = `+96279${String(Date.now()).slice(-7)}`;
+    const cred = await signInWithCredential(newAuth(), await phoneCredential(phone));
+
+    expect(cred.user.phoneNumber).toBe(phone);
+
+    const profile = await waitForProfile(cred.user.uid);
+    expect(profile.name).toBe(DEFAULT_PROFILE_NAME);
+    expect(JSON.stringify(profile)).not.toContain(phone.slice(4));
+  });
+
+  test("the same number signs in to the same account", async () => {
+    const phone = `+96278${String(Date.now()).slice(-7)}`;
+    const first = await signInWithCredential(newAuth(), await phoneCredential(phone));
+    const second = await signInWithCredential(newAuth(), await phoneCredential(phone));
+
+    expect(second.user.uid).toBe(first.user.uid);
+  });
+});
@@ -0,0 +1,517 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+// Runs against the Firestore emulator (npm run test:emulator)
+let testEnv: RulesTestEnvironment;
+
+const OWNER = "owner-uid";
+const REQUESTER = "requester-uid";
+const STRANGER = "stranger-uid";
+
+const ITEM_ID = "item-1";
+const REQUEST_ID = `${ITEM_ID}_${REQUESTER}`;
+
+// Firestore instance for a signed-in user (email verified unless told otherwise)
+const dbAs = (uid: string, token: Record<string, any> = { email_verified: true }) =>
+  testEnv.authenticatedContext(uid, token).firestore();
+
+// Firestore instance for a signed-out visitor
+const dbAnon = () => testEnv.unauthenticatedContext().firestore();
+
+// Writes documents directly, skipping the rules (test setup only)
+const seed = async (docs: Record<string, any>) => {
+  await testEnv.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore();
+    for (const [path, data] of Object.entries(docs)) {
+      await db.doc(path).set(data);
+    }
+  });
+};
+
+const item = (overrides: Record<string, any> = {}) => ({
+  title: "Desk",
+  description: "Wooden desk",
+  category: "Furniture",
+  contactNumber: "0799999999",
+  imageUrl: "",
+  governorate: "irbid",
+  geohash: "sv9hc4",
+  ownerId: OWNER,
+  status: "available",
+  ...overrides,
+});
+
+// Download URL of an item photo (items/{uid}/{key}.jpg)
+const photoUrl = (uid: string, key: string) =>
+  `https://firebasestorage.googleapis.com/v0/b/demo-jodonate.appspot.com/o/${encodeURIComponent(
+    `items/${uid}/${key}.jpg`,
+  )}?alt=media&token=t`;
+
+const request = (overrides: Record<string, any> = {}) => ({
+  itemId: ITEM_ID,
+  itemOwnerId: OWNER,
+  requesterId: REQUESTER,
+  status: "pending",
+  ...overrides,
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-jodonate",
+    firestore: {
+      rules: readFileSync(resolve(__dirname, "../../firestore.rules"), "utf8"),
+    },
+  });
+});
+
+afterEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe("users", () => {
+  test("signed-in users can read profiles, visitors cannot", async () => {
+    await seed({ [`users/${OWNER}`]: { name: "Owner" } });
+
+    await assertSucceeds(dbAs(STRANGER).doc(`users/${OWNER}`).get());
+    await assertFails(dbAnon().doc(`users/${OWNER}`).get());
+  });
+
+  test("users create and update only their own profile", async () => {
+    await assertSucceeds(dbAs(OWNER).doc(`users/${OWNER}`).set({ name: "Owner" }));
+    await assertFails(dbAs(STRANGER).doc(`users/${OWNER}`).update({ name: "Hacked" }));
+    await assertSucceeds(dbAs(OWNER).doc(`users/${OWNER}`).update({ avatarUrl: "x" }));
+  });
+
+  test("profiles need a name", async () => {
+    await assertFails(dbAs(OWNER).doc(`users/${OWNER}`).set({ name: "" }));
+  });
+
+  test("users keep a short list of push tokens in their private settings", async () => {
+    const tokens = (n: number) => Array.from({ length: n }, (_, i) => `ExponentPushToken[${i}]`);
+    const settings = dbAs(OWNER).doc(`users/${OWNER}/private/settings`);
+
+    await assertSucceeds(settings.set({ pushTokens: tokens(2) }));
+    await assertFails(settings.set({ pushTokens: tokens(11) }));
+    await assertFails(settings.set({ pushTokens: "ExponentPushToken[0]" }));
+  });
+
+  test("notification preferences are a map", async () => {
+    const settings = dbAs(OWNER).doc(`users/${OWNER}/private/settings`);
+
+    await assertSucceeds(settings.set({ notificationPrefs: { types: {}, digest: true } }));
+    await assertFails(settings.set({ notificationPrefs: "all" }));
+  });
+
+  test("only the user reads their private settings, and only with their own email", async () => {
+    await seed({ [`users/${OWNER}/private/settings`]: { pushTokens: ["ExponentPushToken[0]"] } });
+    const owner = (email: string) => dbAs(OWNER, { email_verified: true, email });
+
+    await assertSucceeds(owner("owner@example.com").doc(`users/${OWNER}/private/settings`).get());
+    await assertFails(dbAs(STRANGER).doc(`users/${OWNER}/private/settings`).get());
+    await assertFails(dbAs(STRANGER).doc(`users/${OWNER}/private/settings`).set({ pushTokens: [] }));
+
+    await assertSucceeds(
+      owner("owner@example.com").doc(`users/${OWNER}/private/settings`).update({ email: "owner@example.com" }),
+    );
+    await assertFails(
+      owner("owner@example.com").doc(`users/${OWNER}/private/settings`).update({ email: "someone@example.com" }),
+    );
+    await assertFails(owner("owner@example.com").doc(`users/${OWNER}/private/other`).set({ pushTokens: [] }));
+  });
+
+  test("private fields never go on the public profile", async () => {
+    await seed({ [`users/${OWNER}`]: { name: "Owner", email: "old@example.com" } });
+    const me = dbAs(OWNER).doc(`users/${OWNER}`);
+
+    await assertFails(me.update({ pushTokens: ["ExponentPushToken[0]"] }));
+    await assertFails(me.update({ notificationPrefs: { digest: true } }));
+    await assertFails(me.update({ email: "new@example.com" }));
+    await assertFails(dbAs(STRANGER).doc(`users/${STRANGER}`).set({ name: "New", email: "s@example.com" }));
+
+    // Older profiles can still be edited
+    await assertSucceeds(me.update({ name: "Sara" }));
+  });
+
+  test("public profile fields are checked", async () => {
+    await seed({ [`users/${OWNER}`]: { name: "Owner" } });
+    const me = dbAs(OWNER).doc(`users/${OWNER}`);
+
+    await assertSucceeds(me.update({ name: "Sara", bio: "Happy to help.", city: "irbid" }));
+    await assertSucceeds(me.update({ bio: null, city: null }));
+    await assertFails(me.update({ name: "x".repeat(61) }));
+    await assertFails(me.update({ bio: "x".repeat(301) }));
+    await assertFails(me.update({ city: "paris" }));
+    await assertFails(dbAs(STRANGER).doc(`users/${STRANGER}`).set({ name: "x".repeat(61) }));
+  });
+
+  test("older profiles with a long name can still save other fields", async () => {
+    await seed({ [`users/${OWNER}`]: { name: "x".repeat(80) } });
+
+    await assertSucceeds(dbAs(OWNER).doc(`users/${OWNER}`).update({ avatarUrl: "x" }));
+  });
+
+  test("users cannot write their own rating", async () => {
+    await seed({ [`users/${OWNER}`]: { name: "Owner", ratingCount: 1, ratingAverage: 2 } });
+
+    await assertFails(dbAs(OWNER).doc(`users/${OWNER}`).update({ ratingAverage: 5 }));
+    await assertFails(dbAs(OWNER).doc(`users/${OWNER}`).update({ ratingCount: 100 }));
+    await assertFails(
+      dbAs(STRANGER).doc(`users/${STRANGER}`).set({ name: "New", ratingCount: 9, ratingAverage: 5 }),
+    );
+  });
+
+  test("users cannot lift their own suspension", async () => {
+    await seed({ [`users/${OWNER}`]: { name: "Owner", suspended: true } });
+
+    await assertFails(dbAs(OWNER).doc(`users/${OWNER}`).update({ suspended: false }));
+  });
+
+  test("users cannot give themselves roles", async () => {
+    await seed({ [`users/${OWNER}`]: { name: "Owner" } });
+
+    await assertFails(dbAs(OWNER).doc(`users/${OWNER}`).update({ roles: ["admin"] }));
+    await assertFails(dbAs(STRANGER).doc(`users/${STRANGER}`).set({ name: "New", roles: ["admin"] }));
+  });
+
+  test("only the user reads their block list, and only the server writes it", async () => {
+    await seed({ [`users/${OWNER}/blocked/${STRANGER}`]: { createdAt: new Date() } });
+
+    await assertSucceeds(dbAs(OWNER).collection(`users/${OWNER}/blocked`).get());
+    await assertFails(dbAs(STRANGER).doc(`users/${OWNER}/blocked/${STRANGER}`).get());
+    await assertFails(dbAs(OWNER).doc(`users/${OWNER}/blocked/${REQUESTER}`).set({ createdAt: new Date() }));
+    await assertFails(dbAs(OWNER).doc(`users/${OWNER}/blocked/${STRANGER}`).delete());
+  });
+});
+
+describe("items", () => {
+  test("owner creates an available item", async () => {
+    await assertSucceeds(dbAs(OWNER).collection("items").add(item()));
+  });
+
+  test("posting an item needs a verified email or phone number", async () => {
+    await assertFails(dbAs(OWNER, { email_verified: false }).collection("items").add(item()));
+    await assertFails(dbAs(OWNER, {}).collection("items").add(item()));
+    await assertSucceeds(dbAs(OWNER, { phone_number: "+962791234567" }).collection("items").add(item()));
+  });
+
+  test("cannot create an item for someone else or with another status", async () => {
+    await assertFails(dbAs(STRANGER).collection("items").add(item()));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ status: "donated" })));
+  });
+
+  test("cannot create an item with an unknown category", async () => {
+    await assertFails(dbAs(OWNER).collection("items").add(item({ category: "Cars" })));
+  });
+
+  test("new items need a governorate; the geohash is optional but must be valid", async () => {
+    await assertSucceeds(dbAs(OWNER).collection("items").add(item({ geohash: null })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ governorate: null })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ governorate: "Irbid" })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ geohash: "not a hash" })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ geohash: 42 })));
+  });
+
+  test("an item gallery holds at most eight photos", async () => {
+    const photos = (n: number) => Array.from({ length: n }, (_, i) => photoUrl(OWNER, `1712_${i}`));
+    await assertSucceeds(dbAs(OWNER).collection("items").add(item({ images: photos(8) })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ images: photos(9) })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ images: photoUrl(OWNER, "1712_0") })));
+  });
+
+  test("item photos must be the owner's own uploads", async () => {
+    const mine = photoUrl(OWNER, "1712_a");
+    const theirs = photoUrl(STRANGER, "1712_b");
+
+    await assertSucceeds(dbAs(OWNER).collection("items").add(item({ images: [mine], imageUrl: mine })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ images: [mine, theirs], imageUrl: mine })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ imageUrl: theirs })));
+    await assertFails(dbAs(OWNER).collection("items").add(item({ images: ["https://img/0.jpg"] })));
+
+    await seed({ [`items/${ITEM_ID}`]: item({ images: [mine], imageUrl: mine }) });
+    await assertFails(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ images: [mine, theirs] }));
+  });
+
+  test("items without a location can still be edited, and get a valid one", async () => {
+    const { governorate, geohash, ...old } = item();
+    await seed({ [`items/${ITEM_ID}`]: old });
+
+    await assertSucceeds(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ title: "Big desk" }));
+    await assertFails(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ governorate: "paris" }));
+    await assertSucceeds(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ governorate, geohash }));
+  });
+
+  test("only the owner edits or deletes an item", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    await assertSucceeds(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ title: "Big desk" }));
+    await assertFails(dbAs(STRANGER).doc(`items/${ITEM_ID}`).update({ title: "Mine now" }));
+    await assertFails(dbAs(STRANGER).doc(`items/${ITEM_ID}`).delete());
+    await assertSucceeds(dbAs(OWNER).doc(`items/${ITEM_ID}`).delete());
+  });
+
+  test("owner cannot transfer ownership", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    await assertFails(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ ownerId: STRANGER }));
+  });
+
+  test("owner cannot change the status directly", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item({ status: "accepted" }) });
+
+    await assertFails(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ status: "donated" }));
+  });
+
+  test("requester cannot change item status", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    await assertFails(dbAs(REQUESTER).doc(`items/${ITEM_ID}`).update({ status: "requested" }));
+  });
+
+  test("only moderators hide items: owners cannot post hidden items or unhide them", async () => {
+    await assertFails(dbAs(OWNER).collection("items").add(item({ hidden: true })));
+
+    await seed({ [`items/${ITEM_ID}`]: item({ hidden: true }) });
+    await assertFails(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ hidden: false }));
+    await assertSucceeds(dbAs(OWNER).doc(`items/${ITEM_ID}`).update({ title: "Big desk" }));
+  });
+
+  test("a hidden item is only readable by its owner and moderators", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item({ hidden: true }) });
+
+    await assertFails(dbAs(STRANGER).doc(`items/${ITEM_ID}`).get());
+    await assertFails(dbAs(STRANGER).collection("items").where("category", "==", "Furniture").get());
+    await assertSucceeds(dbAs(OWNER).doc(`items/${ITEM_ID}`).get());
+    await assertSucceeds(dbAs(OWNER).collection("items").where("ownerId", "==", OWNER).get());
+    await assertSucceeds(dbAs(STRANGER, { admin: true }).doc(`items/${ITEM_ID}`).get());
+  });
+
+  test("lists that leave out hidden items can be read by everyone", async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ hidden: false }),
+      ["items/item-2"]: item({ hidden: true }),
+    });
+
+    const listed = await assertSucceeds(
+      dbAs(STRANGER).collection("items").where("category", "==", "Furniture").where("hidden", "==", false).get(),
+    );
+    expect(listed.docs.map((d) => d.id)).toEqual([ITEM_ID]);
+  });
+});
+
+// Requests are written by the request workflow Cloud Functions (see request-workflow.test.ts)
+describe("requests", () => {
+  test("clients cannot create requests, even for themselves", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    await assertFails(dbAs(REQUESTER).doc(`requests/${REQUEST_ID}`).set(request()));
+  });
+
+  test("app can check for an existing request", async () => {
+    await assertSucceeds(dbAs(REQUESTER).doc(`requests/${REQUEST_ID}`).get());
+  });
+
+  test("only participants read a request", async () => {
+    await seed({ [`requests/${REQUEST_ID}`]: request() });
+
+    await assertSucceeds(dbAs(REQUESTER).doc(`requests/${REQUEST_ID}`).get());
+    await assertSucceeds(dbAs(OWNER).doc(`requests/${REQUEST_ID}`).get());
+    await assertFails(dbAs(STRANGER).doc(`requests/${REQUEST_ID}`).get());
+  });
+
+  test("nobody decides a request from the client", async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "requested" }),
+      [`requests/${REQUEST_ID}`]: request(),
+    });
+
+    await assertFails(
+      dbAs(OWNER).doc(`requests/${REQUEST_ID}`).update({ status: "approved" }),
+    );
+    await assertFails(
+      dbAs(REQUESTER).doc(`requests/${REQUEST_ID}`).update({ status: "approved" }),
+    );
+  });
+});
+
+describe("notifications", () => {
+  const notif = {
+    toUserId: REQUESTER,
+    fromUserId: OWNER,
+    title: "Request approved",
+    body: "Approved",
+    type: "request_approved",
+    itemId: ITEM_ID,
+    read: false,
+  };
+
+  test("only the receiver reads a notification", async () => {
+    await seed({ "notifications/n1": notif });
+
+    await assertSucceeds(dbAs(REQUESTER).doc("notifications/n1").get());
+    await assertFails(dbAs(OWNER).doc("notifications/n1").get());
+    await assertFails(dbAs(STRANGER).doc("notifications/n1").get());
+  });
+
+  test("receiver lists their own notifications only", async () => {
+    await seed({ "notifications/n1": notif });
+
+    await assertSucceeds(
+      dbAs(REQUESTER).collection("notifications").where("toUserId", "==", REQUESTER).get(),
+    );
+    await assertFails(dbAs(REQUESTER).collection("notifications").get());
+  });
+
+  test("receiver can only mark as read", async () => {
+    await seed({ "notifications/n1": notif });
+
+    await assertSucceeds(dbAs(REQUESTER).doc("notifications/n1").update({ read: true }));
+    await assertFails(dbAs(REQUESTER).doc("notifications/n1").update({ body: "changed" }));
+    await assertFails(dbAs(STRANGER).doc("notifications/n1").update({ read: true }));
+  });
+
+  test("receiver can mark all unread as read", async () => {
+    await seed({ "notifications/n1": notif, "notifications/n2": { ...notif, read: true } });
+
+    await assertSucceeds(
+      dbAs(REQUESTER)
+        .collection("notifications")
+        .where("toUserId", "==", REQUESTER)
+        .where("read", "==", false)
+        .get(),
+    );
+  });
+
+  test("only the receiver deletes a notification", async () => {
+    await seed({ "notifications/n1": notif });
+
+    await assertFails(dbAs(OWNER).doc("notifications/n1").delete());
+    await assertFails(dbAs(STRANGER).doc("notifications/n1").delete());
+    await assertSucceeds(dbAs(REQUESTER).doc("notifications/n1").delete());
+  });
+
+  test("clients cannot send notifications", async () => {
+    await assertFails(dbAs(STRANGER).collection("notifications").add(notif));
+    await assertFails(dbAs(OWNER).collection("notifications").add(notif));
+  });
+});
+
+describe("reviews", () => {
+  const review = {
+    requestId: REQUEST_ID,
+    itemId: ITEM_ID,
+    reviewerId: OWNER,
+    revieweeId: REQUESTER,
+    reviewerRole: "donor",
+    rating: 5,
+    text: "",
+  };
+
+  test("signed-in users read reviews", async () => {
+    await seed({ [`reviews/${REQUEST_ID}_${OWNER}`]: review });
+
+    await assertSucceeds(dbAs(STRANGER).doc(`reviews/${REQUEST_ID}_${OWNER}`).get());
+    await assertFails(dbAnon().doc(`reviews/${REQUEST_ID}_${OWNER}`).get());
+  });
+
+  test("only the server writes reviews", async () => {
+    await assertFails(dbAs(OWNER).doc(`reviews/${REQUEST_ID}_${OWNER}`).set(review));
+
+    await seed({ [`reviews/${REQUEST_ID}_${OWNER}`]: review });
+    await assertFails(dbAs(OWNER).doc(`reviews/${REQUEST_ID}_${OWNER}`).update({ rating: 1 }));
+    await assertFails(dbAs(REQUESTER).doc(`reviews/${REQUEST_ID}_${OWNER}`).delete());
+  });
+});
+
+describe("reports", () => {
+  const report = {
+    reporterId: REQUESTER,
+    targetType: "item",
+    targetId: ITEM_ID,
+    targetUserId: OWNER,
+    itemId: ITEM_ID,
+    reason: "scam",
+    details: "",
+    status: "open",
+  };
+
+  test("only moderators read reports", async () => {
+    await seed({ [`reports/item_${ITEM_ID}_${REQUESTER}`]: report });
+
+    await assertSucceeds(
+      dbAs(STRANGER, { admin: true }).collection("reports").where("status", "==", "open").get(),
+    );
+    await assertFails(dbAs(REQUESTER).doc(`reports/item_${ITEM_ID}_${REQUESTER}`).get());
+    await assertFails(dbAs(OWNER).collection("reports").get());
+  });
+
+  test("reports are written only by the server, even by moderators", async () => {
+    await assertFails(dbAs(REQUESTER).doc(`reports/item_${ITEM_ID}_${REQUESTER}`).set(report));
+
+    await seed({ [`reports/item_${ITEM_ID}_${REQUESTER}`]: report });
+    await assertFails(
+      dbAs(STRANGER, { admin: true }).doc(`reports/item_${ITEM_ID}_${REQUESTER}`).update({ status: "resolved" }),
+    );
+  });
+});
+
+describe("chats", () => {
+  const conversation = {
+    requestId: REQUEST_ID,
+    itemId: ITEM_ID,
+    itemTitle: "Desk",
+    itemOwnerId: OWNER,
+    requesterId: REQUESTER,
+    participants: [OWNER, REQUESTER],
+    lastMessage: "",
+    lastSenderId: "",
+    unread: { [OWNER]: 0, [REQUESTER]: 0 },
+  };
+
+  test("participants open a chat for an approved request", async () => {
+    await seed({ [`requests/${REQUEST_ID}`]: request({ status: "approved" }) });
+
+    await assertSucceeds(dbAs(REQUESTER).doc(`conversations/${REQUEST_ID}`).set(conversation));
+  });
+
+  test("no chat for a pending request", async () => {
+    await seed({ [`requests/${REQUEST_ID}`]: request() });
+
+    await assertFails(dbAs(REQUESTER).doc(`conversations/${REQUEST_ID}`).set(conversation));
+  });
+
+  test("outsiders cannot read or post", async () => {
+    await seed({ [`conversations/${REQUEST_ID}`]: conversation });
+
+    await assertFails(dbAs(STRANGER).doc(`conversations/${REQUEST_ID}`).get());
+    await assertFails(
+      dbAs(STRANGER)
+        .collection(`conversations/${REQUEST_ID}/messages`)
+        .add({ senderId: STRANGER, text: "hi" }),
+    );
+  });
+
+  test("participants post messages as themselves", async () => {
+    await seed({ [`conversations/${REQUEST_ID}`]: conversation });
+
+    await assertSucceeds(
+      dbAs(OWNER)
+        .collection(`conversations/${REQUEST_ID}/messages`)
+        .add({ senderId: OWNER, text: "Tomorrow at 5?" }),
+    );
+    await assertFails(
+      dbAs(OWNER)
+        .collection(`conversations/${REQUEST_ID}/messages`)
+        .add({ senderId: REQUESTER, text: "Fake" }),
+    );
+  });
+});
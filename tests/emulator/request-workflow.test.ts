@@ -0,0 +1,580 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { initializeTestEnvironment, RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { deleteApp, FirebaseApp, initializeApp } from "firebase/app";
+import { connectAuthEmulator, createUserWithEmailAndPassword, getAuth } from "firebase/auth";
+import { connectFunctionsEmulator, getFunctions, httpsCallable } from "firebase/functions";
+
+// Runs the callable functions in functions/requests.js against the
+// Auth + Functions + Firestore emulators (npm run test:emulator)
+const PROJECT_ID = "demo-jodonate";
+
+let testEnv: RulesTestEnvironment;
+
+// One signed-in client app per test user
+type Client = { app: FirebaseApp; uid: string };
+const clients: Record<string, Client> = {};
+
+const ITEM_ID = "item-1";
+
+// Creates a client app signed in as a fresh Auth emulator user
+const signUp = async (name: string): Promise<Client> => {
+  const app = initializeApp({ projectId: PROJECT_ID, apiKey: "demo-key" }, name);
+
+  const auth = getAuth(app);
+  connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+  connectFunctionsEmulator(getFunctions(app), "127.0.0.1", 5001);
+
+  const cred = await createUserWithEmailAndPassword(auth, `${name}-${Date.now()}@test.dev`, "secret123");
+  return { app, uid: cred.user.uid };
+};
+
+// Calls a workflow function as the given client
+const call = (client: Client | FirebaseApp, name: string, data: Record<string, string | number | boolean>) => {
+  const app = "app" in client ? client.app : client;
+  return httpsCallable(getFunctions(app), name)(data);
+};
+
+// Reads/writes documents directly, skipping the rules (test setup + checks only)
+const seed = async (docs: Record<string, any>) => {
+  await testEnv.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore();
+    for (const [path, data] of Object.entries(docs)) {
+      await db.doc(path).set(data);
+    }
+  });
+};
+
+const read = async (path: string) => {
+  let data: any;
+  await testEnv.withSecurityRulesDisabled(async (ctx) => {
+    data = (await ctx.firestore().doc(path).get()).data();
+  });
+  return data;
+};
+
+const notificationsFor = async (uid: string) => {
+  let types: string[] = [];
+  await testEnv.withSecurityRulesDisabled(async (ctx) => {
+    const snap = await ctx.firestore().collection("notifications").where("toUserId", "==", uid).get();
+    types = snap.docs.map((d) => d.data().type);
+  });
+  return types;
+};
+
+const item = (overrides: Record<string, any> = {}) => ({
+  title: "Desk",
+  description: "Wooden desk",
+  category: "Furniture",
+  ownerId: clients.owner.uid,
+  status: "available",
+  ...overrides,
+});
+
+const requestId = () => `${ITEM_ID}_${clients.requester.uid}`;
+
+const request = (overrides: Record<string, any> = {}) => ({
+  itemId: ITEM_ID,
+  itemOwnerId: clients.owner.uid,
+  requesterId: clients.requester.uid,
+  status: "pending",
+  ...overrides,
+});
+
+// Expects a callable to fail with the given HttpsError code
+const expectCode = async (promise: Promise<unknown>, code: string) => {
+  await expect(promise).rejects.toMatchObject({ code: `functions/${code}` });
+};
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(resolve(__dirname, "../../firestore.rules"), "utf8"),
+    },
+  });
+
+  for (const name of ["owner", "requester", "stranger"]) {
+    clients[name] = await signUp(name);
+  }
+});
+
+afterEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+afterAll(async () => {
+  await Promise.all(Object.values(clients).map((c) => deleteApp(c.app)));
+  await testEnv.cleanup();
+});
+
+describe("requestItem", () => {
+  test("creates a pending request, marks the item requested and notifies the owner", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    await call(clients.requester, "requestItem", { itemId: ITEM_ID });
+
+    expect(await read(`requests/${requestId()}`)).toMatchObject(request());
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("requested");
+    expect(await notificationsFor(clients.owner.uid)).toEqual(["request_received"]);
+  });
+
+  test("rejects signed-out callers", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    const anon = initializeApp({ projectId: PROJECT_ID, apiKey: "demo-key" }, "anon");
+    connectFunctionsEmulator(getFunctions(anon), "127.0.0.1", 5001);
+
+    await expectCode(call(anon, "requestItem", { itemId: ITEM_ID }), "unauthenticated");
+    await deleteApp(anon);
+  });
+
+  test("cannot request your own item", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    await expectCode(call(clients.owner, "requestItem", { itemId: ITEM_ID }), "permission-denied");
+  });
+
+  test("a requested item stays open for more requests", async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "requested" }),
+      [`requests/${ITEM_ID}_${clients.stranger.uid}`]: request({ requesterId: clients.stranger.uid }),
+    });
+
+    await call(clients.requester, "requestItem", { itemId: ITEM_ID });
+
+    expect((await read(`requests/${requestId()}`)).status).toBe("pending");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("requested");
+  });
+
+  test("cannot request an item that is not available", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item({ status: "accepted" }) });
+
+    await expectCode(call(clients.requester, "requestItem", { itemId: ITEM_ID }), "failed-precondition");
+  });
+
+  test("cannot request twice", async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item(),
+      [`requests/${requestId()}`]: request({ status: "rejected" }),
+    });
+
+    await expectCode(call(clients.requester, "requestItem", { itemId: ITEM_ID }), "already-exists");
+  });
+
+  test("missing arguments are rejected", async () => {
+    await expectCode(call(clients.requester, "requestItem", {}), "invalid-argument");
+  });
+});
+
+describe("approveRequest / rejectRequest", () => {
+  beforeEach(async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "requested" }),
+      [`requests/${requestId()}`]: request(),
+    });
+  });
+
+  test("owner approves -> item accepted, requester notified", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${requestId()}`)).status).toBe("approved");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("accepted");
+    expect(await notificationsFor(clients.requester.uid)).toEqual(["request_approved"]);
+  });
+
+  test("approval opens the chat and the notification points to the request", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+
+    const conversation = await read(`conversations/${requestId()}`);
+    expect(conversation.participants).toEqual([clients.owner.uid, clients.requester.uid]);
+    expect(conversation.itemId).toBe(ITEM_ID);
+
+    let notification: any;
+    await testEnv.withSecurityRulesDisabled(async (ctx) => {
+      const snap = await ctx
+        .firestore()
+        .collection("notifications")
+        .where("toUserId", "==", clients.requester.uid)
+        .get();
+      notification = snap.docs[0].data();
+    });
+    expect(notification.requestId).toBe(requestId());
+  });
+
+  test("owner rejects -> item available, requester notified", async () => {
+    await call(clients.owner, "rejectRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${requestId()}`)).status).toBe("rejected");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("available");
+    expect(await notificationsFor(clients.requester.uid)).toEqual(["request_rejected"]);
+  });
+
+  test("only the item owner decides", async () => {
+    await expectCode(call(clients.requester, "approveRequest", { requestId: requestId() }), "permission-denied");
+    await expectCode(call(clients.stranger, "rejectRequest", { requestId: requestId() }), "permission-denied");
+  });
+
+  test("a decided request cannot be decided again", async () => {
+    await call(clients.owner, "rejectRequest", { requestId: requestId() });
+
+    await expectCode(call(clients.owner, "approveRequest", { requestId: requestId() }), "failed-precondition");
+  });
+
+  test("unknown requests are not found", async () => {
+    await expectCode(call(clients.owner, "approveRequest", { requestId: "nope" }), "not-found");
+  });
+});
+
+describe("queue + waitlist", () => {
+  const strangerRequestId = () => `${ITEM_ID}_${clients.stranger.uid}`;
+
+  beforeEach(async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "requested" }),
+      [`requests/${requestId()}`]: request(),
+      [`requests/${strangerRequestId()}`]: request({ requesterId: clients.stranger.uid }),
+    });
+  });
+
+  test("approving one request waitlists the others and notifies them", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${strangerRequestId()}`)).status).toBe("waitlisted");
+    expect(await notificationsFor(clients.stranger.uid)).toEqual(["request_waitlisted"]);
+  });
+
+  test("rejecting one request keeps the item requested while others are pending", async () => {
+    await call(clients.owner, "rejectRequest", { requestId: requestId() });
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("requested");
+
+    await call(clients.owner, "rejectRequest", { requestId: strangerRequestId() });
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("available");
+  });
+
+  test("donating rejects the waitlist", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+    await call(clients.owner, "markDonated", { itemId: ITEM_ID });
+
+    expect((await read(`requests/${strangerRequestId()}`)).status).toBe("rejected");
+    expect(await notificationsFor(clients.stranger.uid)).toEqual(
+      expect.arrayContaining(["request_waitlisted", "request_rejected"]),
+    );
+  });
+
+  test("when the approved requester backs out, the waitlist goes back to the queue", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+    await call(clients.requester, "cancelRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${strangerRequestId()}`)).status).toBe("pending");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("requested");
+    expect(await notificationsFor(clients.stranger.uid)).toEqual(
+      expect.arrayContaining(["request_waitlisted", "request_reopened"]),
+    );
+  });
+
+  test("revoking an approval also reopens the waitlist", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+    await call(clients.owner, "revokeRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${strangerRequestId()}`)).status).toBe("pending");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("requested");
+  });
+
+  test("a waitlisted requester can leave the waitlist", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+    await call(clients.stranger, "cancelRequest", { requestId: strangerRequestId() });
+
+    expect((await read(`requests/${strangerRequestId()}`)).status).toBe("cancelled");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("accepted");
+  });
+});
+
+describe("cancelRequest", () => {
+  beforeEach(async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "requested" }),
+      [`requests/${requestId()}`]: request(),
+    });
+  });
+
+  test("requester cancels -> item available, owner notified, can request again", async () => {
+    await call(clients.requester, "cancelRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${requestId()}`)).status).toBe("cancelled");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("available");
+    expect(await notificationsFor(clients.owner.uid)).toEqual(["request_cancelled"]);
+
+    await call(clients.requester, "requestItem", { itemId: ITEM_ID });
+    expect((await read(`requests/${requestId()}`)).status).toBe("pending");
+  });
+
+  test("only the requester cancels", async () => {
+    await expectCode(call(clients.owner, "cancelRequest", { requestId: requestId() }), "permission-denied");
+  });
+
+  test("requester can back out of an approval -> item available, owner notified", async () => {
+    await call(clients.owner, "approveRequest", { requestId: requestId() });
+    await call(clients.requester, "cancelRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${requestId()}`)).status).toBe("cancelled");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("available");
+    expect(await notificationsFor(clients.owner.uid)).toEqual(["request_cancelled"]);
+  });
+
+  test("a request for a deleted item can still be cancelled", async () => {
+    const orphanId = `gone_${clients.requester.uid}`;
+    await seed({ [`requests/${orphanId}`]: request({ itemId: "gone" }) });
+
+    await call(clients.requester, "cancelRequest", { requestId: orphanId });
+
+    expect((await read(`requests/${orphanId}`)).status).toBe("cancelled");
+    expect(await notificationsFor(clients.owner.uid)).toEqual([]);
+  });
+});
+
+describe("revokeRequest", () => {
+  beforeEach(async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "accepted" }),
+      [`requests/${requestId()}`]: request({ status: "approved" }),
+    });
+  });
+
+  test("owner revokes an approval -> item available, requester notified", async () => {
+    await call(clients.owner, "revokeRequest", { requestId: requestId() });
+
+    expect((await read(`requests/${requestId()}`)).status).toBe("revoked");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("available");
+    expect(await notificationsFor(clients.requester.uid)).toEqual(["request_revoked"]);
+  });
+
+  test("only the item owner revokes, and only approved requests", async () => {
+    await expectCode(call(clients.requester, "revokeRequest", { requestId: requestId() }), "permission-denied");
+
+    await call(clients.owner, "revokeRequest", { requestId: requestId() });
+    await expectCode(call(clients.owner, "revokeRequest", { requestId: requestId() }), "failed-precondition");
+  });
+
+  test("a revoked requester cannot request the item again", async () => {
+    await call(clients.owner, "revokeRequest", { requestId: requestId() });
+
+    await expectCode(call(clients.requester, "requestItem", { itemId: ITEM_ID }), "already-exists");
+  });
+});
+
+describe("markDonated", () => {
+  test("owner marks an accepted item donated and the requester is notified", async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "accepted" }),
+      [`requests/${requestId()}`]: request({ status: "approved" }),
+    });
+
+    await call(clients.owner, "markDonated", { itemId: ITEM_ID });
+
+    const donated = await read(`items/${ITEM_ID}`);
+    expect(donated.status).toBe("donated");
+    expect(donated.donatedAt).toBeDefined();
+    expect(await notificationsFor(clients.requester.uid)).toEqual(["item_donated"]);
+  });
+
+  test("only accepted items can be donated, only by the owner", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item({ status: "requested" }) });
+
+    await expectCode(call(clients.owner, "markDonated", { itemId: ITEM_ID }), "failed-precondition");
+    await expectCode(call(clients.stranger, "markDonated", { itemId: ITEM_ID }), "permission-denied");
+  });
+});
+
+describe("submitReview", () => {
+  const ownerReview = () => `${requestId()}_${clients.owner.uid}`;
+
+  beforeEach(async () => {
+    await seed({
+      [`items/${ITEM_ID}`]: item({ status: "donated" }),
+      [`requests/${requestId()}`]: request({ status: "approved" }),
+      [`users/${clients.requester.uid}`]: { name: "Requester" },
+    });
+  });
+
+  test("donor reviews the recipient -> review stored, rating updated, recipient notified", async () => {
+    await call(clients.owner, "submitReview", { requestId: requestId(), rating: 4, text: " Very kind " });
+
+    expect(await read(`reviews/${ownerReview()}`)).toMatchObject({
+      reviewerId: clients.owner.uid,
+      revieweeId: clients.requester.uid,
+      reviewerRole: "donor",
+      rating: 4,
+      text: "Very kind",
+    });
+    expect(await read(`users/${clients.requester.uid}`)).toMatchObject({
+      ratingCount: 1,
+      ratingSum: 4,
+      ratingAverage: 4,
+    });
+    expect((await read(`requests/${requestId()}`)).ratings).toEqual({ [clients.owner.uid]: 4 });
+    expect(await notificationsFor(clients.requester.uid)).toEqual(["review_received"]);
+  });
+
+  test("each side reviews once", async () => {
+    await call(clients.owner, "submitReview", { requestId: requestId(), rating: 5 });
+
+    await expectCode(call(clients.owner, "submitReview", { requestId: requestId(), rating: 1 }), "already-exists");
+    expect((await read(`users/${clients.requester.uid}`)).ratingCount).toBe(1);
+  });
+
+  test("only the two participants review, after the donation, with 1-5 stars", async () => {
+    await expectCode(call(clients.stranger, "submitReview", { requestId: requestId(), rating: 5 }), "permission-denied");
+    await expectCode(call(clients.owner, "submitReview", { requestId: requestId(), rating: 6 }), "invalid-argument");
+
+    await seed({ [`items/${ITEM_ID}`]: item({ status: "accepted" }) });
+    await expectCode(call(clients.requester, "submitReview", { requestId: requestId(), rating: 5 }), "failed-precondition");
+  });
+});
+
+describe("reports + blocking", () => {
+  test("a user reports an item once; the report is about its owner", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+    const data = { targetType: "item", targetId: ITEM_ID, reason: "scam", details: "Asks for money" };
+
+    await call(clients.requester, "reportContent", data);
+
+    expect(await read(`reports/item_${ITEM_ID}_${clients.requester.uid}`)).toMatchObject({
+      reporterId: clients.requester.uid,
+      targetUserId: clients.owner.uid,
+      itemId: ITEM_ID,
+      status: "open",
+    });
+    await expectCode(call(clients.requester, "reportContent", data), "already-exists");
+    await expectCode(
+      call(clients.owner, "reportContent", { ...data, reason: "spam" }),
+      "permission-denied",
+    );
+  });
+
+  test("only the two participants report a request", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item({ status: "requested" }), [`requests/${requestId()}`]: request() });
+    const data = { targetType: "request", targetId: requestId(), reason: "harassment" };
+
+    await expectCode(call(clients.stranger, "reportContent", data), "permission-denied");
+    await call(clients.owner, "reportContent", data);
+
+    expect((await read(`reports/request_${requestId()}_${clients.owner.uid}`)).targetUserId).toBe(
+      clients.requester.uid,
+    );
+  });
+
+  test("blocking rejects the user's pending requests and refuses new ones", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item({ status: "requested" }), [`requests/${requestId()}`]: request() });
+
+    await call(clients.owner, "blockUser", { userId: clients.requester.uid });
+
+    expect(await read(`users/${clients.owner.uid}/blocked/${clients.requester.uid}`)).toBeDefined();
+    expect((await read(`requests/${requestId()}`)).status).toBe("rejected");
+    expect((await read(`items/${ITEM_ID}`)).status).toBe("available");
+
+    await seed({ "items/item-2": item() });
+    await expectCode(call(clients.requester, "requestItem", { itemId: "item-2" }), "permission-denied");
+
+    await call(clients.owner, "unblockUser", { userId: clients.requester.uid });
+    await call(clients.requester, "requestItem", { itemId: "item-2" });
+  });
+
+  test("hidden items cannot be requested", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item({ hidden: true }) });
+
+    await expectCode(call(clients.requester, "requestItem", { itemId: ITEM_ID }), "failed-precondition");
+  });
+
+  test("only moderators resolve reports", async () => {
+    await seed({
+      [`reports/user_${clients.owner.uid}_${clients.requester.uid}`]: {
+        targetType: "user",
+        targetId: clients.owner.uid,
+        targetUserId: clients.owner.uid,
+        itemId: null,
+        status: "open",
+      },
+    });
+
+    await expectCode(
+      call(clients.stranger, "resolveReport", {
+        reportId: `user_${clients.owner.uid}_${clients.requester.uid}`,
+        action: "suspend_user",
+      }),
+      "permission-denied",
+    );
+  });
+});
+
+describe("admin console", () => {
+  test("non-admins cannot change roles or look up users", async () => {
+    await expectCode(
+      call(clients.stranger, "setUserRole", { userId: clients.stranger.uid, role: "admin", granted: true }),
+      "permission-denied",
+    );
+    await expectCode(call(clients.owner, "lookupUser", { query: clients.requester.uid }), "permission-denied");
+  });
+
+  test("non-admins cannot edit or remove other users' listings", async () => {
+    await seed({ [`items/${ITEM_ID}`]: item() });
+
+    await expectCode(
+      call(clients.stranger, "adminUpdateItem", { itemId: ITEM_ID, category: "Books" }),
+      "permission-denied",
+    );
+    await expectCode(call(clients.owner, "adminDeleteItem", { itemId: ITEM_ID }), "permission-denied");
+
+    expect(await read(`items/${ITEM_ID}`)).toMatchObject({ category: "Furniture" });
+  });
+});
+
+describe("deleteAccount", () => {
+  test("removes the user's data, cancels their requests and keeps others' notifications anonymous", async () => {
+    // A fresh user, so the shared test users keep their accounts
+    const leaver = await signUp("leaver");
+    const theirItem = "item-2";
+    const theirRequest = `${ITEM_ID}_${leaver.uid}`;
+    const requestOnTheirItem = `${theirItem}_${clients.requester.uid}`;
+
+    await seed({
+      [`users/${leaver.uid}`]: { name: "Leaver" },
+      [`users/${leaver.uid}/private/settings`]: { email: "leaver@test.dev" },
+      [`items/${ITEM_ID}`]: item({ status: "requested" }),
+      [`requests/${theirRequest}`]: request({ requesterId: leaver.uid }),
+      [`items/${theirItem}`]: item({ ownerId: leaver.uid, status: "requested" }),
+      [`requests/${requestOnTheirItem}`]: request({ itemId: theirItem, itemOwnerId: leaver.uid }),
+      [`notifications/to-leaver`]: { toUserId: leaver.uid, type: "request_received", read: false },
+      [`conversations/${requestOnTheirItem}`]: { participants: [leaver.uid, clients.requester.uid] },
+    });
+
+    try {
+      await call(leaver, "deleteAccount", {});
+
+      for (const path of [
+        `users/${leaver.uid}`,
+        `users/${leaver.uid}/private/settings`,
+        `items/${theirItem}`,
+        `requests/${theirRequest}`,
+        `requests/${requestOnTheirItem}`,
+        `notifications/to-leaver`,
+        `conversations/${requestOnTheirItem}`,
+      ]) {
+        expect(await read(path)).toBeUndefined();
+      }
+
+      // Their pending request was cancelled first: the queue is empty again
+      expect((await read(`items/${ITEM_ID}`)).status).toBe("available");
+
+      let owner: any[] = [];
+      await testEnv.withSecurityRulesDisabled(async (ctx) => {
+        const snap = await ctx.firestore().collection("notifications").where("toUserId", "==", clients.owner.uid).get();
+        owner = snap.docs.map((d) => d.data());
+      });
+      expect(owner.map((n) => n.type)).toEqual(["request_cancelled"]);
+      expect(owner[0].fromUserId).toBeUndefined();
+    } finally {
+      await deleteApp(leaver.app);
+    }
+  });
+});
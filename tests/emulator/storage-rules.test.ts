@@ -0,0 +1,143 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+// Runs against the Storage emulator (npm run test:emulator)
+let testEnv: RulesTestEnvironment;
+
+const OWNER = "owner-uid";
+const STRANGER = "stranger-uid";
+
+// Item photo and thumbnail paths written by add-item.tsx / the thumbnail function
+const PHOTO = `items/${OWNER}/1760000000000_abc123.jpg`;
+const THUMB = `items/${OWNER}/thumbs/1760000000000_abc123_small.jpg`;
+
+// Avatar path written by profile.tsx
+const AVATAR = `avatars/${OWNER}.jpg`;
+
+// Same cap as MAX_UPLOAD_BYTES in lib/upload-policy.ts
+const MAX_BYTES = 5 * 1024 * 1024;
+
+const bytes = (size = 1024) => new Uint8Array(size);
+
+// Storage instance for a signed-in user / a signed-out visitor
+const storageAs = (uid: string) => testEnv.authenticatedContext(uid).storage();
+const storageAnon = () => testEnv.unauthenticatedContext().storage();
+
+// Uploads like lib/upload.ts (compressed JPEG) unless told otherwise
+const upload = (
+  storage: ReturnType<typeof storageAnon>,
+  path: string,
+  data = bytes(),
+  contentType = "image/jpeg",
+) => storage.ref(path).put(data, { contentType }).then();
+
+// Writes files directly, skipping the rules (test setup only)
+const seed = async (...paths: string[]) => {
+  await testEnv.withSecurityRulesDisabled(async (ctx) => {
+    for (const path of paths) {
+      await upload(ctx.storage(), path);
+    }
+  });
+};
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-jodonate",
+    storage: {
+      rules: readFileSync(resolve(__dirname, "../../storage.rules"), "utf8"),
+    },
+  });
+});
+
+afterEach(async () => {
+  await testEnv.clearStorage();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe("item photos", () => {
+  test("owners can upload photos to their own folder", async () => {
+    await assertSucceeds(upload(storageAs(OWNER), PHOTO));
+  });
+
+  test("nobody else can upload, replace or delete them", async () => {
+    await assertFails(upload(storageAs(STRANGER), PHOTO));
+    await assertFails(upload(storageAnon(), PHOTO));
+
+    await seed(PHOTO);
+    await assertFails(upload(storageAs(STRANGER), PHOTO));
+    await assertFails(storageAs(STRANGER).ref(PHOTO).delete());
+    await assertSucceeds(storageAs(OWNER).ref(PHOTO).delete());
+  });
+
+  test("only images under the size cap are accepted", async () => {
+    await assertFails(upload(storageAs(OWNER), PHOTO, bytes(), "application/pdf"));
+    await assertFails(upload(storageAs(OWNER), PHOTO, bytes(), "text/html"));
+    await assertFails(upload(storageAs(OWNER), PHOTO, bytes(MAX_BYTES + 1)));
+    await assertFails(upload(storageAs(OWNER), PHOTO, bytes(0)));
+    await assertSucceeds(upload(storageAs(OWNER), PHOTO, bytes(), "image/png"));
+  });
+
+  test("photos must be .jpg files right in the owner's folder", async () => {
+    await assertFails(upload(storageAs(OWNER), `items/${OWNER}/photo.exe`));
+    await assertFails(upload(storageAs(OWNER), `items/${OWNER}/nested/photo.jpg`));
+  });
+
+  test("anyone can view item photos and thumbnails", async () => {
+    await seed(PHOTO, THUMB);
+
+    await assertSucceeds(storageAnon().ref(PHOTO).getMetadata());
+    await assertSucceeds(storageAs(STRANGER).ref(THUMB).getDownloadURL());
+  });
+
+  test("thumbnails are written by the server only", async () => {
+    await assertFails(upload(storageAs(OWNER), THUMB));
+
+    await seed(THUMB);
+    await assertFails(storageAs(OWNER).ref(THUMB).delete());
+  });
+});
+
+describe("avatars", () => {
+  test("users can upload, replace and delete their own avatar", async () => {
+    await assertSucceeds(upload(storageAs(OWNER), AVATAR));
+    await assertSucceeds(upload(storageAs(OWNER), AVATAR));
+    await assertSucceeds(storageAs(OWNER).ref(AVATAR).getDownloadURL());
+    await assertSucceeds(storageAs(OWNER).ref(AVATAR).delete());
+  });
+
+  test("nobody else can write someone's avatar", async () => {
+    await assertFails(upload(storageAs(STRANGER), AVATAR));
+    await assertFails(upload(storageAnon(), AVATAR));
+
+    await seed(AVATAR);
+    await assertFails(storageAs(STRANGER).ref(AVATAR).delete());
+  });
+
+  test("avatars must be images under the size cap", async () => {
+    await assertFails(upload(storageAs(OWNER), AVATAR, bytes(), "video/mp4"));
+    await assertFails(upload(storageAs(OWNER), AVATAR, bytes(MAX_BYTES + 1)));
+  });
+
+  test("signed-in users can view avatars, visitors cannot", async () => {
+    await seed(AVATAR);
+
+    await assertSucceeds(storageAs(STRANGER).ref(AVATAR).getMetadata());
+    await assertFails(storageAnon().ref(AVATAR).getMetadata());
+  });
+});
+
+describe("other paths", () => {
+  test("are closed", async () => {
+    await assertFails(upload(storageAs(OWNER), `uploads/${OWNER}/file.jpg`));
+    await assertFails(storageAs(OWNER).ref(`uploads/${OWNER}/file.jpg`).getMetadata());
+  });
+});
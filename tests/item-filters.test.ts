@@ -0,0 +1,158 @@
+import indexes from "../firestore.indexes.json";
+import {
+  DATE_PRESETS,
+  DEFAULT_FILTERS,
+  ItemFilters,
+  SORT_KEYS,
+  activeFilterCount,
+  createdAfter,
+  filterQueryPlan,
+  filtersStorageKey,
+  hasImageField,
+  parseFilters,
+  statusQueryValues,
+  toggleStatus,
+} from "../lib/item-filters";
+
+// Server copy of hasImageField (functions/keywords.js)
+const server = require("../functions/keywords");
+
+describe("saved filters", () => {
+  test("missing or broken data gives the defaults", () => {
+    expect(parseFilters(null)).toEqual(DEFAULT_FILTERS);
+    expect(parseFilters("not json")).toEqual(DEFAULT_FILTERS);
+    expect(parseFilters("42")).toEqual(DEFAULT_FILTERS);
+  });
+
+  test("valid filters round-trip", () => {
+    const saved: ItemFilters = {
+      statuses: ["available", "donated"],
+      hasImage: true,
+      datePreset: "30d",
+      ownerId: "u1",
+      maxDistanceKm: 25,
+      sort: "oldest",
+    };
+
+    expect(parseFilters(JSON.stringify(saved))).toEqual(saved);
+  });
+
+  test("filters saved before the distance filter have no distance limit", () => {
+    const old = { statuses: ["available"], hasImage: false, datePreset: "any", ownerId: null, sort: "newest" };
+
+    expect(parseFilters(JSON.stringify(old)).maxDistanceKm).toBeNull();
+  });
+
+  test("unknown values fall back field by field", () => {
+    const parsed = parseFilters(
+      JSON.stringify({
+        statuses: ["sold"],
+        hasImage: "yes",
+        datePreset: "1y",
+        ownerId: "",
+        maxDistanceKm: 7,
+        sort: "random",
+      }),
+    );
+
+    expect(parsed).toEqual(DEFAULT_FILTERS);
+  });
+
+  test("each category has its own key", () => {
+    expect(filtersStorageKey("Books")).not.toEqual(filtersStorageKey("Plants"));
+  });
+});
+
+describe("status filter", () => {
+  test("donated and accepted are hidden by default", () => {
+    expect(statusQueryValues(DEFAULT_FILTERS)).toEqual(["available", "requested"]);
+  });
+
+  test("toggling keeps lifecycle order and at least one status", () => {
+    const withDonated = toggleStatus(DEFAULT_FILTERS, "donated");
+    expect(withDonated.statuses).toEqual(["available", "requested", "donated"]);
+
+    const onlyAvailable = toggleStatus(DEFAULT_FILTERS, "requested");
+    expect(toggleStatus(onlyAvailable, "available")).toBe(onlyAvailable);
+  });
+
+  test("all statuses selected means no status filter", () => {
+    const all = { ...DEFAULT_FILTERS, statuses: ["available", "requested", "accepted", "donated"] } as ItemFilters;
+    expect(statusQueryValues(all)).toBeNull();
+  });
+});
+
+describe("date filter", () => {
+  const now = new Date("2025-03-31T12:00:00Z");
+
+  test("presets count back from now", () => {
+    expect(createdAfter("any", now)).toBeNull();
+    expect(createdAfter("7d", now)?.toISOString()).toBe("2025-03-24T12:00:00.000Z");
+  });
+});
+
+test("active filter count ignores defaults", () => {
+  expect(activeFilterCount(DEFAULT_FILTERS)).toBe(0);
+  expect(activeFilterCount({ ...DEFAULT_FILTERS, hasImage: true, sort: "oldest" })).toBe(2);
+  expect(activeFilterCount({ ...DEFAULT_FILTERS, maxDistanceKm: 10, sort: "nearest" })).toBe(2);
+});
+
+test("the category query never reads hidden items", () => {
+  const plan = filterQueryPlan("Books", { ...DEFAULT_FILTERS, ownerId: "u1", hasImage: true });
+  expect(plan.clauses).toContainEqual({ field: "hidden", op: "==", value: false });
+});
+
+test("hasImage matches the Cloud Function copy", () => {
+  for (const url of [undefined, null, "", "  ", "https://x/y.jpg"]) {
+    expect(server.hasImageField(url)).toBe(hasImageField(url));
+  }
+});
+
+describe("firestore.indexes.json", () => {
+  // Field list an index needs for a query plan: equality fields, then createdAt + __name__
+  const needed = (filters: ItemFilters) => {
+    const plan = filterQueryPlan("Books", filters);
+    const direction = plan.order === "asc" ? "ASCENDING" : "DESCENDING";
+
+    return [
+      ...plan.clauses
+        .filter((c) => c.field !== "createdAt")
+        .map((c) => ({ fieldPath: c.field, order: "ASCENDING" })),
+      { fieldPath: "createdAt", order: direction },
+      { fieldPath: "__name__", order: direction },
+    ];
+  };
+
+  const itemIndexes = indexes.indexes
+    .filter((ix) => ix.collectionGroup === "items")
+    .map((ix) => JSON.stringify(ix.fields));
+
+  const statusChoices: ItemFilters["statuses"][] = [
+    ["available", "requested"],
+    ["available", "requested", "accepted", "donated"],
+  ];
+
+  for (const statuses of statusChoices) {
+    for (const hasImage of [false, true]) {
+      for (const ownerId of [null, "u1"]) {
+        for (const datePreset of DATE_PRESETS) {
+          for (const sort of SORT_KEYS) {
+            const filters: ItemFilters = {
+              statuses,
+              hasImage,
+              ownerId,
+              datePreset,
+              maxDistanceKm: null,
+              sort,
+            };
+            const label = `${statuses.length} statuses, image=${hasImage}, owner=${!!ownerId}, ${datePreset}, ${sort}`;
+
+            test(`index exists: ${label}`, () => {
+              expect(itemIndexes).toContain(JSON.stringify(needed(filters)));
+            });
+          }
+        }
+      }
+    }
+  }
+});
@@ -0,0 +1,124 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+
+import {
+  MAX_ITEM_IMAGES,
+  coverImage,
+  dropIndex,
+  imageFields,
+  itemImages,
+  makeCover,
+  moveImage,
+  remainingImageSlots,
+  removeImageAt,
+  removedImages,
+} from "../lib/item-images";
+
+const urls = (n: number) => Array.from({ length: n }, (_, i) => `https://img/${i}.jpg`);
+
+describe("itemImages", () => {
+  it("reads a gallery in order", () => {
+    expect(itemImages({ images: ["a", "b", "c"], imageUrl: "a" })).toEqual(["a", "b", "c"]);
+  });
+
+  it("reads an old single-image item as a one-photo gallery", () => {
+    expect(itemImages({ imageUrl: "a" })).toEqual(["a"]);
+    expect(itemImages({ images: [], imageUrl: "a" })).toEqual(["a"]);
+  });
+
+  it("returns no photos for an item without images", () => {
+    expect(itemImages({})).toEqual([]);
+    expect(itemImages({ imageUrl: "" })).toEqual([]);
+    expect(itemImages(null)).toEqual([]);
+  });
+
+  it("drops duplicates and invalid entries and caps the gallery", () => {
+    expect(itemImages({ images: ["a", "", 3, "a", "b"] })).toEqual(["a", "b"]);
+    expect(itemImages({ images: urls(12) })).toHaveLength(MAX_ITEM_IMAGES);
+  });
+
+  it("uses the first photo as the cover", () => {
+    expect(coverImage({ images: ["b", "a"], imageUrl: "a" })).toBe("b");
+    expect(coverImage({})).toBe("");
+  });
+});
+
+describe("imageFields", () => {
+  it("mirrors the cover into imageUrl", () => {
+    expect(imageFields(["a", "b"])).toEqual({ images: ["a", "b"], imageUrl: "a" });
+  });
+
+  it("writes an empty cover for an empty gallery", () => {
+    expect(imageFields([])).toEqual({ images: [], imageUrl: "" });
+  });
+
+  it("caps the gallery", () => {
+    expect(imageFields(urls(10)).images).toHaveLength(MAX_ITEM_IMAGES);
+  });
+});
+
+describe("remainingImageSlots", () => {
+  it("counts the free slots and never goes below zero", () => {
+    expect(remainingImageSlots([])).toBe(MAX_ITEM_IMAGES);
+    expect(remainingImageSlots(urls(3))).toBe(MAX_ITEM_IMAGES - 3);
+    expect(remainingImageSlots(urls(10))).toBe(0);
+  });
+});
+
+describe("moveImage / makeCover", () => {
+  it("moves a photo forward and backward", () => {
+    expect(moveImage(["a", "b", "c", "d"], 0, 2)).toEqual(["b", "c", "a", "d"]);
+    expect(moveImage(["a", "b", "c", "d"], 3, 1)).toEqual(["a", "d", "b", "c"]);
+  });
+
+  it("clamps the target and ignores an invalid source", () => {
+    expect(moveImage(["a", "b", "c"], 0, 10)).toEqual(["b", "c", "a"]);
+    expect(moveImage(["a", "b", "c"], 2, -4)).toEqual(["c", "a", "b"]);
+    expect(moveImage(["a", "b"], 5, 0)).toEqual(["a", "b"]);
+  });
+
+  it("moves the chosen photo to the front", () => {
+    expect(makeCover(["a", "b", "c"], 2)).toEqual(["c", "a", "b"]);
+    expect(makeCover(["a", "b", "c"], 0)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("removeImageAt / removedImages", () => {
+  it("removes one photo by position", () => {
+    expect(removeImageAt(["a", "b", "c"], 1)).toEqual(["a", "c"]);
+    expect(removeImageAt(["a"], 3)).toEqual(["a"]);
+  });
+
+  it("lists photos that were dropped, ignoring reordering and additions", () => {
+    expect(removedImages(["a", "b", "c"], ["c", "a", "d"])).toEqual(["b"]);
+    expect(removedImages(["a"], ["a"])).toEqual([]);
+  });
+});
+
+describe("dropIndex", () => {
+  const SLOT = 82;
+
+  it("stays in place for a small move", () => {
+    expect(dropIndex(1, 20, 10, SLOT, 4, 6)).toBe(1);
+  });
+
+  it("moves along a row and across rows", () => {
+    expect(dropIndex(0, SLOT * 2, 0, SLOT, 4, 8)).toBe(2);
+    expect(dropIndex(1, 0, SLOT, SLOT, 4, 8)).toBe(5);
+    expect(dropIndex(6, -SLOT * 2, -SLOT, SLOT, 4, 8)).toBe(0);
+  });
+
+  it("clamps to the grid and to the last photo", () => {
+    expect(dropIndex(0, SLOT * 9, 0, SLOT, 4, 8)).toBe(3);
+    expect(dropIndex(0, -SLOT * 3, -SLOT * 2, SLOT, 4, 8)).toBe(0);
+    expect(dropIndex(0, 0, SLOT * 3, SLOT, 4, 5)).toBe(4);
+  });
+});
+
+describe("rules parity", () => {
+  test("firestore.rules caps a gallery at MAX_ITEM_IMAGES", () => {
+    const rules = readFileSync(resolve(__dirname, "../firestore.rules"), "utf8");
+    const cap = rules.match(/function isValidItemImages[\s\S]*?size\(\) <= (\d+)/)?.[1];
+    expect(Number(cap)).toBe(MAX_ITEM_IMAGES);
+  });
+});
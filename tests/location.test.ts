@@ -0,0 +1,170 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  GOVERNORATES,
+  GOVERNORATE_IDS,
+  decodeGeohash,
+  distanceKm,
+  encodeGeohash,
+  formatDistance,
+  governorateCenter,
+  governorateLabel,
+  isDistanceOption,
+  isGovernorateId,
+  isValidGeohash,
+  isValidPoint,
+  itemDistanceKm,
+  itemLocationFields,
+  itemPoint,
+  nearestGovernorate,
+  sortByDistance,
+  withinDistance,
+} from "../lib/location";
+
+const amman = { lat: 31.9539, lng: 35.9106 };
+const irbid = { lat: 32.5514, lng: 35.8515 };
+const aqaba = { lat: 29.5321, lng: 35.0063 };
+
+describe("governorates", () => {
+  test("all 12 governorates have a unique id and a center inside Jordan", () => {
+    expect(GOVERNORATES).toHaveLength(12);
+    expect(new Set(GOVERNORATE_IDS).size).toBe(12);
+
+    for (const g of GOVERNORATES) {
+      expect(g.center.lat).toBeGreaterThan(29);
+      expect(g.center.lat).toBeLessThan(33.5);
+      expect(g.center.lng).toBeGreaterThan(34.9);
+      expect(g.center.lng).toBeLessThan(39.5);
+    }
+  });
+
+  test("ids are validated and labelled", () => {
+    expect(isGovernorateId("irbid")).toBe(true);
+    expect(isGovernorateId("Irbid")).toBe(false);
+    expect(isGovernorateId(undefined)).toBe(false);
+    expect(governorateLabel("maan")).toBe("Ma'an");
+    expect(governorateLabel("nowhere")).toBe("");
+    expect(governorateCenter(null)).toBeNull();
+  });
+
+  test("firestore.rules accepts exactly these governorates", () => {
+    const rules = readFileSync(resolve(__dirname, "../firestore.rules"), "utf8");
+    const body = rules.match(/function isValidGovernorate[\s\S]*?\[([\s\S]*?)\]/)?.[1] ?? "";
+    const ids = Array.from(body.matchAll(/"([a-z]+)"/g), (m) => m[1]);
+
+    expect(ids).toEqual(GOVERNORATE_IDS);
+  });
+
+  test("nearestGovernorate picks the closest center", () => {
+    expect(nearestGovernorate({ lat: 32.54, lng: 35.86 })).toBe("irbid");
+    expect(nearestGovernorate({ lat: 29.55, lng: 35.0 })).toBe("aqaba");
+    expect(nearestGovernorate(amman)).toBe("amman");
+  });
+});
+
+describe("geohash", () => {
+  test("encodes known points", () => {
+    // Reference values from the public geohash algorithm
+    expect(encodeGeohash({ lat: 57.64911, lng: 10.40744 }, 11)).toBe("u4pruydqqvj");
+    expect(encodeGeohash({ lat: 0, lng: 0 }, 5)).toBe("s0000");
+  });
+
+  test("uses 6 characters by default", () => {
+    expect(encodeGeohash(amman)).toHaveLength(6);
+  });
+
+  test("decodes to within the cell size of the original point", () => {
+    for (const point of [amman, irbid, aqaba, { lat: -33.86, lng: 151.21 }]) {
+      const decoded = decodeGeohash(encodeGeohash(point));
+      expect(decoded).not.toBeNull();
+      expect(distanceKm(point, decoded!)).toBeLessThan(1);
+    }
+  });
+
+  test("rejects invalid hashes", () => {
+    expect(isValidGeohash("sv9hc4")).toBe(true);
+    expect(isValidGeohash("")).toBe(false);
+    expect(isValidGeohash("abc")).toBe(false); // "a" is not in the alphabet
+    expect(isValidGeohash("SV9HC4")).toBe(false);
+    expect(isValidGeohash("0123456789bcd")).toBe(false); // longer than 12
+    expect(isValidGeohash(42)).toBe(false);
+    expect(decodeGeohash("ail")).toBeNull();
+  });
+});
+
+describe("distances", () => {
+  test("haversine distance between cities", () => {
+    expect(distanceKm(amman, amman)).toBe(0);
+    expect(distanceKm(amman, irbid)).toBeGreaterThan(60);
+    expect(distanceKm(amman, irbid)).toBeLessThan(72);
+    expect(distanceKm(amman, aqaba)).toBeGreaterThan(260);
+    expect(distanceKm(amman, aqaba)).toBeLessThan(290);
+    expect(distanceKm(irbid, amman)).toBeCloseTo(distanceKm(amman, irbid), 9);
+  });
+
+  test("formatDistance rounds to whole km", () => {
+    expect(formatDistance(0.4)).toBe("< 1 km");
+    expect(formatDistance(12.6)).toBe("13 km");
+  });
+
+  test("isValidPoint", () => {
+    expect(isValidPoint(amman)).toBe(true);
+    expect(isValidPoint({ lat: 91, lng: 0 })).toBe(false);
+    expect(isValidPoint({ lat: NaN, lng: 0 })).toBe(false);
+    expect(isValidPoint(null)).toBe(false);
+  });
+
+  test("distance choices", () => {
+    expect(isDistanceOption(25)).toBe(true);
+    expect(isDistanceOption(7)).toBe(false);
+    expect(isDistanceOption("25")).toBe(false);
+  });
+});
+
+describe("item locations", () => {
+  test("itemLocationFields stores a geohash only for a valid point", () => {
+    expect(itemLocationFields("irbid")).toEqual({ governorate: "irbid", geohash: null });
+    expect(itemLocationFields("irbid", { lat: 200, lng: 0 })).toEqual({ governorate: "irbid", geohash: null });
+    expect(itemLocationFields("irbid", irbid).geohash).toBe(encodeGeohash(irbid));
+  });
+
+  test("itemPoint prefers the geohash, then the governorate center", () => {
+    const geohash = encodeGeohash(aqaba);
+
+    expect(distanceKm(itemPoint({ governorate: "amman", geohash })!, aqaba)).toBeLessThan(1);
+    expect(itemPoint({ governorate: "amman", geohash: null })).toEqual(amman);
+    expect(itemPoint({ governorate: "amman", geohash: "bad!" })).toEqual(amman);
+    expect(itemPoint({})).toBeNull();
+    expect(itemDistanceKm({}, amman)).toBeNull();
+  });
+
+  const items = [
+    { id: "none" },
+    { id: "aqaba", governorate: "aqaba" },
+    { id: "irbid", governorate: "irbid" },
+    { id: "amman-pin", governorate: "amman", geohash: encodeGeohash({ lat: 31.96, lng: 35.91 }) },
+    { id: "none-2", governorate: null },
+  ];
+
+  test("withinDistance keeps located items inside the radius", () => {
+    expect(withinDistance(items, amman, 10).map((i) => i.id)).toEqual(["amman-pin"]);
+    expect(withinDistance(items, amman, 100).map((i) => i.id)).toEqual(["irbid", "amman-pin"]);
+  });
+
+  test("sortByDistance puts the closest first and unknown locations last in their order", () => {
+    expect(sortByDistance(items, amman).map((i) => i.id)).toEqual([
+      "amman-pin",
+      "irbid",
+      "aqaba",
+      "none",
+      "none-2",
+    ]);
+    expect(sortByDistance(items, aqaba)[0].id).toBe("aqaba");
+  });
+
+  test("sortByDistance does not change the input", () => {
+    const copy = [...items];
+    sortByDistance(items, aqaba);
+    expect(items).toEqual(copy);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  MAX_BADGE_COUNT,
+  badgeLabel,
+  dayKey,
+  dayTitle,
+  groupNotifications,
+} from "../lib/notification-center";
+
+// Local times, so the tests do not depend on the machine's time zone
+const local = (month: number, day: number, hour = 12, year = 2026) =>
+  new Date(year, month - 1, day, hour).getTime();
+
+const NOW = local(10, 19, 15);
+
+const ts = (ms: number) => ({ toMillis: () => ms });
+
+const notif = (id: string, itemId: string, ms: number | null, read = false) => ({
+  id,
+  itemId,
+  read,
+  createdAt: ms === null ? null : ts(ms),
+});
+
+describe("day titles", () => {
+  test("today and yesterday by name", () => {
+    expect(dayTitle(dayKey(local(10, 19, 0)), NOW)).toBe("Today");
+    expect(dayTitle(dayKey(local(10, 18, 23)), NOW)).toBe("Yesterday");
+  });
+
+  test("older days as dates, with the year when it is not this year", () => {
+    expect(dayTitle(dayKey(local(10, 2)), NOW)).toBe("2 Oct");
+    expect(dayTitle(dayKey(local(12, 31, 12, 2025)), NOW)).toBe("31 Dec 2025");
+  });
+
+  test("yesterday across a month boundary", () => {
+    expect(dayTitle(dayKey(local(9, 30)), local(10, 1, 9))).toBe("Yesterday");
+  });
+});
+
+describe("groupNotifications", () => {
+  test("sections by day, groups by item, order kept", () => {
+    const list = [
+      notif("n1", "desk", local(10, 19, 14)),
+      notif("n2", "lamp", local(10, 19, 13), true),
+      notif("n3", "desk", local(10, 19, 9), true),
+      notif("n4", "desk", local(10, 18, 20)),
+    ];
+
+    const sections = groupNotifications(list, NOW);
+
+    expect(sections.map((s) => s.title)).toEqual(["Today", "Yesterday"]);
+    expect(sections[0].data.map((g) => [g.itemId, g.notifications.map((n) => n.id), g.unread])).toEqual([
+      ["desk", ["n1", "n3"], 1],
+      ["lamp", ["n2"], 0],
+    ]);
+    expect(sections[1].data.map((g) => g.notifications.map((n) => n.id))).toEqual([["n4"]]);
+  });
+
+  test("the same item on two days makes two groups", () => {
+    const sections = groupNotifications(
+      [notif("a", "desk", local(10, 19)), notif("b", "desk", local(10, 17))],
+      NOW,
+    );
+    expect(sections.map((s) => s.data.length)).toEqual([1, 1]);
+    expect(new Set(sections.map((s) => s.data[0].key)).size).toBe(2);
+  });
+
+  test("a pending server timestamp counts as now", () => {
+    const [today] = groupNotifications([notif("new", "desk", null)], NOW);
+    expect(today.title).toBe("Today");
+  });
+
+  test("notifications without an item are not grouped together", () => {
+    const [today] = groupNotifications([notif("a", "", local(10, 19)), notif("b", "", local(10, 19))], NOW);
+    expect(today.data.map((g) => g.notifications.length)).toEqual([1, 1]);
+  });
+
+  test("an empty list has no sections", () => {
+    expect(groupNotifications([], NOW)).toEqual([]);
+  });
+});
+
+describe("badgeLabel", () => {
+  test("hidden at zero, capped above the maximum", () => {
+    expect(badgeLabel(0)).toBe("");
+    expect(badgeLabel(3)).toBe("3");
+    expect(badgeLabel(MAX_BADGE_COUNT)).toBe(String(MAX_BADGE_COUNT));
+    expect(badgeLabel(MAX_BADGE_COUNT + 1)).toBe(`${MAX_BADGE_COUNT}+`);
+  });
+});
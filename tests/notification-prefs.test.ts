@@ -0,0 +1,209 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+
+import {
+  DEFAULT_CHANNELS,
+  DEFAULT_NOTIFICATION_PREFS,
+  DEFAULT_QUIET_HOURS,
+  NOTIFICATION_TYPES,
+  channelsFor,
+  formatMinutes,
+  isQuietTime,
+  normalizeNotificationPrefs,
+  shiftMinutes,
+  withChannel,
+} from "../lib/notification-prefs";
+
+// Server delivery rules (functions/notification-prefs.js)
+const server = require("../functions/notification-prefs");
+
+const at = (h: number, m = 0) => h * 60 + m;
+const quiet = (start: number, end: number) => ({ enabled: true, start, end });
+
+describe("normalizeNotificationPrefs", () => {
+  test("nothing saved means the defaults", () => {
+    expect(normalizeNotificationPrefs(undefined)).toEqual(DEFAULT_NOTIFICATION_PREFS);
+    expect(normalizeNotificationPrefs("junk")).toEqual(DEFAULT_NOTIFICATION_PREFS);
+  });
+
+  test("fills missing channels and drops broken values", () => {
+    const prefs = normalizeNotificationPrefs({
+      types: { request_received: { push: false }, request_approved: "yes" },
+      quietHours: { enabled: true, start: 9999, end: at(6) },
+      digest: "sometimes",
+    });
+
+    expect(prefs.types).toEqual({ request_received: { inApp: true, push: false, email: false } });
+    expect(prefs.quietHours).toEqual({ enabled: true, start: DEFAULT_QUIET_HOURS.start, end: at(6) });
+    expect(prefs.digest).toBe(false);
+  });
+
+  test("the server reads preferences the same way", () => {
+    const samples = [
+      undefined,
+      {},
+      { types: { request_received: { email: true } }, digest: true },
+      { types: { x: null, y: { inApp: false } }, quietHours: { enabled: true, start: at(23), end: 1.5 } },
+    ];
+
+    for (const raw of samples) {
+      expect(server.normalizeNotificationPrefs(raw)).toEqual(normalizeNotificationPrefs(raw));
+    }
+    expect(server.DEFAULT_CHANNELS).toEqual(DEFAULT_CHANNELS);
+    expect(server.DEFAULT_QUIET_HOURS).toEqual(DEFAULT_QUIET_HOURS);
+  });
+});
+
+describe("channels", () => {
+  test("types without a choice (including new ones) use the defaults", () => {
+    expect(channelsFor(DEFAULT_NOTIFICATION_PREFS, "request_received")).toEqual(DEFAULT_CHANNELS);
+    expect(channelsFor(DEFAULT_NOTIFICATION_PREFS, "some_future_type")).toEqual(DEFAULT_CHANNELS);
+  });
+
+  test("withChannel changes one channel of one type", () => {
+    const prefs = withChannel(DEFAULT_NOTIFICATION_PREFS, "request_approved", "email", true);
+
+    expect(channelsFor(prefs, "request_approved")).toEqual({ inApp: true, push: true, email: true });
+    expect(channelsFor(prefs, "request_rejected")).toEqual(DEFAULT_CHANNELS);
+    expect(DEFAULT_NOTIFICATION_PREFS.types).toEqual({});
+  });
+
+  test("Settings lists every type the request workflow sends", () => {
+    const source = readFileSync(resolve(__dirname, "../functions/requests.js"), "utf8");
+    const sent = new Set(Array.from(source.matchAll(/type: "(\w+)"/g), (m) => m[1]));
+
+    expect(new Set(NOTIFICATION_TYPES.map((t) => t.type))).toEqual(sent);
+  });
+});
+
+describe("quiet hours", () => {
+  test("a daytime range", () => {
+    const q = quiet(at(13), at(15));
+    expect(isQuietTime(at(13), q)).toBe(true);
+    expect(isQuietTime(at(14, 59), q)).toBe(true);
+    expect(isQuietTime(at(15), q)).toBe(false);
+    expect(isQuietTime(at(12, 59), q)).toBe(false);
+  });
+
+  test("an overnight range", () => {
+    const q = quiet(at(22), at(7));
+    expect(isQuietTime(at(23), q)).toBe(true);
+    expect(isQuietTime(at(0), q)).toBe(true);
+    expect(isQuietTime(at(6, 59), q)).toBe(true);
+    expect(isQuietTime(at(7), q)).toBe(false);
+    expect(isQuietTime(at(12), q)).toBe(false);
+  });
+
+  test("off, or an empty range, is never quiet", () => {
+    expect(isQuietTime(at(23), { ...quiet(at(22), at(7)), enabled: false })).toBe(false);
+    expect(isQuietTime(at(22), quiet(at(22), at(22)))).toBe(false);
+  });
+
+  test("the server agrees at every half hour", () => {
+    for (const q of [quiet(at(22), at(7)), quiet(at(1), at(5, 30)), quiet(0, 0)]) {
+      for (let minute = 0; minute < 24 * 60; minute += 30) {
+        expect(server.isQuietTime(minute, q)).toBe(isQuietTime(minute, q));
+      }
+    }
+  });
+
+  test("times wrap around midnight and are shown as HH:MM", () => {
+    expect(shiftMinutes(at(23, 30), 30)).toBe(0);
+    expect(shiftMinutes(0, -30)).toBe(at(23, 30));
+    expect(formatMinutes(at(7))).toBe("07:00");
+    expect(formatMinutes(at(22, 30))).toBe("22:30");
+  });
+});
+
+describe("deliveryPlan", () => {
+  const prefs = (raw: unknown) => server.normalizeNotificationPrefs(raw);
+
+  test("by default: in-app and push, no email", () => {
+    expect(server.deliveryPlan(prefs(undefined), "request_received", at(12))).toEqual({
+      inApp: true,
+      push: true,
+      email: false,
+      heldPush: false,
+      digestPush: false,
+      digestEmail: false,
+    });
+  });
+
+  test("follows the channels of the type", () => {
+    const plan = server.deliveryPlan(
+      prefs({ types: { request_approved: { inApp: false, push: false, email: true } } }),
+      "request_approved",
+      at(12),
+    );
+    expect(plan).toMatchObject({ inApp: false, push: false, email: true });
+  });
+
+  test("quiet hours hold back pushes only, until they end", () => {
+    const raw = {
+      types: { request_received: { email: true } },
+      quietHours: quiet(at(22), at(7)),
+    };
+
+    expect(server.deliveryPlan(prefs(raw), "request_received", at(23))).toMatchObject({
+      inApp: true,
+      push: false,
+      email: true,
+      heldPush: true,
+    });
+    expect(server.deliveryPlan(prefs(raw), "request_received", at(9))).toMatchObject({
+      push: true,
+      heldPush: false,
+    });
+  });
+
+  test("types without pushes are not held", () => {
+    const raw = {
+      types: { request_received: { push: false } },
+      quietHours: quiet(at(22), at(7)),
+    };
+
+    expect(server.deliveryPlan(prefs(raw), "request_received", at(23))).toMatchObject({ heldPush: false });
+  });
+
+  test("the digest replaces pushes and emails", () => {
+    const raw = { types: { request_received: { email: true } }, digest: true };
+
+    expect(server.deliveryPlan(prefs(raw), "request_received", at(12))).toEqual({
+      inApp: true,
+      push: false,
+      email: false,
+      heldPush: false,
+      digestPush: true,
+      digestEmail: true,
+    });
+  });
+
+  test("minuteOfDay uses the app's time zone", () => {
+    // 2026-01-15 10:30 UTC = 13:30 in Amman (UTC+3)
+    expect(server.minuteOfDay(new Date(Date.UTC(2026, 0, 15, 10, 30)))).toBe(at(13, 30));
+    expect(server.minuteOfDay(new Date(Date.UTC(2026, 0, 15, 10, 30)), "UTC")).toBe(at(10, 30));
+  });
+
+  test("digest text counts the notifications and lists their titles once", () => {
+    expect(
+      server.digestText([
+        { title: "New request received" },
+        { title: "New request received" },
+        { title: "Request approved" },
+      ]),
+    ).toEqual({ title: "3 new notifications", body: "New request received, Request approved" });
+    expect(server.digestText([{ title: "" }]).title).toBe("1 new notification");
+  });
+
+  test("one held push is sent as it was, several as a summary", () => {
+    const held = { notificationId: "n1", title: "Request approved", body: "Enjoy", type: "request_approved" };
+
+    expect(server.heldPushNotification([held])).toBe(held);
+    expect(server.heldPushNotification([held, { ...held, notificationId: "n2" }])).toEqual({
+      title: "2 new notifications",
+      body: "Request approved",
+      type: "digest",
+      itemId: "",
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  CachedTimestamp,
+  LIST_CACHE_PREFIX,
+  MAX_CACHED_ROWS,
+  listCacheKey,
+  parseCachedRows,
+  serializeRows,
+} from "../lib/list-cache";
+import {
+  EMPTY_OUTBOX,
+  MAX_SEND_ATTEMPTS,
+  OutboxAction,
+  OutboxEntry,
+  actionLabel,
+  conflictMessage,
+  enqueueEntry,
+  isLocalPhoto,
+  isNetworkError,
+  isServerError,
+  parseOutbox,
+  queuedMessage,
+  sendFailure,
+  sendableEntries,
+} from "../lib/outbox";
+
+// Same shape as a Firestore Timestamp (seconds, nanoseconds, toMillis)
+class FakeTimestamp {
+  constructor(
+    readonly seconds: number,
+    readonly nanoseconds: number,
+  ) {}
+
+  toMillis() {
+    return this.seconds * 1000 + this.nanoseconds / 1e6;
+  }
+
+  toJSON() {
+    return { type: "firestore/timestamp/1.0", seconds: this.seconds, nanoseconds: this.nanoseconds };
+  }
+}
+
+const entry = (id: string, action: OutboxAction, over: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  id,
+  userId: "u1",
+  title: "Desk",
+  createdAt: 1000,
+  action,
+  ...over,
+});
+
+describe("list cache", () => {
+  test("keys are prefixed", () => {
+    expect(listCacheKey("myItems:u1")).toBe(`${LIST_CACHE_PREFIX}myItems:u1`);
+  });
+
+  test("timestamps survive a round trip", () => {
+    const raw = serializeRows([{ id: "a", title: "Desk", createdAt: new FakeTimestamp(1700000000, 500000000) }]);
+    const [row] = parseCachedRows<{ id: string; title: string; createdAt: CachedTimestamp }>(raw);
+
+    expect(row.title).toBe("Desk");
+    expect(row.createdAt).toBeInstanceOf(CachedTimestamp);
+    expect(row.createdAt.toMillis()).toBe(1700000000500);
+    expect(row.createdAt.toDate().getTime()).toBe(1700000000500);
+  });
+
+  test("nested timestamps are restored too", () => {
+    const raw = serializeRows([{ id: "a", meta: { at: new FakeTimestamp(10, 0) } }]);
+    const [row] = parseCachedRows<{ id: string; meta: { at: CachedTimestamp } }>(raw);
+    expect(row.meta.at.toMillis()).toBe(10000);
+  });
+
+  test("keeps at most MAX_CACHED_ROWS rows", () => {
+    const rows = Array.from({ length: MAX_CACHED_ROWS + 10 }, (_, i) => ({ id: `r${i}` }));
+    expect(parseCachedRows(serializeRows(rows))).toHaveLength(MAX_CACHED_ROWS);
+  });
+
+  test("unreadable data reads as an empty list", () => {
+    expect(parseCachedRows(null)).toEqual([]);
+    expect(parseCachedRows("not json")).toEqual([]);
+    expect(parseCachedRows('{"id":"a"}')).toEqual([]);
+    expect(parseCachedRows('[{"id":"a"},{"title":"no id"},null]')).toEqual([{ id: "a" }]);
+  });
+});
+
+describe("isNetworkError", () => {
+  test("connection errors are retried later", () => {
+    expect(isNetworkError({ code: "unavailable" })).toBe(true);
+    expect(isNetworkError({ code: "functions/unavailable" })).toBe(true);
+    expect(isNetworkError({ code: "upload/stalled" })).toBe(true);
+    expect(isNetworkError(new TypeError("Network request failed"))).toBe(true);
+  });
+
+  test("server refusals are conflicts", () => {
+    expect(isNetworkError({ code: "functions/failed-precondition" })).toBe(false);
+    expect(isNetworkError({ code: "permission-denied" })).toBe(false);
+    expect(isNetworkError(new Error("This item is no longer available."))).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+
+  test("a crashed function is a server failure, not a lost connection", () => {
+    expect(isNetworkError({ code: "functions/internal" })).toBe(false);
+    expect(isServerError({ code: "functions/internal" })).toBe(true);
+    expect(isServerError({ code: "functions/unavailable" })).toBe(false);
+  });
+});
+
+describe("sendFailure", () => {
+  const crash = { code: "functions/internal" };
+
+  test("lost connections wait for the next sync", () => {
+    expect(sendFailure({ code: "unavailable" }, true, 0)).toBe("wait");
+    expect(sendFailure(crash, false, MAX_SEND_ATTEMPTS)).toBe("wait");
+  });
+
+  test("server failures are retried, then become conflicts", () => {
+    expect(sendFailure(crash, true, 0)).toBe("retry");
+    expect(sendFailure(crash, true, MAX_SEND_ATTEMPTS - 2)).toBe("retry");
+    expect(sendFailure(crash, true, MAX_SEND_ATTEMPTS - 1)).toBe("conflict");
+  });
+
+  test("refusals are conflicts at once", () => {
+    expect(sendFailure({ code: "functions/failed-precondition" }, true, 0)).toBe("conflict");
+    expect(sendFailure(new Error("This item is no longer available."), false, 0)).toBe("conflict");
+  });
+});
+
+describe("isLocalPhoto", () => {
+  test("device files are local, download URLs are not", () => {
+    expect(isLocalPhoto("file:///data/photo.jpg")).toBe(true);
+    expect(isLocalPhoto("content://media/1")).toBe(true);
+    expect(isLocalPhoto("ph://ABC")).toBe(true);
+    expect(isLocalPhoto("https://firebasestorage.googleapis.com/v0/b/x/o/a.jpg")).toBe(false);
+  });
+});
+
+describe("parseOutbox", () => {
+  test("missing or broken data is an empty outbox", () => {
+    expect(parseOutbox(null)).toEqual(EMPTY_OUTBOX);
+    expect(parseOutbox("{")).toEqual(EMPTY_OUTBOX);
+  });
+
+  test("drops entries it does not understand", () => {
+    const good = entry("1", { kind: "requestItem", itemId: "i1" });
+    const raw = JSON.stringify({
+      entries: [good, { id: "2", userId: "u1", createdAt: 1, action: { kind: "launchRocket" } }, null],
+      conflicts: [{ entry: good, message: "m" }, { entry: good }],
+    });
+
+    expect(parseOutbox(raw)).toEqual({ entries: [good], conflicts: [{ entry: good, message: "m" }] });
+  });
+});
+
+describe("enqueueEntry", () => {
+  test("the same action on the same target is queued once", () => {
+    const first = entry("1", { kind: "approveRequest", requestId: "r1" });
+    const again = entry("2", { kind: "approveRequest", requestId: "r1" });
+    expect(enqueueEntry([first], again)).toEqual([first]);
+  });
+
+  test("different actions or targets are kept", () => {
+    const first = entry("1", { kind: "approveRequest", requestId: "r1" });
+    const other = entry("2", { kind: "rejectRequest", requestId: "r1" });
+    const elsewhere = entry("3", { kind: "approveRequest", requestId: "r2" });
+    expect(enqueueEntry(enqueueEntry([first], other), elsewhere)).toEqual([first, other, elsewhere]);
+  });
+});
+
+describe("sendableEntries", () => {
+  test("only the signed-in user's entries, oldest first", () => {
+    const newer = entry("1", { kind: "markDonated", itemId: "i1" }, { createdAt: 3000 });
+    const older = entry("2", { kind: "requestItem", itemId: "i2" }, { createdAt: 1000 });
+    const someoneElse = entry("3", { kind: "requestItem", itemId: "i3" }, { userId: "u2" });
+
+    expect(sendableEntries([newer, older, someoneElse], "u1")).toEqual([older, newer]);
+    expect(sendableEntries([newer], null)).toEqual([]);
+  });
+});
+
+describe("messages", () => {
+  test("labels name the item", () => {
+    expect(actionLabel(entry("1", { kind: "requestItem", itemId: "i1" }))).toBe("Request for “Desk”");
+    expect(actionLabel(entry("1", { kind: "markDonated", itemId: "i1" }, { title: "" }))).toBe(
+      "Marking an item as donated",
+    );
+  });
+
+  test("queued and conflict messages", () => {
+    const action: OutboxAction = { kind: "cancelRequest", requestId: "r1" };
+    expect(queuedMessage(action, "Desk")).toBe(
+      "Cancelling your request for “Desk” will be sent when you are back online.",
+    );
+    expect(conflictMessage(entry("1", action), new Error("Request already handled."))).toBe(
+      "Cancelling your request for “Desk” could not be sent: Request already handled.",
+    );
+    const crash = Object.assign(new Error("internal"), { code: "functions/internal" });
+    expect(conflictMessage(entry("1", action), crash)).toBe(
+      "Cancelling your request for “Desk” could not be sent: the server kept failing. Please try again later.",
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { PAGE_SIZE, hasMoreAfter, mergePages } from "../lib/pagination";
+
+const row = (id: string, extra: Record<string, unknown> = {}) => ({ id, ...extra });
+
+describe("mergePages", () => {
+  it("returns the live page when no older page was loaded", () => {
+    expect(mergePages([row("a"), row("b")], [])).toEqual([row("a"), row("b")]);
+  });
+
+  it("appends older pages in order after the live page", () => {
+    const merged = mergePages([row("a"), row("b")], [[row("c"), row("d")], [row("e")]]);
+    expect(merged.map((r) => r.id)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("keeps the live copy of a document that is also in an older page", () => {
+    const merged = mergePages(
+      [row("new"), row("a", { status: "donated" })],
+      [[row("a", { status: "available" }), row("b")]],
+    );
+    expect(merged).toEqual([row("new"), row("a", { status: "donated" }), row("b")]);
+  });
+
+  it("drops duplicates between older pages", () => {
+    const merged = mergePages([], [[row("a"), row("b")], [row("b"), row("c")]]);
+    expect(merged.map((r) => r.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("handles an empty list", () => {
+    expect(mergePages([], [])).toEqual([]);
+  });
+});
+
+describe("hasMoreAfter", () => {
+  it("expects another page after a full page", () => {
+    expect(hasMoreAfter(PAGE_SIZE)).toBe(true);
+    expect(hasMoreAfter(5, 5)).toBe(true);
+  });
+
+  it("stops after a short or empty page", () => {
+    expect(hasMoreAfter(PAGE_SIZE - 1)).toBe(false);
+    expect(hasMoreAfter(0)).toBe(false);
+    expect(hasMoreAfter(4, 5)).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  MAX_BIO_LENGTH,
+  MAX_NAME_LENGTH,
+  donorLevel,
+  joinedLabel,
+  profileUpdate,
+  ratingLabel,
+  toPublicProfile,
+  validateProfileEdit,
+} from "../lib/profile";
+
+// Server profile of new accounts (functions/profiles.js)
+const serverProfiles = require("../functions/profiles");
+
+describe("toPublicProfile", () => {
+  test("reads the public fields", () => {
+    const createdAt = { toDate: () => new Date(2026, 2, 14) };
+    const profile = toPublicProfile({
+      name: " Sara ",
+      bio: "Books and plants.",
+      city: "irbid",
+      avatarUrl: "https://x/a.jpg",
+      createdAt,
+      ratingCount: 3,
+      ratingAverage: 4.67,
+      email: "sara@example.com",
+    });
+
+    expect(profile).toEqual({
+      name: "Sara",
+      bio: "Books and plants.",
+      city: "irbid",
+      avatarUrl: "https://x/a.jpg",
+      joinedAt: new Date(2026, 2, 14),
+      ratingCount: 3,
+      ratingAverage: 4.67,
+    });
+    expect(profile).not.toHaveProperty("email");
+  });
+
+  test("missing or bad fields get safe defaults", () => {
+    expect(toPublicProfile(undefined)).toEqual({
+      name: "User",
+      bio: "",
+      city: "",
+      avatarUrl: "",
+      joinedAt: null,
+      ratingCount: 0,
+      ratingAverage: null,
+    });
+    expect(toPublicProfile({ name: "  ", city: "paris", ratingCount: -2, ratingAverage: 5 })).toMatchObject({
+      name: "User",
+      city: "",
+      ratingCount: 0,
+      ratingAverage: null,
+    });
+  });
+});
+
+describe("profile edit", () => {
+  const edit = { name: "Sara", bio: "", city: "" as const };
+
+  test("needs a name within the limits", () => {
+    expect(validateProfileEdit(edit)).toBeNull();
+    expect(validateProfileEdit({ ...edit, name: "   " })).toBe("Please enter your name.");
+    expect(validateProfileEdit({ ...edit, name: "x".repeat(MAX_NAME_LENGTH + 1) })).toContain(
+      String(MAX_NAME_LENGTH),
+    );
+    expect(validateProfileEdit({ ...edit, bio: "x".repeat(MAX_BIO_LENGTH + 1) })).toContain(
+      String(MAX_BIO_LENGTH),
+    );
+    expect(validateProfileEdit({ ...edit, city: "paris" as any })).toBe("Please pick a city from the list.");
+  });
+
+  test("trims the fields and removes an empty bio or city", () => {
+    expect(profileUpdate({ name: " Sara ", bio: "  ", city: "" })).toEqual({ name: "Sara", bio: null, city: null });
+    expect(profileUpdate({ name: "Sara", bio: " Hi ", city: "amman" })).toEqual({
+      name: "Sara",
+      bio: "Hi",
+      city: "amman",
+    });
+  });
+
+  test("name limit matches the server profiles", () => {
+    expect(MAX_NAME_LENGTH).toBe(serverProfiles.MAX_PROFILE_NAME);
+  });
+});
+
+describe("reputation", () => {
+  test("join date", () => {
+    expect(joinedLabel(new Date(2026, 9, 19))).toBe("Joined October 2026");
+    expect(joinedLabel(null)).toBe("");
+  });
+
+  test("donor levels grow with donations", () => {
+    expect(donorLevel(0)).toBe("New member");
+    expect(donorLevel(1)).toBe("Donor");
+    expect(donorLevel(4)).toBe("Donor");
+    expect(donorLevel(5)).toBe("Trusted donor");
+    expect(donorLevel(20)).toBe("Top donor");
+  });
+
+  test("rating text", () => {
+    expect(ratingLabel({ ratingCount: 0, ratingAverage: null })).toBe("No ratings yet");
+    expect(ratingLabel({ ratingCount: 1, ratingAverage: 5 })).toBe("5.0 ★ (1 review)");
+    expect(ratingLabel({ ratingCount: 12, ratingAverage: 4.46 })).toBe("4.5 ★ (12 reviews)");
+  });
+});
@@ -0,0 +1,210 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+import { notificationLink, pushNotificationId } from "../lib/notification-links";
+
+// Server push sender (functions/push.js)
+const push = require("../functions/push");
+
+const token = (n: number) => `ExponentPushToken[device-${n}]`;
+
+const notification = {
+  toUserId: "owner",
+  fromUserId: "requester",
+  title: "New request received",
+  body: "Someone requested your item.",
+  type: "request_received",
+  itemId: "item-1",
+  requestId: "item-1_requester",
+};
+
+// ---------- Local stub of the Expo push endpoint ----------
+// Records every request body; answers with the tickets `reply` returns (or an HTTP error)
+
+type Stub = {
+  url: string;
+  batches: any[][];
+  reply: (messages: any[]) => { status: number; body?: unknown };
+};
+
+let server: Server;
+let stub: Stub;
+
+const okTickets = (messages: any[]) => ({
+  status: 200,
+  body: { data: messages.map((_, i) => ({ status: "ok", id: `ticket-${i}` })) },
+});
+
+beforeAll(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const messages = JSON.parse(raw);
+      stub.batches.push(messages);
+
+      const { status, body } = stub.reply(messages);
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body ?? {}));
+    });
+  });
+
+  await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+});
+
+beforeEach(() => {
+  const { port } = server.address() as AddressInfo;
+  stub = { url: `http://127.0.0.1:${port}/push/send`, batches: [], reply: okTickets };
+});
+
+afterAll(async () => {
+  await new Promise((done) => server.close(done));
+});
+
+describe("push tokens", () => {
+  test("only Expo push tokens are used, once each", () => {
+    expect(push.isExpoPushToken(token(1))).toBe(true);
+    expect(push.isExpoPushToken("ExpoPushToken[abc]")).toBe(true);
+    expect(push.isExpoPushToken("fcm-token")).toBe(false);
+    expect(push.isExpoPushToken(null)).toBe(false);
+
+    expect(push.pushTokensOf({ pushTokens: [token(1), token(1), "junk", 3, token(2)] })).toEqual([
+      token(1),
+      token(2),
+    ]);
+    expect(push.pushTokensOf({ name: "No devices" })).toEqual([]);
+    expect(push.pushTokensOf(null)).toEqual([]);
+  });
+});
+
+describe("pushMessages", () => {
+  test("one message per device with the deep-link data", () => {
+    const messages = push.pushMessages("notif-1", notification, [token(1), token(2)]);
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toEqual({
+      to: token(1),
+      title: "New request received",
+      body: "Someone requested your item.",
+      sound: "default",
+      channelId: push.PUSH_CHANNEL_ID,
+      data: {
+        notificationId: "notif-1",
+        type: "request_received",
+        itemId: "item-1",
+        requestId: "item-1_requester",
+      },
+    });
+    expect(messages[1].to).toBe(token(2));
+  });
+
+  test("the data opens the same screen as the notification list", () => {
+    const [message] = push.pushMessages("notif-1", notification, [token(1)]);
+
+    expect(notificationLink(message.data)).toEqual(notificationLink(notification));
+    expect(pushNotificationId(message.data)).toBe("notif-1");
+  });
+});
+
+describe("sendPushMessages", () => {
+  test("posts the messages to the endpoint", async () => {
+    const messages = push.pushMessages("notif-1", notification, [token(1), token(2)]);
+
+    const result = await push.sendPushMessages(messages, { endpoint: stub.url });
+
+    expect(result).toEqual({ sent: 2, invalidTokens: [] });
+    expect(stub.batches).toEqual([messages]);
+  });
+
+  test("splits large sends into batches", async () => {
+    const tokens = Array.from({ length: push.MAX_PUSH_BATCH + 5 }, (_, i) => token(i));
+
+    const result = await push.sendPushMessages(push.pushMessages("n", notification, tokens), {
+      endpoint: stub.url,
+    });
+
+    expect(stub.batches.map((b) => b.length)).toEqual([push.MAX_PUSH_BATCH, 5]);
+    expect(result.sent).toBe(tokens.length);
+  });
+
+  test("reports devices that are no longer registered", async () => {
+    stub.reply = (messages) => ({
+      status: 200,
+      body: {
+        data: messages.map((m) =>
+          m.to === token(2)
+            ? { status: "error", message: "not registered", details: { error: "DeviceNotRegistered" } }
+            : m.to === token(3)
+              ? { status: "error", message: "rate limited", details: { error: "MessageRateExceeded" } }
+              : { status: "ok", id: "t" },
+        ),
+      },
+    });
+
+    const result = await push.sendPushMessages(
+      push.pushMessages("n", notification, [token(1), token(2), token(3)]),
+      { endpoint: stub.url },
+    );
+
+    expect(result).toEqual({ sent: 1, invalidTokens: [token(2)] });
+  });
+
+  test("fails when the endpoint rejects the request", async () => {
+    stub.reply = () => ({ status: 500, body: { errors: [{ message: "down" }] } });
+
+    await expect(
+      push.sendPushMessages(push.pushMessages("n", notification, [token(1)]), { endpoint: stub.url }),
+    ).rejects.toThrow("status 500");
+  });
+
+  test("sends nothing without devices", async () => {
+    expect(await push.sendPushMessages([], { endpoint: stub.url })).toEqual({ sent: 0, invalidTokens: [] });
+    expect(stub.batches).toEqual([]);
+  });
+});
+
+describe("notificationLink", () => {
+  test("owners open their received requests", () => {
+    expect(notificationLink({ type: "request_received" })).toEqual({
+      pathname: "/my-requests",
+      params: { tab: "received" },
+    });
+    expect(notificationLink({ type: "request_cancelled" })).toEqual({
+      pathname: "/my-requests",
+      params: { tab: "received" },
+    });
+  });
+
+  test("requesters open their sent requests", () => {
+    for (const type of ["request_approved", "request_rejected", "request_waitlisted", "request_reopened", "request_revoked"]) {
+      expect(notificationLink({ type, itemId: "i" })).toEqual({ pathname: "/my-requests", params: { tab: "sent" } });
+    }
+  });
+
+  test("an approval opens the request's chat", () => {
+    expect(notificationLink({ type: "request_approved", itemId: "i", requestId: "i_u" })).toEqual({
+      pathname: "/chat/[id]",
+      params: { id: "i_u" },
+    });
+  });
+
+  test("a donated item opens the item", () => {
+    expect(notificationLink({ type: "item_donated", itemId: "item-1" })).toEqual({
+      pathname: "/item/[id]",
+      params: { id: "item-1" },
+    });
+  });
+
+  test("a donation or a review with its request opens the review screen", () => {
+    const review = { pathname: "/review/[requestId]", params: { requestId: "i_u" } };
+
+    expect(notificationLink({ type: "item_donated", itemId: "i", requestId: "i_u" })).toEqual(review);
+    expect(notificationLink({ type: "review_received", itemId: "i", requestId: "i_u" })).toEqual(review);
+  });
+
+  test("anything else opens the fallback", () => {
+    expect(notificationLink({ type: "something_new" })).toBe("/notifications");
+    expect(notificationLink(null)).toBe("/notifications");
+    expect(notificationLink({ type: "item_donated" }, "/my-requests")).toBe("/my-requests");
+  });
+});
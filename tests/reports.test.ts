@@ -0,0 +1,138 @@
+import {
+  MAX_REPORT_DETAILS,
+  REPORT_ACTIONS,
+  REPORT_REASONS,
+  REPORT_TARGETS,
+  canApplyAction,
+  isAdminClaims,
+  isListed,
+  listedItems,
+  reasonLabel,
+  reportDocId,
+  reportTargetLabel,
+  validateReport,
+} from "../lib/reports";
+
+// Server report rules (functions/reports.js)
+const server = require("../functions/reports");
+
+describe("report rules", () => {
+  test("app and server use the same targets, reasons, actions and ids", () => {
+    expect(server.REPORT_TARGETS).toEqual([...REPORT_TARGETS]);
+    expect(server.REPORT_REASONS).toEqual(REPORT_REASONS.map((r) => r.id));
+    expect(server.REPORT_ACTIONS).toEqual([...REPORT_ACTIONS]);
+    expect(server.MAX_REPORT_DETAILS).toBe(MAX_REPORT_DETAILS);
+    expect(server.reportDocId("item", "item-1", "u1")).toBe(reportDocId("item", "item-1", "u1"));
+  });
+
+  test("the server parses the report form", () => {
+    expect(server.parseReport({ targetType: "item", targetId: "item-1", reason: "scam", details: " Fake " })).toEqual({
+      targetType: "item",
+      targetId: "item-1",
+      reason: "scam",
+      details: "Fake",
+    });
+    expect(server.parseReport({ targetType: "user", targetId: "u2", reason: "harassment" })).toMatchObject({
+      details: "",
+    });
+
+    for (const bad of [
+      null,
+      { targetType: "chat", targetId: "c1", reason: "spam" },
+      { targetType: "item", targetId: "item-1", reason: "boring" },
+      { targetType: "item", targetId: "", reason: "spam" },
+      { targetType: "item", targetId: "items/x", reason: "spam" },
+      { targetType: "item", targetId: "item-1", reason: "spam", details: 3 },
+      { targetType: "item", targetId: "item-1", reason: "spam", details: "x".repeat(MAX_REPORT_DETAILS + 1) },
+    ]) {
+      expect(server.parseReport(bad)).toBeNull();
+    }
+  });
+
+  test("the app form needs a reason and short details", () => {
+    expect(validateReport("spam", "")).toBeNull();
+    expect(validateReport(null, "")).toBe("Please pick a reason.");
+    expect(validateReport("other", "x".repeat(MAX_REPORT_DETAILS + 1))).toContain(String(MAX_REPORT_DETAILS));
+  });
+
+  test("reports are about the item owner, the other participant or the user", () => {
+    const request = { itemId: "item-1", itemOwnerId: "owner", requesterId: "requester" };
+
+    expect(server.reportedUserId("item", "item-1", { ownerId: "owner" }, "me")).toBe("owner");
+    expect(server.reportedUserId("user", "u2", {}, "me")).toBe("u2");
+    expect(server.reportedUserId("request", "r1", request, "owner")).toBe("requester");
+    expect(server.reportedUserId("request", "r1", request, "requester")).toBe("owner");
+
+    // Strangers do not report a request; nobody reports themselves
+    expect(server.reportedUserId("request", "r1", request, "stranger")).toBeNull();
+    expect(server.reportedUserId("item", "item-1", { ownerId: "me" }, "me")).toBeNull();
+    expect(server.reportedUserId("user", "me", {}, "me")).toBeNull();
+  });
+
+  test("reports keep the item they point to", () => {
+    expect(server.reportedItemId("item", "item-1", {})).toBe("item-1");
+    expect(server.reportedItemId("request", "r1", { itemId: "item-2" })).toBe("item-2");
+    expect(server.reportedItemId("user", "u2", {})).toBeNull();
+  });
+});
+
+describe("moderation", () => {
+  test("only the admin claim makes a moderator", () => {
+    expect(isAdminClaims({ admin: true })).toBe(true);
+    expect(isAdminClaims({ admin: "true" })).toBe(false);
+    expect(isAdminClaims({})).toBe(false);
+    expect(isAdminClaims(null)).toBe(false);
+
+    expect(server.isAdmin({ admin: true })).toBe(true);
+    expect(server.isAdmin({ admin: 1 })).toBe(false);
+    expect(server.isAdmin(undefined)).toBe(false);
+  });
+
+  test("hiding needs an item report, suspending a user", () => {
+    const userReport = { targetType: "user" as const, itemId: null, targetUserId: "u2" };
+    const itemReport = { targetType: "item" as const, itemId: "item-1", targetUserId: "u2" };
+    const requestReport = { targetType: "request" as const, itemId: "item-1", targetUserId: "u2" };
+
+    for (const action of REPORT_ACTIONS) {
+      for (const report of [userReport, itemReport, requestReport]) {
+        expect(canApplyAction(action, report)).toBe(server.canApplyAction(action, report));
+      }
+    }
+    expect(canApplyAction("hide_item", userReport)).toBe(false);
+    expect(canApplyAction("hide_item", itemReport)).toBe(true);
+    expect(canApplyAction("hide_item", requestReport)).toBe(false);
+    expect(canApplyAction("suspend_user", requestReport)).toBe(true);
+    expect(canApplyAction("suspend_user", userReport)).toBe(true);
+    expect(canApplyAction("dismiss", userReport)).toBe(true);
+  });
+
+  test("labels", () => {
+    expect(reasonLabel("scam")).toBe("Scam or fake listing");
+    expect(reasonLabel("unknown")).toBe("Other");
+    expect(reportTargetLabel("request")).toBe("Reported request");
+  });
+});
+
+describe("listed items", () => {
+  const blocked = new Set(["blocked-user"]);
+
+  test("hidden items and items of blocked users are left out", () => {
+    expect(isListed({ ownerId: "u1" }, blocked)).toBe(true);
+    expect(isListed({ ownerId: "u1", hidden: false }, blocked)).toBe(true);
+    expect(isListed({ ownerId: "u1", hidden: true }, blocked)).toBe(false);
+    expect(isListed({ ownerId: "blocked-user" }, blocked)).toBe(false);
+    expect(isListed({}, blocked)).toBe(true);
+  });
+
+  test("the order of the other items is kept", () => {
+    const items = [
+      { id: "a", ownerId: "u1" },
+      { id: "b", ownerId: "blocked-user" },
+      { id: "c", ownerId: "u2", hidden: true },
+      { id: "d", ownerId: "u2" },
+    ];
+
+    expect(listedItems(items, blocked).map((i) => i.id)).toEqual(["a", "d"]);
+    expect(listedItems(items, new Set()).map((i) => i.id)).toEqual(["a", "b", "d"]);
+  });
+});
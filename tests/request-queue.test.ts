@@ -0,0 +1,66 @@
+import { buildRequestQueues, toMillis } from "../lib/request-queue";
+
+// Fake Firestore Timestamp
+const ts = (ms: number) => ({ toMillis: () => ms });
+
+const req = (id: string, itemId: string, status: string, at: number | null) => ({
+  id,
+  itemId,
+  status,
+  createdAt: at === null ? null : ts(at),
+});
+
+describe("buildRequestQueues", () => {
+  test("numbers pending requests oldest first", () => {
+    const queue = buildRequestQueues([
+      req("c", "desk", "pending", 300),
+      req("a", "desk", "pending", 100),
+      req("b", "desk", "pending", 200),
+    ]);
+
+    expect(queue.map((r) => [r.id, r.queuePosition, r.queueSize])).toEqual([
+      ["a", 1, 3],
+      ["b", 2, 3],
+      ["c", 3, 3],
+    ]);
+  });
+
+  test("approved request first, then queue, waitlist and finished requests", () => {
+    const queue = buildRequestQueues([
+      req("rejected", "desk", "rejected", 50),
+      req("waiting", "desk", "waitlisted", 100),
+      req("chosen", "desk", "approved", 200),
+    ]);
+
+    expect(queue.map((r) => r.id)).toEqual(["chosen", "waiting", "rejected"]);
+    expect(queue.every((r) => r.queuePosition === null && r.queueSize === 0)).toBe(true);
+  });
+
+  test("groups by item, most recently requested item on top", () => {
+    const queue = buildRequestQueues([
+      req("lamp-1", "lamp", "pending", 500),
+      req("desk-1", "desk", "pending", 100),
+      req("desk-2", "desk", "pending", 900),
+    ]);
+
+    expect(queue.map((r) => r.id)).toEqual(["desk-1", "desk-2", "lamp-1"]);
+    expect(queue.find((r) => r.id === "lamp-1")?.queuePosition).toBe(1);
+  });
+
+  test("requests without a server timestamp yet go last", () => {
+    const queue = buildRequestQueues([
+      req("new", "desk", "pending", null),
+      req("old", "desk", "pending", 100),
+    ]);
+
+    expect(queue.map((r) => r.id)).toEqual(["old", "new"]);
+  });
+});
+
+describe("toMillis", () => {
+  test("reads timestamps, dates and numbers", () => {
+    expect(toMillis(ts(5))).toBe(5);
+    expect(toMillis(new Date(7))).toBe(7);
+    expect(toMillis(9)).toBe(9);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  MAX_RATING,
+  MAX_REVIEW_TEXT,
+  MIN_RATING,
+  canReview,
+  reviewDocId,
+  reviewerLabel,
+  starsText,
+  validateReview,
+} from "../lib/reviews";
+
+// Server review rules (functions/reviews.js)
+const server = require("../functions/reviews");
+
+describe("review rules", () => {
+  test("app and server use the same limits and ids", () => {
+    expect(server.MIN_RATING).toBe(MIN_RATING);
+    expect(server.MAX_RATING).toBe(MAX_RATING);
+    expect(server.MAX_REVIEW_TEXT).toBe(MAX_REVIEW_TEXT);
+    expect(server.reviewDocId("item-1_u2", "u1")).toBe(reviewDocId("item-1_u2", "u1"));
+  });
+
+  test("only approved requests of donated items can be reviewed", () => {
+    for (const [request, item, expected] of [
+      ["approved", "donated", true],
+      ["approved", "accepted", false],
+      ["rejected", "donated", false],
+      ["pending", "available", false],
+      [undefined, "donated", false],
+    ] as const) {
+      expect(canReview(request, item)).toBe(expected);
+      expect(server.canReview(request, item)).toBe(expected);
+    }
+  });
+
+  test("the two participants review each other, nobody else", () => {
+    const request = { itemOwnerId: "owner", requesterId: "requester" };
+
+    expect(server.reviewerRole(request, "owner")).toBe("donor");
+    expect(server.reviewerRole(request, "requester")).toBe("recipient");
+    expect(server.reviewerRole(request, "stranger")).toBeNull();
+    expect(server.reviewerRole(request, undefined)).toBeNull();
+  });
+});
+
+describe("review input", () => {
+  test("the app form needs 1-5 whole stars and a short text", () => {
+    expect(validateReview(5, "Great!")).toBeNull();
+    expect(validateReview(1, "")).toBeNull();
+    expect(validateReview(0, "")).toBe("Please pick 1 to 5 stars.");
+    expect(validateReview(6, "")).toBe("Please pick 1 to 5 stars.");
+    expect(validateReview(4.5, "")).toBe("Please pick 1 to 5 stars.");
+    expect(validateReview(3, "x".repeat(MAX_REVIEW_TEXT + 1))).toContain(String(MAX_REVIEW_TEXT));
+  });
+
+  test("the server parses the same input", () => {
+    expect(server.parseReview({ rating: 4, text: "  Kind donor " })).toEqual({ rating: 4, text: "Kind donor" });
+    expect(server.parseReview({ rating: 5 })).toEqual({ rating: 5, text: "" });
+    expect(server.parseReview({ rating: "5" })).toBeNull();
+    expect(server.parseReview({ rating: 0 })).toBeNull();
+    expect(server.parseReview({ rating: 3, text: 42 })).toBeNull();
+    expect(server.parseReview({ rating: 3, text: "x".repeat(MAX_REVIEW_TEXT + 1) })).toBeNull();
+    expect(server.parseReview(null)).toBeNull();
+  });
+});
+
+describe("rating summary", () => {
+  test("the first review starts the summary", () => {
+    expect(server.addRating(undefined, 4)).toEqual({ ratingCount: 1, ratingSum: 4, ratingAverage: 4 });
+  });
+
+  test("later reviews keep an exact sum and a rounded average", () => {
+    let user = server.addRating({}, 5);
+    user = server.addRating(user, 4);
+    user = server.addRating(user, 4);
+
+    expect(user).toEqual({ ratingCount: 3, ratingSum: 13, ratingAverage: 4.33 });
+  });
+});
+
+describe("review texts", () => {
+  test("stars", () => {
+    expect(starsText(4)).toBe("★★★★☆");
+    expect(starsText(5)).toBe("★★★★★");
+    expect(starsText(0)).toBe("☆☆☆☆☆");
+    expect(starsText(9)).toBe("★★★★★");
+  });
+
+  test("who wrote it", () => {
+    expect(reviewerLabel("donor")).toBe("From a donor");
+    expect(reviewerLabel("recipient")).toBe("From a recipient");
+  });
+});
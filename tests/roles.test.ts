@@ -0,0 +1,134 @@
+import { ITEM_CATEGORIES, ROLES, authRedirect, validateItemEdit } from "../lib/roles";
+
+// Server role + listing edit rules (functions/roles.js)
+const server = require("../functions/roles");
+
+describe("role rules", () => {
+  test("app and server use the same roles and categories", () => {
+    expect(server.ROLES).toEqual([...ROLES]);
+    expect(server.ITEM_CATEGORIES).toEqual([...ITEM_CATEGORIES]);
+  });
+
+  test("the server parses a role change", () => {
+    expect(server.parseRoleChange({ userId: "u2", role: "admin", granted: true })).toEqual({
+      userId: "u2",
+      role: "admin",
+      granted: true,
+    });
+
+    for (const bad of [
+      null,
+      {},
+      { userId: "", role: "admin", granted: true },
+      { userId: "a/b", role: "admin", granted: true },
+      { userId: "u2", role: "owner", granted: true },
+      { userId: "u2", role: "admin", granted: "true" },
+      { userId: "u2", role: "admin" },
+    ]) {
+      expect(server.parseRoleChange(bad)).toBeNull();
+    }
+  });
+
+  test("granting and revoking keeps the other claims", () => {
+    expect(server.claimsWithRole({ beta: true }, "admin", true)).toEqual({ beta: true, admin: true });
+    expect(server.claimsWithRole({ beta: true, admin: true }, "admin", false)).toEqual({ beta: true });
+    expect(server.claimsWithRole(undefined, "admin", true)).toEqual({ admin: true });
+    expect(server.claimsWithRole(null, "admin", false)).toEqual({});
+  });
+
+  test("revoking a role also revokes the user's refresh tokens", async () => {
+    const calls: string[] = [];
+    const auth = {
+      setCustomUserClaims: async (uid: string, claims: object) => {
+        calls.push(`claims ${uid} ${JSON.stringify(claims)}`);
+      },
+      revokeRefreshTokens: async (uid: string) => {
+        calls.push(`revoke ${uid}`);
+      },
+    };
+
+    await server.saveRoleClaims(auth, "u2", {}, false);
+    expect(calls).toEqual(["claims u2 {}", "revoke u2"]);
+
+    calls.length = 0;
+    await server.saveRoleClaims(auth, "u2", { admin: true }, true);
+    expect(calls).toEqual(['claims u2 {"admin":true}']);
+  });
+
+  test("roles are read from the claims", () => {
+    expect(server.rolesOf({ admin: true })).toEqual(["admin"]);
+    expect(server.rolesOf({ admin: "true" })).toEqual([]);
+    expect(server.rolesOf({})).toEqual([]);
+    expect(server.rolesOf(undefined)).toEqual([]);
+  });
+});
+
+describe("admin listing edits", () => {
+  test("the server keeps only the valid fields that were sent", () => {
+    expect(
+      server.parseItemEdit({ itemId: "item-1", title: " Desk ", description: " Oak ", category: "Furniture" }),
+    ).toEqual({ title: "Desk", description: "Oak", category: "Furniture" });
+    expect(server.parseItemEdit({ itemId: "item-1", hidden: false })).toEqual({ hidden: false });
+
+    // Callable data turns missing fields into null
+    expect(server.parseItemEdit({ itemId: "item-1", title: null, category: "Books" })).toEqual({ category: "Books" });
+  });
+
+  test("the server refuses invalid or empty edits", () => {
+    for (const bad of [
+      null,
+      { itemId: "item-1" },
+      { title: "  " },
+      { description: 3 },
+      { category: "Cars" },
+      { hidden: "yes" },
+      { title: "Desk", category: "Cars" },
+    ]) {
+      expect(server.parseItemEdit(bad)).toBeNull();
+    }
+  });
+
+  test("the admin form needs a title, a description and a category", () => {
+    expect(validateItemEdit("Desk", "Oak", "Furniture")).toBeNull();
+    expect(validateItemEdit(" ", "Oak", "Furniture")).toBe("Please add a title.");
+    expect(validateItemEdit("Desk", "", "Furniture")).toBe("Please add a description.");
+    expect(validateItemEdit("Desk", "Oak", "")).toBe("Please pick a category.");
+    expect(validateItemEdit("Desk", "Oak", "Cars")).toBe("Please pick a category.");
+  });
+});
+
+describe("user lookups", () => {
+  test("the search text is read as an email, a phone number or a uid", () => {
+    expect(server.lookupKind(" sara@example.com ")).toBe("email");
+    expect(server.lookupKind("+962791234567")).toBe("phone");
+    expect(server.lookupKind("a1B2c3")).toBe("uid");
+    expect(server.lookupKind("0791234567")).toBe("uid");
+  });
+
+  test("empty or path-like searches are refused", () => {
+    expect(server.lookupKind("")).toBeNull();
+    expect(server.lookupKind("   ")).toBeNull();
+    expect(server.lookupKind("users/u1")).toBeNull();
+    expect(server.lookupKind(undefined)).toBeNull();
+  });
+});
+
+describe("route guard", () => {
+  test("signed-out users only stay on onboarding", () => {
+    expect(authRedirect("(onboarding)", false, false)).toBeNull();
+    expect(authRedirect("(private)", false, false)).toBe("/(onboarding)");
+    expect(authRedirect("(admin)", false, false)).toBe("/(onboarding)");
+    expect(authRedirect(undefined, false, false)).toBeNull();
+  });
+
+  test("signed-in users leave onboarding", () => {
+    expect(authRedirect("(onboarding)", true, false)).toBe("/(private)");
+    expect(authRedirect("(onboarding)", true, true)).toBe("/(private)");
+    expect(authRedirect("(private)", true, false)).toBeNull();
+  });
+
+  test("only admins reach the admin console", () => {
+    expect(authRedirect("(admin)", true, false)).toBe("/(private)");
+    expect(authRedirect("(admin)", true, true)).toBeNull();
+  });
+});
@@ -1,4 +1,22 @@
-import { canMarkDonated } from "../lib/rules";
+import {
+  ITEM_STATUSES,
+  REQUEST_STATUSES,
+  assertItemTransition,
+  assertRequestTransition,
+  canCancelRequest,
+  canRevokeRequest,
+  canDecideRequest,
+  canMarkDonated,
+  canRequestItem,
+  canTransitionItem,
+  canTransitionRequest,
+  isDonatedItem,
+  isFinalRequestStatus,
+  itemStatusLabel,
+  requestStatusLabel,
+  toItemStatus,
+  toRequestStatus,
+} from "../lib/rules";
 
 describe("Mark Donated Business Rule", () => {
   test("returns true when status is accepted", () => {
@@ -12,4 +30,156 @@ describe("Mark Donated Business Rule", () => {
   test("returns false when status is donated", () => {
     expect(canMarkDonated("donated")).toBe(false);
   });
+
+  test("returns false when status is requested", () => {
+    expect(canMarkDonated("requested")).toBe(false);
+  });
+});
+
+describe("Status parsing", () => {
+  test("missing item status means available", () => {
+    expect(toItemStatus(undefined)).toBe("available");
+    expect(toItemStatus(null)).toBe("available");
+    expect(toItemStatus("")).toBe("available");
+  });
+
+  test("item status is case-insensitive and trimmed", () => {
+    expect(toItemStatus(" Accepted ")).toBe("accepted");
+    expect(toItemStatus("DONATED")).toBe("donated");
+  });
+
+  test("unknown statuses are rejected", () => {
+    expect(toItemStatus("sold")).toBeNull();
+    expect(toRequestStatus("maybe")).toBeNull();
+    expect(toRequestStatus(undefined)).toBeNull();
+  });
+
+  test("request status is case-insensitive", () => {
+    expect(toRequestStatus("Pending")).toBe("pending");
+  });
+});
+
+describe("Item transitions", () => {
+  const allowed: Record<string, string[]> = {
+    available: ["requested"],
+    requested: ["accepted", "available"],
+    accepted: ["donated", "available", "requested"],
+    donated: [],
+  };
+
+  // Every (from, to) pair is checked against the expected table
+  for (const from of ITEM_STATUSES) {
+    for (const to of ITEM_STATUSES) {
+      const expected = allowed[from].includes(to);
+
+      test(`${from} -> ${to} is ${expected ? "allowed" : "blocked"}`, () => {
+        expect(canTransitionItem(from, to)).toBe(expected);
+
+        if (expected) {
+          expect(() => assertItemTransition(from, to)).not.toThrow();
+        } else {
+          expect(() => assertItemTransition(from, to)).toThrow();
+        }
+      });
+    }
+  }
+
+  test("unknown current status blocks every transition", () => {
+    for (const to of ITEM_STATUSES) {
+      expect(canTransitionItem("sold", to)).toBe(false);
+    }
+  });
+
+  test("legacy items without status can be requested", () => {
+    expect(canRequestItem(undefined)).toBe(true);
+  });
+
+  test("available items and items with a pending queue can be requested", () => {
+    expect(canRequestItem("available")).toBe(true);
+    expect(canRequestItem("requested")).toBe(true);
+    expect(canRequestItem("accepted")).toBe(false);
+    expect(canRequestItem("donated")).toBe(false);
+  });
+});
+
+describe("Request transitions", () => {
+  const allowed: Record<string, string[]> = {
+    pending: ["approved", "rejected", "cancelled", "waitlisted"],
+    approved: ["cancelled", "revoked"],
+    rejected: [],
+    cancelled: [],
+    waitlisted: ["pending", "rejected", "cancelled"],
+    revoked: [],
+  };
+
+  for (const from of REQUEST_STATUSES) {
+    for (const to of REQUEST_STATUSES) {
+      const expected = allowed[from].includes(to);
+
+      test(`${from} -> ${to} is ${expected ? "allowed" : "blocked"}`, () => {
+        expect(canTransitionRequest(from, to)).toBe(expected);
+
+        if (expected) {
+          expect(() => assertRequestTransition(from, to)).not.toThrow();
+        } else {
+          expect(() => assertRequestTransition(from, to)).toThrow();
+        }
+      });
+    }
+  }
+
+  test("only pending requests can be decided", () => {
+    expect(canDecideRequest("pending")).toBe(true);
+    expect(canDecideRequest("approved")).toBe(false);
+    expect(canDecideRequest("rejected")).toBe(false);
+    expect(canDecideRequest("waitlisted")).toBe(false);
+    expect(canDecideRequest(undefined)).toBe(false);
+  });
+
+  test("pending, waitlisted and approved requests can be cancelled", () => {
+    expect(canCancelRequest("pending")).toBe(true);
+    expect(canCancelRequest("waitlisted")).toBe(true);
+    expect(canCancelRequest("approved")).toBe(true);
+    expect(canCancelRequest("rejected")).toBe(false);
+    expect(canCancelRequest("cancelled")).toBe(false);
+  });
+
+  test("only approved requests can be revoked", () => {
+    expect(canRevokeRequest("approved")).toBe(true);
+    expect(canRevokeRequest("pending")).toBe(false);
+    expect(canRevokeRequest("waitlisted")).toBe(false);
+    expect(canRevokeRequest("revoked")).toBe(false);
+  });
+
+  test("rejected, cancelled and revoked are final", () => {
+    expect(isFinalRequestStatus("pending")).toBe(false);
+    expect(isFinalRequestStatus("waitlisted")).toBe(false);
+    expect(isFinalRequestStatus("approved")).toBe(false);
+    expect(isFinalRequestStatus("revoked")).toBe(true);
+    expect(isFinalRequestStatus("rejected")).toBe(true);
+    expect(isFinalRequestStatus("cancelled")).toBe(true);
+    expect(isFinalRequestStatus("unknown")).toBe(false);
+  });
+
+  test("only donated items count as donated, whatever the case", () => {
+    expect(isDonatedItem("donated")).toBe(true);
+    expect(isDonatedItem(" Donated ")).toBe(true);
+    expect(isDonatedItem("accepted")).toBe(false);
+    expect(isDonatedItem(undefined)).toBe(false);
+    expect(isDonatedItem("unknown")).toBe(false);
+  });
+});
+
+describe("Status labels", () => {
+  test("known statuses have labels", () => {
+    expect(itemStatusLabel("accepted")).toBe("Accepted");
+    expect(itemStatusLabel(undefined)).toBe("Available");
+    expect(requestStatusLabel("pending")).toBe("Pending");
+    expect(requestStatusLabel("waitlisted")).toBe("Waitlisted");
+  });
+
+  test("unknown statuses are labelled Unknown", () => {
+    expect(itemStatusLabel("sold")).toBe("Unknown");
+    expect(requestStatusLabel("")).toBe("Unknown");
+  });
 });
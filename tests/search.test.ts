@@ -0,0 +1,113 @@
+import { buildKeywords, rankItems, scoreItem, searchTokens, tokenize } from "../lib/search";
+
+// Server copy of the keyword builder (functions/keywords.js) — must stay identical
+const server = require("../functions/keywords");
+
+const item = (title: string, description = "", category = "Furniture", createdAt = 0) => ({
+  title,
+  description,
+  category,
+  createdAt,
+});
+
+describe("tokenize", () => {
+  test("lowercases and splits on punctuation", () => {
+    expect(tokenize("Wooden DESK, 2-drawer!")).toEqual(["wooden", "desk", "drawer"]);
+  });
+
+  test("drops accents, short words, stop words and duplicates", () => {
+    expect(tokenize("Café a the desk desk")).toEqual(["cafe", "desk"]);
+  });
+
+  test("keeps Arabic words", () => {
+    expect(tokenize("كرسي خشب")).toEqual(["كرسي", "خشب"]);
+  });
+
+  test("empty input gives no tokens", () => {
+    expect(tokenize(undefined)).toEqual([]);
+    expect(searchTokens("  ")).toEqual([]);
+  });
+
+  test("search tokens are capped", () => {
+    const text = Array.from({ length: 15 }, (_, i) => `word${i}`).join(" ");
+    expect(searchTokens(text)).toHaveLength(10);
+  });
+});
+
+describe("buildKeywords", () => {
+  test("title and category words are indexed with prefixes", () => {
+    const keywords = buildKeywords(item("Laptop", "", "Electronics"));
+
+    expect(keywords).toEqual(expect.arrayContaining(["la", "lap", "laptop", "el", "electronics"]));
+  });
+
+  test("description words are indexed whole only", () => {
+    const keywords = buildKeywords(item("Desk", "sturdy"));
+
+    expect(keywords).toContain("sturdy");
+    expect(keywords).not.toContain("stu");
+  });
+
+  test("matches the Cloud Function copy", () => {
+    const samples = [
+      item("Wooden desk", "Sturdy, 2 drawers", "Furniture"),
+      item("Café table — très belle", "", "Furniture"),
+      item("Extraordinarilylongwordtitle", "كرسي خشب", "Plants"),
+      { title: undefined, description: undefined, category: undefined },
+    ];
+
+    for (const sample of samples) {
+      expect(server.buildKeywords(sample)).toEqual(buildKeywords(sample));
+    }
+  });
+
+  test("the backfill only updates items with missing or stale search fields", () => {
+    const legacy = { title: "Desk", imageUrl: "https://example.com/desk.jpg" };
+    const update = server.searchFieldsUpdate(legacy);
+
+    expect(update).toEqual({ keywords: buildKeywords(legacy), hasImage: true, hidden: false });
+    expect(server.searchFieldsUpdate({ ...legacy, ...update })).toBeNull();
+    expect(server.searchFieldsUpdate({ ...legacy, ...update, title: "Chair" })).toMatchObject({ hasImage: true });
+    expect(server.searchFieldsUpdate({ ...legacy, ...update, imageUrl: "" })).toMatchObject({ hasImage: false });
+  });
+
+  test("a hidden item stays hidden", () => {
+    const hidden = { title: "Desk", hidden: true };
+
+    expect(server.searchFieldsUpdate(hidden)).not.toHaveProperty("hidden");
+    expect(server.searchFieldsUpdate({ ...hidden, ...server.searchFieldsUpdate(hidden) })).toBeNull();
+  });
+});
+
+describe("ranking", () => {
+  test("title matches beat category and description matches", () => {
+    const tokens = searchTokens("desk");
+
+    expect(scoreItem(item("Desk"), tokens)).toBeGreaterThan(scoreItem(item("Lamp", "for a desk"), tokens));
+    expect(scoreItem(item("Desk lamp", "", "Desks"), tokens)).toBeGreaterThan(
+      scoreItem(item("Lamp", "", "Desks"), tokens),
+    );
+  });
+
+  test("items matching every word rank above partial matches", () => {
+    const ranked = rankItems(
+      [item("Blue chair"), item("Wooden chair", "blue paint"), item("Blue lamp")],
+      "blue chair",
+    );
+
+    expect(ranked.map((r) => r.title)).toEqual(["Blue chair", "Wooden chair", "Blue lamp"]);
+  });
+
+  test("prefixes match while typing", () => {
+    expect(rankItems([item("Laptop"), item("Chair")], "lap").map((r) => r.title)).toEqual(["Laptop"]);
+  });
+
+  test("ties go to the newest item, non-matches are dropped", () => {
+    const ranked = rankItems(
+      [item("Desk", "", "Furniture", 1), item("Desk", "", "Furniture", 2), item("Sofa")],
+      "desk",
+    );
+
+    expect(ranked.map((r) => r.createdAt)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  ownPendingUploads,
+  parsePendingUploads,
+  withPending,
+  withoutPending,
+} from "../lib/pending-uploads";
+
+// Server orphan detection and photo paths (functions/orphans.js, functions/thumbnail-paths.js)
+const orphans = require("../functions/orphans");
+const paths = require("../functions/thumbnail-paths");
+
+const url = (path: string) =>
+  `https://firebasestorage.googleapis.com/v0/b/app.appspot.com/o/${encodeURIComponent(path)}?alt=media&token=t`;
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+const old = (name: string) => ({ name, updated: NOW - 2 * DAY });
+const fresh = (name: string) => ({ name, updated: NOW - 60 * 1000 });
+
+describe("pending uploads", () => {
+  test("parses only a list of paths", () => {
+    expect(parsePendingUploads('["items/u1/a.jpg","items/u1/a.jpg",3,""]')).toEqual(["items/u1/a.jpg"]);
+    expect(parsePendingUploads('{"a":1}')).toEqual([]);
+    expect(parsePendingUploads("not json")).toEqual([]);
+    expect(parsePendingUploads(null)).toEqual([]);
+  });
+
+  test("adds and removes paths without duplicates", () => {
+    const list = withPending(["items/u1/a.jpg"], ["items/u1/a.jpg", "items/u1/b.jpg"]);
+    expect(list).toEqual(["items/u1/a.jpg", "items/u1/b.jpg"]);
+    expect(withoutPending(list, ["items/u1/a.jpg", "items/u1/z.jpg"])).toEqual(["items/u1/b.jpg"]);
+  });
+
+  test("only cleans up the signed-in user's photos", () => {
+    const list = ["items/u1/a.jpg", "items/u2/b.jpg", "items/u10/c.jpg"];
+    expect(ownPendingUploads(list, "u1")).toEqual(["items/u1/a.jpg"]);
+  });
+});
+
+describe("storagePathFromUrl", () => {
+  test("decodes the path of a download URL", () => {
+    expect(paths.storagePathFromUrl(url("items/u1/1712_ab.jpg"))).toBe("items/u1/1712_ab.jpg");
+    expect(paths.storagePathFromUrl("https://example.com/a.jpg")).toBe("");
+    expect(paths.storagePathFromUrl(undefined)).toBe("");
+  });
+});
+
+describe("referencedPaths", () => {
+  test("collects gallery photos, covers and avatars", () => {
+    const referenced = orphans.referencedPaths(
+      [
+        { images: [url("items/u1/a.jpg"), url("items/u1/b.jpg")], imageUrl: url("items/u1/a.jpg") },
+        { imageUrl: url("items/u2/old.jpg") },
+        { title: "no photo" },
+      ],
+      [{ avatarUrl: url("avatars/u1.jpg") }, { name: "no avatar" }],
+    );
+
+    expect(Array.from(referenced).sort()).toEqual([
+      "avatars/u1.jpg",
+      "items/u1/a.jpg",
+      "items/u1/b.jpg",
+      "items/u2/old.jpg",
+    ]);
+  });
+});
+
+describe("findOrphans", () => {
+  const referenced = new Set(["items/u1/a.jpg", "avatars/u1.jpg"]);
+
+  test("deletes unreferenced photos and avatars", () => {
+    const files = [old("items/u1/a.jpg"), old("items/u1/gone.jpg"), old("avatars/u1.jpg"), old("avatars/u2.jpg")];
+    expect(orphans.findOrphans(files, referenced, NOW)).toEqual(["items/u1/gone.jpg", "avatars/u2.jpg"]);
+  });
+
+  test("keeps thumbnails while their photo is referenced", () => {
+    const files = [
+      old("items/u1/thumbs/a_small.jpg"),
+      old("items/u1/thumbs/a_medium.jpg"),
+      old("items/u1/thumbs/gone_small.jpg"),
+    ];
+    expect(orphans.findOrphans(files, referenced, NOW)).toEqual(["items/u1/thumbs/gone_small.jpg"]);
+  });
+
+  test("thumbnail keys may contain underscores", () => {
+    const keep = new Set(["items/u1/1712_ab12cd.jpg"]);
+    expect(orphans.findOrphans([old("items/u1/thumbs/1712_ab12cd_small.jpg")], keep, NOW)).toEqual([]);
+  });
+
+  test("keeps recent files (a form may still be open)", () => {
+    expect(orphans.findOrphans([fresh("items/u1/new.jpg")], referenced, NOW)).toEqual([]);
+    expect(orphans.findOrphans([{ name: "items/u1/x.jpg", updated: NaN }], referenced, NOW)).toEqual([]);
+  });
+
+  test("ignores files outside the photo and avatar folders", () => {
+    const files = [old("exports/report.csv"), old("items/u1/nested/deep/file.jpg")];
+    expect(orphans.findOrphans(files, referenced, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  THUMB_SIZES,
+  UPLOAD_MAX_SIZE,
+  imageKeyFromUrl,
+  itemThumbnail,
+  resizeToFit,
+  thumbnailUrl,
+} from "../lib/thumbnails";
+
+// Server copy of the thumbnail paths (functions/thumbnail-paths.js) — must stay in sync
+const server = require("../functions/thumbnail-paths");
+
+const photoUrl = (path: string) =>
+  `https://firebasestorage.googleapis.com/v0/b/app.appspot.com/o/${encodeURIComponent(path)}?alt=media&token=abc`;
+
+const COVER = photoUrl("items/u1/1712000000000_ab12cd.jpg");
+const SECOND = photoUrl("items/u1/1712000000001_ef34gh.jpg");
+const thumbs = {
+  "1712000000000_ab12cd": { small: "https://thumb/cover_small.jpg", medium: "https://thumb/cover_medium.jpg" },
+};
+
+describe("resizeToFit", () => {
+  test("shrinks the longest side", () => {
+    expect(resizeToFit(4000, 3000, UPLOAD_MAX_SIZE)).toEqual({ width: UPLOAD_MAX_SIZE });
+    expect(resizeToFit(3000, 4000, UPLOAD_MAX_SIZE)).toEqual({ height: UPLOAD_MAX_SIZE });
+    expect(resizeToFit(2000, 2000, UPLOAD_MAX_SIZE)).toEqual({ width: UPLOAD_MAX_SIZE });
+  });
+
+  test("keeps small or unknown sizes", () => {
+    expect(resizeToFit(1200, 800, UPLOAD_MAX_SIZE)).toBeNull();
+    expect(resizeToFit(UPLOAD_MAX_SIZE, 10, UPLOAD_MAX_SIZE)).toBeNull();
+    expect(resizeToFit(0, 0, UPLOAD_MAX_SIZE)).toBeNull();
+  });
+});
+
+describe("imageKeyFromUrl", () => {
+  test("reads the key of an item photo", () => {
+    expect(imageKeyFromUrl(COVER)).toBe("1712000000000_ab12cd");
+    expect(imageKeyFromUrl(photoUrl("items/u1/1712000000000.jpg"))).toBe("1712000000000");
+  });
+
+  test("ignores thumbnails, other folders and other URLs", () => {
+    expect(imageKeyFromUrl(photoUrl("items/u1/thumbs/1712_ab_small.jpg"))).toBe("");
+    expect(imageKeyFromUrl(photoUrl("avatars/u1.jpg"))).toBe("");
+    expect(imageKeyFromUrl("https://example.com/photo.jpg")).toBe("");
+    expect(imageKeyFromUrl("https://x/o/items%2Fu1%2F%E0.jpg")).toBe("");
+    expect(imageKeyFromUrl("")).toBe("");
+  });
+});
+
+describe("thumbnailUrl / itemThumbnail", () => {
+  test("uses the thumbnail when it exists", () => {
+    expect(thumbnailUrl(thumbs, COVER, "small")).toBe("https://thumb/cover_small.jpg");
+    expect(thumbnailUrl(thumbs, COVER, "medium")).toBe("https://thumb/cover_medium.jpg");
+  });
+
+  test("falls back to the photo", () => {
+    expect(thumbnailUrl(thumbs, SECOND, "small")).toBe(SECOND);
+    expect(thumbnailUrl(undefined, COVER, "small")).toBe(COVER);
+    expect(thumbnailUrl({ "1712000000000_ab12cd": "bad" }, COVER, "small")).toBe(COVER);
+  });
+
+  test("picks the cover of galleries and older items", () => {
+    expect(itemThumbnail({ images: [COVER, SECOND], thumbs }, "small")).toBe("https://thumb/cover_small.jpg");
+    expect(itemThumbnail({ images: [SECOND, COVER], thumbs }, "small")).toBe(SECOND);
+    expect(itemThumbnail({ imageUrl: COVER, thumbs }, "small")).toBe("https://thumb/cover_small.jpg");
+    expect(itemThumbnail({}, "small")).toBe("");
+  });
+});
+
+describe("server parity", () => {
+  test("thumbnail sizes match", () => {
+    expect(server.THUMB_SIZES).toEqual(THUMB_SIZES);
+  });
+
+  test("photo keys match", () => {
+    for (const url of [COVER, SECOND, photoUrl("items/u1/thumbs/1_small.jpg"), "https://example.com/a.jpg"]) {
+      expect(server.parseItemImageUrl(url)?.key ?? "").toBe(imageKeyFromUrl(url));
+    }
+  });
+
+  test("thumbnails are stored outside the photo path", () => {
+    const path = server.thumbPath("u1", "1712_ab", "small");
+    expect(path).toBe("items/u1/thumbs/1712_ab_small.jpg");
+    expect(server.parseItemImagePath(path)).toBeNull();
+    expect(server.parseItemImagePath("items/u1/1712_ab.jpg")).toEqual({ ownerId: "u1", key: "1712_ab" });
+  });
+
+  test("lists the photos of an item once", () => {
+    expect(server.itemImagePaths({ images: [COVER, SECOND, COVER] }).map((p: any) => p.key)).toEqual([
+      "1712000000000_ab12cd",
+      "1712000000001_ef34gh",
+    ]);
+    expect(server.itemImagePaths({ imageUrl: COVER })).toEqual([{ ownerId: "u1", key: "1712000000000_ab12cd" }]);
+    expect(server.itemImagePaths({})).toEqual([]);
+  });
+
+  test("only the owner's photos count as the item's own", () => {
+    const other = photoUrl("items/u2/1712000000002_ij56kl.jpg");
+
+    expect(server.ownItemImagePaths({ ownerId: "u1", images: [COVER, other] })).toEqual([
+      { ownerId: "u1", key: "1712000000000_ab12cd" },
+    ]);
+    expect(server.ownItemImagePaths({ ownerId: "u2", imageUrl: COVER })).toEqual([]);
+  });
+});
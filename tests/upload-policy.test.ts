@@ -0,0 +1,93 @@
+import {
+  MAX_UPLOAD_ATTEMPTS,
+  RETRY_BASE_MS,
+  RETRY_MAX_MS,
+  UPLOAD_CANCELED,
+  UPLOAD_STALLED,
+  UPLOAD_TOO_LARGE,
+  formatPercent,
+  isRetryableUploadError,
+  isUploadCanceled,
+  retryDelayMs,
+  uploadError,
+  uploadErrorMessage,
+  uploadFraction,
+} from "../lib/upload-policy";
+
+const err = (code: string) => ({ code });
+
+describe("retryDelayMs", () => {
+  test("doubles the wait after each failure", () => {
+    const middle = () => 0.5; // no jitter
+    expect(retryDelayMs(1, middle)).toBe(RETRY_BASE_MS);
+    expect(retryDelayMs(2, middle)).toBe(RETRY_BASE_MS * 2);
+    expect(retryDelayMs(3, middle)).toBe(RETRY_BASE_MS * 4);
+  });
+
+  test("is capped", () => {
+    expect(retryDelayMs(30, () => 0.5)).toBe(RETRY_MAX_MS);
+  });
+
+  test("adds up to 20% jitter either way", () => {
+    expect(retryDelayMs(1, () => 0)).toBe(RETRY_BASE_MS * 0.8);
+    expect(retryDelayMs(1, () => 1)).toBe(RETRY_BASE_MS * 1.2);
+  });
+
+  test("allows a few retries", () => {
+    expect(MAX_UPLOAD_ATTEMPTS).toBeGreaterThan(1);
+  });
+});
+
+describe("isRetryableUploadError", () => {
+  test("retries network, server and stall errors", () => {
+    expect(isRetryableUploadError(err("storage/retry-limit-exceeded"))).toBe(true);
+    expect(isRetryableUploadError(err("storage/unknown"))).toBe(true);
+    expect(isRetryableUploadError(err(UPLOAD_STALLED))).toBe(true);
+    expect(isRetryableUploadError(new Error("Network request failed"))).toBe(true);
+  });
+
+  test("does not retry permission, quota or canceled uploads", () => {
+    expect(isRetryableUploadError(err("storage/unauthorized"))).toBe(false);
+    expect(isRetryableUploadError(err("storage/unauthenticated"))).toBe(false);
+    expect(isRetryableUploadError(err("storage/quota-exceeded"))).toBe(false);
+    expect(isRetryableUploadError(err("storage/canceled"))).toBe(false);
+    expect(isRetryableUploadError(uploadError(UPLOAD_CANCELED, "Upload canceled"))).toBe(false);
+    expect(isRetryableUploadError(err(UPLOAD_TOO_LARGE))).toBe(false);
+  });
+});
+
+describe("isUploadCanceled", () => {
+  test("recognizes both cancel codes", () => {
+    expect(isUploadCanceled(uploadError(UPLOAD_CANCELED, "Upload canceled"))).toBe(true);
+    expect(isUploadCanceled(err("storage/canceled"))).toBe(true);
+    expect(isUploadCanceled(err(UPLOAD_STALLED))).toBe(false);
+    expect(isUploadCanceled(null)).toBe(false);
+  });
+});
+
+describe("progress", () => {
+  test("uploadFraction is 0-1 and 0 before the size is known", () => {
+    expect(uploadFraction(50, 200)).toBe(0.25);
+    expect(uploadFraction(300, 200)).toBe(1);
+    expect(uploadFraction(10, 0)).toBe(0);
+  });
+
+  test("formatPercent rounds and clamps", () => {
+    expect(formatPercent(0.424)).toBe("42%");
+    expect(formatPercent(1.5)).toBe("100%");
+    expect(formatPercent(-1)).toBe("0%");
+  });
+});
+
+describe("uploadErrorMessage", () => {
+  test("explains slow connections and permission problems", () => {
+    expect(uploadErrorMessage(err(UPLOAD_STALLED))).toMatch(/connection/);
+    expect(uploadErrorMessage(err("storage/retry-limit-exceeded"))).toMatch(/connection/);
+    expect(uploadErrorMessage(err("storage/unauthorized"))).toMatch(/sign in/);
+    expect(uploadErrorMessage(err(UPLOAD_TOO_LARGE))).toMatch(/too large/);
+  });
+
+  test("has a generic fallback", () => {
+    expect(uploadErrorMessage(new Error("boom"))).toBe("The photo could not be uploaded. Please try again.");
+  });
+});